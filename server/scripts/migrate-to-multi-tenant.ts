@@ -2,7 +2,8 @@
  * Migration Script: Add organizationId to existing data
  *
  * This script creates a default organization and assigns all existing
- * team members and tasks to it for multi-tenancy migration.
+ * team members and tasks to it for multi-tenancy migration. Webhooks, task
+ * templates and recurring tasks are assigned to their creator's organization.
  *
  * Usage: npx ts-node scripts/migrate-to-multi-tenant.ts
  */
@@ -94,6 +95,58 @@ const DEFAULT_ORG_CONFIG = {
   isActive: true,
 };
 
+/**
+ * Backfill organizationId on a collection from each document's creator,
+ * falling back to the default organization when the creator is unknown
+ */
+async function backfillFromCreator(
+  db: NonNullable<typeof mongoose.connection.db>,
+  collectionName: string,
+  fallbackOrganizationId: string
+): Promise<number> {
+  const collection = db.collection(collectionName);
+  const teamMembersCollection = db.collection("teammembers");
+  const missingOrganization = {
+    $or: [
+      { organizationId: { $exists: false } },
+      { organizationId: null },
+      { organizationId: "" },
+    ],
+  };
+
+  let updated = 0;
+  const creatorIds = await collection.distinct(
+    "createdBy",
+    missingOrganization
+  );
+
+  for (const creatorId of creatorIds) {
+    const creator =
+      creatorId && mongoose.isValidObjectId(creatorId)
+        ? await teamMembersCollection.findOne({
+            _id: new mongoose.Types.ObjectId(String(creatorId)),
+          })
+        : null;
+
+    const result = await collection.updateMany(
+      { ...missingOrganization, createdBy: creatorId },
+      {
+        $set: {
+          organizationId: creator?.organizationId || fallbackOrganizationId,
+        },
+      }
+    );
+    updated += result.modifiedCount;
+  }
+
+  // Documents without a creator go to the default organization
+  const remaining = await collection.updateMany(missingOrganization, {
+    $set: { organizationId: fallbackOrganizationId },
+  });
+
+  return updated + remaining.modifiedCount;
+}
+
 async function migrateToMultiTenant() {
   console.log("\n🚀 Starting Multi-Tenant Migration\n");
   console.log("━".repeat(50));
@@ -260,8 +313,29 @@ async function migrateToMultiTenant() {
       console.log("✅ All activities already have organizationId");
     }
 
-    // Step 6: Create indexes
-    console.log("\n📋 Step 6: Creating indexes...");
+    // Step 6: Update Webhooks, TaskTemplates and RecurringTasks
+    console.log(
+      "\n📋 Step 6: Migrating Webhooks, TaskTemplates and RecurringTasks..."
+    );
+    const webhooksCollection = db.collection("webhooks");
+    const taskTemplatesCollection = db.collection("tasktemplates");
+    const recurringTasksCollection = db.collection("recurringtasks");
+
+    for (const collectionName of [
+      "webhooks",
+      "tasktemplates",
+      "recurringtasks",
+    ]) {
+      const modified = await backfillFromCreator(
+        db,
+        collectionName,
+        organizationId
+      );
+      console.log(`✅ Updated ${modified} ${collectionName}`);
+    }
+
+    // Step 7: Create indexes
+    console.log("\n📋 Step 7: Creating indexes...");
 
     // TeamMembers indexes
     await teamMembersCollection.createIndex({ organizationId: 1 });
@@ -286,8 +360,30 @@ async function migrateToMultiTenant() {
     await activitiesCollection.createIndex({ organizationId: 1 });
     console.log("   ✅ Activities indexes created");
 
-    // Step 7: Update organization owner reference
-    console.log("\n📋 Step 7: Updating organization owner...");
+    // Webhooks, TaskTemplates and RecurringTasks indexes
+    await webhooksCollection.createIndex({ organizationId: 1 });
+    await webhooksCollection.createIndex({
+      organizationId: 1,
+      events: 1,
+      isActive: 1,
+    });
+    await taskTemplatesCollection.createIndex({ organizationId: 1 });
+    await taskTemplatesCollection.createIndex({
+      organizationId: 1,
+      category: 1,
+      isPublic: 1,
+    });
+    await recurringTasksCollection.createIndex({ organizationId: 1 });
+    await recurringTasksCollection.createIndex({
+      organizationId: 1,
+      isActive: 1,
+    });
+    console.log(
+      "   ✅ Webhooks, TaskTemplates and RecurringTasks indexes created"
+    );
+
+    // Step 8: Update organization owner reference
+    console.log("\n📋 Step 8: Updating organization owner...");
     const ownerUser = await teamMembersCollection.findOne({
       organizationId,
       accessLevel: "owner",
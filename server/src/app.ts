@@ -5,8 +5,10 @@ import morgan from "morgan";
 import cookieParser from "cookie-parser";
 import config from "./config";
 import routes from "./routes";
-import { notFoundHandler, errorHandler } from "./middleware";
+import { notFoundHandler, errorHandler, optionalAuth } from "./middleware";
 import { rateLimiter } from "./middleware/rateLimiter";
+import { apiQuota } from "./middleware/apiQuota";
+import { requestId } from "./middleware/requestId";
 import {
   advancedCompression,
   simpleCompression,
@@ -38,6 +40,9 @@ app.use(
   })
 );
 
+// Tag each request with an ID for logs and audit entries
+app.use(requestId);
+
 // CORS configuration
 app.use(
   cors({
@@ -54,6 +59,9 @@ app.use(
       "X-RateLimit-Limit",
       "X-RateLimit-Remaining",
       "X-RateLimit-Reset",
+      "X-Quota-Limit",
+      "X-Quota-Remaining",
+      "X-Quota-Reset",
       "Retry-After",
       "X-Request-ID",
     ],
@@ -87,9 +95,15 @@ if (config.env !== "test") {
   );
 }
 
+// Rate limits follow the plan of the signed-in user's organization and the
+// monthly API quota applies to authenticated requests; the token is
+// verified again by the routes' authenticate
+app.use("/api", optionalAuth);
+
 // Initialize rate limiter and apply middleware
 // Note: Call rateLimiter.initialize() in index.ts before starting server
 app.use("/api", rateLimiter.middleware());
+app.use("/api", apiQuota);
 
 // API routes
 app.use(`/api/${config.apiVersion}`, routes);
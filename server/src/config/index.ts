@@ -50,6 +50,27 @@ interface Config {
   logging: {
     level: string;
   };
+  automation: {
+    dueSoonWindowHours: number;
+    maxCascadeDepth: number;
+    ruleRunsPerMinute: number;
+  };
+  webhooks: {
+    maxConsecutiveFailures: number;
+  };
+  timeTracking: {
+    maxTimerHours: number;
+  };
+  storage: {
+    driver: "local" | "s3";
+    localPath: string;
+    publicUrl: string;
+    signingSecret: string;
+    scanner: "none" | "eicar";
+  };
+  audit: {
+    signingSecret: string;
+  };
   apiVersion: string;
 }
 
@@ -104,6 +125,49 @@ const config: Config = {
   logging: {
     level: process.env.LOG_LEVEL || "debug",
   },
+  automation: {
+    dueSoonWindowHours: parseInt(
+      process.env.AUTOMATION_DUE_SOON_HOURS || "24",
+      10
+    ),
+    maxCascadeDepth: parseInt(
+      process.env.AUTOMATION_MAX_CASCADE_DEPTH || "3",
+      10
+    ),
+    ruleRunsPerMinute: parseInt(
+      process.env.AUTOMATION_RULE_RUNS_PER_MINUTE || "60",
+      10
+    ),
+  },
+  webhooks: {
+    maxConsecutiveFailures: parseInt(
+      process.env.WEBHOOK_MAX_CONSECUTIVE_FAILURES || "10",
+      10
+    ),
+  },
+  timeTracking: {
+    maxTimerHours: parseFloat(process.env.TIMER_MAX_HOURS || "12"),
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER === "s3" ? "s3" : "local",
+    localPath: path.resolve(
+      process.env.STORAGE_LOCAL_PATH || path.resolve(__dirname, "../../uploads")
+    ),
+    publicUrl:
+      process.env.STORAGE_PUBLIC_URL ||
+      `http://localhost:${process.env.PORT || "5000"}`,
+    signingSecret:
+      process.env.STORAGE_SIGNING_SECRET ||
+      process.env.JWT_SECRET ||
+      "default-storage-secret-change-in-production",
+    scanner: process.env.FILE_SCANNER === "eicar" ? "eicar" : "none",
+  },
+  audit: {
+    signingSecret:
+      process.env.AUDIT_SIGNING_SECRET ||
+      process.env.JWT_SECRET ||
+      "default-audit-secret-change-in-production",
+  },
   apiVersion: process.env.API_VERSION || "v1",
 };
 
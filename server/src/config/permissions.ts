@@ -0,0 +1,70 @@
+/**
+ * Permission Catalog
+ *
+ * Every permission and what each access level grants. A member's effective
+ * permissions are the grants of their custom role, or of their access level
+ * when they have none, plus their custom grants, minus their explicit
+ * denies; a deny always wins.
+ */
+
+import { AccessLevel, Permission } from "../types";
+
+export const PERMISSIONS: Permission[] = [
+  "manage_team",
+  "manage_roles",
+  "manage_permissions",
+  "create_tasks",
+  "assign_tasks",
+  "delete_tasks",
+  "edit_all_tasks",
+  "create_comments",
+  "delete_comments",
+  "manage_services",
+  "manage_workflows",
+  "manage_roadmap",
+  "view_analytics",
+  "export_data",
+  "view_audit_logs",
+];
+
+export const ACCESS_LEVEL_PERMISSIONS: Record<AccessLevel, Permission[]> = {
+  owner: [...PERMISSIONS],
+  admin: [
+    "manage_team",
+    "create_tasks",
+    "assign_tasks",
+    "delete_tasks",
+    "edit_all_tasks",
+    "create_comments",
+    "delete_comments",
+    "manage_services",
+    "manage_workflows",
+    "manage_roadmap",
+    "view_analytics",
+    "export_data",
+    "view_audit_logs",
+  ],
+  member: [
+    "create_tasks",
+    "assign_tasks",
+    "create_comments",
+    "view_analytics",
+    "export_data",
+  ],
+  viewer: ["create_comments"],
+};
+
+export const isPermission = (value: unknown): value is Permission =>
+  PERMISSIONS.includes(value as Permission);
+
+// Effective permissions, in catalog order
+export const resolvePermissions = (
+  base: Permission[],
+  granted: Permission[] = [],
+  denied: Permission[] = []
+): Permission[] =>
+  PERMISSIONS.filter(
+    (permission) =>
+      (base.includes(permission) || granted.includes(permission)) &&
+      !denied.includes(permission)
+  );
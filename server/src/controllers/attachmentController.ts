@@ -0,0 +1,297 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AttachmentDocument } from "../models/Attachment";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError, hasPermission } from "../middleware";
+import {
+  attachmentService,
+  AttachmentParent,
+} from "../services/attachment.service";
+import { accessPolicyService } from "../services/accessPolicy.service";
+import { auditService, AuditAction } from "../services/audit.service";
+import logger from "../utils/logger";
+
+// Read taskId / commentId from a query string or request body
+const pickParent = (source: Record<string, any>): AttachmentParent =>
+  source.taskId
+    ? { taskId: String(source.taskId) }
+    : { commentId: String(source.commentId) };
+
+// Record an attachment audit event against the task or comment it belongs to
+const logAttachmentEvent = (
+  req: AuthenticatedRequest,
+  action: AuditAction,
+  attachment: AttachmentDocument
+) =>
+  auditService.logRequest(req, {
+    action,
+    organizationId: attachment.organizationId,
+    entityType: attachment.taskId ? "task" : "comment",
+    entityId: (attachment.taskId || attachment.commentId)!,
+    metadata: {
+      attachmentId: attachment._id.toString(),
+      fileName: attachment.fileName,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+    },
+  });
+
+// Check the user may see ("view") or add files to ("edit") a task or
+// comment; comments follow the visibility of their task
+const authorizeParent = async (
+  req: AuthenticatedRequest,
+  parent: AttachmentParent,
+  action: "view" | "edit"
+) => {
+  const subject = await accessPolicyService.getSubject(req.user!);
+  const target = await attachmentService.getParent(
+    subject.organizationId,
+    parent
+  );
+  if (target.type === "task") {
+    accessPolicyService.assertTask(subject, target.task, action);
+    return;
+  }
+
+  const { comment } = target;
+  const task = await accessPolicyService.findCommentTask(
+    subject.organizationId,
+    { id: comment._id.toString(), contextId: comment.contextId }
+  );
+  accessPolicyService.assertComment(subject, comment, task, action);
+};
+
+// Load an attachment in the current organization that the user may see
+const findAttachment = async (req: AuthenticatedRequest) => {
+  const organizationId = req.user?.organizationId;
+  if (!organizationId) {
+    throw new AppError("Organization context required", 400);
+  }
+
+  const attachment = await attachmentService.getAttachment(
+    req.params.id,
+    organizationId
+  );
+  if (!attachment) {
+    throw new AppError("Attachment not found", 404);
+  }
+  await authorizeParent(
+    req,
+    {
+      taskId: attachment.taskId || undefined,
+      commentId: attachment.commentId || undefined,
+    },
+    "view"
+  );
+  return attachment;
+};
+
+// Get uploaded attachments of a task or comment
+export const getAttachments = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const parent = pickParent(req.query);
+    await authorizeParent(req, parent, "view");
+
+    const attachments = await attachmentService.getAttachments(
+      organizationId,
+      parent
+    );
+
+    res.json({
+      success: true,
+      data: attachments.map((attachment) => attachment.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Search attachments by file name and extracted text
+export const searchAttachments = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    if (!req.user?.organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const results = await attachmentService.search(
+      await accessPolicyService.getSubject(req.user),
+      String(req.query.q),
+      {
+        taskId: req.query.taskId ? String(req.query.taskId) : undefined,
+        commentId: req.query.commentId
+          ? String(req.query.commentId)
+          : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: results.map(({ attachment, excerpt }) => ({
+        ...attachment.toJSON(),
+        excerpt,
+      })),
+    } as ApiResponse);
+  }
+);
+
+// Get single attachment
+export const getAttachment = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attachment = await findAttachment(req);
+
+    res.json({
+      success: true,
+      data: attachment.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Start an upload: returns the pending attachment and where to PUT the file
+export const initUpload = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    // Files are added by whoever can edit the task, or by the comment author
+    const parent = pickParent(req.body);
+    await authorizeParent(req, parent, "edit");
+
+    const { attachment, upload } = await attachmentService.initUpload(
+      organizationId,
+      req.user!.userId,
+      {
+        ...parent,
+        fileName: req.body.fileName,
+        mimeType: req.body.mimeType,
+        size: req.body.size,
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: {
+        attachment: attachment.toJSON(),
+        upload: {
+          url: upload.url,
+          method: upload.method,
+          headers: upload.headers,
+          expiresAt: upload.expiresAt.getTime(),
+        },
+      },
+      message: "Upload the file, then complete the upload",
+    } as ApiResponse);
+  }
+);
+
+// Confirm a file has been uploaded
+export const completeUpload = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attachment = await findAttachment(req);
+    if (attachment.uploadedBy !== req.user?.userId) {
+      throw new AppError("Attachment not found", 404);
+    }
+
+    const completed = await attachmentService.completeUpload(attachment);
+
+    await logAttachmentEvent(req, AuditAction.ATTACHMENT_UPLOADED, completed);
+    logger.info(
+      `Attachment uploaded: ${completed.fileName} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      data: completed.toJSON(),
+      message: "Attachment uploaded successfully",
+    } as ApiResponse);
+  }
+);
+
+// Get a short-lived download URL
+export const getDownloadUrl = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attachment = await findAttachment(req);
+    const url = await attachmentService.getDownloadUrl(attachment);
+
+    res.json({
+      success: true,
+      data: { url },
+    } as ApiResponse);
+  }
+);
+
+// Get a short-lived thumbnail URL for an image attachment
+export const getThumbnailUrl = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attachment = await findAttachment(req);
+    const url = await attachmentService.getThumbnailUrl(attachment);
+
+    res.json({
+      success: true,
+      data: { url },
+    } as ApiResponse);
+  }
+);
+
+// Delete attachment (uploader, or users who may manage the task or comment)
+export const deleteAttachment = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const attachment = await findAttachment(req);
+
+    const managePermission = attachment.taskId
+      ? "edit_all_tasks"
+      : "delete_comments";
+    if (
+      attachment.uploadedBy !== req.user?.userId &&
+      !(await hasPermission(req.user!, managePermission))
+    ) {
+      throw new AppError(
+        `Permission denied. Required: ${managePermission}`,
+        403
+      );
+    }
+
+    await attachmentService.deleteAttachment(attachment);
+
+    if (attachment.status !== "pending") {
+      await logAttachmentEvent(req, AuditAction.ATTACHMENT_DELETED, attachment);
+    }
+    logger.info(
+      `Attachment deleted: ${attachment.fileName} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      message: "Attachment deleted successfully",
+    } as ApiResponse);
+  }
+);
@@ -0,0 +1,325 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import {
+  auditService,
+  AuditAction,
+  AuditLogFilter,
+  SecurityAlertType,
+} from "../services/audit.service";
+import logger from "../utils/logger";
+
+// Split a comma-separated query value into a list
+const parseList = <T extends string>(value: unknown): T[] | undefined =>
+  typeof value === "string" && value
+    ? (value.split(",").filter(Boolean) as T[])
+    : undefined;
+
+const parseDate = (value: unknown): Date | undefined =>
+  value ? new Date(Number(value)) : undefined;
+
+// Build an audit log filter from query string parameters
+const parseLogFilter = (
+  organizationId: string,
+  source: Record<string, any>
+): AuditLogFilter => ({
+  organizationId,
+  actions: parseList<AuditAction>(source.actions),
+  categories: parseList(source.categories),
+  actorId: source.actorId,
+  entityType: source.entityType,
+  entityId: source.entityId,
+  ipAddress: source.ipAddress,
+  startDate: parseDate(source.startDate),
+  endDate: parseDate(source.endDate),
+  search: source.search,
+});
+
+const requireOrganizationId = (req: AuthenticatedRequest): string => {
+  const organizationId = req.user?.organizationId;
+  if (!organizationId) {
+    throw new AppError("Organization context required", 400);
+  }
+  return organizationId;
+};
+
+// Search audit logs
+export const getLogs = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+
+    const result = await auditService.query(
+      parseLogFilter(organizationId, req.query),
+      {
+        page,
+        limit,
+        sortOrder: req.query.sortOrder === "asc" ? "asc" : "desc",
+      }
+    );
+
+    res.json({
+      success: true,
+      data: result.logs,
+      pagination: {
+        page: result.page,
+        limit,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    } as ApiResponse);
+  }
+);
+
+// Get the change history of one entity, e.g. a task
+export const getEntityHistory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const history = await auditService.getEntityHistory(
+      organizationId,
+      req.params.entityType,
+      req.params.entityId,
+      Number(req.query.limit) || 100
+    );
+
+    res.json({
+      success: true,
+      data: history,
+    } as ApiResponse);
+  }
+);
+
+// Get the actions performed by one team member
+export const getUserActivity = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const activity = await auditService.getUserActivity(
+      organizationId,
+      req.params.id,
+      {
+        startDate: parseDate(req.query.startDate),
+        endDate: parseDate(req.query.endDate),
+        limit: Number(req.query.limit) || 100,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: activity,
+    } as ApiResponse);
+  }
+);
+
+// Get audit statistics
+export const getStatistics = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const days = Number(req.query.days) || 30;
+    const [events, alerts] = await Promise.all([
+      auditService.getStatistics(organizationId, undefined, days),
+      auditService.getAlertStatistics(organizationId, days),
+    ]);
+
+    res.json({
+      success: true,
+      data: { events, alerts },
+    } as ApiResponse);
+  }
+);
+
+// Get security-relevant events (failed logins, permission changes, ...)
+export const getSecurityEvents = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const events = await auditService.getSecurityEvents(
+      organizationId,
+      undefined,
+      {
+        startDate: parseDate(req.query.startDate),
+        endDate: parseDate(req.query.endDate),
+      }
+    );
+
+    res.json({
+      success: true,
+      data: events,
+    } as ApiResponse);
+  }
+);
+
+// Get security alerts, open ones by default
+export const getAlerts = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+
+    const result = await auditService.getSecurityAlerts(organizationId, {
+      status: parseList(req.query.status) || ["new", "investigating"],
+      severity: parseList(req.query.severity),
+      alertTypes: parseList<SecurityAlertType>(req.query.alertTypes),
+      startDate: parseDate(req.query.startDate),
+      endDate: parseDate(req.query.endDate),
+      page,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: result.alerts,
+      pagination: {
+        page: result.page,
+        limit,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    } as ApiResponse);
+  }
+);
+
+const ALERT_STATUS_MESSAGES = {
+  investigating: "Alert marked as under investigation",
+  resolved: "Alert resolved",
+  dismissed: "Alert dismissed",
+};
+
+// Move a security alert through the inbox
+const setAlertStatus = (status: keyof typeof ALERT_STATUS_MESSAGES) =>
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const alert = await auditService.updateAlertStatus(
+      organizationId,
+      req.params.id,
+      status,
+      req.user?.userId,
+      req.body.resolution
+    );
+    if (!alert) {
+      throw new AppError("Security alert not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: alert.toJSON(),
+      message: ALERT_STATUS_MESSAGES[status],
+    } as ApiResponse);
+  });
+
+export const investigateAlert = setAlertStatus("investigating");
+export const resolveAlert = setAlertStatus("resolved");
+export const dismissAlert = setAlertStatus("dismissed");
+
+// Verify the organization's audit log hash chain
+export const verifyChain = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = requireOrganizationId(req);
+    const result = await auditService.verifyChain(organizationId);
+
+    res.json({
+      success: true,
+      data: result,
+      message: result.valid
+        ? "Audit log chain is intact"
+        : "Audit log chain is broken",
+    } as ApiResponse);
+  }
+);
+
+// Stream matching audit logs as a CSV or JSON download
+export const exportLogs = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const format = req.query.format === "csv" ? "csv" : "json";
+    const filter = parseLogFilter(organizationId, req.query);
+
+    await auditService.logRequest(req, {
+      action: AuditAction.DATA_EXPORTED,
+      entityType: "audit_log",
+      entityId: organizationId,
+      metadata: { format, filter: { ...filter, organizationId: undefined } },
+    });
+
+    const date = new Date().toISOString().split("T")[0];
+    res.setHeader(
+      "Content-Type",
+      format === "csv" ? "text/csv; charset=utf-8" : "application/json"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-log-${date}.${format}"`
+    );
+
+    const stream = auditService.streamLogs(filter, format);
+    stream.on("error", (error) => {
+      logger.error("Audit log export failed:", error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
+);
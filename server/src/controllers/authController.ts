@@ -1,13 +1,20 @@
 import { Response } from "express";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
+import mongoose from "mongoose";
 import { validationResult } from "express-validator";
-import { TeamMember } from "../models";
+import { Organization, TeamMember } from "../models";
 import config from "../config";
 import { AuthenticatedRequest, ApiResponse } from "../types";
 import { asyncHandler, AppError } from "../middleware";
 import logger from "../utils/logger";
 import { securityConfig } from "../config/security.config";
+import { permissionService } from "../services/permission.service";
+import {
+  auditService,
+  AuditAction,
+  calculateChanges,
+} from "../services/audit.service";
 
 // Cookie configuration for refresh token (HTTP-only for security)
 const REFRESH_TOKEN_COOKIE_NAME = "refreshToken";
@@ -114,6 +121,18 @@ export const register = asyncHandler(
       lastSeen: new Date(),
     });
 
+    await auditService.logRequest(req, {
+      action: AuditAction.USER_CREATED,
+      organizationId: orgId,
+      actorId: user._id.toString(),
+      actorEmail: user.email,
+      actorName: user.name,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+      metadata: { accessLevel: user.accessLevel, selfRegistered: true },
+    });
+
     logger.info(`New user registered: ${email} in org: ${orgId}`);
 
     res.status(201).json({
@@ -129,6 +148,24 @@ export const register = asyncHandler(
 );
 
 // Login user - updated to scope by organization
+// Organization a login attempt belongs to: the one resolved by the server,
+// or the body's organizationId once it is known to exist
+const findLoginOrganizationId = async (
+  req: AuthenticatedRequest,
+  organizationId: unknown
+): Promise<string | undefined> => {
+  if (req.organization?.id) {
+    return req.organization.id;
+  }
+  if (
+    mongoose.isValidObjectId(organizationId) &&
+    (await Organization.exists({ _id: organizationId, isActive: true }))
+  ) {
+    return String(organizationId);
+  }
+  return undefined;
+};
+
 export const login = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
     const errors = validationResult(req);
@@ -153,12 +190,34 @@ export const login = asyncHandler(
     // Find user with password
     const user = await TeamMember.findOne(query).select("+password");
     if (!user) {
+      // Attempts on unknown emails are only attributed to an organization
+      // that exists, never to an arbitrary id taken from the body
+      const auditOrgId = await findLoginOrganizationId(req, organizationId);
+      if (auditOrgId) {
+        await auditService.logRequest(req, {
+          action: AuditAction.LOGIN_FAILED,
+          organizationId: auditOrgId,
+          actorEmail: email,
+          entityType: "user",
+          entityId: email,
+          metadata: { reason: "unknown_email" },
+        });
+      }
       throw new AppError("Invalid credentials", 401);
     }
 
     // Check password
     const isMatch = await user.comparePassword(password);
     if (!isMatch) {
+      await auditService.logRequest(req, {
+        action: AuditAction.LOGIN_FAILED,
+        organizationId: user.organizationId,
+        actorEmail: user.email,
+        entityType: "user",
+        entityId: user._id.toString(),
+        entityName: user.name,
+        metadata: { reason: "invalid_password" },
+      });
       throw new AppError("Invalid credentials", 401);
     }
 
@@ -173,6 +232,17 @@ export const login = asyncHandler(
       lastSeen: new Date(),
     });
 
+    await auditService.logRequest(req, {
+      action: AuditAction.LOGIN,
+      organizationId: user.organizationId,
+      actorId: user._id.toString(),
+      actorEmail: user.email,
+      actorName: user.name,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+    });
+
     logger.info(`User logged in: ${email} (org: ${user.organizationId})`);
 
     res.json({
@@ -195,6 +265,11 @@ export const logout = asyncHandler(
         isOnline: false,
         lastSeen: new Date(),
       });
+      await auditService.logRequest(req, {
+        action: AuditAction.LOGOUT,
+        entityType: "user",
+        entityId: req.user.userId,
+      });
       logger.info(`User logged out: ${req.user.email}`);
     }
 
@@ -264,6 +339,18 @@ export const getCurrentUser = asyncHandler(
   }
 );
 
+// Get the current user's effective permissions
+export const getPermissions = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const permissions = await permissionService.getEffective(req.user!);
+
+    res.json({
+      success: true,
+      data: permissions,
+    } as ApiResponse);
+  }
+);
+
 // Update current user profile
 export const updateProfile = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
@@ -281,6 +368,11 @@ export const updateProfile = asyncHandler(
     if (name) updateData.name = name;
     if (avatarUrl) updateData.avatarUrl = avatarUrl;
 
+    const previous = await TeamMember.findById(req.user?.userId);
+    if (!previous) {
+      throw new AppError("User not found", 404);
+    }
+
     const user = await TeamMember.findByIdAndUpdate(
       req.user?.userId,
       updateData,
@@ -291,6 +383,18 @@ export const updateProfile = asyncHandler(
       throw new AppError("User not found", 404);
     }
 
+    await auditService.logRequest(req, {
+      action: AuditAction.USER_UPDATED,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+      changes: calculateChanges(
+        previous.toJSON(),
+        user.toJSON(),
+        Object.keys(updateData)
+      ),
+    });
+
     res.json({
       success: true,
       data: user.toJSON(),
@@ -330,6 +434,13 @@ export const changePassword = asyncHandler(
     user.password = newPassword;
     await user.save();
 
+    await auditService.logRequest(req, {
+      action: AuditAction.PASSWORD_CHANGED,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+    });
+
     logger.info(`Password changed for user: ${user.email}`);
 
     res.json({
@@ -364,6 +475,15 @@ export const forgotPassword = asyncHandler(
     const resetToken = user.createPasswordResetToken();
     await user.save({ validateBeforeSave: false });
 
+    await auditService.logRequest(req, {
+      action: AuditAction.PASSWORD_RESET_REQUESTED,
+      organizationId: user.organizationId,
+      actorEmail: user.email,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+    });
+
     // In production, send email with reset link
     // For now, we'll return the token in development
     const resetUrl = `${
@@ -420,6 +540,18 @@ export const resetPassword = asyncHandler(
     user.passwordResetExpires = undefined;
     await user.save();
 
+    await auditService.logRequest(req, {
+      action: AuditAction.PASSWORD_CHANGED,
+      organizationId: user.organizationId,
+      actorId: user._id.toString(),
+      actorEmail: user.email,
+      actorName: user.name,
+      entityType: "user",
+      entityId: user._id.toString(),
+      entityName: user.name,
+      metadata: { method: "reset_token" },
+    });
+
     logger.info(`Password reset successful for: ${user.email}`);
 
     res.json({
@@ -0,0 +1,321 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { Task } from "../models";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import { automationService } from "../services/automation.service";
+import logger from "../utils/logger";
+
+// Fields clients may not set directly on a rule
+const PROTECTED_RULE_FIELDS = [
+  "organizationId",
+  "createdBy",
+  "executionCount",
+  "lastExecutedAt",
+  "createdAt",
+];
+
+const sanitizeRuleInput = (body: Record<string, any>) => {
+  const data = { ...body };
+  for (const field of PROTECTED_RULE_FIELDS) {
+    delete data[field];
+  }
+  return data;
+};
+
+// Get all automation rules for the organization
+export const getRules = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const { isActive } = req.query;
+    const rules = await automationService.getRules(organizationId, {
+      isActive:
+        isActive !== undefined ? String(isActive) === "true" : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: rules.map((rule) => rule.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Get single automation rule
+export const getRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.getRule(req.params.id, organizationId);
+    if (!rule) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: rule.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Create automation rule
+export const createRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.createRule(
+      { ...sanitizeRuleInput(req.body), createdBy: req.user?.userId },
+      organizationId
+    );
+
+    logger.info(
+      `Automation rule created: ${rule.name} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: rule.toJSON(),
+      message: "Automation rule created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update automation rule
+export const updateRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.updateRule(
+      req.params.id,
+      { ...sanitizeRuleInput(req.body), updatedAt: Date.now() },
+      organizationId
+    );
+    if (!rule) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: rule.toJSON(),
+      message: "Automation rule updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete automation rule
+export const deleteRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const deleted = await automationService.deleteRule(
+      req.params.id,
+      organizationId
+    );
+    if (!deleted) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    logger.info(
+      `Automation rule deleted: ${req.params.id} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      message: "Automation rule deleted successfully",
+    } as ApiResponse);
+  }
+);
+
+// Enable or disable an automation rule
+const setRuleActive = (isActive: boolean) =>
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.updateRule(
+      req.params.id,
+      { isActive, updatedAt: Date.now() },
+      organizationId
+    );
+    if (!rule) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: rule.toJSON(),
+      message: isActive
+        ? "Automation rule enabled"
+        : "Automation rule disabled",
+    } as ApiResponse);
+  });
+
+export const enableRule = setRuleActive(true);
+export const disableRule = setRuleActive(false);
+
+// Get predefined automation templates
+export const getTemplates = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: automationService.getTemplates(),
+    } as ApiResponse);
+  }
+);
+
+// Create a rule from a predefined template
+export const instantiateTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.createRuleFromTemplate(
+      req.params.templateId,
+      sanitizeRuleInput(req.body),
+      organizationId,
+      req.user!.userId
+    );
+    if (!rule) {
+      throw new AppError("Automation template not found", 404);
+    }
+
+    logger.info(
+      `Automation rule created from template ${req.params.templateId} by ${req.user?.email}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: rule.toJSON(),
+      message: "Automation rule created from template",
+    } as ApiResponse);
+  }
+);
+
+// Get execution history for a rule
+export const getRuleExecutions = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.getRule(req.params.id, organizationId);
+    if (!rule) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    const { page = 1, limit = 50 } = req.query;
+    const result = await automationService.getExecutions(
+      req.params.id,
+      organizationId,
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    res.json({
+      success: true,
+      data: result.executions.map((execution) => execution.toJSON()),
+      pagination: {
+        page: result.page,
+        limit: Number(limit),
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    } as ApiResponse);
+  }
+);
+
+// Evaluate a rule against a task without executing its actions
+export const dryRunRule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const rule = await automationService.getRule(req.params.id, organizationId);
+    if (!rule) {
+      throw new AppError("Automation rule not found", 404);
+    }
+
+    const { taskId, changes, previousTask } = req.body;
+    let task;
+    if (taskId) {
+      task = await Task.findOne({ _id: taskId, organizationId });
+      if (!task) {
+        throw new AppError("Task not found", 404);
+      }
+    }
+
+    const result = automationService.dryRun(rule, {
+      task: task?.toJSON(),
+      previousTask,
+      changes,
+      user: req.user,
+      organizationId,
+    });
+
+    res.json({
+      success: true,
+      data: { ruleId: rule._id.toString(), ...result },
+    } as ApiResponse);
+  }
+);
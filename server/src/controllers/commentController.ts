@@ -1,6 +1,7 @@
 import { Response } from "express";
 import { validationResult } from "express-validator";
-import { Comment, Activity } from "../models";
+import mongoose from "mongoose";
+import { Comment, Activity, Task } from "../models";
 import {
   AuthenticatedRequest,
   ApiResponse,
@@ -10,6 +11,19 @@ import { asyncHandler, AppError } from "../middleware";
 import { cacheService } from "../services/cache.service";
 import { wsService } from "../services/websocket.service";
 import { jobQueue } from "../services/jobQueue.service";
+import { automationService } from "../services/automation.service";
+import { webhookService } from "../services/webhook.service";
+import { attachmentService } from "../services/attachment.service";
+import {
+  accessPolicyService,
+  CommentAction,
+  commentRoom,
+} from "../services/accessPolicy.service";
+import {
+  auditService,
+  AuditAction,
+  AuditLogParams,
+} from "../services/audit.service";
 import logger from "../utils/logger";
 
 // Helper to transform lean query results - converts _id to id
@@ -32,6 +46,66 @@ const transformLeanDocs = <T extends { _id?: any; id?: string }>(
   return docs.map(transformLeanDoc);
 };
 
+// Record a comment audit event for the request's user
+const logCommentEvent = (
+  req: AuthenticatedRequest,
+  action: AuditAction,
+  comment: Record<string, any>,
+  details: Pick<AuditLogParams, "changes" | "metadata"> = {}
+) =>
+  auditService.logRequest(req, {
+    action,
+    entityType: "comment",
+    entityId: comment.id,
+    entityName: comment.contextType,
+    ...details,
+    metadata: {
+      contextType: comment.contextType,
+      contextId: comment.contextId,
+      ...details.metadata,
+    },
+  });
+
+// Check the user may act on a comment, given the task it belongs to
+const authorizeComment = async (
+  req: AuthenticatedRequest,
+  comment: { id?: string; authorId: string; contextId?: string },
+  action: CommentAction
+) => {
+  const subject = await accessPolicyService.getSubject(req.user!);
+  const task = await accessPolicyService.findCommentTask(
+    subject.organizationId,
+    comment
+  );
+  accessPolicyService.assertComment(subject, comment, task, action);
+};
+
+// Queue the comment_added automation trigger and comment.created webhook event,
+// resolving the commented task if any
+const queueCommentAddedTrigger = async (
+  commentObj: Record<string, any>,
+  req: AuthenticatedRequest
+) => {
+  const organizationId = req.user?.organizationId;
+  const conditions: any[] = [{ comments: commentObj.id }];
+  if (commentObj.contextId && mongoose.isValidObjectId(commentObj.contextId)) {
+    conditions.push({ _id: commentObj.contextId });
+  }
+
+  const task = await Task.findOne({ organizationId, $or: conditions });
+
+  await automationService.queueTrigger("comment_added", {
+    task: task ? task.toJSON() : undefined,
+    comment: commentObj,
+    user: req.user,
+    organizationId,
+  });
+  await webhookService.dispatchEvent(organizationId, "comment.created", {
+    comment: commentObj,
+    taskId: task ? task._id.toString() : undefined,
+  });
+};
+
 // Get all comments with filtering and caching - UPDATED for multi-tenancy
 export const getComments = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
@@ -52,14 +126,22 @@ export const getComments = asyncHandler(
       throw new AppError("Organization context required", 400);
     }
 
-    // Create cache key from filters including organizationId
-    const cacheKey = `comments:${organizationId}:${JSON.stringify(req.query)}`;
+    const subject = await accessPolicyService.getSubject(req.user!);
+
+    // Create cache key from filters including organizationId; lists are
+    // per user since comments on private tasks are left out
+    const cacheKey = `comments:${organizationId}:${
+      subject.userId
+    }:${JSON.stringify(req.query)}`;
 
     const result = await cacheService.getOrSet(
       cacheKey,
       async () => {
-        // Always scope by organizationId
-        const query: any = { organizationId };
+        // Always scope by organizationId and task visibility
+        const query: any = {
+          organizationId,
+          $and: [await accessPolicyService.commentVisibilityFilter(subject)],
+        };
 
         if (contextType) query.contextType = contextType;
         if (contextId) query.contextId = contextId;
@@ -113,9 +195,12 @@ export const getComment = asyncHandler(
       throw new AppError("Comment not found", 404);
     }
 
+    const commentObj = transformLeanDoc(comment);
+    await authorizeComment(req, commentObj, "view");
+
     res.json({
       success: true,
-      data: transformLeanDoc(comment),
+      data: commentObj,
     } as ApiResponse);
   }
 );
@@ -136,6 +221,12 @@ export const createComment = asyncHandler(
       throw new AppError("Organization context required", 400);
     }
 
+    await authorizeComment(
+      req,
+      { authorId: req.user!.userId, contextId: req.body.contextId },
+      "create"
+    );
+
     const commentData = {
       ...req.body,
       organizationId, // Add organizationId to comment
@@ -211,6 +302,11 @@ export const createComment = asyncHandler(
       );
     }
 
+    await queueCommentAddedTrigger(commentObj, req);
+    await logCommentEvent(req, AuditAction.COMMENT_ADDED, commentObj, {
+      metadata: { mentions: comment.mentions?.length || 0 },
+    });
+
     logger.info(
       `Comment created by ${req.user?.email} in org: ${organizationId}`
     );
@@ -241,10 +337,9 @@ export const updateComment = asyncHandler(
     }
 
     // Only author can update their comment
-    if (comment.authorId !== req.user?.userId) {
-      throw new AppError("Not authorized to update this comment", 403);
-    }
+    await authorizeComment(req, comment, "edit");
 
+    const previousContent = comment.content;
     const { content } = req.body;
     if (content) {
       comment.content = content;
@@ -252,11 +347,28 @@ export const updateComment = asyncHandler(
 
     await comment.save();
 
+    if (comment.content !== previousContent) {
+      await logCommentEvent(
+        req,
+        AuditAction.COMMENT_UPDATED,
+        comment.toJSON(),
+        {
+          changes: [
+            {
+              field: "content",
+              oldValue: previousContent,
+              newValue: comment.content,
+            },
+          ],
+        }
+      );
+    }
+
     // Invalidate cache
     await cacheService.invalidateByTag("comments");
 
     // Broadcast update
-    const room = `${comment.contextType}:${comment.contextId}`;
+    const room = commentRoom(comment);
     await wsService.broadcastToRoom(room, "comment:updated", {
       comment: comment.toJSON(),
       updatedBy: req.user?.userId,
@@ -287,21 +399,33 @@ export const deleteComment = asyncHandler(
       throw new AppError("Comment not found", 404);
     }
 
+    // Authors delete their own comments; others need delete_comments
+    await authorizeComment(req, comment, "delete");
+
     const contextType = comment.contextType;
     const contextId = comment.contextId;
 
     await Comment.findByIdAndDelete(req.params.id);
+    await attachmentService.deleteForParent(organizationId, {
+      commentId: req.params.id,
+    });
 
     // Invalidate cache
     await cacheService.invalidateByTag("comments");
 
     // Broadcast deletion
-    const room = `${contextType}:${contextId}`;
+    const room = commentRoom({ organizationId, contextType, contextId });
     await wsService.broadcastToRoom(room, "comment:deleted", {
       commentId: req.params.id,
       deletedBy: req.user?.userId,
     });
 
+    await webhookService.dispatchEvent(organizationId, "comment.deleted", {
+      comment: comment.toJSON(),
+      deletedBy: req.user?.userId,
+    });
+    await logCommentEvent(req, AuditAction.COMMENT_DELETED, comment.toJSON());
+
     logger.info(`Comment deleted by ${req.user?.email}`);
 
     res.json({
@@ -328,14 +452,26 @@ export const toggleResolve = asyncHandler(
       throw new AppError("Comment not found", 404);
     }
 
+    await authorizeComment(req, comment, "resolve");
+
     comment.isResolved = !comment.isResolved;
     await comment.save();
 
+    await logCommentEvent(req, AuditAction.COMMENT_UPDATED, comment.toJSON(), {
+      changes: [
+        {
+          field: "isResolved",
+          oldValue: !comment.isResolved,
+          newValue: comment.isResolved,
+        },
+      ],
+    });
+
     // Invalidate cache
     await cacheService.invalidateByTag("comments");
 
     // Broadcast status change
-    const room = `${comment.contextType}:${comment.contextId}`;
+    const room = commentRoom(comment);
     await wsService.broadcastToRoom(room, "comment:resolved", {
       comment: comment.toJSON(),
       resolvedBy: req.user?.userId,
@@ -372,6 +508,8 @@ export const addReaction = asyncHandler(
       throw new AppError("Comment not found", 404);
     }
 
+    await authorizeComment(req, comment, "react");
+
     // Remove existing reaction from same user
     comment.reactions = comment.reactions.filter(
       (r) => r.userId !== req.user?.userId
@@ -382,7 +520,7 @@ export const addReaction = asyncHandler(
     await comment.save();
 
     // Broadcast reaction
-    const room = `${comment.contextType}:${comment.contextId}`;
+    const room = commentRoom(comment);
     await wsService.broadcastToRoom(room, "comment:reaction", {
       commentId: comment._id.toString(),
       reactions: comment.reactions,
@@ -414,13 +552,15 @@ export const removeReaction = asyncHandler(
       throw new AppError("Comment not found", 404);
     }
 
+    await authorizeComment(req, comment, "react");
+
     comment.reactions = comment.reactions.filter(
       (r) => r.userId !== req.user?.userId
     );
     await comment.save();
 
     // Broadcast reaction removal
-    const room = `${comment.contextType}:${comment.contextId}`;
+    const room = commentRoom(comment);
     await wsService.broadcastToRoom(room, "comment:reaction", {
       commentId: comment._id.toString(),
       reactions: comment.reactions,
@@ -460,6 +600,8 @@ export const addReply = asyncHandler(
       throw new AppError("Parent comment not found", 404);
     }
 
+    await authorizeComment(req, parentComment, "create");
+
     // Create reply as a new comment with organizationId
     const reply = await Comment.create({
       ...req.body,
@@ -474,14 +616,16 @@ export const addReply = asyncHandler(
     parentComment.replies.push(reply._id);
     await parentComment.save();
 
+    const replyObj = reply.toJSON();
+
     // Invalidate cache
     await cacheService.invalidateByTag("comments");
 
     // Broadcast reply
-    const room = `${parentComment.contextType}:${parentComment.contextId}`;
+    const room = commentRoom(parentComment);
     await wsService.broadcastToRoom(room, "comment:reply", {
       parentCommentId: parentComment._id.toString(),
-      reply: reply.toJSON(),
+      reply: replyObj,
       addedBy: req.user?.userId,
     });
 
@@ -494,9 +638,14 @@ export const addReply = asyncHandler(
       });
     }
 
+    await queueCommentAddedTrigger(replyObj, req);
+    await logCommentEvent(req, AuditAction.COMMENT_ADDED, replyObj, {
+      metadata: { parentCommentId: parentComment._id.toString() },
+    });
+
     res.status(201).json({
       success: true,
-      data: reply.toJSON(),
+      data: replyObj,
       message: "Reply added",
     } as ApiResponse);
   }
@@ -8,6 +8,9 @@ import {
 } from "../types";
 import { asyncHandler, AppError } from "../middleware";
 import { cacheService } from "../services/cache.service";
+import { storageUsageService } from "../services/storageUsage.service";
+import { planLimitsService } from "../services/planLimits.service";
+import { auditService, AuditAction } from "../services/audit.service";
 import logger from "../utils/logger";
 
 // Helper to transform lean query results - converts _id to id
@@ -384,6 +387,17 @@ export const exportData = asyncHandler(
       settings: {},
     };
 
+    await auditService.logRequest(req, {
+      action: AuditAction.DATA_EXPORTED,
+      entityType: "organization",
+      entityId: organizationId,
+      metadata: {
+        tasks: tasks.length,
+        comments: comments.length,
+        teamMembers: teamMembers.length,
+      },
+    });
+
     logger.info(
       `Data exported by ${req.user?.email} for org: ${organizationId}`
     );
@@ -458,6 +472,13 @@ export const importData = asyncHandler(
     await cacheService.invalidateByTag("comments");
     await cacheService.invalidateByTag("statistics");
 
+    await auditService.logRequest(req, {
+      action: AuditAction.DATA_IMPORTED,
+      entityType: "organization",
+      entityId: organizationId,
+      metadata: { ...results, clearExisting: Boolean(clearExisting) },
+    });
+
     logger.info(
       `Data imported by ${
         req.user?.email
@@ -501,24 +522,46 @@ export const createBackup = asyncHandler(
       }),
     };
 
-    const backup = await Backup.create({
-      organizationId,
-      timestamp: Date.now(),
-      data: JSON.stringify(backupData),
-      userId: req.user?.userId,
-      type,
-    });
+    const data = JSON.stringify(backupData);
+    const size = Buffer.byteLength(data);
+    await storageUsageService.reserve(organizationId, "backup", size);
+
+    let backup;
+    try {
+      backup = await Backup.create({
+        organizationId,
+        timestamp: Date.now(),
+        data,
+        userId: req.user?.userId,
+        type,
+      });
+    } catch (error) {
+      await storageUsageService.release(organizationId, "backup", size);
+      throw error;
+    }
 
     // Keep only 10 most recent backups per organization
-    const orgBackups = await Backup.find({ organizationId }).sort({
-      timestamp: -1,
-    });
+    const orgBackups = await Backup.find({ organizationId })
+      .sort({ timestamp: -1 })
+      .select("size");
 
     if (orgBackups.length > 10) {
       const toDelete = orgBackups.slice(10);
       await Backup.deleteMany({ _id: { $in: toDelete.map((b) => b._id) } });
+      await storageUsageService.release(
+        organizationId,
+        "backup",
+        toDelete.reduce((sum, b) => sum + (b.size || 0), 0)
+      );
     }
 
+    await auditService.logRequest(req, {
+      action: AuditAction.BACKUP_CREATED,
+      entityType: "backup",
+      entityId: backup._id.toString(),
+      metadata: { type: backup.type, size },
+    });
+
     logger.info(
       `Backup created by ${req.user?.email} for org: ${organizationId}`
     );
@@ -599,6 +642,18 @@ export const restoreBackup = asyncHandler(
     await cacheService.invalidateByTag("tasks");
     await cacheService.invalidateByTag("comments");
     await cacheService.invalidateByTag("statistics");
+    await planLimitsService.invalidate(organizationId);
+
+    await auditService.logRequest(req, {
+      action: AuditAction.BACKUP_RESTORED,
+      entityType: "backup",
+      entityId: backup._id.toString(),
+      metadata: {
+        backupTimestamp: backup.timestamp,
+        tasks: data.tasks?.length || 0,
+        comments: data.comments?.length || 0,
+      },
+    });
 
     logger.info(
       `Backup restored by ${req.user?.email} for org: ${organizationId}`
@@ -629,6 +684,18 @@ export const deleteBackup = asyncHandler(
     }
 
     await Backup.findByIdAndDelete(req.params.id);
+    await storageUsageService.release(
+      organizationId,
+      "backup",
+      backup.size || Buffer.byteLength(backup.data)
+    );
+
+    await auditService.logRequest(req, {
+      action: AuditAction.BACKUP_DELETED,
+      entityType: "backup",
+      entityId: backup._id.toString(),
+      metadata: { type: backup.type, backupTimestamp: backup.timestamp },
+    });
 
     res.json({
       success: true,
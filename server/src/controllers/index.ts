@@ -3,3 +3,14 @@ export * as taskController from "./taskController";
 export * as commentController from "./commentController";
 export * as teamController from "./teamController";
 export * as dataController from "./dataController";
+export * as automationController from "./automationController";
+export * as webhookController from "./webhookController";
+export * as recurringTaskController from "./recurringTaskController";
+export * as templateController from "./templateController";
+export * as timeEntryController from "./timeEntryController";
+export * as timesheetController from "./timesheetController";
+export * as reportController from "./reportController";
+export * as attachmentController from "./attachmentController";
+export * as storageController from "./storageController";
+export * as auditController from "./auditController";
+export * as roleController from "./roleController";
@@ -5,8 +5,48 @@
 
 import { Request, Response, NextFunction } from "express";
 import { Organization, TeamMember, PLAN_LIMITS } from "../models";
+import { planLimitsService } from "../services/planLimits.service";
+import { apiUsageService, getPeriodEnd } from "../services/apiUsage.service";
+import { roleService } from "../services/role.service";
+import {
+  auditService,
+  AuditAction,
+  calculateChanges,
+} from "../services/audit.service";
 import logger from "../utils/logger";
 
+/**
+ * Record a settings change, with field-level changes per updated section
+ * (e.g. "branding.primaryColor")
+ */
+const logSettingsUpdate = async (
+  req: Request,
+  organization: { _id: any; name: string },
+  before: Record<string, any>,
+  after: Record<string, any>,
+  updates: Record<string, Record<string, any> | undefined>
+) => {
+  const changes = Object.entries(updates).flatMap(([section, values]) =>
+    values
+      ? calculateChanges(
+          before[section] || {},
+          after[section] || {},
+          Object.keys(values)
+        ).map((change) => ({ ...change, field: `${section}.${change.field}` }))
+      : []
+  );
+  if (changes.length === 0) return;
+
+  await auditService.logRequest(req, {
+    action: AuditAction.SETTINGS_UPDATED,
+    organizationId: organization._id.toString(),
+    entityType: "organization",
+    entityId: organization._id.toString(),
+    entityName: organization.name,
+    changes,
+  });
+};
+
 /**
  * Create a new organization (signup flow)
  */
@@ -92,6 +132,20 @@ export const createOrganization = async (
     organization.ownerId = owner._id.toString();
     await organization.save();
 
+    await roleService.ensureBuiltInRoles(organization._id.toString());
+
+    await auditService.logRequest(req, {
+      action: AuditAction.ORGANIZATION_CREATED,
+      organizationId: organization._id.toString(),
+      actorId: owner._id.toString(),
+      actorEmail: owner.email,
+      actorName: owner.name,
+      entityType: "organization",
+      entityId: organization._id.toString(),
+      entityName: organization.name,
+      metadata: { slug: organization.slug, plan },
+    });
+
     logger.info(`New organization created: ${organization.slug}`, {
       organizationId: organization._id,
       ownerId: owner._id,
@@ -224,6 +278,8 @@ export const updateOrganization = async (
       });
     }
 
+    const before = organization.toObject();
+
     // Update allowed fields
     if (branding) {
       // Check if custom branding is allowed
@@ -261,6 +317,18 @@ export const updateOrganization = async (
     }
 
     await organization.save();
+    await logSettingsUpdate(
+      req,
+      organization,
+      before,
+      organization.toObject(),
+      {
+        branding,
+        legal,
+        support,
+        settings,
+      }
+    );
 
     res.json({
       success: true,
@@ -304,8 +372,18 @@ export const updateBranding = async (
       });
     }
 
+    const before = organization.toObject();
     organization.branding = { ...organization.branding, ...req.body };
     await organization.save();
+    await logSettingsUpdate(
+      req,
+      organization,
+      before,
+      organization.toObject(),
+      {
+        branding: req.body,
+      }
+    );
 
     res.json({
       success: true,
@@ -340,8 +418,18 @@ export const updateLegal = async (
       });
     }
 
+    const before = organization.toObject();
     organization.legal = { ...organization.legal, ...req.body };
     await organization.save();
+    await logSettingsUpdate(
+      req,
+      organization,
+      before,
+      organization.toObject(),
+      {
+        legal: req.body,
+      }
+    );
 
     res.json({
       success: true,
@@ -368,37 +456,45 @@ export const getUsageStats = async (
       });
     }
 
-    const [userCount, taskCount] = await Promise.all([
-      TeamMember.countDocuments({ organizationId: req.organization.id }),
-      // Import Task model and count
-      require("../models").Task.countDocuments({
-        organizationId: req.organization.id,
-      }),
-    ]);
+    const usage = await planLimitsService.getUsage(req.organization.id);
+
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get monthly API call totals, newest first
+ */
+export const getApiUsageHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.organization) {
+      return res.status(400).json({
+        success: false,
+        error: "Organization context required",
+      });
+    }
 
-    const limits = req.organization.limits;
+    const months = Math.min(Math.max(Number(req.query.months) || 12, 1), 24);
+    const [history, usage] = await Promise.all([
+      apiUsageService.getHistory(req.organization.id, months),
+      planLimitsService.getUsage(req.organization.id),
+    ]);
 
     res.json({
       success: true,
       data: {
-        users: {
-          current: userCount,
-          limit: limits.maxUsers,
-          percentage:
-            limits.maxUsers > 0
-              ? Math.round((userCount / limits.maxUsers) * 100)
-              : 0,
-        },
-        tasks: {
-          current: taskCount,
-          limit: limits.maxTasks,
-          percentage:
-            limits.maxTasks > 0
-              ? Math.round((taskCount / limits.maxTasks) * 100)
-              : 0,
-        },
-        plan: req.organization.subscription.plan,
-        features: limits.features,
+        limit: usage.apiCalls.limit,
+        resetsAt: getPeriodEnd(),
+        history,
       },
     });
   } catch (error) {
@@ -455,5 +551,6 @@ export default {
   updateBranding,
   updateLegal,
   getUsageStats,
+  getApiUsageHistory,
   checkSlugAvailability,
 };
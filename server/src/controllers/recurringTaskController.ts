@@ -0,0 +1,208 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import { recurringTaskService } from "../services/recurringTask.service";
+import logger from "../utils/logger";
+
+// Fields maintained by the scheduler that clients may not set directly
+const PROTECTED_RECURRING_TASK_FIELDS = [
+  "organizationId",
+  "createdBy",
+  "nextCreationAt",
+  "lastCreatedAt",
+  "totalCreated",
+  "createdAt",
+];
+
+const sanitizeRecurringTaskInput = (body: Record<string, any>) => {
+  const data = { ...body };
+  for (const field of PROTECTED_RECURRING_TASK_FIELDS) {
+    delete data[field];
+  }
+  return data;
+};
+
+// Get all recurring tasks for the organization
+export const getRecurringTasks = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const { isActive } = req.query;
+    const recurringTasks = await recurringTaskService.getRecurringTasks(
+      organizationId,
+      {
+        isActive:
+          isActive !== undefined ? String(isActive) === "true" : undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: recurringTasks.map((recurringTask) => recurringTask.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Get single recurring task
+export const getRecurringTask = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const recurringTask = await recurringTaskService.getRecurringTask(
+      req.params.id,
+      organizationId
+    );
+    if (!recurringTask) {
+      throw new AppError("Recurring task not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: recurringTask.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Create recurring task
+export const createRecurringTask = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const recurringTask = await recurringTaskService.createRecurringTask(
+      {
+        ...sanitizeRecurringTaskInput(req.body),
+        createdBy: req.user?.userId,
+      },
+      organizationId
+    );
+
+    logger.info(
+      `Recurring task created: ${recurringTask.templateName} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: recurringTask.toJSON(),
+      message: "Recurring task created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update recurring task
+export const updateRecurringTask = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const recurringTask = await recurringTaskService.updateRecurringTask(
+      req.params.id,
+      sanitizeRecurringTaskInput(req.body),
+      organizationId
+    );
+    if (!recurringTask) {
+      throw new AppError("Recurring task not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: recurringTask.toJSON(),
+      message: "Recurring task updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete recurring task
+export const deleteRecurringTask = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const deleted = await recurringTaskService.deleteRecurringTask(
+      req.params.id,
+      organizationId
+    );
+    if (!deleted) {
+      throw new AppError("Recurring task not found", 404);
+    }
+
+    logger.info(
+      `Recurring task deleted: ${req.params.id} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      message: "Recurring task deleted successfully",
+    } as ApiResponse);
+  }
+);
+
+// Preview the next occurrences of a recurring task
+export const previewOccurrences = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const recurringTask = await recurringTaskService.getRecurringTask(
+      req.params.id,
+      organizationId
+    );
+    if (!recurringTask) {
+      throw new AppError("Recurring task not found", 404);
+    }
+
+    const count = Number(req.query.count || 10);
+    const occurrences = recurringTaskService.previewOccurrences(
+      recurringTask.recurrence,
+      count
+    );
+
+    res.json({
+      success: true,
+      data: {
+        recurringTaskId: recurringTask._id.toString(),
+        timezone: recurringTask.recurrence.timezone,
+        occurrences,
+      },
+    } as ApiResponse);
+  }
+);
@@ -0,0 +1,187 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import {
+  billableReportService,
+  BillableReportParams,
+  BillableGroupBy,
+} from "../services/billableReport.service";
+import { jobQueue } from "../services/jobQueue.service";
+import logger from "../utils/logger";
+
+const DEFAULT_REPORT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Build report parameters from a query string or request body, defaulting
+// to the last 30 days grouped by client context
+const parseBillableParams = (
+  source: Record<string, any>
+): BillableReportParams => {
+  const endDate = source.endDate ? Number(source.endDate) : Date.now();
+  const startDate = source.startDate
+    ? Number(source.startDate)
+    : endDate - DEFAULT_REPORT_RANGE_MS;
+  const tags =
+    typeof source.tags === "string"
+      ? source.tags.split(",").filter(Boolean)
+      : source.tags;
+
+  return {
+    startDate,
+    endDate,
+    groupBy: (source.groupBy as BillableGroupBy) || "context",
+    userId: source.userId,
+    tags,
+    contextType: source.contextType,
+    contextId: source.contextId,
+    currency: source.currency,
+    invoiceNumber: source.invoiceNumber,
+    clientName: source.clientName,
+    notes: source.notes,
+  };
+};
+
+// Get billable time report
+export const getBillableReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const report = await billableReportService.buildReport(
+      organizationId,
+      parseBillableParams(req.query)
+    );
+
+    res.json({
+      success: true,
+      data: report,
+    } as ApiResponse);
+  }
+);
+
+// Queue an invoice export of the billable time report
+export const exportBillableReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const params = parseBillableParams(req.body);
+    const report = await billableReportService.createExport(
+      organizationId,
+      req.user!.userId,
+      req.body.format,
+      params
+    );
+
+    try {
+      const job = await jobQueue.generateReport({
+        type: "billable-time",
+        userId: req.user!.userId,
+        reportId: report._id.toString(),
+        filters: params,
+        format: req.body.format,
+        dateRange: {
+          start: new Date(params.startDate),
+          end: new Date(params.endDate),
+        },
+      });
+      report.jobId = job.id;
+      await report.save();
+    } catch (error) {
+      report.status = "failed";
+      report.error = "Failed to queue report";
+      await report.save();
+      throw error;
+    }
+
+    logger.info(
+      `Billable report export queued: ${report._id} by ${req.user?.email}`
+    );
+
+    res.status(202).json({
+      success: true,
+      data: report.toJSON(),
+      message: "Report queued",
+    } as ApiResponse);
+  }
+);
+
+// Get report export status
+export const getReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const report = await billableReportService.getReport(
+      req.params.id,
+      organizationId
+    );
+    if (!report) {
+      throw new AppError("Report not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...report.toJSON(),
+        downloadUrl:
+          report.status === "completed"
+            ? `/api/v1/reports/${req.params.id}/download`
+            : null,
+      },
+    } as ApiResponse);
+  }
+);
+
+// Download a completed report file
+export const downloadReport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const report = await billableReportService.getReportWithContent(
+      req.params.id,
+      organizationId
+    );
+    if (!report) {
+      throw new AppError("Report not found", 404);
+    }
+    if (report.status !== "completed" || !report.content) {
+      throw new AppError(`Report is ${report.status}`, 409);
+    }
+
+    res.setHeader(
+      "Content-Type",
+      report.mimeType || "application/octet-stream"
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${report.fileName}"`
+    );
+    res.send(report.content);
+  }
+);
@@ -0,0 +1,208 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import { roleService, RoleInput } from "../services/role.service";
+import {
+  auditService,
+  AuditAction,
+  AuditLogParams,
+  calculateChanges,
+} from "../services/audit.service";
+import { RoleDocument } from "../models/Role";
+import logger from "../utils/logger";
+
+// Fields clients may set on a role
+const ROLE_FIELDS: (keyof RoleInput)[] = ["name", "description", "permissions"];
+
+const pickRoleInput = (body: Record<string, any>): RoleInput => {
+  const data: Record<string, any> = {};
+  for (const field of ROLE_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  }
+  if (data.permissions) {
+    data.permissions = [...new Set(data.permissions)];
+  }
+  return data;
+};
+
+const requireOrganizationId = (req: AuthenticatedRequest): string => {
+  const organizationId = req.user?.organizationId;
+  if (!organizationId) {
+    throw new AppError("Organization context required", 400);
+  }
+  return organizationId;
+};
+
+const findRole = async (req: AuthenticatedRequest) => {
+  const role = await roleService.getRole(
+    requireOrganizationId(req),
+    req.params.id
+  );
+  if (!role) {
+    throw new AppError("Role not found", 404);
+  }
+  return role;
+};
+
+const assertValidName = (name: string | undefined) => {
+  if (name !== undefined && roleService.isReservedName(name)) {
+    throw new AppError(`"${name.trim()}" is the name of a built-in role`, 409);
+  }
+};
+
+// Role names are unique per organization, ignoring case
+const saveRole = async (save: () => Promise<RoleDocument>) => {
+  try {
+    return await save();
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new AppError("A role with this name already exists", 409);
+    }
+    throw error;
+  }
+};
+
+const logRoleEvent = (
+  req: AuthenticatedRequest,
+  action: AuditAction,
+  role: RoleDocument,
+  details: Pick<AuditLogParams, "changes" | "metadata"> = {}
+) =>
+  auditService.logRequest(req, {
+    action,
+    entityType: "role",
+    entityId: role._id.toString(),
+    entityName: role.name,
+    ...details,
+  });
+
+// Get all roles, built-in and custom
+export const getRoles = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const roles = await roleService.listRoles(requireOrganizationId(req));
+
+    res.json({
+      success: true,
+      data: roles,
+    } as ApiResponse);
+  }
+);
+
+// Get single role
+export const getRole = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const role = await findRole(req);
+
+    res.json({
+      success: true,
+      data: role.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Create custom role
+export const createRole = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = requireOrganizationId(req);
+    const input = pickRoleInput(req.body);
+    assertValidName(input.name);
+    await roleService.assertGrantable(req.user!, input.permissions || []);
+
+    const role = await saveRole(() =>
+      roleService.createRole(organizationId, input, req.user?.userId)
+    );
+
+    await logRoleEvent(req, AuditAction.ROLE_CREATED, role);
+
+    logger.info(
+      `Role created: ${role.name} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: role.toJSON(),
+      message: "Role created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update custom role; built-in roles follow their access level
+export const updateRole = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const role = await findRole(req);
+    if (role.isBuiltIn) {
+      throw new AppError("Built-in roles cannot be changed", 403);
+    }
+
+    const input = pickRoleInput(req.body);
+    assertValidName(input.name);
+    if (input.permissions) {
+      await roleService.assertGrantable(
+        req.user!,
+        input.permissions.filter((p) => !role.permissions.includes(p))
+      );
+    }
+
+    const before = role.toJSON();
+    await saveRole(() => roleService.updateRole(role, input));
+
+    await logRoleEvent(req, AuditAction.ROLE_UPDATED, role, {
+      changes: calculateChanges(before, role.toJSON(), Object.keys(input)),
+    });
+
+    res.json({
+      success: true,
+      data: role.toJSON(),
+      message: "Role updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete custom role; members must be moved to another role first
+export const deleteRole = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const role = await findRole(req);
+    if (role.isBuiltIn) {
+      throw new AppError("Built-in roles cannot be deleted", 403);
+    }
+
+    const memberCount = await roleService.countMembers(role);
+    if (memberCount > 0) {
+      throw new AppError(
+        `Role is assigned to ${memberCount} member(s); reassign them first`,
+        409
+      );
+    }
+
+    await roleService.deleteRole(role);
+    await logRoleEvent(req, AuditAction.ROLE_DELETED, role, {
+      metadata: { permissions: role.permissions },
+    });
+
+    logger.info(`Role deleted: ${role.name} by ${req.user?.email}`);
+
+    res.json({
+      success: true,
+      message: "Role deleted successfully",
+    } as ApiResponse);
+  }
+);
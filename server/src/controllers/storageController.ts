@@ -0,0 +1,66 @@
+import { Request, Response } from "express";
+import { ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import { localDiskStorage } from "../services/storage.service";
+
+// Object key from the wildcard part of the path
+const getKey = (req: Request) => req.params[0];
+
+// Receive a file for a signed local upload URL
+export const uploadObject = asyncHandler(
+  async (req: Request, res: Response) => {
+    const key = getKey(req);
+    const size = Number(req.query.size);
+    const valid = localDiskStorage.verifySignature(
+      "upload",
+      key,
+      Number(req.query.expires),
+      String(req.query.signature || ""),
+      size
+    );
+    if (!valid) {
+      throw new AppError("Invalid or expired upload URL", 403);
+    }
+
+    const contentLength = Number(req.headers["content-length"]);
+    if (contentLength > size) {
+      throw new AppError("Upload exceeds the declared file size", 413);
+    }
+
+    try {
+      await localDiskStorage.writeStream(key, req, size);
+    } catch (error: any) {
+      throw new AppError(error.message || "Upload failed", 400);
+    }
+
+    res.json({
+      success: true,
+      message: "File uploaded",
+    } as ApiResponse);
+  }
+);
+
+// Serve a file for a signed local download URL
+export const downloadObject = asyncHandler(
+  async (req: Request, res: Response) => {
+    const key = getKey(req);
+    const valid = localDiskStorage.verifySignature(
+      "download",
+      key,
+      Number(req.query.expires),
+      String(req.query.signature || "")
+    );
+    if (!valid) {
+      throw new AppError("Invalid or expired download URL", 403);
+    }
+
+    const stored = await localDiskStorage.stat(key);
+    if (!stored) {
+      throw new AppError("File not found", 404);
+    }
+
+    res.attachment(String(req.query.name || key.split("/").pop()));
+    res.setHeader("Content-Length", stored.size);
+    localDiskStorage.createReadStream(key).pipe(res);
+  }
+);
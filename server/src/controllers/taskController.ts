@@ -7,6 +7,26 @@ import { asyncHandler, AppError } from "../middleware";
 import { cacheService } from "../services/cache.service";
 import { wsService } from "../services/websocket.service";
 import { jobQueue } from "../services/jobQueue.service";
+import { webhookService } from "../services/webhook.service";
+import { timeTrackingService } from "../services/timeTracking.service";
+import { attachmentService } from "../services/attachment.service";
+import { planLimitsService } from "../services/planLimits.service";
+import {
+  accessPolicyService,
+  canAssignTask,
+  canEditTask,
+  canViewTask,
+} from "../services/accessPolicy.service";
+import {
+  auditService,
+  AuditAction,
+  AuditLogParams,
+  calculateChanges,
+} from "../services/audit.service";
+import {
+  automationService,
+  AutomationContext,
+} from "../services/automation.service";
 import logger from "../utils/logger";
 
 // Helper to transform lean query results - converts _id to id
@@ -29,6 +49,58 @@ const transformLeanDocs = <T extends { _id?: any; id?: string }>(
   return docs.map(transformLeanDoc);
 };
 
+// Attach the time logged on each task (completed entries, in seconds). Kept
+// out of the task caches since entries change independently of the task.
+const withTotalTimeLogged = async <T extends { id: string }>(
+  tasks: T[],
+  organizationId: string
+): Promise<(T & { totalTimeLogged: number })[]> => {
+  const totals = await timeTrackingService.getTaskTotalTimes(
+    organizationId,
+    tasks.map((task) => task.id)
+  );
+  return tasks.map((task) => ({
+    ...task,
+    totalTimeLogged: totals.get(task.id) || 0,
+  }));
+};
+
+// Record a task audit event for the request's user
+const logTaskEvent = (
+  req: AuthenticatedRequest,
+  action: AuditAction,
+  task: Record<string, any>,
+  details: Pick<AuditLogParams, "changes" | "metadata"> = {}
+) =>
+  auditService.logRequest(req, {
+    action,
+    entityType: "task",
+    entityId: task.id,
+    entityName: task.title,
+    ...details,
+  });
+
+// Queue automation triggers and webhook events for a task that changed from previous to current
+const queueTaskUpdateTriggers = async (
+  previous: Record<string, any>,
+  current: Record<string, any>,
+  req: AuthenticatedRequest
+) => {
+  const changes = await automationService.queueTaskChangeTriggers(
+    previous,
+    current,
+    {
+      user: req.user,
+      organizationId: req.user?.organizationId,
+    }
+  );
+  await webhookService.dispatchTaskUpdate(
+    req.user?.organizationId,
+    current,
+    changes
+  );
+};
+
 // Get all tasks with filtering, pagination, and caching - UPDATED for multi-tenancy
 export const getTasks = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
@@ -53,12 +125,20 @@ export const getTasks = asyncHandler(
       throw new AppError("Organization context required", 400);
     }
 
-    // Create cache key from filters including organizationId
-    const cacheKey = `tasks:${organizationId}:${JSON.stringify(req.query)}`;
+    const subject = await accessPolicyService.getSubject(req.user!);
+
+    // Create cache key from filters including organizationId; lists are
+    // per user since private tasks are left out
+    const cacheKey = `tasks:${organizationId}:${
+      subject.userId
+    }:${JSON.stringify(req.query)}`;
 
     const cached = await cacheService.getTaskList(cacheKey, async () => {
-      // Always scope by organizationId
-      const query: any = { organizationId };
+      // Always scope by organizationId and task visibility
+      const query: any = {
+        organizationId,
+        $and: [accessPolicyService.taskVisibilityFilter(subject)],
+      };
 
       // Apply filters
       if (status) query.status = status;
@@ -111,7 +191,7 @@ export const getTasks = asyncHandler(
 
     res.json({
       success: true,
-      data: cached.tasks,
+      data: await withTotalTimeLogged(cached.tasks, organizationId),
       pagination: cached.pagination,
     } as ApiResponse);
   }
@@ -133,10 +213,16 @@ export const getTask = asyncHandler(
       }
       return transformLeanDoc(found);
     });
+    accessPolicyService.assertTask(
+      await accessPolicyService.getSubject(req.user!),
+      task,
+      "view"
+    );
+    const [taskWithTime] = await withTotalTimeLogged([task], organizationId!);
 
     res.json({
       success: true,
-      data: task,
+      data: taskWithTime,
     } as ApiResponse);
   }
 );
@@ -166,7 +252,10 @@ export const getMyTasks = asyncHandler(
 
     res.json({
       success: true,
-      data: transformLeanDocs(tasks),
+      data: await withTotalTimeLogged(
+        transformLeanDocs(tasks),
+        organizationId!
+      ),
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -193,6 +282,15 @@ export const createTask = asyncHandler(
       throw new AppError("Organization context required", 400);
     }
 
+    const subject = await accessPolicyService.getSubject(req.user!);
+    if (req.body.assigneeId && req.body.assigneeId !== subject.userId) {
+      accessPolicyService.assertTask(
+        subject,
+        { organizationId, creatorId: subject.userId },
+        "assign"
+      );
+    }
+
     const taskData = {
       ...req.body,
       organizationId, // Add organizationId to task
@@ -250,6 +348,30 @@ export const createTask = asyncHandler(
       }
     }
 
+    // Fire automation triggers
+    const automationContext: AutomationContext = {
+      task: taskObj,
+      user: req.user,
+      organizationId,
+    };
+    await automationService.queueTrigger("task_created", automationContext);
+    if (task.assigneeId) {
+      await automationService.queueTrigger("task_assigned", {
+        ...automationContext,
+        changes: { assigneeId: { old: null, new: task.assigneeId } },
+      });
+    }
+    await webhookService.dispatchEvent(organizationId, "task.created", {
+      task: taskObj,
+    });
+    await logTaskEvent(req, AuditAction.TASK_CREATED, taskObj, {
+      metadata: {
+        status: task.status,
+        priority: task.priority,
+        assigneeId: task.assigneeId || null,
+      },
+    });
+
     logger.info(
       `Task created: ${task.title} by ${req.user?.email} in org: ${organizationId}`
     );
@@ -282,9 +404,22 @@ export const updateTask = asyncHandler(
       throw new AppError("Task not found", 404);
     }
 
+    const subject = await accessPolicyService.getSubject(req.user!);
+    accessPolicyService.assertTask(subject, task, "edit");
+    if (
+      req.body.assigneeId !== undefined &&
+      req.body.assigneeId !== task.assigneeId
+    ) {
+      accessPolicyService.assertTask(subject, task, "assign");
+    }
+
+    const previousTaskObj = task.toJSON();
     const oldStatus = task.status;
     const oldAssignee = task.assigneeId;
     const updateData = { ...req.body, updatedAt: Date.now() };
+    // Ownership decides who may edit, so it is not editable itself
+    delete updateData.organizationId;
+    delete updateData.creatorId;
 
     const updatedTask = await Task.findByIdAndUpdate(taskId, updateData, {
       new: true,
@@ -353,11 +488,25 @@ export const updateTask = asyncHandler(
       req.user?.userId!
     );
 
+    await queueTaskUpdateTriggers(previousTaskObj, taskObj, req);
+    await logTaskEvent(req, AuditAction.TASK_UPDATED, taskObj, {
+      changes: calculateChanges(
+        previousTaskObj,
+        taskObj,
+        Object.keys(req.body)
+      ),
+    });
+
     logger.info(`Task updated: ${task.title} by ${req.user?.email}`);
 
+    const [taskWithTime] = await withTotalTimeLogged(
+      [{ ...taskObj, id: taskId }],
+      organizationId!
+    );
+
     res.json({
       success: true,
-      data: taskObj,
+      data: taskWithTime,
       message: "Task updated successfully",
     } as ApiResponse);
   }
@@ -374,11 +523,18 @@ export const deleteTask = asyncHandler(
     if (!task) {
       throw new AppError("Task not found", 404);
     }
+    accessPolicyService.assertTask(
+      await accessPolicyService.getSubject(req.user!),
+      task,
+      "delete"
+    );
 
     await Task.findByIdAndDelete(taskId);
+    await attachmentService.deleteForParent(task.organizationId, { taskId });
 
     // Invalidate caches
     await cacheService.invalidateTask(taskId);
+    await planLimitsService.invalidate(task.organizationId);
 
     // Broadcast deletion
     await wsService.broadcastToRoom(`task:${taskId}`, "task:deleted", {
@@ -386,6 +542,12 @@ export const deleteTask = asyncHandler(
       deletedBy: req.user?.userId,
     });
 
+    await webhookService.dispatchEvent(organizationId, "task.deleted", {
+      task: task.toJSON(),
+      deletedBy: req.user?.userId,
+    });
+    await logTaskEvent(req, AuditAction.TASK_DELETED, task.toJSON());
+
     logger.info(`Task deleted: ${task.title} by ${req.user?.email}`);
 
     res.json({
@@ -411,7 +573,13 @@ export const updateTaskStatus = asyncHandler(
     if (!task) {
       throw new AppError("Task not found", 404);
     }
+    accessPolicyService.assertTask(
+      await accessPolicyService.getSubject(req.user!),
+      task,
+      "edit"
+    );
 
+    const previousTaskObj = task.toJSON();
     const oldStatus = task.status;
     task.status = status;
     task.updatedAt = Date.now();
@@ -441,9 +609,19 @@ export const updateTaskStatus = asyncHandler(
       req.user?.userId!
     );
 
+    await queueTaskUpdateTriggers(previousTaskObj, taskObj, req);
+    await logTaskEvent(req, AuditAction.TASK_STATUS_CHANGED, taskObj, {
+      changes: calculateChanges(previousTaskObj, taskObj, ["status"]),
+    });
+
+    const [taskWithTime] = await withTotalTimeLogged(
+      [{ ...taskObj, id: taskId }],
+      organizationId!
+    );
+
     res.json({
       success: true,
-      data: taskObj,
+      data: taskWithTime,
       message: "Status updated",
     } as ApiResponse);
   }
@@ -460,6 +638,8 @@ export const updateTaskDependencies = asyncHandler(
       throw new AppError("Dependencies must be an array", 400);
     }
 
+    const subject = await accessPolicyService.getSubject(req.user!);
+
     // Validate dependencies exist within organization and check for circular dependencies
     const validDeps: string[] = [];
     for (const depId of dependencies) {
@@ -468,7 +648,7 @@ export const updateTaskDependencies = asyncHandler(
       }
       // Scope dependency check by organization
       const depTask = await Task.findOne({ _id: depId, organizationId });
-      if (!depTask) {
+      if (!depTask || !canViewTask(subject, depTask)) {
         throw new AppError(`Dependency task ${depId} not found`, 404);
       }
       // Check for circular dependency
@@ -481,22 +661,30 @@ export const updateTaskDependencies = asyncHandler(
       validDeps.push(depId);
     }
 
-    const task = await Task.findOneAndUpdate(
-      { _id: taskId, organizationId },
-      { dependencies: validDeps, updatedAt: Date.now() },
-      { new: true }
-    );
-
+    const task = await Task.findOne({ _id: taskId, organizationId });
     if (!task) {
       throw new AppError("Task not found", 404);
     }
+    accessPolicyService.assertTask(subject, task, "edit");
+
+    const previousTaskObj = task.toJSON();
+    task.dependencies = validDeps;
+    task.updatedAt = Date.now();
+    await task.save();
+
+    const taskObj = task.toJSON();
 
     // Invalidate cache
     await cacheService.invalidateTask(taskId);
 
+    await queueTaskUpdateTriggers(previousTaskObj, taskObj, req);
+    await logTaskEvent(req, AuditAction.TASK_UPDATED, taskObj, {
+      changes: calculateChanges(previousTaskObj, taskObj, ["dependencies"]),
+    });
+
     res.json({
       success: true,
-      data: task.toJSON(),
+      data: taskObj,
       message: "Dependencies updated",
     } as ApiResponse);
   }
@@ -520,12 +708,16 @@ export const bulkUpdateTasks = asyncHandler(
       throw new AppError("Maximum 100 tasks can be updated at once", 400);
     }
 
+    const subject = await accessPolicyService.getSubject(req.user!);
+
     // Use MongoDB transaction for atomic updates
     const session = await mongoose.startSession();
     session.startTransaction();
 
     try {
       const results: any[] = [];
+      const previousResults: any[] = [];
+      const updatedFields: string[][] = [];
       const taskIds: string[] = [];
 
       for (const update of updates) {
@@ -533,14 +725,35 @@ export const bulkUpdateTasks = asyncHandler(
         if (!id || !data) continue;
 
         // Scope by organization
+        const previousTask = await Task.findOne({
+          _id: id,
+          organizationId,
+        }).session(session);
+        // Private tasks the user cannot see are skipped like missing ones
+        if (!previousTask || !canEditTask(subject, previousTask)) continue;
+        if (
+          data.assigneeId !== undefined &&
+          data.assigneeId !== previousTask.assigneeId &&
+          !canAssignTask(subject, previousTask)
+        ) {
+          continue;
+        }
+
+        // Ownership decides who may edit, so it is not editable itself
+        const updateData = { ...data };
+        delete updateData.organizationId;
+        delete updateData.creatorId;
+
         const updatedTask = await Task.findOneAndUpdate(
           { _id: id, organizationId },
-          { ...data, updatedAt: Date.now() },
+          { ...updateData, updatedAt: Date.now() },
           { new: true, session }
         );
 
         if (updatedTask) {
           results.push(updatedTask.toJSON());
+          previousResults.push(previousTask.toJSON());
+          updatedFields.push(Object.keys(updateData));
           taskIds.push(id);
         }
       }
@@ -550,11 +763,28 @@ export const bulkUpdateTasks = asyncHandler(
       // Invalidate caches for all updated tasks
       await Promise.all(taskIds.map((id) => cacheService.invalidateTask(id)));
 
-      // Broadcast bulk update
-      await wsService.broadcastToAll("tasks:bulk-updated", {
-        taskIds,
-        updatedBy: req.user?.userId,
-      });
+      // Fire automation triggers once the transaction is committed
+      for (let i = 0; i < results.length; i++) {
+        await queueTaskUpdateTriggers(previousResults[i], results[i], req);
+        await logTaskEvent(req, AuditAction.TASK_UPDATED, results[i], {
+          changes: calculateChanges(
+            previousResults[i],
+            results[i],
+            updatedFields[i]
+          ),
+          metadata: { bulkUpdate: true },
+        });
+      }
+
+      // Broadcast bulk update to the organization's members
+      await wsService.broadcastToRoom(
+        `team:${organizationId}`,
+        "tasks:bulk-updated",
+        {
+          taskIds,
+          updatedBy: req.user?.userId,
+        }
+      );
 
       logger.info(`Bulk update: ${results.length} tasks by ${req.user?.email}`);
 
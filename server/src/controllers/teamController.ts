@@ -1,14 +1,71 @@
 import { Response } from "express";
 import { validationResult } from "express-validator";
-import { TeamMember } from "../models";
+import { TeamMember, TeamMemberDocument } from "../models";
 import {
   AuthenticatedRequest,
   ApiResponse,
+  Permission,
   TeamMemberFilterQuery,
 } from "../types";
 import { asyncHandler, AppError } from "../middleware";
+import { webhookService } from "../services/webhook.service";
+import { planLimitsService } from "../services/planLimits.service";
+import { permissionService } from "../services/permission.service";
+import { roleService } from "../services/role.service";
+import { ACCESS_LEVEL_PERMISSIONS, isPermission } from "../config/permissions";
+import {
+  auditService,
+  AuditAction,
+  AuditLogParams,
+  calculateChanges,
+} from "../services/audit.service";
 import logger from "../utils/logger";
 
+// Record an audit event about a team member for the request's user
+const logMemberEvent = (
+  req: AuthenticatedRequest,
+  action: AuditAction,
+  member: { _id: any; name: string },
+  details: Pick<AuditLogParams, "changes" | "metadata"> = {}
+) =>
+  auditService.logRequest(req, {
+    action,
+    entityType: "user",
+    entityId: member._id.toString(),
+    entityName: member.name,
+    ...details,
+  });
+
+// Effective permissions of a team member
+const getEffectivePermissions = async (member: TeamMemberDocument) =>
+  (
+    await permissionService.getEffective({
+      userId: member._id.toString(),
+      organizationId: member.organizationId,
+      accessLevel: member.accessLevel,
+    })
+  ).permissions;
+
+// Audit a change in effective permissions, one entry per permission so
+// sensitive grants are flagged individually
+const logPermissionChanges = async (
+  req: AuthenticatedRequest,
+  member: TeamMemberDocument,
+  before: Permission[],
+  after: Permission[]
+) => {
+  for (const permission of after.filter((p) => !before.includes(p))) {
+    await logMemberEvent(req, AuditAction.PERMISSION_GRANTED, member, {
+      metadata: { permission },
+    });
+  }
+  for (const permission of before.filter((p) => !after.includes(p))) {
+    await logMemberEvent(req, AuditAction.PERMISSION_REVOKED, member, {
+      metadata: { permission },
+    });
+  }
+};
+
 // Get all team members - UPDATED for multi-tenancy
 export const getTeamMembers = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
@@ -48,7 +105,11 @@ export const getTeamMembers = asyncHandler(
     const sort: any = { [sortBy as string]: sortOrder === "asc" ? 1 : -1 };
 
     const [members, total] = await Promise.all([
-      TeamMember.find(query).sort(sort).skip(skip).limit(Number(limit)),
+      TeamMember.find(query)
+        .sort(sort)
+        .skip(skip)
+        .limit(Number(limit))
+        .populate("customRole"),
       TeamMember.countDocuments(query),
     ]);
 
@@ -74,7 +135,7 @@ export const getTeamMember = asyncHandler(
     const member = await TeamMember.findOne({
       _id: req.params.id,
       organizationId,
-    });
+    }).populate("customRole");
 
     if (!member) {
       throw new AppError("Team member not found", 404);
@@ -103,7 +164,8 @@ export const createTeamMember = asyncHandler(
       throw new AppError("Organization context required", 400);
     }
 
-    const { name, email, password, role, accessLevel } = req.body;
+    const { name, email, password, role, accessLevel, defaultHourlyRate } =
+      req.body;
 
     // Check if email already exists within the organization
     const existingMember = await TeamMember.findOne({
@@ -121,9 +183,21 @@ export const createTeamMember = asyncHandler(
       password,
       role: role || "developer",
       accessLevel: accessLevel || "member",
+      defaultHourlyRate,
       avatarUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${name}`,
     });
 
+    await webhookService.dispatchEvent(organizationId, "team_member.created", {
+      member: member.toJSON(),
+    });
+    await logMemberEvent(req, AuditAction.USER_CREATED, member, {
+      metadata: {
+        email: member.email,
+        role: member.role,
+        accessLevel: member.accessLevel,
+      },
+    });
+
     logger.info(
       `Team member created: ${email} by ${req.user?.email} in org: ${organizationId}`
     );
@@ -170,12 +244,38 @@ export const updateTeamMember = asyncHandler(
     const updateData = { ...req.body };
     delete updateData.password;
     delete updateData.organizationId; // Prevent changing organization
+    // Permission overrides need manage_permissions and custom roles
+    // manage_roles, see updateCustomPermissions and assignCustomRole
+    delete updateData.customPermissions;
+    delete updateData.deniedPermissions;
+    delete updateData.customRoleId;
+    // The owner always has full access
+    if (updateData.accessLevel === "owner") {
+      updateData.customRoleId = null;
+    }
 
     const updatedMember = await TeamMember.findByIdAndUpdate(
       req.params.id,
       updateData,
       { new: true, runValidators: true }
-    );
+    ).populate("customRole");
+    await permissionService.invalidate(req.params.id);
+
+    await webhookService.dispatchEvent(organizationId, "team_member.updated", {
+      member: updatedMember?.toJSON(),
+    });
+    if (updatedMember) {
+      const changes = calculateChanges(
+        member.toJSON(),
+        updatedMember.toJSON(),
+        Object.keys(updateData)
+      );
+      // Access level changes go through privilege escalation checks
+      const action = changes.some((c) => c.field === "accessLevel")
+        ? AuditAction.ROLE_CHANGED
+        : AuditAction.USER_UPDATED;
+      await logMemberEvent(req, action, updatedMember, { changes });
+    }
 
     logger.info(`Team member updated: ${member.email} by ${req.user?.email}`);
 
@@ -213,6 +313,16 @@ export const deleteTeamMember = asyncHandler(
     }
 
     await TeamMember.findByIdAndDelete(req.params.id);
+    await planLimitsService.invalidate(member.organizationId);
+    await permissionService.invalidate(req.params.id);
+
+    await webhookService.dispatchEvent(organizationId, "team_member.deleted", {
+      member: member.toJSON(),
+      deletedBy: req.user?.userId,
+    });
+    await logMemberEvent(req, AuditAction.USER_DELETED, member, {
+      metadata: { email: member.email, accessLevel: member.accessLevel },
+    });
 
     logger.info(`Team member deleted: ${member.email} by ${req.user?.email}`);
 
@@ -237,7 +347,7 @@ export const updateOnlineStatus = asyncHandler(
       { _id: req.params.id, organizationId },
       { isOnline, lastSeen: new Date() },
       { new: true }
-    );
+    ).populate("customRole");
 
     if (!member) {
       throw new AppError("Team member not found", 404);
@@ -261,16 +371,28 @@ export const updateMemberRole = asyncHandler(
       throw new AppError("Invalid role", 400);
     }
 
-    const member = await TeamMember.findOneAndUpdate(
-      { _id: req.params.id, organizationId },
-      { role },
-      { new: true }
-    );
-
+    const member = await TeamMember.findOne({
+      _id: req.params.id,
+      organizationId,
+    }).populate("customRole");
     if (!member) {
       throw new AppError("Team member not found", 404);
     }
 
+    const previousRole = member.role;
+    member.role = role;
+    await member.save();
+
+    await webhookService.dispatchEvent(organizationId, "team_member.updated", {
+      member: member.toJSON(),
+      changes: { role },
+    });
+    if (previousRole !== role) {
+      await logMemberEvent(req, AuditAction.MEMBER_ROLE_CHANGED, member, {
+        changes: [{ field: "role", oldValue: previousRole, newValue: role }],
+      });
+    }
+
     logger.info(
       `Role updated for ${member.email} to ${role} by ${req.user?.email}`
     );
@@ -296,7 +418,7 @@ export const updateAccessLevel = asyncHandler(
     const member = await TeamMember.findOne({
       _id: req.params.id,
       organizationId,
-    });
+    }).populate("customRole");
     if (!member) {
       throw new AppError("Team member not found", 404);
     }
@@ -311,8 +433,30 @@ export const updateAccessLevel = asyncHandler(
       throw new AppError("Only owner can transfer ownership", 403);
     }
 
+    const previousAccessLevel = member.accessLevel;
     member.accessLevel = accessLevel;
+    // The owner always has full access
+    if (accessLevel === "owner") {
+      member.customRoleId = null;
+    }
     await member.save();
+    await permissionService.invalidate(member._id.toString());
+
+    await webhookService.dispatchEvent(organizationId, "team_member.updated", {
+      member: member.toJSON(),
+      changes: { accessLevel },
+    });
+    if (previousAccessLevel !== accessLevel) {
+      await logMemberEvent(req, AuditAction.ROLE_CHANGED, member, {
+        changes: [
+          {
+            field: "accessLevel",
+            oldValue: previousAccessLevel,
+            newValue: accessLevel,
+          },
+        ],
+      });
+    }
 
     logger.info(
       `Access level updated for ${member.email} to ${accessLevel} by ${req.user?.email}`
@@ -326,25 +470,122 @@ export const updateAccessLevel = asyncHandler(
   }
 );
 
-// Update custom permissions - UPDATED for multi-tenancy
+// Get a member's effective permissions (themselves, or permission managers)
+export const getMemberPermissions = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+
+    if (
+      req.params.id !== req.user?.userId &&
+      !(await permissionService.has(
+        req.user!,
+        "manage_permissions",
+        "manage_team"
+      ))
+    ) {
+      throw new AppError(
+        "Permission denied. Required: manage_permissions or manage_team",
+        403
+      );
+    }
+
+    const member = await TeamMember.findOne({
+      _id: req.params.id,
+      organizationId,
+    }).select("accessLevel organizationId");
+    if (!member) {
+      throw new AppError("Team member not found", 404);
+    }
+
+    const permissions = await permissionService.getEffective({
+      userId: member._id.toString(),
+      organizationId: member.organizationId,
+      accessLevel: member.accessLevel,
+    });
+
+    res.json({
+      success: true,
+      data: permissions,
+    } as ApiResponse);
+  }
+);
+
+// Base permissions of each access level, so clients never keep their own copy
+export const getAccessLevelPermissions = asyncHandler(
+  async (_req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: ACCESS_LEVEL_PERMISSIONS,
+    } as ApiResponse);
+  }
+);
+
+// Update custom grants and denies - UPDATED for multi-tenancy
 export const updateCustomPermissions = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
-    const { customPermissions } = req.body;
+    const { customPermissions, deniedPermissions } = req.body;
     const organizationId = req.user?.organizationId;
 
     if (!Array.isArray(customPermissions)) {
       throw new AppError("customPermissions must be an array", 400);
     }
-
-    const member = await TeamMember.findOneAndUpdate(
-      { _id: req.params.id, organizationId },
-      { customPermissions },
-      { new: true, runValidators: true }
+    if (deniedPermissions !== undefined && !Array.isArray(deniedPermissions)) {
+      throw new AppError("deniedPermissions must be an array", 400);
+    }
+    const unknown = [...customPermissions, ...(deniedPermissions || [])].filter(
+      (p: unknown) => !isPermission(p)
+    );
+    if (unknown.length > 0) {
+      throw new AppError(`Unknown permissions: ${unknown.join(", ")}`, 400);
+    }
+    const conflicting = customPermissions.filter((p: Permission) =>
+      deniedPermissions?.includes(p)
     );
+    if (conflicting.length > 0) {
+      throw new AppError(
+        `Permissions cannot be both granted and denied: ${conflicting.join(
+          ", "
+        )}`,
+        400
+      );
+    }
 
+    const member = await TeamMember.findOne({
+      _id: req.params.id,
+      organizationId,
+    }).populate("customRole");
     if (!member) {
       throw new AppError("Team member not found", 404);
     }
+    if (member.accessLevel === "owner") {
+      throw new AppError("The owner always has full access", 403);
+    }
+    await roleService.assertGrantable(
+      req.user!,
+      customPermissions.filter(
+        (p: Permission) => !member.customPermissions?.includes(p)
+      )
+    );
+
+    const previousPermissions = await getEffectivePermissions(member);
+    member.customPermissions = customPermissions;
+    if (deniedPermissions !== undefined) {
+      member.deniedPermissions = deniedPermissions;
+    }
+    await member.save();
+    await permissionService.invalidate(member._id.toString());
+
+    await webhookService.dispatchEvent(organizationId, "team_member.updated", {
+      member: member.toJSON(),
+      changes: { customPermissions, deniedPermissions },
+    });
+
+    await logPermissionChanges(
+      req,
+      member,
+      previousPermissions,
+      await getEffectivePermissions(member)
+    );
 
     res.json({
       success: true,
@@ -353,3 +594,91 @@ export const updateCustomPermissions = asyncHandler(
     } as ApiResponse);
   }
 );
+
+// Assign a custom role, or remove it with a null roleId so the access level
+// applies again
+export const assignCustomRole = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const member = await TeamMember.findOne({
+      _id: req.params.id,
+      organizationId,
+    });
+    if (!member) {
+      throw new AppError("Team member not found", 404);
+    }
+    if (member.accessLevel === "owner") {
+      throw new AppError("The owner always has full access", 403);
+    }
+
+    const role = req.body.roleId
+      ? await roleService.getRole(organizationId, req.body.roleId)
+      : null;
+    if (req.body.roleId && !role) {
+      throw new AppError("Role not found", 404);
+    }
+    if (role?.isBuiltIn) {
+      throw new AppError(
+        "Built-in roles are assigned by changing the access level",
+        400
+      );
+    }
+    if (role) {
+      await roleService.assertGrantable(req.user!, role.permissions);
+    }
+
+    const previousRoleId = member.customRoleId || null;
+    const previousPermissions = await getEffectivePermissions(member);
+    member.customRoleId = role ? role._id.toString() : null;
+    await member.save();
+    await permissionService.invalidate(member._id.toString());
+    await member.populate("customRole");
+
+    await webhookService.dispatchEvent(organizationId, "team_member.updated", {
+      member: member.toJSON(),
+      changes: { customRoleId: member.customRoleId },
+    });
+    if (previousRoleId !== member.customRoleId) {
+      await logMemberEvent(req, AuditAction.ROLE_ASSIGNED, member, {
+        changes: [
+          {
+            field: "customRoleId",
+            oldValue: previousRoleId,
+            newValue: member.customRoleId,
+          },
+        ],
+        metadata: { roleName: role?.name || null },
+      });
+      await logPermissionChanges(
+        req,
+        member,
+        previousPermissions,
+        await getEffectivePermissions(member)
+      );
+    }
+
+    logger.info(
+      `Custom role of ${member.email} set to ${role?.name || "none"} by ${
+        req.user?.email
+      }`
+    );
+
+    res.json({
+      success: true,
+      data: member,
+      message: role ? `Role set to ${role.name}` : "Custom role removed",
+    } as ApiResponse);
+  }
+);
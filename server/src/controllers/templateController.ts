@@ -0,0 +1,337 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { Activity } from "../models";
+import { TaskTemplateDocument } from "../models/TaskTemplate";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError, hasPermission } from "../middleware";
+import { taskTemplateService } from "../services/taskTemplate.service";
+import { accessPolicyService } from "../services/accessPolicy.service";
+import { planLimitsService } from "../services/planLimits.service";
+import { automationService } from "../services/automation.service";
+import { webhookService } from "../services/webhook.service";
+import { cacheService } from "../services/cache.service";
+import { wsService } from "../services/websocket.service";
+import logger from "../utils/logger";
+
+// Fields clients may not set directly on a template
+const PROTECTED_TEMPLATE_FIELDS = [
+  "organizationId",
+  "createdBy",
+  "usageCount",
+  "createdAt",
+];
+
+const sanitizeTemplateInput = (body: Record<string, any>) => {
+  const data = { ...body };
+  for (const field of PROTECTED_TEMPLATE_FIELDS) {
+    delete data[field];
+  }
+  if (data.autoAssign) {
+    delete data.autoAssign.lastAssigneeId;
+  }
+  return data;
+};
+
+// Only the creator or workflow managers may change a template
+const assertCanManage = async (
+  template: TaskTemplateDocument,
+  req: AuthenticatedRequest
+) => {
+  if (
+    template.createdBy !== req.user?.userId &&
+    !(await hasPermission(req.user!, "manage_workflows"))
+  ) {
+    throw new AppError("Only the template creator can modify it", 403);
+  }
+};
+
+// Broadcast and fire triggers for a task created from a template
+const announceCreatedTask = async (
+  taskObj: Record<string, any>,
+  req: AuthenticatedRequest
+) => {
+  const organizationId = req.user?.organizationId;
+
+  await wsService.notifyTaskUpdate(
+    taskObj.id,
+    "created",
+    taskObj,
+    req.user?.userId!
+  );
+  if (taskObj.assigneeId && taskObj.assigneeId !== req.user?.userId) {
+    await wsService.notifyAssignment(
+      taskObj.id,
+      taskObj.assigneeId,
+      taskObj,
+      req.user?.userId!
+    );
+  }
+
+  await automationService.queueTrigger("task_created", {
+    task: taskObj,
+    user: req.user,
+    organizationId,
+  });
+  if (taskObj.assigneeId) {
+    await automationService.queueTrigger("task_assigned", {
+      task: taskObj,
+      user: req.user,
+      organizationId,
+      changes: { assigneeId: { old: null, new: taskObj.assigneeId } },
+    });
+  }
+  await webhookService.dispatchEvent(organizationId, "task.created", {
+    task: taskObj,
+  });
+};
+
+// Get templates visible to the current user
+export const getTemplates = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const { category, search } = req.query;
+    const templates = await taskTemplateService.getTemplates(
+      organizationId,
+      req.user!.userId,
+      {
+        category: category ? String(category) : undefined,
+        search: search ? String(search) : undefined,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: templates.map((template) => template.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Get single template
+export const getTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const template = await taskTemplateService.getTemplate(
+      req.params.id,
+      organizationId,
+      req.user!.userId
+    );
+    if (!template) {
+      throw new AppError("Template not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: template.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Create template
+export const createTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const template = await taskTemplateService.createTemplate(
+      { ...sanitizeTemplateInput(req.body), createdBy: req.user?.userId },
+      organizationId
+    );
+
+    logger.info(
+      `Task template created: ${template.name} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: template.toJSON(),
+      message: "Template created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update template
+export const updateTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const template = await taskTemplateService.getTemplate(
+      req.params.id,
+      organizationId,
+      req.user!.userId
+    );
+    if (!template) {
+      throw new AppError("Template not found", 404);
+    }
+    await assertCanManage(template, req);
+
+    const updated = await taskTemplateService.updateTemplate(
+      template,
+      sanitizeTemplateInput(req.body)
+    );
+
+    res.json({
+      success: true,
+      data: updated.toJSON(),
+      message: "Template updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete template
+export const deleteTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const template = await taskTemplateService.getTemplate(
+      req.params.id,
+      organizationId,
+      req.user!.userId
+    );
+    if (!template) {
+      throw new AppError("Template not found", 404);
+    }
+    await assertCanManage(template, req);
+
+    await taskTemplateService.deleteTemplate(template);
+
+    logger.info(
+      `Task template deleted: ${template.name} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      message: "Template deleted successfully",
+    } as ApiResponse);
+  }
+);
+
+// Create a task and its subtasks from a template
+export const instantiateTemplate = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const template = await taskTemplateService.getTemplate(
+      req.params.id,
+      organizationId,
+      req.user!.userId
+    );
+    if (!template) {
+      throw new AppError("Template not found", 404);
+    }
+
+    const { title, description, priority, assigneeId } = req.body;
+    const { contextType, contextId, dueDate, tags } = req.body;
+
+    // The template's subtasks count against the plan too
+    const exceeded = await planLimitsService.check(
+      organizationId,
+      "tasks",
+      1 + (template.subtasks?.length || 0)
+    );
+    if (exceeded) {
+      return res.status(403).json(planLimitsService.toErrorResponse(exceeded));
+    }
+
+    // Assigning someone else needs the same permission as on task creation
+    if (assigneeId && assigneeId !== req.user!.userId) {
+      accessPolicyService.assertTask(
+        await accessPolicyService.getSubject(req.user!),
+        { organizationId, creatorId: req.user!.userId },
+        "assign"
+      );
+    }
+    const { task, subtasks } = await taskTemplateService.instantiate(
+      template,
+      {
+        title,
+        description,
+        priority,
+        assigneeId,
+        contextType,
+        contextId,
+        dueDate,
+        tags,
+      },
+      organizationId,
+      req.user!.userId
+    );
+    const taskObj = task.toJSON();
+    const subtaskObjs = subtasks.map((subtask) => subtask.toJSON());
+
+    await Activity.create({
+      organizationId,
+      userId: req.user?.userId,
+      type: "task-created",
+      timestamp: Date.now(),
+      contextType: task.contextType,
+      contextId: task._id.toString(),
+      content: `Created task from template "${template.name}": ${task.title}`,
+      metadata: {
+        taskId: task._id.toString(),
+        title: task.title,
+        templateId: template._id.toString(),
+        subtaskIds: subtaskObjs.map((subtask) => subtask.id),
+      },
+    });
+
+    await cacheService.invalidateByTag("task-lists");
+    await planLimitsService.invalidate(organizationId);
+
+    for (const created of [taskObj, ...subtaskObjs]) {
+      await announceCreatedTask(created, req);
+    }
+
+    logger.info(
+      `Task created from template ${template.name} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { task: taskObj, subtasks: subtaskObjs },
+      message: "Task created from template",
+    } as ApiResponse);
+  }
+);
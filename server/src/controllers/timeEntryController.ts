@@ -0,0 +1,438 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { Task } from "../models";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError, hasPermission } from "../middleware";
+import { timeTrackingService } from "../services/timeTracking.service";
+import { accessPolicyService } from "../services/accessPolicy.service";
+import logger from "../utils/logger";
+
+const DEFAULT_STATS_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Pick the client-editable fields of a time entry
+const pickTimeEntryFields = (body: Record<string, any>) => {
+  const data: Record<string, any> = {};
+  for (const field of [
+    "description",
+    "startTime",
+    "endTime",
+    "isBillable",
+    "hourlyRate",
+    "tags",
+  ]) {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  }
+  return data;
+};
+
+// Users without view_analytics only ever see their own time entries
+const resolveUserFilter = async (
+  req: AuthenticatedRequest
+): Promise<string | undefined> => {
+  const requested = req.query.userId as string | undefined;
+  if (await hasPermission(req.user!, "view_analytics")) {
+    return requested;
+  }
+  if (requested && requested !== req.user?.userId) {
+    throw new AppError("Permission denied. Required: view_analytics", 403);
+  }
+  return req.user?.userId;
+};
+
+// Time is tracked on, and listed for, tasks the user can see
+const assertTaskVisible = async (req: AuthenticatedRequest, taskId: string) => {
+  const task = await Task.findOne({
+    _id: taskId,
+    organizationId: req.user?.organizationId,
+  });
+  if (!task) {
+    throw new AppError("Task not found", 404);
+  }
+  accessPolicyService.assertTask(
+    await accessPolicyService.getSubject(req.user!),
+    task,
+    "view"
+  );
+};
+
+// Get time entries with filters
+export const getTimeEntries = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const { startDate, endDate, isBillable, isRunning, page, limit } =
+      req.query;
+    // Task time entry routes take the task from the URL
+    const taskId = req.params.id || (req.query.taskId as string | undefined);
+    if (taskId) {
+      await assertTaskVisible(req, taskId);
+    }
+
+    const result = await timeTrackingService.getEntries({
+      organizationId,
+      taskId,
+      userId: await resolveUserFilter(req),
+      startDate: startDate ? Number(startDate) : undefined,
+      endDate: endDate ? Number(endDate) : undefined,
+      isBillable:
+        isBillable !== undefined ? String(isBillable) === "true" : undefined,
+      isRunning:
+        isRunning !== undefined ? String(isRunning) === "true" : undefined,
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.entries.map((entry) => entry.toJSON()),
+      pagination: {
+        page: result.page,
+        limit: limit ? Number(limit) : 50,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    } as ApiResponse);
+  }
+);
+
+// Get time statistics, defaulting to the last 30 days
+export const getTimeStats = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const endDate = req.query.endDate ? Number(req.query.endDate) : Date.now();
+    const startDate = req.query.startDate
+      ? Number(req.query.startDate)
+      : endDate - DEFAULT_STATS_RANGE_MS;
+
+    const stats = await timeTrackingService.getTimeStats({
+      organizationId,
+      userId: await resolveUserFilter(req),
+      taskId: req.query.taskId as string | undefined,
+      startDate,
+      endDate,
+      taskFilter: accessPolicyService.taskVisibilityFilter(
+        await accessPolicyService.getSubject(req.user!)
+      ),
+    });
+
+    res.json({
+      success: true,
+      data: stats,
+    } as ApiResponse);
+  }
+);
+
+// Get the current user's running timer
+export const getRunningTimer = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timeEntry = await timeTrackingService.getRunningTimer(
+      organizationId,
+      req.user!.userId
+    );
+
+    res.json({
+      success: true,
+      data: timeEntry ? timeEntry.toJSON() : null,
+    } as ApiResponse);
+  }
+);
+
+// Record a heartbeat from the client running the current user's timer
+export const recordHeartbeat = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timeEntry = await timeTrackingService.recordHeartbeat(
+      organizationId,
+      req.user!.userId,
+      req.body.idleSince ?? null
+    );
+    if (!timeEntry) {
+      throw new AppError("Running timer not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: timeEntry.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Get single time entry
+export const getTimeEntry = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timeEntry = await timeTrackingService.getEntry(
+      req.params.id,
+      organizationId
+    );
+    if (
+      !timeEntry ||
+      (timeEntry.userId !== req.user?.userId &&
+        !(await hasPermission(req.user!, "view_analytics")))
+    ) {
+      throw new AppError("Time entry not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: timeEntry.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Start a timer, stopping any timer the user already has running
+export const startTimer = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    // Task timer routes take the task from the URL
+    const taskId = req.params.id || req.body.taskId;
+    await assertTaskVisible(req, taskId);
+
+    const timeEntry = await timeTrackingService.startTimer({
+      ...pickTimeEntryFields(req.body),
+      organizationId,
+      taskId,
+      userId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: timeEntry.toJSON(),
+      message: "Timer started",
+    } as ApiResponse);
+  }
+);
+
+// Stop a running timer by entry ID
+export const stopTimer = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timeEntry = await timeTrackingService.stopTimer(
+      req.params.id,
+      organizationId,
+      req.user!.userId,
+      { discardIdle: req.body.discardIdle === true }
+    );
+    if (!timeEntry) {
+      throw new AppError("Running timer not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: timeEntry.toJSON(),
+      message: "Timer stopped",
+    } as ApiResponse);
+  }
+);
+
+// Stop the current user's running timer, optionally only if it is on a given task
+export const stopRunningTimer = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const running = await timeTrackingService.getRunningTimer(
+      organizationId,
+      req.user!.userId
+    );
+    if (!running || (req.params.id && running.taskId !== req.params.id)) {
+      throw new AppError("Running timer not found", 404);
+    }
+
+    const timeEntry = await timeTrackingService.stopTimer(
+      running._id.toString(),
+      organizationId,
+      req.user!.userId,
+      { discardIdle: req.body.discardIdle === true }
+    );
+    if (!timeEntry) {
+      throw new AppError("Running timer not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: timeEntry.toJSON(),
+      message: "Timer stopped",
+    } as ApiResponse);
+  }
+);
+
+// Create a manual time entry
+export const createTimeEntry = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    await assertTaskVisible(req, req.body.taskId);
+
+    const { startTime, endTime, ...rest } = pickTimeEntryFields(req.body);
+    const timeEntry = await timeTrackingService.createManualEntry({
+      ...rest,
+      startTime,
+      endTime,
+      organizationId,
+      taskId: req.body.taskId,
+      userId: req.user!.userId,
+    });
+
+    logger.info(
+      `Manual time entry created for task ${timeEntry.taskId} by ${req.user?.email}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: timeEntry.toJSON(),
+      message: "Time entry created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update one of the current user's time entries
+export const updateTimeEntry = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timeEntry = await timeTrackingService.updateEntry(
+      req.params.id,
+      organizationId,
+      req.user!.userId,
+      pickTimeEntryFields(req.body)
+    );
+    if (!timeEntry) {
+      throw new AppError("Time entry not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: timeEntry.toJSON(),
+      message: "Time entry updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete one of the current user's time entries
+export const deleteTimeEntry = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const deleted = await timeTrackingService.deleteEntry(
+      req.params.id,
+      organizationId,
+      req.user!.userId
+    );
+    if (!deleted) {
+      throw new AppError("Time entry not found", 404);
+    }
+
+    logger.info(`Time entry deleted: ${req.params.id} by ${req.user?.email}`);
+
+    res.json({
+      success: true,
+      message: "Time entry deleted successfully",
+    } as ApiResponse);
+  }
+);
@@ -0,0 +1,264 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import { TeamMember } from "../models";
+import { TimesheetDocument, TimesheetStatus } from "../models/Timesheet";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError, hasPermission } from "../middleware";
+import { timesheetService, parseIsoWeek } from "../services/timesheet.service";
+import logger from "../utils/logger";
+
+const canReviewTimesheets = (req: AuthenticatedRequest) =>
+  hasPermission(req.user!, "manage_team");
+
+// Timesheet with its current totals and the entries it covers
+const toTimesheetDetails = async (timesheet: TimesheetDocument) => {
+  const [totals, entries] = await Promise.all([
+    timesheetService.getTotals(timesheet),
+    timesheetService.getEntries(timesheet),
+  ]);
+  return {
+    ...timesheet.toJSON(),
+    ...totals,
+    entries: entries.map((entry) => entry.toJSON()),
+  };
+};
+
+// Load a timesheet the current user may see: their own, or any for reviewers
+const findVisibleTimesheet = async (req: AuthenticatedRequest) => {
+  const organizationId = req.user?.organizationId;
+  if (!organizationId) {
+    throw new AppError("Organization context required", 400);
+  }
+
+  const timesheet = await timesheetService.getTimesheet(
+    req.params.id,
+    organizationId
+  );
+  if (
+    !timesheet ||
+    (timesheet.userId !== req.user?.userId && !(await canReviewTimesheets(req)))
+  ) {
+    throw new AppError("Timesheet not found", 404);
+  }
+  return timesheet;
+};
+
+// Get timesheets; users without manage_team only see their own
+export const getTimesheets = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const { userId, status, page, limit } = req.query;
+    const result = await timesheetService.getTimesheets(organizationId, {
+      userId: (await canReviewTimesheets(req))
+        ? (userId as string | undefined)
+        : req.user?.userId,
+      status: status as TimesheetStatus | undefined,
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.timesheets.map((timesheet) => timesheet.toJSON()),
+      pagination: {
+        page: result.page,
+        limit: limit ? Number(limit) : 20,
+        total: result.total,
+        totalPages: result.totalPages,
+      },
+    } as ApiResponse);
+  }
+);
+
+// Get the approval queue
+export const getPendingTimesheets = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const timesheets = await timesheetService.getPendingTimesheets(
+      organizationId
+    );
+
+    res.json({
+      success: true,
+      data: timesheets.map((timesheet) => timesheet.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Get a user's timesheet for an ISO week (the current user unless a reviewer passes userId)
+export const getWeekTimesheet = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const isoWeek = parseIsoWeek(req.params.week);
+    if (!isoWeek) {
+      throw new AppError("Invalid ISO week", 400);
+    }
+
+    let userId = req.user!.userId;
+    const requested = req.query.userId as string | undefined;
+    if (requested && requested !== userId) {
+      if (!(await canReviewTimesheets(req))) {
+        throw new AppError("Permission denied. Required: manage_team", 403);
+      }
+      const member = await TeamMember.exists({
+        _id: requested,
+        organizationId,
+      });
+      if (!member) {
+        throw new AppError("Team member not found", 404);
+      }
+      userId = requested;
+    }
+
+    const timesheet = await timesheetService.getWeekTimesheet(
+      organizationId,
+      userId,
+      isoWeek
+    );
+
+    res.json({
+      success: true,
+      data: await toTimesheetDetails(timesheet),
+    } as ApiResponse);
+  }
+);
+
+// Get single timesheet with its entries
+export const getTimesheet = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const timesheet = await findVisibleTimesheet(req);
+
+    res.json({
+      success: true,
+      data: await toTimesheetDetails(timesheet),
+    } as ApiResponse);
+  }
+);
+
+// Submit the current user's timesheet for an ISO week
+export const submitTimesheet = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const isoWeek = parseIsoWeek(req.params.week);
+    if (!isoWeek) {
+      throw new AppError("Invalid ISO week", 400);
+    }
+
+    const timesheet = await timesheetService.getWeekTimesheet(
+      organizationId,
+      req.user!.userId,
+      isoWeek
+    );
+    const submitted = await timesheetService.submit(
+      timesheet,
+      req.user!.userId,
+      req.body.comment
+    );
+
+    res.json({
+      success: true,
+      data: await toTimesheetDetails(submitted),
+      message: "Timesheet submitted for approval",
+    } as ApiResponse);
+  }
+);
+
+// Approve a submitted timesheet
+export const approveTimesheet = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const timesheet = await findVisibleTimesheet(req);
+    const approved = await timesheetService.approve(
+      timesheet,
+      req.user!.userId,
+      req.body.comment
+    );
+
+    logger.info(
+      `Timesheet ${approved.week} of ${approved.userId} approved by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      data: approved.toJSON(),
+      message: "Timesheet approved",
+    } as ApiResponse);
+  }
+);
+
+// Reject a submitted timesheet
+export const rejectTimesheet = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const timesheet = await findVisibleTimesheet(req);
+    const rejected = await timesheetService.reject(
+      timesheet,
+      req.user!.userId,
+      req.body.reason
+    );
+
+    logger.info(
+      `Timesheet ${rejected.week} of ${rejected.userId} rejected by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      data: rejected.toJSON(),
+      message: "Timesheet rejected",
+    } as ApiResponse);
+  }
+);
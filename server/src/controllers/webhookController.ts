@@ -0,0 +1,292 @@
+import { Response } from "express";
+import { validationResult } from "express-validator";
+import Webhook from "../models/Webhook";
+import WebhookDelivery from "../models/WebhookDelivery";
+import { AuthenticatedRequest, ApiResponse } from "../types";
+import { asyncHandler, AppError } from "../middleware";
+import { webhookService } from "../services/webhook.service";
+import logger from "../utils/logger";
+
+// Fields clients may set on a webhook subscription
+const WEBHOOK_FIELDS = [
+  "name",
+  "url",
+  "events",
+  "isActive",
+  "headers",
+  "retryCount",
+];
+
+const pickWebhookInput = (body: Record<string, any>) => {
+  const data: Record<string, any> = {};
+  for (const field of WEBHOOK_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  }
+  return data;
+};
+
+// SECURITY: Reject URLs that fail SSRF validation with a 400
+const assertValidUrl = async (url: string) => {
+  try {
+    await webhookService.validateWebhookUrl(url);
+  } catch (error) {
+    throw new AppError(
+      error instanceof Error ? error.message : "Invalid webhook URL",
+      400
+    );
+  }
+};
+
+// Get all webhooks for the organization
+export const getWebhooks = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const webhooks = await Webhook.find({ organizationId }).sort({
+      createdAt: -1,
+    });
+
+    res.json({
+      success: true,
+      data: webhooks.map((webhook) => webhook.toJSON()),
+    } as ApiResponse);
+  }
+);
+
+// Get single webhook
+export const getWebhook = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+
+    const webhook = await Webhook.findOne({
+      _id: req.params.id,
+      organizationId,
+    });
+    if (!webhook) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: webhook.toJSON(),
+    } as ApiResponse);
+  }
+);
+
+// Create webhook - the signing secret is only returned in this response
+export const createWebhook = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    await assertValidUrl(req.body.url);
+
+    const secret = req.body.secret || webhookService.generateSecret();
+    const webhook = await Webhook.create({
+      ...pickWebhookInput(req.body),
+      organizationId,
+      secret,
+      createdBy: req.user?.userId,
+    });
+
+    logger.info(
+      `Webhook created: ${webhook.name} by ${req.user?.email} in org: ${organizationId}`
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { ...webhook.toJSON(), secret },
+      message: "Webhook created successfully",
+    } as ApiResponse);
+  }
+);
+
+// Update webhook
+export const updateWebhook = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array().map((e) => ({ field: e.type, message: e.msg })),
+      } as ApiResponse);
+    }
+
+    const organizationId = req.user?.organizationId;
+
+    if (req.body.url) {
+      await assertValidUrl(req.body.url);
+    }
+
+    const updateData: Record<string, any> = {
+      ...pickWebhookInput(req.body),
+      updatedAt: Date.now(),
+    };
+
+    // Re-enabling clears the failure streak from auto-disable
+    if (req.body.isActive === true) {
+      updateData.failureCount = 0;
+      updateData.disabledReason = null;
+    }
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: req.params.id, organizationId },
+      updateData,
+      { new: true, runValidators: true }
+    );
+    if (!webhook) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    res.json({
+      success: true,
+      data: webhook.toJSON(),
+      message: "Webhook updated successfully",
+    } as ApiResponse);
+  }
+);
+
+// Delete webhook and its delivery log
+export const deleteWebhook = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+
+    const webhook = await Webhook.findOneAndDelete({
+      _id: req.params.id,
+      organizationId,
+    });
+    if (!webhook) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    await WebhookDelivery.deleteMany({
+      webhookId: webhook._id.toString(),
+      organizationId,
+    });
+
+    logger.info(`Webhook deleted: ${webhook.name} by ${req.user?.email}`);
+
+    res.json({
+      success: true,
+      message: "Webhook deleted successfully",
+    } as ApiResponse);
+  }
+);
+
+// Rotate the signing secret
+export const rotateSecret = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    const secret = webhookService.generateSecret();
+
+    const webhook = await Webhook.findOneAndUpdate(
+      { _id: req.params.id, organizationId },
+      { secret, updatedAt: Date.now() },
+      { new: true }
+    );
+    if (!webhook) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    logger.info(
+      `Webhook secret rotated: ${webhook.name} by ${req.user?.email}`
+    );
+
+    res.json({
+      success: true,
+      data: { ...webhook.toJSON(), secret },
+      message: "Webhook secret rotated",
+    } as ApiResponse);
+  }
+);
+
+// Get delivery log for a webhook
+export const getDeliveries = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    const { page = 1, limit = 50, status } = req.query;
+
+    const webhook = await Webhook.findOne({
+      _id: req.params.id,
+      organizationId,
+    });
+    if (!webhook) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    const query: Record<string, any> = {
+      organizationId,
+      webhookId: webhook._id.toString(),
+    };
+    if (status) query.status = status;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      WebhookDelivery.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: deliveries.map((delivery) => delivery.toJSON()),
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+    } as ApiResponse);
+  }
+);
+
+// Redeliver a recorded payload
+export const redeliver = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      throw new AppError("Organization context required", 400);
+    }
+
+    const original = await WebhookDelivery.findOne({
+      _id: req.params.deliveryId,
+      webhookId: req.params.id,
+      organizationId,
+    });
+    if (!original) {
+      throw new AppError("Delivery not found", 404);
+    }
+
+    const delivery = await webhookService.redeliver(
+      original._id.toString(),
+      organizationId
+    );
+    if (!delivery) {
+      throw new AppError("Webhook not found", 404);
+    }
+
+    res.status(202).json({
+      success: true,
+      data: delivery.toJSON(),
+      message: "Redelivery queued",
+    } as ApiResponse);
+  }
+);
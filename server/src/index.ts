@@ -5,6 +5,8 @@ import connectDB from "./config/database";
 import logger from "./utils/logger";
 import { rateLimiter } from "./middleware/rateLimiter";
 import { cacheService } from "./services/cache.service";
+import { apiUsageService } from "./services/apiUsage.service";
+import { rateLimitService } from "./services/rateLimit.service";
 import { wsService } from "./services/websocket.service";
 import { jobQueue } from "./services/jobQueue.service";
 
@@ -27,8 +29,15 @@ const startServer = async (): Promise<void> => {
     await connectDB();
 
     // Initialize Redis-backed services in parallel
-    await Promise.all([rateLimiter.initialize(), cacheService.initialize()]);
-    logger.info("Redis services initialized (rate limiter, cache)");
+    await Promise.all([
+      rateLimiter.initialize(),
+      rateLimitService.initialize(config.redis),
+      cacheService.initialize(),
+      apiUsageService.initialize(),
+    ]);
+    logger.info(
+      "Redis services initialized (rate limiters, cache, API usage metering)"
+    );
 
     // Initialize job queue for background processing
     try {
@@ -83,7 +92,9 @@ const startServer = async (): Promise<void> => {
             wsService.shutdown(),
             jobQueue.shutdown(),
             rateLimiter.shutdown(),
+            rateLimitService.shutdown(),
             cacheService.shutdown(),
+            apiUsageService.shutdown(),
           ]);
           logger.info("All services shut down");
         } catch (error) {
@@ -0,0 +1,93 @@
+/**
+ * API Quota Middleware
+ *
+ * Meters authenticated API calls against the organization's monthly
+ * maxApiCalls. Quota headers (X-Quota-*) are separate from the X-RateLimit-*
+ * headers of the short-window rate limiters.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import {
+  apiUsageService,
+  getPeriod,
+  getPeriodEnd,
+} from "../services/apiUsage.service";
+import { planLimitsService } from "../services/planLimits.service";
+import config from "../config";
+import logger from "../utils/logger";
+
+// Reachable even when the quota is used up
+const UNMETERED_PATHS = [
+  `/api/${config.apiVersion}/auth/`,
+  `/api/${config.apiVersion}/organizations/current/usage`,
+];
+
+export const apiQuota = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const organizationId = (req as any).user?.organizationId;
+  if (
+    !organizationId ||
+    UNMETERED_PATHS.some((path) => req.originalUrl.startsWith(path))
+  ) {
+    return next();
+  }
+
+  try {
+    const { plan, limits } = await planLimitsService.getPlanContext(
+      organizationId
+    );
+    const used = await apiUsageService.record(organizationId);
+
+    // -1 means unlimited; calls are still counted for the usage history
+    const limit = limits.maxApiCalls;
+    if (limit === -1) {
+      return next();
+    }
+
+    const resetsAt = getPeriodEnd();
+    res.set({
+      "X-Quota-Limit": limit.toString(),
+      "X-Quota-Remaining": Math.max(0, limit - used).toString(),
+      "X-Quota-Reset": Math.ceil(resetsAt.getTime() / 1000).toString(),
+    });
+
+    if (used <= limit) {
+      return next();
+    }
+
+    // Refused calls do not count against the quota
+    await apiUsageService.unrecord(organizationId);
+
+    const retryAfter = Math.ceil((resetsAt.getTime() - Date.now()) / 1000);
+    res.set("Retry-After", retryAfter.toString());
+
+    logger.warn("API quota exceeded", { organizationId, limit });
+
+    return res.status(429).json({
+      success: false,
+      error: `Monthly API call quota of ${limit} exceeded`,
+      code: "API_QUOTA_EXCEEDED",
+      quota: {
+        limit,
+        used: limit,
+        period: getPeriod(),
+        resetsAt,
+      },
+      plan,
+      upgradePlan: planLimitsService.getUpgradePlan(
+        plan,
+        "apiCalls",
+        limit + 1
+      ),
+    });
+  } catch (error) {
+    // Fail open so metering problems never take the API down
+    logger.error("API quota check failed", { organizationId, error });
+    next();
+  }
+};
+
+export default apiQuota;
@@ -5,53 +5,10 @@ import {
   AuthenticatedRequest,
   JwtPayload,
   ApiResponse,
-  Permission,
   AccessLevel,
 } from "../types";
 import logger from "../utils/logger";
 
-// Access level permissions mapping
-const ACCESS_LEVEL_PERMISSIONS: Record<AccessLevel, Permission[]> = {
-  owner: [
-    "manage_team",
-    "manage_roles",
-    "manage_permissions",
-    "create_tasks",
-    "assign_tasks",
-    "delete_tasks",
-    "edit_all_tasks",
-    "create_comments",
-    "delete_comments",
-    "manage_services",
-    "manage_workflows",
-    "manage_roadmap",
-    "view_analytics",
-    "export_data",
-  ],
-  admin: [
-    "manage_team",
-    "create_tasks",
-    "assign_tasks",
-    "delete_tasks",
-    "edit_all_tasks",
-    "create_comments",
-    "delete_comments",
-    "manage_services",
-    "manage_workflows",
-    "manage_roadmap",
-    "view_analytics",
-    "export_data",
-  ],
-  member: [
-    "create_tasks",
-    "assign_tasks",
-    "create_comments",
-    "view_analytics",
-    "export_data",
-  ],
-  viewer: ["create_comments"],
-};
-
 export const authenticate = (
   req: AuthenticatedRequest,
   res: Response,
@@ -120,39 +77,6 @@ export const optionalAuth = (
   }
 };
 
-/**
- * Require specific permission to access route
- */
-export const requirePermission = (permission: Permission) => {
-  return (
-    req: AuthenticatedRequest,
-    res: Response,
-    next: NextFunction
-  ): void => {
-    if (!req.user) {
-      res.status(401).json({
-        success: false,
-        error: "Authentication required",
-      } as ApiResponse);
-      return;
-    }
-
-    const userPermissions =
-      ACCESS_LEVEL_PERMISSIONS[req.user.accessLevel] || [];
-
-    if (!userPermissions.includes(permission)) {
-      res.status(403).json({
-        success: false,
-        error: `Permission denied. Required: ${permission}`,
-        code: "PERMISSION_DENIED",
-      } as ApiResponse);
-      return;
-    }
-
-    next();
-  };
-};
-
 /**
  * Require specific access level or higher
  */
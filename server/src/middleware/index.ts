@@ -13,6 +13,9 @@ export {
 } from "./errorHandler";
 export * from "./validators";
 
+// Request tracing
+export { requestId } from "./requestId";
+
 // Rate limiting
 export { rateLimiter } from "./rateLimiter";
 
@@ -5,6 +5,8 @@
 
 import { Request, Response, NextFunction } from "express";
 import { Organization, PLAN_LIMITS } from "../models";
+import { planLimitsService, LimitType } from "../services/planLimits.service";
+import { AuthenticatedRequest } from "../types";
 import logger from "../utils/logger";
 
 // Extend Express Request to include organization context
@@ -164,28 +166,59 @@ export const requireFeature = (feature: string) => {
 
 /**
  * Check organization limits (users, tasks, storage, etc.)
+ *
+ * `count` gives the number of units the request adds (default 1) and
+ * `replacesExisting` marks requests that clear existing data first. Cached
+ * counts are dropped once the request succeeds. `fromBody` reads the
+ * organization from the request body, for public routes such as register
+ * that have no signed-in user.
  */
 export const checkLimit = (
-  limitType: "users" | "tasks" | "storage" | "apiCalls"
+  limitType: LimitType,
+  options: {
+    count?: (req: Request) => number;
+    replacesExisting?: (req: Request) => boolean;
+    fromBody?: boolean;
+  } = {}
 ) => {
   return async (req: Request, res: Response, next: NextFunction) => {
-    if (!req.organization) {
+    const organizationId = options.fromBody
+      ? req.body?.organizationId
+      : req.organization?.id ||
+        (req as AuthenticatedRequest).user?.organizationId;
+    if (!organizationId) {
       return next();
     }
 
-    const limits = req.organization.limits;
-    const limitValue =
-      limits[`max${limitType.charAt(0).toUpperCase() + limitType.slice(1)}`];
+    try {
+      const requested = options.count ? options.count(req) : 1;
+      const exceeded = await planLimitsService.check(
+        organizationId,
+        limitType,
+        requested,
+        options.replacesExisting?.(req) || false
+      );
 
-    // -1 means unlimited
-    if (limitValue === -1) {
-      return next();
-    }
+      if (exceeded) {
+        return res
+          .status(403)
+          .json(planLimitsService.toErrorResponse(exceeded));
+      }
 
-    // TODO: Implement actual count checks based on limitType
-    // This would query the database to count current usage
+      if (limitType === "users" || limitType === "tasks") {
+        res.on("finish", () => {
+          if (res.statusCode < 400) {
+            planLimitsService.invalidate(organizationId).catch((error) => {
+              logger.warn("Failed to invalidate usage counts:", error);
+            });
+          }
+        });
+      }
 
-    next();
+      next();
+    } catch (error) {
+      next(error);
+    }
   };
 };
 
@@ -1,69 +1,26 @@
 import { Response, NextFunction } from "express";
 import {
   AuthenticatedRequest,
+  JwtPayload,
   Permission,
   AccessLevel,
   ApiResponse,
 } from "../types";
+import { permissionService } from "../services/permission.service";
 
-// Permission mappings by access level
-const ACCESS_LEVEL_PERMISSIONS: Record<AccessLevel, Permission[]> = {
-  owner: [
-    "manage_team",
-    "manage_roles",
-    "manage_permissions",
-    "create_tasks",
-    "assign_tasks",
-    "delete_tasks",
-    "edit_all_tasks",
-    "create_comments",
-    "delete_comments",
-    "manage_services",
-    "manage_workflows",
-    "manage_roadmap",
-    "view_analytics",
-    "export_data",
-  ],
-  admin: [
-    "manage_team",
-    "create_tasks",
-    "assign_tasks",
-    "delete_tasks",
-    "edit_all_tasks",
-    "create_comments",
-    "delete_comments",
-    "manage_services",
-    "manage_workflows",
-    "manage_roadmap",
-    "view_analytics",
-    "export_data",
-  ],
-  member: [
-    "create_tasks",
-    "assign_tasks",
-    "create_comments",
-    "view_analytics",
-    "export_data",
-  ],
-  viewer: ["create_comments"],
-};
-
-// Check if user has specific permission
+// Check if user has specific permission, honouring custom grants and denies
 export const hasPermission = (
-  accessLevel: AccessLevel,
+  user: JwtPayload,
   permission: Permission
-): boolean => {
-  const permissions = ACCESS_LEVEL_PERMISSIONS[accessLevel] || [];
-  return permissions.includes(permission);
-};
+): Promise<boolean> => permissionService.has(user, permission);
 
-// Middleware to check permissions
+// Middleware to check permissions; any one of them is enough
 export const requirePermission = (...permissions: Permission[]) => {
-  return (
+  return async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
-  ): void => {
+  ): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -72,21 +29,20 @@ export const requirePermission = (...permissions: Permission[]) => {
       return;
     }
 
-    const userPermissions =
-      ACCESS_LEVEL_PERMISSIONS[req.user.accessLevel] || [];
-    const hasRequiredPermission = permissions.some((p) =>
-      userPermissions.includes(p)
-    );
+    try {
+      if (!(await permissionService.has(req.user, ...permissions))) {
+        res.status(403).json({
+          success: false,
+          error: `Permission denied. Required: ${permissions.join(" or ")}`,
+          code: "PERMISSION_DENIED",
+        } as ApiResponse);
+        return;
+      }
 
-    if (!hasRequiredPermission) {
-      res.status(403).json({
-        success: false,
-        error: "Insufficient permissions",
-      } as ApiResponse);
-      return;
+      next();
+    } catch (error) {
+      next(error);
     }
-
-    next();
   };
 };
 
@@ -117,4 +73,4 @@ export const requireAccessLevel = (...levels: AccessLevel[]) => {
   };
 };
 
-export { ACCESS_LEVEL_PERMISSIONS };
+export { ACCESS_LEVEL_PERMISSIONS } from "../config/permissions";
@@ -4,7 +4,7 @@
  * Features:
  * - Per-user rate limiting (not just IP)
  * - Redis-backed for distributed systems
- * - Tiered limits based on user roles
+ * - Tiered limits based on the organization's subscription plan
  * - Separate limits for different endpoints
  * - Sliding window algorithm for fairness
  * - Retry-After headers for client guidance
@@ -13,46 +13,21 @@
 import { Request, Response, NextFunction } from "express";
 import { createClient, RedisClientType } from "redis";
 import config from "../config";
+import { AuthenticatedRequest } from "../types";
+import { rateLimitService } from "../services/rateLimit.service";
 import logger from "../utils/logger";
 
-// Rate limit tiers based on user access level
 interface RateLimitTier {
   windowMs: number;
   maxRequests: number;
   burstLimit: number; // Max requests in 1 second burst
 }
 
-const RATE_LIMIT_TIERS: Record<string, RateLimitTier> = {
-  // Unauthenticated users (by IP)
-  anonymous: {
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 30,
-    burstLimit: 10,
-  },
-  // Authenticated viewers
-  viewer: {
-    windowMs: 60 * 1000,
-    maxRequests: 60,
-    burstLimit: 15,
-  },
-  // Regular members
-  member: {
-    windowMs: 60 * 1000,
-    maxRequests: 100,
-    burstLimit: 20,
-  },
-  // Admins
-  admin: {
-    windowMs: 60 * 1000,
-    maxRequests: 200,
-    burstLimit: 50,
-  },
-  // Owners (highest tier)
-  owner: {
-    windowMs: 60 * 1000,
-    maxRequests: 500,
-    burstLimit: 100,
-  },
+// Unauthenticated users (by IP); signed-in users get their plan's tier
+const ANONYMOUS_TIER: RateLimitTier = {
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 30,
+  burstLimit: 10,
 };
 
 // Endpoint-specific limits (stricter for sensitive operations)
@@ -122,10 +97,12 @@ class RateLimiter {
    * Get identifier for rate limiting
    * Prefers user ID, falls back to IP
    */
-  private getIdentifier(req: Request): { id: string; type: "user" | "ip" } {
-    const user = (req as any).user;
-    if (user?.id) {
-      return { id: `user:${user.id}`, type: "user" };
+  private getIdentifier(req: AuthenticatedRequest): {
+    id: string;
+    type: "user" | "ip";
+  } {
+    if (req.user?.userId) {
+      return { id: `user:${req.user.userId}`, type: "user" };
     }
 
     // Get real IP (considering proxies)
@@ -139,17 +116,22 @@ class RateLimiter {
   }
 
   /**
-   * Get rate limit tier for request
+   * Get rate limit tier for request: the hourly and per-second limits of
+   * the plan of the user's organization
    */
-  private getTier(req: Request): RateLimitTier {
-    const user = (req as any).user;
-
-    if (!user) {
-      return RATE_LIMIT_TIERS.anonymous;
+  private async getTier(req: AuthenticatedRequest): Promise<RateLimitTier> {
+    if (!req.user) {
+      return ANONYMOUS_TIER;
     }
 
-    const accessLevel = user.accessLevel || "member";
-    return RATE_LIMIT_TIERS[accessLevel] || RATE_LIMIT_TIERS.member;
+    const { limits } = await rateLimitService.getOrganizationTier(
+      req.user.organizationId
+    );
+    return {
+      windowMs: limits.global.windowMs,
+      maxRequests: limits.global.maxRequests,
+      burstLimit: limits.perSecond.maxRequests,
+    };
   }
 
   /**
@@ -299,7 +281,11 @@ class RateLimiter {
    * Main rate limit middleware
    */
   middleware() {
-    return async (req: Request, res: Response, next: NextFunction) => {
+    return async (
+      req: AuthenticatedRequest,
+      res: Response,
+      next: NextFunction
+    ) => {
       const { id: identifier } = this.getIdentifier(req);
 
       // Check if blocked
@@ -312,7 +298,7 @@ class RateLimiter {
       }
 
       // Get applicable limits
-      const tier = this.getTier(req);
+      const tier = await this.getTier(req);
       const endpointLimit = this.getEndpointLimit(req);
 
       // Use stricter of tier limit or endpoint limit
@@ -432,21 +418,27 @@ class RateLimiter {
   /**
    * Get current rate limit status for a user
    */
-  async getStatus(userId: string): Promise<{
+  async getStatus(
+    userId: string,
+    organizationId: string
+  ): Promise<{
     tier: string;
     limit: number;
     remaining: number;
     resetTime: number;
   }> {
     const identifier = `user:${userId}`;
-    const tier = RATE_LIMIT_TIERS.member; // Default for API check
+    const { name, limits } = await rateLimitService.getOrganizationTier(
+      organizationId
+    );
+    const tier = limits.global;
 
     if (this.redis && this.isRedisConnected) {
       const key = REDIS_PREFIX.rateLimit + identifier;
       const count = await this.redis.zCard(key);
 
       return {
-        tier: "member",
+        tier: name,
         limit: tier.maxRequests,
         remaining: Math.max(0, tier.maxRequests - count),
         resetTime: Date.now() + tier.windowMs,
@@ -454,7 +446,7 @@ class RateLimiter {
     }
 
     return {
-      tier: "member",
+      tier: name,
       limit: tier.maxRequests,
       remaining: tier.maxRequests,
       resetTime: Date.now() + tier.windowMs,
@@ -0,0 +1,33 @@
+/**
+ * Request ID Middleware
+ *
+ * Gives every request an ID, reusing a client-supplied X-Request-ID when it
+ * looks sane, and echoes it in the response so logs and audit entries can be
+ * traced back to a request.
+ */
+
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+const REQUEST_ID_HEADER = "X-Request-ID";
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.id =
+    incoming && VALID_REQUEST_ID.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.id);
+  next();
+};
+
+export default requestId;
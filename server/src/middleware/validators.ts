@@ -1,4 +1,7 @@
 import { body, param, query } from "express-validator";
+import { WEBHOOK_EVENTS } from "../models/Webhook";
+import { UPDATABLE_TASK_FIELDS } from "../models/AutomationRule";
+import { PERMISSIONS } from "../config/permissions";
 
 // Task validators
 export const createTaskValidator = [
@@ -38,6 +41,15 @@ export const createTaskValidator = [
     .optional()
     .isArray()
     .withMessage("Dependencies must be an array"),
+  body("isPrivate")
+    .optional()
+    .isBoolean()
+    .withMessage("isPrivate must be a boolean"),
+  body("watchers")
+    .optional()
+    .isArray()
+    .withMessage("Watchers must be an array"),
+  body("watchers.*").isString().withMessage("Watcher IDs must be strings"),
 ];
 
 export const updateTaskValidator = [
@@ -60,6 +72,15 @@ export const updateTaskValidator = [
     .optional()
     .isIn(["low", "medium", "high", "critical"])
     .withMessage("Invalid priority"),
+  body("isPrivate")
+    .optional()
+    .isBoolean()
+    .withMessage("isPrivate must be a boolean"),
+  body("watchers")
+    .optional()
+    .isArray()
+    .withMessage("Watchers must be an array"),
+  body("watchers.*").isString().withMessage("Watcher IDs must be strings"),
 ];
 
 // Comment validators
@@ -111,6 +132,10 @@ export const createTeamMemberValidator = [
     .optional()
     .isIn(["owner", "admin", "member", "viewer"])
     .withMessage("Invalid access level"),
+  body("defaultHourlyRate")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 })
+    .withMessage("Default hourly rate must be a positive number"),
 ];
 
 export const updateTeamMemberValidator = [
@@ -129,6 +154,1118 @@ export const updateTeamMemberValidator = [
     .optional()
     .isIn(["owner", "admin", "member", "viewer"])
     .withMessage("Invalid access level"),
+  body("defaultHourlyRate")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 })
+    .withMessage("Default hourly rate must be a positive number"),
+];
+
+// Automation validators
+const AUTOMATION_TRIGGERS = [
+  "task_created",
+  "task_updated",
+  "task_status_changed",
+  "task_assigned",
+  "task_due_soon",
+  "task_overdue",
+  "comment_added",
+  "time_logged",
+  "schedule",
+];
+
+const AUTOMATION_OPERATORS = [
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "greater_than",
+  "less_than",
+  "is_empty",
+  "is_not_empty",
+  "in",
+  "not_in",
+  "changed",
+  "changed_to",
+  "changed_from",
+  "within_next_days",
+  "within_last_days",
+  "older_than_days",
+];
+
+const AUTOMATION_DATE_OPERATORS = [
+  "within_next_days",
+  "within_last_days",
+  "older_than_days",
+];
+
+const MAX_CONDITION_DEPTH = 5;
+
+// Recursively validate condition leaves and AND/OR/NOT groups
+const validateConditions = (conditions: any[], depth = 1): boolean => {
+  if (depth > MAX_CONDITION_DEPTH) {
+    throw new Error(
+      `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels`
+    );
+  }
+
+  for (const node of conditions) {
+    if (node?.group !== undefined) {
+      if (!["and", "or", "not"].includes(node.group)) {
+        throw new Error("Invalid condition group");
+      }
+      if (!Array.isArray(node.conditions) || node.conditions.length === 0) {
+        throw new Error("Condition group requires at least one condition");
+      }
+      validateConditions(node.conditions, depth + 1);
+      continue;
+    }
+
+    if (typeof node?.field !== "string" || !node.field) {
+      throw new Error("Condition field is required");
+    }
+    if (!AUTOMATION_OPERATORS.includes(node.operator)) {
+      throw new Error("Invalid condition operator");
+    }
+    if (
+      ["in", "not_in"].includes(node.operator) &&
+      !Array.isArray(node.value)
+    ) {
+      throw new Error(`${node.operator} conditions require an array value`);
+    }
+    if (
+      AUTOMATION_DATE_OPERATORS.includes(node.operator) &&
+      !(Number(node.value) >= 0)
+    ) {
+      throw new Error(`${node.operator} conditions require a number of days`);
+    }
+  }
+
+  return true;
+};
+
+const AUTOMATION_ACTIONS = [
+  "update_task_status",
+  "update_task_priority",
+  "assign_task",
+  "add_tag",
+  "remove_tag",
+  "send_notification",
+  "send_webhook",
+  "create_task",
+  "add_comment",
+  "send_email",
+  "update_field",
+  "move_to_context",
+];
+
+// update_field may only target the whitelisted task fields
+const isAllowedAction = (action: any) =>
+  action?.type !== "update_field" ||
+  UPDATABLE_TASK_FIELDS.includes(action.config?.field);
+
+const UPDATE_FIELD_MESSAGE =
+  "update_field can only set: " + UPDATABLE_TASK_FIELDS.join(", ");
+
+// Five or six space-separated cron fields
+const CRON_EXPRESSION = /^(\S+\s+){4,5}\S+$/;
+
+const isTimezone = (value: string) => {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const createAutomationRuleValidator = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("trigger")
+    .notEmpty()
+    .withMessage("Trigger is required")
+    .isIn(AUTOMATION_TRIGGERS)
+    .withMessage("Invalid trigger"),
+  body("conditions")
+    .optional()
+    .isArray()
+    .withMessage("Conditions must be an array")
+    .bail()
+    .custom((conditions) => validateConditions(conditions)),
+  body("actions")
+    .isArray({ min: 1 })
+    .withMessage("At least one action is required"),
+  body("actions.*.type")
+    .isIn(AUTOMATION_ACTIONS)
+    .withMessage("Invalid action type"),
+  body("actions.*").custom(isAllowedAction).withMessage(UPDATE_FIELD_MESSAGE),
+  body("actions.*.config")
+    .optional()
+    .isObject()
+    .withMessage("Action config must be an object"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  body("schedule.cron")
+    .if(body("trigger").equals("schedule"))
+    .notEmpty()
+    .withMessage("Cron expression is required for scheduled rules")
+    .bail()
+    .matches(CRON_EXPRESSION)
+    .withMessage("Invalid cron expression"),
+  body("schedule.timezone")
+    .optional()
+    .isString()
+    .custom(isTimezone)
+    .withMessage("Invalid timezone"),
+];
+
+export const updateAutomationRuleValidator = [
+  param("id").notEmpty().withMessage("Rule ID is required"),
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("trigger")
+    .optional()
+    .isIn(AUTOMATION_TRIGGERS)
+    .withMessage("Invalid trigger"),
+  body("conditions")
+    .optional()
+    .isArray()
+    .withMessage("Conditions must be an array")
+    .bail()
+    .custom((conditions) => validateConditions(conditions)),
+  body("actions")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("At least one action is required"),
+  body("actions.*.type")
+    .isIn(AUTOMATION_ACTIONS)
+    .withMessage("Invalid action type"),
+  body("actions.*").custom(isAllowedAction).withMessage(UPDATE_FIELD_MESSAGE),
+  body("actions.*.config")
+    .optional()
+    .isObject()
+    .withMessage("Action config must be an object"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  body("schedule.cron")
+    .optional()
+    .matches(CRON_EXPRESSION)
+    .withMessage("Invalid cron expression"),
+  body("schedule.timezone")
+    .optional()
+    .isString()
+    .custom(isTimezone)
+    .withMessage("Invalid timezone"),
+];
+
+export const instantiateAutomationTemplateValidator = [
+  param("templateId").notEmpty().withMessage("Template ID is required"),
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("actions")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("At least one action is required"),
+  body("actions.*.type")
+    .isIn(AUTOMATION_ACTIONS)
+    .withMessage("Invalid action type"),
+  body("actions.*").custom(isAllowedAction).withMessage(UPDATE_FIELD_MESSAGE),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+];
+
+export const dryRunAutomationRuleValidator = [
+  param("id").notEmpty().withMessage("Rule ID is required"),
+  body("taskId").optional().isString().withMessage("Task ID must be a string"),
+  body("changes")
+    .optional()
+    .isObject()
+    .withMessage("Changes must be an object"),
+  body("previousTask")
+    .optional()
+    .isObject()
+    .withMessage("Previous task must be an object"),
+];
+
+// Webhook validators
+export const createWebhookValidator = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("url")
+    .trim()
+    .isURL({ protocols: ["http", "https"], require_protocol: true })
+    .withMessage("A valid http(s) URL is required"),
+  body("events")
+    .isArray({ min: 1 })
+    .withMessage("At least one event is required"),
+  body("events.*").isIn(WEBHOOK_EVENTS).withMessage("Invalid webhook event"),
+  body("secret")
+    .optional()
+    .isString()
+    .isLength({ min: 16 })
+    .withMessage("Secret must be at least 16 characters"),
+  body("headers")
+    .optional()
+    .isObject()
+    .withMessage("Headers must be an object"),
+  body("retryCount")
+    .optional()
+    .isInt({ min: 0, max: 10 })
+    .withMessage("Retry count must be between 0 and 10"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+];
+
+export const updateWebhookValidator = [
+  param("id").notEmpty().withMessage("Webhook ID is required"),
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("url")
+    .optional()
+    .trim()
+    .isURL({ protocols: ["http", "https"], require_protocol: true })
+    .withMessage("A valid http(s) URL is required"),
+  body("events")
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage("At least one event is required"),
+  body("events.*").isIn(WEBHOOK_EVENTS).withMessage("Invalid webhook event"),
+  body("headers")
+    .optional()
+    .isObject()
+    .withMessage("Headers must be an object"),
+  body("retryCount")
+    .optional()
+    .isInt({ min: 0, max: 10 })
+    .withMessage("Retry count must be between 0 and 10"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+];
+
+// Recurring task validators
+const RECURRENCE_FREQUENCIES = [
+  "daily",
+  "weekly",
+  "biweekly",
+  "monthly",
+  "quarterly",
+  "yearly",
+  "custom",
+];
+
+// Recurrence is required on create; on update it is validated only when sent
+const recurrenceValidators = (optional: boolean) => {
+  const field = (path: string) =>
+    optional ? body(path).if(body("recurrence").exists()) : body(path);
+
+  return [
+    (optional ? body("recurrence").optional() : body("recurrence"))
+      .isObject()
+      .withMessage("Recurrence is required"),
+    field("recurrence.frequency")
+      .isIn(RECURRENCE_FREQUENCIES)
+      .withMessage("Invalid recurrence frequency"),
+    field("recurrence.interval")
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage("Interval must be between 1 and 365"),
+    field("recurrence.daysOfWeek")
+      .optional()
+      .isArray({ max: 7 })
+      .withMessage("Days of week must be an array"),
+    field("recurrence.daysOfWeek.*")
+      .isInt({ min: 0, max: 6 })
+      .withMessage("Days of week must be between 0 and 6"),
+    field("recurrence.dayOfMonth")
+      .optional({ values: "null" })
+      .isInt({ min: 1, max: 31 })
+      .withMessage("Day of month must be between 1 and 31"),
+    field("recurrence.monthOfYear")
+      .optional({ values: "null" })
+      .isInt({ min: 1, max: 12 })
+      .withMessage("Month of year must be between 1 and 12"),
+    field("recurrence.startDate")
+      .isInt({ min: 0 })
+      .withMessage("Start date must be a timestamp"),
+    field("recurrence.endDate")
+      .optional({ values: "null" })
+      .isInt({ min: 0 })
+      .withMessage("End date must be a timestamp")
+      .custom((value, { req }) => value > req.body.recurrence.startDate)
+      .withMessage("End date must be after start date"),
+    field("recurrence.timezone")
+      .optional()
+      .isString()
+      .custom(isTimezone)
+      .withMessage("Invalid timezone"),
+  ];
+};
+
+export const createRecurringTaskValidator = [
+  body("templateName")
+    .trim()
+    .notEmpty()
+    .withMessage("Template name is required")
+    .isLength({ max: 100 })
+    .withMessage("Template name cannot exceed 100 characters"),
+  body("title")
+    .trim()
+    .notEmpty()
+    .withMessage("Title is required")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Description cannot exceed 5000 characters"),
+  body("status")
+    .optional()
+    .isIn(["todo", "in-progress", "review", "done"])
+    .withMessage("Invalid status"),
+  body("priority")
+    .optional()
+    .isIn(["low", "medium", "high", "critical"])
+    .withMessage("Invalid priority"),
+  body("assigneeId")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Assignee ID must be a string"),
+  body("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  body("contextId")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Context ID must be a string"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  ...recurrenceValidators(false),
+];
+
+export const updateRecurringTaskValidator = [
+  param("id").notEmpty().withMessage("Recurring task ID is required"),
+  body("templateName")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Template name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Template name cannot exceed 100 characters"),
+  body("title")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Title cannot be empty")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Description cannot exceed 5000 characters"),
+  body("status")
+    .optional()
+    .isIn(["todo", "in-progress", "review", "done"])
+    .withMessage("Invalid status"),
+  body("priority")
+    .optional()
+    .isIn(["low", "medium", "high", "critical"])
+    .withMessage("Invalid priority"),
+  body("assigneeId")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Assignee ID must be a string"),
+  body("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  body("contextId")
+    .optional({ values: "null" })
+    .isString()
+    .withMessage("Context ID must be a string"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+  body("isActive")
+    .optional()
+    .isBoolean()
+    .withMessage("isActive must be a boolean"),
+  ...recurrenceValidators(true),
+];
+
+export const previewRecurringTaskValidator = [
+  param("id").notEmpty().withMessage("Recurring task ID is required"),
+  query("count")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Count must be between 1 and 50"),
+];
+
+// Task template validators
+const AUTO_ASSIGN_TYPES = [
+  "specific",
+  "round_robin",
+  "least_loaded",
+  "skill_based",
+];
+
+const taskTemplateBodyValidators = [
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("taskDescription")
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Task description cannot exceed 5000 characters"),
+  body("status")
+    .optional()
+    .isIn(["todo", "in-progress", "review", "done"])
+    .withMessage("Invalid status"),
+  body("priority")
+    .optional()
+    .isIn(["low", "medium", "high", "critical"])
+    .withMessage("Invalid priority"),
+  body("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+  body("estimatedHours")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 })
+    .withMessage("Estimated hours must be a positive number"),
+  body("checklist")
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage("Checklist must be an array of at most 50 items"),
+  body("checklist.*.text")
+    .trim()
+    .notEmpty()
+    .withMessage("Checklist item text is required"),
+  body("checklist.*.required")
+    .optional()
+    .isBoolean()
+    .withMessage("Checklist item required must be a boolean"),
+  body("subtasks")
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage("Subtasks must be an array of at most 20 items"),
+  body("subtasks.*.title")
+    .trim()
+    .notEmpty()
+    .withMessage("Subtask title is required")
+    .isLength({ max: 200 })
+    .withMessage("Subtask title cannot exceed 200 characters"),
+  body("subtasks.*.priority")
+    .optional()
+    .isIn(["low", "medium", "high", "critical"])
+    .withMessage("Invalid subtask priority"),
+  body("autoAssign")
+    .optional({ values: "null" })
+    .isObject()
+    .withMessage("Auto-assign must be an object"),
+  body("autoAssign.type")
+    .if(body("autoAssign").exists({ values: "null" }))
+    .isIn(AUTO_ASSIGN_TYPES)
+    .withMessage("Invalid auto-assign strategy"),
+  body("autoAssign.assigneeId")
+    .if(body("autoAssign.type").equals("specific"))
+    .isString()
+    .notEmpty()
+    .withMessage("Assignee is required for specific assignment"),
+  body("autoAssign.skillTags")
+    .if(body("autoAssign.type").equals("skill_based"))
+    .isArray({ min: 1 })
+    .withMessage("Skill tags are required for skill-based assignment"),
+  body("isPublic")
+    .optional()
+    .isBoolean()
+    .withMessage("isPublic must be a boolean"),
+];
+
+export const createTaskTemplateValidator = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("category").trim().notEmpty().withMessage("Category is required"),
+  body("title")
+    .trim()
+    .notEmpty()
+    .withMessage("Task title is required")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  ...taskTemplateBodyValidators,
+];
+
+export const updateTaskTemplateValidator = [
+  param("id").notEmpty().withMessage("Template ID is required"),
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name cannot exceed 100 characters"),
+  body("category")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Category cannot be empty"),
+  body("title")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Task title cannot be empty")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  ...taskTemplateBodyValidators,
+];
+
+export const instantiateTaskTemplateValidator = [
+  param("id").notEmpty().withMessage("Template ID is required"),
+  body("title")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Title cannot be empty")
+    .isLength({ max: 200 })
+    .withMessage("Title cannot exceed 200 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 5000 })
+    .withMessage("Description cannot exceed 5000 characters"),
+  body("priority")
+    .optional()
+    .isIn(["low", "medium", "high", "critical"])
+    .withMessage("Invalid priority"),
+  body("assigneeId")
+    .optional()
+    .isString()
+    .withMessage("Assignee ID must be a string"),
+  body("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  body("contextId")
+    .optional()
+    .isString()
+    .withMessage("Context ID must be a string"),
+  body("dueDate")
+    .optional()
+    .isNumeric()
+    .withMessage("Due date must be a timestamp"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+];
+
+// Time entry validators
+const timeEntryBodyValidators = [
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("isBillable")
+    .optional()
+    .isBoolean()
+    .withMessage("isBillable must be a boolean"),
+  body("hourlyRate")
+    .optional({ values: "null" })
+    .isFloat({ min: 0 })
+    .withMessage("Hourly rate must be a positive number"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+];
+
+const isAfterStartTime = (endTime: number, { req }: { req: any }) => {
+  if (req.body.startTime !== undefined && endTime <= req.body.startTime) {
+    throw new Error("End time must be after start time");
+  }
+  return true;
+};
+
+export const startTimerValidator = [
+  body("taskId").trim().notEmpty().withMessage("Task ID is required"),
+  ...timeEntryBodyValidators,
+];
+
+export const startTaskTimerValidator = [
+  param("id").notEmpty().withMessage("Task ID is required"),
+  ...timeEntryBodyValidators,
+];
+
+export const createTimeEntryValidator = [
+  body("taskId").trim().notEmpty().withMessage("Task ID is required"),
+  body("startTime")
+    .isInt({ min: 0 })
+    .withMessage("Start time must be a timestamp")
+    .toInt(),
+  body("endTime")
+    .isInt({ min: 0 })
+    .withMessage("End time must be a timestamp")
+    .toInt()
+    .custom(isAfterStartTime),
+  ...timeEntryBodyValidators,
+];
+
+export const updateTimeEntryValidator = [
+  param("id").notEmpty().withMessage("Time entry ID is required"),
+  body("startTime")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start time must be a timestamp")
+    .toInt(),
+  body("endTime")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End time must be a timestamp")
+    .toInt()
+    .custom(isAfterStartTime),
+  ...timeEntryBodyValidators,
+];
+
+export const stopTimerValidator = [
+  body("discardIdle")
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage("discardIdle must be a boolean"),
+];
+
+export const timerHeartbeatValidator = [
+  body("idleSince")
+    .optional({ values: "null" })
+    .isInt({ min: 0 })
+    .withMessage("idleSince must be a timestamp or null")
+    .toInt(),
+];
+
+export const timeEntryQueryValidator = [
+  query("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  query("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+  query("isBillable")
+    .optional()
+    .isBoolean()
+    .withMessage("isBillable must be a boolean"),
+  query("isRunning")
+    .optional()
+    .isBoolean()
+    .withMessage("isRunning must be a boolean"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+// Timesheet validators
+const ISO_WEEK = /^\d{4}-W\d{2}$/;
+
+export const timesheetQueryValidator = [
+  query("status")
+    .optional()
+    .isIn(["draft", "submitted", "approved", "rejected"])
+    .withMessage("Invalid timesheet status"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const timesheetWeekValidator = [
+  param("week")
+    .matches(ISO_WEEK)
+    .withMessage("Week must be an ISO week like 2026-W07"),
+];
+
+export const submitTimesheetValidator = [
+  ...timesheetWeekValidator,
+  body("comment")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Comment cannot exceed 1000 characters"),
+];
+
+export const approveTimesheetValidator = [
+  param("id").notEmpty().withMessage("Timesheet ID is required"),
+  body("comment")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Comment cannot exceed 1000 characters"),
+];
+
+export const rejectTimesheetValidator = [
+  param("id").notEmpty().withMessage("Timesheet ID is required"),
+  body("reason")
+    .trim()
+    .notEmpty()
+    .withMessage("Rejection reason is required")
+    .isLength({ max: 1000 })
+    .withMessage("Rejection reason cannot exceed 1000 characters"),
+];
+
+// Billable report validators
+const BILLABLE_GROUP_BY = ["tag", "context", "member"];
+
+export const billableReportQueryValidator = [
+  query("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  query("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+  query("groupBy")
+    .optional()
+    .isIn(BILLABLE_GROUP_BY)
+    .withMessage("Group by must be tag, context or member"),
+  query("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  query("currency")
+    .optional()
+    .matches(/^[A-Z]{3}$/)
+    .withMessage("Currency must be a 3-letter ISO code"),
+];
+
+export const exportBillableReportValidator = [
+  body("format").isIn(["csv", "pdf"]).withMessage("Format must be csv or pdf"),
+  body("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  body("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+  body("groupBy")
+    .optional()
+    .isIn(BILLABLE_GROUP_BY)
+    .withMessage("Group by must be tag, context or member"),
+  body("userId").optional().isString().withMessage("User ID must be a string"),
+  body("tags").optional().isArray().withMessage("Tags must be an array"),
+  body("contextType")
+    .optional()
+    .isIn(["service", "workflow", "roadmap", "general"])
+    .withMessage("Invalid context type"),
+  body("contextId")
+    .optional()
+    .isString()
+    .withMessage("Context ID must be a string"),
+  body("currency")
+    .optional()
+    .matches(/^[A-Z]{3}$/)
+    .withMessage("Currency must be a 3-letter ISO code"),
+  body("invoiceNumber")
+    .optional()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage("Invoice number cannot exceed 50 characters"),
+  body("clientName")
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Client name cannot exceed 200 characters"),
+  body("notes")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Notes cannot exceed 2000 characters"),
+];
+
+// Attachment validators
+const hasOneAttachmentParent = (source: Record<string, any>) =>
+  Boolean(source.taskId) !== Boolean(source.commentId);
+
+export const initAttachmentUploadValidator = [
+  body("fileName")
+    .trim()
+    .notEmpty()
+    .withMessage("File name is required")
+    .isLength({ max: 255 })
+    .withMessage("File name cannot exceed 255 characters"),
+  body("mimeType").trim().notEmpty().withMessage("MIME type is required"),
+  body("size")
+    .isInt({ min: 1 })
+    .withMessage("Size must be a positive number of bytes")
+    .toInt(),
+  body("taskId").optional().isMongoId().withMessage("Invalid task ID"),
+  body("commentId").optional().isMongoId().withMessage("Invalid comment ID"),
+  body().custom((value) => {
+    if (!hasOneAttachmentParent(value || {})) {
+      throw new Error("Provide either taskId or commentId");
+    }
+    return true;
+  }),
+];
+
+export const attachmentQueryValidator = [
+  query("taskId").optional().isMongoId().withMessage("Invalid task ID"),
+  query("commentId").optional().isMongoId().withMessage("Invalid comment ID"),
+  query().custom((value) => {
+    if (!hasOneAttachmentParent(value || {})) {
+      throw new Error("Provide either taskId or commentId");
+    }
+    return true;
+  }),
+];
+
+export const attachmentSearchValidator = [
+  query("q")
+    .trim()
+    .notEmpty()
+    .withMessage("Search query is required")
+    .isLength({ max: 200 })
+    .withMessage("Search query cannot exceed 200 characters"),
+  query("taskId").optional().isMongoId().withMessage("Invalid task ID"),
+  query("commentId").optional().isMongoId().withMessage("Invalid comment ID"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage("Limit must be between 1 and 50")
+    .toInt(),
+];
+
+// Audit validators
+const auditLogFilterValidator = [
+  query("actorId").optional().isMongoId().withMessage("Invalid actor ID"),
+  query("entityType")
+    .optional()
+    .isString()
+    .withMessage("Entity type must be a string"),
+  query("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  query("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+  query("search")
+    .optional()
+    .isLength({ max: 100 })
+    .withMessage("Search cannot exceed 100 characters"),
+];
+
+export const auditLogQueryValidator = [
+  ...auditLogFilterValidator,
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  query("sortOrder")
+    .optional()
+    .isIn(["asc", "desc"])
+    .withMessage("Sort order must be asc or desc"),
+];
+
+export const auditExportValidator = [
+  query("format")
+    .optional()
+    .isIn(["csv", "json"])
+    .withMessage("Format must be csv or json"),
+  ...auditLogFilterValidator,
+];
+
+export const entityHistoryValidator = [
+  param("entityType").notEmpty().withMessage("Entity type is required"),
+  param("entityId").notEmpty().withMessage("Entity ID is required"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("Limit must be between 1 and 500"),
+];
+
+export const auditActivityValidator = [
+  param("id").isMongoId().withMessage("Invalid user ID"),
+  query("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  query("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("Limit must be between 1 and 500"),
+];
+
+export const auditStatisticsValidator = [
+  query("days")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Days must be between 1 and 365"),
+];
+
+export const securityEventQueryValidator = [
+  query("startDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Start date must be a timestamp"),
+  query("endDate")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("End date must be a timestamp"),
+];
+
+export const securityAlertQueryValidator = [
+  ...securityEventQueryValidator,
+  query("status")
+    .optional()
+    .custom((value: string) =>
+      value
+        .split(",")
+        .every((s) =>
+          ["new", "investigating", "resolved", "dismissed"].includes(s)
+        )
+    )
+    .withMessage(
+      "Status must be a list of new, investigating, resolved or dismissed"
+    ),
+  query("severity")
+    .optional()
+    .custom((value: string) =>
+      value
+        .split(",")
+        .every((s) => ["low", "medium", "high", "critical"].includes(s))
+    )
+    .withMessage("Severity must be a list of low, medium, high or critical"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+];
+
+export const securityAlertStatusValidator = [
+  param("id").isMongoId().withMessage("Invalid alert ID"),
+  body("resolution")
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage("Resolution cannot exceed 1000 characters"),
+];
+
+// Role validators
+export const createRoleValidator = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .withMessage("Name is required")
+    .isLength({ max: 50 })
+    .withMessage("Name cannot exceed 50 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("permissions").isArray().withMessage("Permissions must be an array"),
+  body("permissions.*").isIn(PERMISSIONS).withMessage("Invalid permission"),
+];
+
+export const updateRoleValidator = [
+  param("id").isMongoId().withMessage("Invalid role ID"),
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 50 })
+    .withMessage("Name cannot exceed 50 characters"),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description cannot exceed 500 characters"),
+  body("permissions")
+    .optional()
+    .isArray()
+    .withMessage("Permissions must be an array"),
+  body("permissions.*").isIn(PERMISSIONS).withMessage("Invalid permission"),
+];
+
+export const assignRoleValidator = [
+  param("id").notEmpty().withMessage("Member ID is required"),
+  body("roleId")
+    .exists()
+    .withMessage("roleId is required")
+    .bail()
+    .custom((value) => value === null || /^[a-f\d]{24}$/i.test(value))
+    .withMessage("roleId must be a role ID or null"),
 ];
 
 // Auth validators
@@ -0,0 +1,188 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// Pending until the upload completes; quarantined when the scan finds malware
+export type AttachmentStatus = "pending" | "ready" | "quarantined";
+
+export type AttachmentProcessingStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed";
+
+export type AttachmentScanStatus = "pending" | "clean" | "infected" | "skipped";
+
+export type AttachmentCategory =
+  | "image"
+  | "document"
+  | "video"
+  | "audio"
+  | "other";
+
+export interface IAttachment {
+  id: string;
+  organizationId: string; // Added for multi-tenancy
+  // Exactly one of taskId / commentId is set
+  taskId?: string | null;
+  commentId?: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number; // in bytes
+  category: AttachmentCategory;
+  storageDriver: "local" | "s3";
+  storageKey: string;
+  status: AttachmentStatus;
+  uploadedBy: string;
+  uploadedAt?: number | null;
+  processingStatus?: AttachmentProcessingStatus | null;
+  processingError?: string | null;
+  processedAt?: number | null;
+  scanStatus: AttachmentScanStatus;
+  scanResult?: string | null; // threat reported by the scanner
+  thumbnailKey?: string | null;
+  // Searchable text content; excluded from queries unless selected
+  extractedText?: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AttachmentDocument extends Omit<IAttachment, "id">, Document {}
+
+const attachmentSchema = new Schema<AttachmentDocument>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    taskId: {
+      type: String,
+      ref: "Task",
+      default: null,
+    },
+    commentId: {
+      type: String,
+      ref: "Comment",
+      default: null,
+    },
+    fileName: {
+      type: String,
+      required: [true, "File name is required"],
+      trim: true,
+      maxlength: [255, "File name cannot exceed 255 characters"],
+    },
+    mimeType: {
+      type: String,
+      required: [true, "MIME type is required"],
+    },
+    size: {
+      type: Number,
+      required: [true, "File size is required"],
+      min: [1, "File cannot be empty"],
+    },
+    category: {
+      type: String,
+      enum: ["image", "document", "video", "audio", "other"],
+      default: "other",
+    },
+    storageDriver: {
+      type: String,
+      enum: ["local", "s3"],
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "ready", "quarantined"],
+      default: "pending",
+    },
+    uploadedBy: {
+      type: String,
+      ref: "TeamMember",
+      required: [true, "Uploader is required"],
+    },
+    uploadedAt: {
+      type: Number,
+      default: null,
+    },
+    processingStatus: {
+      type: String,
+      enum: ["queued", "processing", "completed", "failed", null],
+      default: null,
+    },
+    processingError: {
+      type: String,
+      default: null,
+    },
+    processedAt: {
+      type: Number,
+      default: null,
+    },
+    scanStatus: {
+      type: String,
+      enum: ["pending", "clean", "infected", "skipped"],
+      default: "pending",
+    },
+    scanResult: {
+      type: String,
+      default: null,
+    },
+    thumbnailKey: {
+      type: String,
+      default: null,
+    },
+    extractedText: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    createdAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+    updatedAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        ret.hasThumbnail = Boolean(ret.thumbnailKey);
+        delete ret.storageKey;
+        delete ret.thumbnailKey;
+        delete ret.extractedText;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+attachmentSchema.index({ organizationId: 1, taskId: 1, status: 1 });
+attachmentSchema.index({ organizationId: 1, commentId: 1, status: 1 });
+attachmentSchema.index({ status: 1, createdAt: 1 });
+attachmentSchema.index(
+  { fileName: "text", extractedText: "text" },
+  { weights: { fileName: 5, extractedText: 1 } }
+);
+
+attachmentSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+const Attachment = mongoose.model<AttachmentDocument>(
+  "Attachment",
+  attachmentSchema
+);
+
+export default Attachment;
@@ -0,0 +1,135 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { AutomationTrigger } from "./AutomationRule";
+
+export type AutomationExecutionStatus = "success" | "failed" | "skipped";
+
+// Leaf results carry field/operator/value/actual; group results carry results
+export interface AutomationConditionResult {
+  group?: "and" | "or" | "not";
+  field?: string;
+  operator?: string;
+  value?: any;
+  actual?: any;
+  matched: boolean;
+  results?: AutomationConditionResult[];
+}
+
+export interface AutomationActionResult {
+  type: string;
+  status: "success" | "failed";
+  error?: string;
+}
+
+export interface IAutomationExecution {
+  id: string;
+  organizationId: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationTrigger;
+  taskId?: string;
+  status: AutomationExecutionStatus;
+  error?: string;
+  skipReason?: string;
+  depth: number; // Cascade depth (0 = triggered directly by a user action)
+  conditionResults: AutomationConditionResult[];
+  actionResults: AutomationActionResult[];
+  durationMs: number;
+  executedAt: number;
+}
+
+export interface AutomationExecutionDocument
+  extends Omit<IAutomationExecution, "id">,
+    Document {}
+
+const actionResultSchema = new Schema(
+  {
+    type: { type: String, required: true },
+    status: { type: String, enum: ["success", "failed"], required: true },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const automationExecutionSchema = new Schema<AutomationExecutionDocument>(
+  {
+    organizationId: {
+      type: String,
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    ruleId: {
+      type: String,
+      ref: "AutomationRule",
+      required: true,
+    },
+    ruleName: {
+      type: String,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      required: true,
+    },
+    taskId: {
+      type: String,
+      ref: "Task",
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ["success", "failed", "skipped"],
+      required: true,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    skipReason: {
+      type: String,
+      default: null,
+    },
+    depth: {
+      type: Number,
+      default: 0,
+    },
+    conditionResults: {
+      type: Schema.Types.Mixed,
+      default: [],
+    },
+    actionResults: [actionResultSchema],
+    durationMs: {
+      type: Number,
+      default: 0,
+    },
+    executedAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+automationExecutionSchema.index({
+  organizationId: 1,
+  ruleId: 1,
+  executedAt: -1,
+});
+
+const AutomationExecution = mongoose.model<AutomationExecutionDocument>(
+  "AutomationExecution",
+  automationExecutionSchema
+);
+
+export default AutomationExecution;
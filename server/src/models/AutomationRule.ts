@@ -25,20 +25,56 @@ export type AutomationAction =
   | "update_field"
   | "move_to_context";
 
+export type AutomationConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "not_contains"
+  | "greater_than"
+  | "less_than"
+  | "is_empty"
+  | "is_not_empty"
+  | "in"
+  | "not_in"
+  // Change detection against context.changes / previousTask
+  | "changed"
+  | "changed_to"
+  | "changed_from"
+  // Date-relative, value is a number of days
+  | "within_next_days"
+  | "within_last_days"
+  | "older_than_days";
+
 export interface AutomationCondition {
   field: string;
-  operator:
-    | "equals"
-    | "not_equals"
-    | "contains"
-    | "not_contains"
-    | "greater_than"
-    | "less_than"
-    | "is_empty"
-    | "is_not_empty";
+  operator: AutomationConditionOperator;
   value: any;
 }
 
+export interface AutomationConditionGroup {
+  group: "and" | "or" | "not";
+  conditions: AutomationConditionNode[];
+}
+
+// A rule's top-level conditions are combined with AND
+export type AutomationConditionNode =
+  | AutomationCondition
+  | AutomationConditionGroup;
+
+// Task fields the update_field action may set; ownership, tenancy and
+// assignment are off limits (assign_task handles the assignee)
+export const UPDATABLE_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueDate",
+  "tags",
+  "contextType",
+  "contextId",
+  "estimatedHours",
+];
+
 export interface AutomationActionConfig {
   type: AutomationAction;
   config: Record<string, any>;
@@ -50,7 +86,7 @@ export interface IAutomationRule {
   name: string;
   description?: string;
   trigger: AutomationTrigger;
-  conditions: AutomationCondition[];
+  conditions: AutomationConditionNode[];
   actions: AutomationActionConfig[];
   isActive: boolean;
   createdBy: string;
@@ -68,9 +104,19 @@ export interface AutomationRuleDocument
   extends Omit<IAutomationRule, "id">,
     Document {}
 
+// A condition node is either a leaf (field/operator/value) or a group
 const automationConditionSchema = new Schema(
   {
-    field: { type: String, required: true },
+    group: {
+      type: String,
+      enum: ["and", "or", "not"],
+    },
+    field: {
+      type: String,
+      required: function (this: { group?: string }) {
+        return !this.group;
+      },
+    },
     operator: {
       type: String,
       enum: [
@@ -82,14 +128,29 @@ const automationConditionSchema = new Schema(
         "less_than",
         "is_empty",
         "is_not_empty",
+        "in",
+        "not_in",
+        "changed",
+        "changed_to",
+        "changed_from",
+        "within_next_days",
+        "within_last_days",
+        "older_than_days",
       ],
-      required: true,
+      required: function (this: { group?: string }) {
+        return !this.group;
+      },
     },
     value: { type: Schema.Types.Mixed },
   },
   { _id: false }
 );
 
+// Nested groups reuse the same schema
+automationConditionSchema.add({
+  conditions: { type: [automationConditionSchema], default: undefined },
+});
+
 const automationActionSchema = new Schema(
   {
     type: {
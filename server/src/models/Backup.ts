@@ -18,6 +18,10 @@ const backupSchema = new Schema<BackupDocument>(
       type: String,
       required: [true, "Backup data is required"],
     },
+    size: {
+      type: Number,
+      default: 0,
+    },
     userId: {
       type: String,
       required: [true, "User ID is required"],
@@ -54,6 +58,14 @@ backupSchema.index({ type: 1 });
 // Keep only 10 most recent backups per user
 backupSchema.index({ userId: 1, timestamp: -1 });
 
+// Track the stored size for storage accounting
+backupSchema.pre("save", function (next) {
+  if (this.isModified("data")) {
+    this.size = Buffer.byteLength(this.data);
+  }
+  next();
+});
+
 const Backup = mongoose.model<BackupDocument>("Backup", backupSchema);
 
 export default Backup;
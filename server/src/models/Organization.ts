@@ -58,6 +58,15 @@ export interface IOrganization {
     features: string[]; // enabled features
   };
 
+  // Bytes stored; kept current on upload/delete and recomputed nightly
+  usage: {
+    attachmentBytes: number;
+    backupBytes: number;
+    reconciledAt?: Date;
+    // API calls of closed months; the current month is counted in Redis
+    apiCallHistory: { period: string; calls: number }[];
+  };
+
   // Settings
   settings: {
     defaultTimezone: string;
@@ -164,6 +173,19 @@ const organizationSchema = new Schema<OrganizationDocument>(
       features: [{ type: String }],
     },
 
+    usage: {
+      attachmentBytes: { type: Number, default: 0 },
+      backupBytes: { type: Number, default: 0 },
+      reconciledAt: Date,
+      apiCallHistory: [
+        {
+          _id: false,
+          period: { type: String, required: true }, // YYYY-MM
+          calls: { type: Number, default: 0 },
+        },
+      ],
+    },
+
     settings: {
       defaultTimezone: { type: String, default: "UTC" },
       defaultLanguage: { type: String, default: "en" },
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface IRecurringTask {
   id: string;
+  organizationId: string; // Added for multi-tenancy
   templateName: string;
   title: string;
   description?: string;
@@ -70,6 +71,12 @@ const recurrenceSchema = new Schema(
 
 const recurringTaskSchema = new Schema<RecurringTaskDocument>(
   {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
     templateName: {
       type: String,
       required: [true, "Template name is required"],
@@ -163,7 +170,8 @@ const recurringTaskSchema = new Schema<RecurringTaskDocument>(
 );
 
 recurringTaskSchema.index({ isActive: 1, nextCreationAt: 1 });
-recurringTaskSchema.index({ createdBy: 1 });
+recurringTaskSchema.index({ organizationId: 1, isActive: 1 });
+recurringTaskSchema.index({ organizationId: 1, createdBy: 1 });
 
 recurringTaskSchema.pre("save", function (next) {
   this.updatedAt = Date.now();
@@ -0,0 +1,130 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type ReportStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface IReport {
+  id: string;
+  organizationId: string; // Added for multi-tenancy
+  type: "billable-time";
+  format: "csv" | "pdf";
+  params: Record<string, any>;
+  status: ReportStatus;
+  requestedBy: string;
+  jobId?: string;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  // Generated file; excluded from queries unless selected
+  content?: Buffer;
+  error?: string;
+  completedAt?: number;
+  expiresAt: Date;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ReportDocument extends Omit<IReport, "id">, Document {}
+
+// Generated reports are kept for a week
+const REPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const reportSchema = new Schema<ReportDocument>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ["billable-time"],
+      required: [true, "Report type is required"],
+    },
+    format: {
+      type: String,
+      enum: ["csv", "pdf"],
+      required: [true, "Report format is required"],
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ["queued", "processing", "completed", "failed"],
+      default: "queued",
+    },
+    requestedBy: {
+      type: String,
+      ref: "TeamMember",
+      required: [true, "Requester is required"],
+    },
+    jobId: {
+      type: String,
+      default: null,
+    },
+    fileName: {
+      type: String,
+      default: null,
+    },
+    mimeType: {
+      type: String,
+      default: null,
+    },
+    size: {
+      type: Number,
+      default: null,
+    },
+    content: {
+      type: Buffer,
+      select: false,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    completedAt: {
+      type: Number,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      default: () => new Date(Date.now() + REPORT_RETENTION_MS),
+    },
+    createdAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+    updatedAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        delete ret.content;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+reportSchema.index({ organizationId: 1, requestedBy: 1, createdAt: -1 });
+reportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+reportSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+const Report = mongoose.model<ReportDocument>("Report", reportSchema);
+
+export default Report;
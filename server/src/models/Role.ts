@@ -0,0 +1,106 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { AccessLevel, Permission } from "../types";
+import { PERMISSIONS } from "../config/permissions";
+
+export interface IRole {
+  id: string;
+  organizationId: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  // Set on the seeded owner/admin/member/viewer roles, which mirror the
+  // access level of the same name and cannot be changed or deleted
+  accessLevel: AccessLevel | null;
+  createdBy?: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RoleDocument extends Omit<IRole, "id">, Document {
+  readonly isBuiltIn: boolean;
+}
+
+const roleSchema = new Schema<RoleDocument>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Role name is required"],
+      trim: true,
+      maxlength: [50, "Name cannot exceed 50 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+      default: "",
+    },
+    permissions: [
+      {
+        type: String,
+        enum: PERMISSIONS,
+      },
+    ],
+    accessLevel: {
+      type: String,
+      enum: ["owner", "admin", "member", "viewer"],
+      default: null,
+    },
+    createdBy: {
+      type: String,
+      ref: "TeamMember",
+      default: null,
+    },
+    createdAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+    updatedAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+roleSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+roleSchema.virtual("isBuiltIn").get(function (this: RoleDocument) {
+  return !!this.accessLevel;
+});
+
+// Role names are unique per organization, ignoring case
+roleSchema.index(
+  { organizationId: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+roleSchema.index(
+  { organizationId: 1, accessLevel: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { accessLevel: { $type: "string" } },
+  }
+);
+
+const Role = mongoose.model<RoleDocument>("Role", roleSchema);
+
+export default Role;
@@ -83,6 +83,42 @@ const taskSchema = new Schema<TaskDocument>(
         ref: "Task",
       },
     ],
+    // Private tasks are visible only to their creator, assignee and watchers
+    isPrivate: {
+      type: Boolean,
+      default: false,
+    },
+    watchers: [
+      {
+        type: String,
+        ref: "TeamMember",
+      },
+    ],
+    // dueDate values for which due-soon / overdue automations already fired
+    dueDateTriggers: {
+      dueSoon: { type: Number, default: null },
+      overdue: { type: Number, default: null },
+    },
+    // Parent task when created as a subtask from a template
+    parentTaskId: {
+      type: String,
+      ref: "Task",
+      default: null,
+    },
+    estimatedHours: {
+      type: Number,
+      default: null,
+    },
+    // Recurring rule and scheduled occurrence this task was materialised from
+    recurringTaskId: {
+      type: String,
+      ref: "RecurringTask",
+      default: null,
+    },
+    occurrenceAt: {
+      type: Number,
+      default: null,
+    },
   },
   {
     timestamps: false,
@@ -115,6 +151,17 @@ taskSchema.index({ title: "text", description: "text" });
 taskSchema.index({ organizationId: 1, status: 1 });
 taskSchema.index({ organizationId: 1, assigneeId: 1 });
 taskSchema.index({ organizationId: 1, createdAt: -1 });
+taskSchema.index({ organizationId: 1, parentTaskId: 1 });
+taskSchema.index({ organizationId: 1, isPrivate: 1 });
+
+// One task per recurring occurrence
+taskSchema.index(
+  { recurringTaskId: 1, occurrenceAt: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringTaskId: { $type: "string" } },
+  }
+);
 
 // Update updatedAt before saving
 taskSchema.pre("save", function (next) {
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from "mongoose";
 
 export interface ITaskTemplate {
   id: string;
+  organizationId: string; // Added for multi-tenancy
   name: string;
   description?: string;
   category: string;
@@ -21,7 +22,8 @@ export interface ITaskTemplate {
   autoAssign?: {
     type: "specific" | "round_robin" | "least_loaded" | "skill_based";
     assigneeId?: string;
-    skillTags?: string[];
+    skillTags?: string[]; // Team roles eligible for skill_based assignment
+    lastAssigneeId?: string; // Round-robin position
   };
   isPublic: boolean;
   usageCount: number;
@@ -64,12 +66,19 @@ const autoAssignSchema = new Schema(
     },
     assigneeId: { type: String, default: null },
     skillTags: [{ type: String }],
+    lastAssigneeId: { type: String, default: null },
   },
   { _id: false }
 );
 
 const taskTemplateSchema = new Schema<TaskTemplateDocument>(
   {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
     name: {
       type: String,
       required: [true, "Template name is required"],
@@ -159,8 +168,8 @@ const taskTemplateSchema = new Schema<TaskTemplateDocument>(
   }
 );
 
-taskTemplateSchema.index({ category: 1, isPublic: 1 });
-taskTemplateSchema.index({ createdBy: 1 });
+taskTemplateSchema.index({ organizationId: 1, category: 1, isPublic: 1 });
+taskTemplateSchema.index({ organizationId: 1, createdBy: 1 });
 taskTemplateSchema.index({ name: "text", description: "text" });
 
 taskTemplateSchema.pre("save", function (next) {
@@ -2,12 +2,23 @@ import mongoose, { Schema, Document } from "mongoose";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import { ITeamMember, AccessLevel, TeamRole, Permission } from "../types";
+import {
+  PERMISSIONS,
+  ACCESS_LEVEL_PERMISSIONS,
+  resolvePermissions,
+} from "../config/permissions";
+import { RoleDocument } from "./Role";
 
 export interface TeamMemberDocument extends Omit<ITeamMember, "id">, Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
   createPasswordResetToken(): string;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
+  // Populated from customRoleId
+  customRole?: RoleDocument | null;
+  // Effective permissions, resolved from the fields above; undefined while
+  // a custom role is set but not populated
+  readonly permissions: Permission[] | undefined;
 }
 
 const teamMemberSchema = new Schema<TeamMemberDocument>(
@@ -60,30 +71,33 @@ const teamMemberSchema = new Schema<TeamMemberDocument>(
     customPermissions: [
       {
         type: String,
-        enum: [
-          "manage_team",
-          "manage_roles",
-          "manage_permissions",
-          "create_tasks",
-          "assign_tasks",
-          "delete_tasks",
-          "edit_all_tasks",
-          "create_comments",
-          "delete_comments",
-          "manage_services",
-          "manage_workflows",
-          "manage_roadmap",
-          "view_analytics",
-          "export_data",
-        ],
+        enum: PERMISSIONS,
       },
     ],
+    // Revoked even when the role or a custom grant includes them
+    deniedPermissions: [
+      {
+        type: String,
+        enum: PERMISSIONS,
+      },
+    ],
+    customRoleId: {
+      type: String,
+      ref: "Role",
+      default: null,
+      index: true,
+    },
     avatarUrl: {
       type: String,
       default: function (this: TeamMemberDocument) {
         return `https://api.dicebear.com/7.x/avataaars/svg?seed=${this.name}`;
       },
     },
+    defaultHourlyRate: {
+      type: Number,
+      min: [0, "Hourly rate cannot be negative"],
+      default: null,
+    },
     isOnline: {
       type: Boolean,
       default: false,
@@ -117,6 +131,34 @@ teamMemberSchema.index({ role: 1 });
 teamMemberSchema.index({ accessLevel: 1 });
 teamMemberSchema.index({ isOnline: 1 });
 
+teamMemberSchema.virtual("customRole", {
+  ref: "Role",
+  localField: "customRoleId",
+  foreignField: "_id",
+  justOne: true,
+});
+
+teamMemberSchema
+  .virtual("permissions")
+  .get(function (this: TeamMemberDocument) {
+    if (!this.customRoleId) {
+      return resolvePermissions(
+        ACCESS_LEVEL_PERMISSIONS[this.accessLevel] || [],
+        this.customPermissions,
+        this.deniedPermissions
+      );
+    }
+    // Unknown until the custom role is populated
+    if (!this.customRole) {
+      return undefined;
+    }
+    return resolvePermissions(
+      this.customRole.permissions,
+      this.customPermissions,
+      this.deniedPermissions
+    );
+  });
+
 // Hash password before saving
 teamMemberSchema.pre("save", async function (next) {
   if (!this.isModified("password")) return next();
@@ -13,6 +13,11 @@ export interface ITimeEntry {
   hourlyRate?: number;
   tags?: string[];
   isRunning: boolean;
+  // Reported by the client heartbeat while the timer runs
+  lastHeartbeatAt?: number | null;
+  idleSince?: number | null;
+  // Set when the timer was stopped by the maximum timer length job
+  autoStopped: boolean;
   createdAt: number;
   updatedAt: number;
 }
@@ -75,6 +80,18 @@ const timeEntrySchema = new Schema<TimeEntryDocument>(
       default: false,
       index: true,
     },
+    lastHeartbeatAt: {
+      type: Number,
+      default: null,
+    },
+    idleSince: {
+      type: Number,
+      default: null,
+    },
+    autoStopped: {
+      type: Boolean,
+      default: false,
+    },
     createdAt: {
       type: Number,
       default: () => Date.now(),
@@ -0,0 +1,158 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type TimesheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export interface ITimesheetTransition {
+  from: TimesheetStatus;
+  to: TimesheetStatus;
+  userId: string;
+  comment?: string;
+  timestamp: number;
+}
+
+export interface ITimesheet {
+  id: string;
+  organizationId: string; // Added for multi-tenancy
+  userId: string;
+  week: string; // ISO week, e.g. "2026-W07"
+  weekStart: number; // Monday 00:00 UTC
+  weekEnd: number; // Next Monday 00:00 UTC (exclusive)
+  status: TimesheetStatus;
+  // Totals captured when the timesheet is submitted, in seconds
+  totalTime: number;
+  billableTime: number;
+  totalEarnings: number;
+  entriesCount: number;
+  submittedAt?: number;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  rejectionReason?: string;
+  history: ITimesheetTransition[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TimesheetDocument extends Omit<ITimesheet, "id">, Document {}
+
+const TIMESHEET_STATUSES = ["draft", "submitted", "approved", "rejected"];
+
+const transitionSchema = new Schema(
+  {
+    from: { type: String, enum: TIMESHEET_STATUSES, required: true },
+    to: { type: String, enum: TIMESHEET_STATUSES, required: true },
+    userId: { type: String, ref: "TeamMember", required: true },
+    comment: { type: String, trim: true, maxlength: 1000 },
+    timestamp: { type: Number, default: () => Date.now() },
+  },
+  { _id: false }
+);
+
+const timesheetSchema = new Schema<TimesheetDocument>(
+  {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    userId: {
+      type: String,
+      ref: "TeamMember",
+      required: [true, "User ID is required"],
+    },
+    week: {
+      type: String,
+      required: [true, "Week is required"],
+      match: [/^\d{4}-W\d{2}$/, "Week must be an ISO week like 2026-W07"],
+    },
+    weekStart: {
+      type: Number,
+      required: true,
+    },
+    weekEnd: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: TIMESHEET_STATUSES,
+      default: "draft",
+    },
+    totalTime: {
+      type: Number,
+      default: 0,
+    },
+    billableTime: {
+      type: Number,
+      default: 0,
+    },
+    totalEarnings: {
+      type: Number,
+      default: 0,
+    },
+    entriesCount: {
+      type: Number,
+      default: 0,
+    },
+    submittedAt: {
+      type: Number,
+      default: null,
+    },
+    reviewedBy: {
+      type: String,
+      ref: "TeamMember",
+      default: null,
+    },
+    reviewedAt: {
+      type: Number,
+      default: null,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Rejection reason cannot exceed 1000 characters"],
+      default: null,
+    },
+    history: [transitionSchema],
+    createdAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+    updatedAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+timesheetSchema.index(
+  { organizationId: 1, userId: 1, week: 1 },
+  { unique: true }
+);
+timesheetSchema.index({ organizationId: 1, status: 1, submittedAt: 1 });
+timesheetSchema.index({ organizationId: 1, userId: 1, weekStart: 1 });
+
+timesheetSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+const Timesheet = mongoose.model<TimesheetDocument>(
+  "Timesheet",
+  timesheetSchema
+);
+
+export default Timesheet;
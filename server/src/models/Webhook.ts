@@ -1,18 +1,37 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "task.status_changed",
+  "comment.created",
+  "comment.deleted",
+  "team_member.created",
+  "team_member.updated",
+  "team_member.deleted",
+  "time_entry.created",
+  "time_entry.stopped",
+  "automation.triggered",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
 export interface IWebhook {
   id: string;
+  organizationId: string; // Added for multi-tenancy
   name: string;
   url: string;
   secret?: string;
-  events: string[];
+  events: WebhookEvent[];
   isActive: boolean;
+  disabledReason?: string; // Set when auto-disabled after repeated failures
   createdBy: string;
   headers?: Record<string, string>;
   retryCount: number;
   lastTriggeredAt?: number;
   lastStatus?: number;
-  failureCount: number;
+  failureCount: number; // Consecutive failed deliveries, reset on success
   createdAt: number;
   updatedAt: number;
 }
@@ -21,6 +40,12 @@ export interface WebhookDocument extends Omit<IWebhook, "id">, Document {}
 
 const webhookSchema = new Schema<WebhookDocument>(
   {
+    organizationId: {
+      type: String,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
     name: {
       type: String,
       required: [true, "Webhook name is required"],
@@ -39,26 +64,17 @@ const webhookSchema = new Schema<WebhookDocument>(
     events: [
       {
         type: String,
-        enum: [
-          "task.created",
-          "task.updated",
-          "task.deleted",
-          "task.status_changed",
-          "comment.created",
-          "comment.deleted",
-          "team_member.created",
-          "team_member.updated",
-          "team_member.deleted",
-          "time_entry.created",
-          "time_entry.stopped",
-          "automation.triggered",
-        ],
+        enum: WEBHOOK_EVENTS,
       },
     ],
     isActive: {
       type: Boolean,
       default: true,
     },
+    disabledReason: {
+      type: String,
+      default: null,
+    },
     createdBy: {
       type: String,
       ref: "TeamMember",
@@ -111,6 +127,7 @@ const webhookSchema = new Schema<WebhookDocument>(
 );
 
 webhookSchema.index({ events: 1, isActive: 1 });
+webhookSchema.index({ organizationId: 1, events: 1, isActive: 1 });
 webhookSchema.index({ createdBy: 1 });
 
 webhookSchema.pre("save", function (next) {
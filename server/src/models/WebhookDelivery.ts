@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type WebhookDeliveryStatus = "pending" | "success" | "failed";
+
+export interface IWebhookDelivery {
+  id: string;
+  organizationId: string;
+  webhookId: string;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs?: number;
+  redeliveryOf?: string; // Original delivery when manually redelivered
+  createdAt: number;
+  lastAttemptAt?: number;
+  deliveredAt?: number;
+}
+
+export interface WebhookDeliveryDocument
+  extends Omit<IWebhookDelivery, "id">,
+    Document {}
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    organizationId: {
+      type: String,
+      required: [true, "Organization ID is required"],
+      index: true,
+    },
+    webhookId: {
+      type: String,
+      ref: "Webhook",
+      required: true,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "success", "failed"],
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    responseBody: {
+      type: String,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      default: null,
+    },
+    redeliveryOf: {
+      type: String,
+      ref: "WebhookDelivery",
+      default: null,
+    },
+    createdAt: {
+      type: Number,
+      default: () => Date.now(),
+    },
+    lastAttemptAt: {
+      type: Number,
+      default: null,
+    },
+    deliveredAt: {
+      type: Number,
+      default: null,
+    },
+  },
+  {
+    timestamps: false,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, any>) {
+        ret.id = ret._id.toString();
+        delete ret._id;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+webhookDeliverySchema.index({ organizationId: 1, webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ webhookId: 1, status: 1 });
+
+const WebhookDelivery = mongoose.model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
+
+export default WebhookDelivery;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { attachmentController } from "../controllers";
+import { authenticate } from "../middleware";
+import {
+  initAttachmentUploadValidator,
+  attachmentQueryValidator,
+  attachmentSearchValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get attachments of a task or comment
+router.get("/", attachmentQueryValidator, attachmentController.getAttachments);
+
+// Search attachment names and contents
+router.get(
+  "/search",
+  attachmentSearchValidator,
+  attachmentController.searchAttachments
+);
+
+// Start an upload
+router.post(
+  "/uploads",
+  initAttachmentUploadValidator,
+  attachmentController.initUpload
+);
+
+// Get single attachment
+router.get("/:id", idValidator, attachmentController.getAttachment);
+
+// Complete an upload
+router.post("/:id/complete", idValidator, attachmentController.completeUpload);
+
+// Get a download URL
+router.get("/:id/download", idValidator, attachmentController.getDownloadUrl);
+
+// Get a thumbnail URL
+router.get("/:id/thumbnail", idValidator, attachmentController.getThumbnailUrl);
+
+// Delete attachment
+router.delete("/:id", idValidator, attachmentController.deleteAttachment);
+
+export default router;
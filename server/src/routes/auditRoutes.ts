@@ -0,0 +1,87 @@
+import { Router } from "express";
+import { auditController } from "../controllers";
+import {
+  authenticate,
+  requirePermission,
+  requireAccessLevel,
+} from "../middleware";
+import {
+  auditLogQueryValidator,
+  auditExportValidator,
+  entityHistoryValidator,
+  auditActivityValidator,
+  auditStatisticsValidator,
+  securityEventQueryValidator,
+  securityAlertQueryValidator,
+  securityAlertStatusValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// Audit logs and security alerts need view_audit_logs; only owners and
+// admins can act on alerts
+router.use(authenticate);
+router.use(requirePermission("view_audit_logs"));
+
+// Search audit logs
+router.get("/logs", auditLogQueryValidator, auditController.getLogs);
+
+// Export audit logs as CSV or JSON
+router.get("/logs/export", auditExportValidator, auditController.exportLogs);
+
+// Verify the tamper-evident hash chain
+router.get("/verify", auditController.verifyChain);
+
+// Change history of an entity (e.g. /entities/task/:taskId)
+router.get(
+  "/entities/:entityType/:entityId",
+  entityHistoryValidator,
+  auditController.getEntityHistory
+);
+
+// Actions performed by a team member
+router.get(
+  "/users/:id/activity",
+  auditActivityValidator,
+  auditController.getUserActivity
+);
+
+// Event and alert statistics
+router.get(
+  "/statistics",
+  auditStatisticsValidator,
+  auditController.getStatistics
+);
+
+// Security-relevant events
+router.get(
+  "/security-events",
+  securityEventQueryValidator,
+  auditController.getSecurityEvents
+);
+
+// Security alert inbox
+router.get("/alerts", securityAlertQueryValidator, auditController.getAlerts);
+
+router.post(
+  "/alerts/:id/investigate",
+  requireAccessLevel("owner", "admin"),
+  securityAlertStatusValidator,
+  auditController.investigateAlert
+);
+
+router.post(
+  "/alerts/:id/resolve",
+  requireAccessLevel("owner", "admin"),
+  securityAlertStatusValidator,
+  auditController.resolveAlert
+);
+
+router.post(
+  "/alerts/:id/dismiss",
+  requireAccessLevel("owner", "admin"),
+  securityAlertStatusValidator,
+  auditController.dismissAlert
+);
+
+export default router;
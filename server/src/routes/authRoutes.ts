@@ -2,11 +2,17 @@ import { Router } from "express";
 import { authController } from "../controllers";
 import { authenticate } from "../middleware";
 import { loginValidator, registerValidator } from "../middleware/validators";
+import { checkLimit } from "../middleware/organization";
 
 const router = Router();
 
 // Public routes
-router.post("/register", registerValidator, authController.register);
+router.post(
+  "/register",
+  registerValidator,
+  checkLimit("users", { fromBody: true }),
+  authController.register
+);
 router.post("/login", loginValidator, authController.login);
 router.post("/refresh-token", authController.refreshToken);
 router.post("/forgot-password", authController.forgotPassword);
@@ -16,6 +22,7 @@ router.get("/verify-reset-token/:token", authController.verifyResetToken);
 // Protected routes
 router.post("/logout", authenticate, authController.logout);
 router.get("/me", authenticate, authController.getCurrentUser);
+router.get("/permissions", authenticate, authController.getPermissions);
 router.put("/profile", authenticate, authController.updateProfile);
 router.put("/change-password", authenticate, authController.changePassword);
 
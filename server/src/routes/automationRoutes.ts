@@ -0,0 +1,69 @@
+import { Router } from "express";
+import { automationController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  createAutomationRuleValidator,
+  updateAutomationRuleValidator,
+  instantiateAutomationTemplateValidator,
+  dryRunAutomationRuleValidator,
+  paginationValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication and workflow management rights
+router.use(authenticate);
+router.use(requirePermission("manage_workflows"));
+
+// Built-in rule templates
+router.get("/templates", automationController.getTemplates);
+router.post(
+  "/templates/:templateId/instantiate",
+  instantiateAutomationTemplateValidator,
+  automationController.instantiateTemplate
+);
+
+// Get all rules
+router.get("/", automationController.getRules);
+
+// Get single rule
+router.get("/:id", idValidator, automationController.getRule);
+
+// Create rule
+router.post(
+  "/",
+  createAutomationRuleValidator,
+  automationController.createRule
+);
+
+// Update rule
+router.put(
+  "/:id",
+  updateAutomationRuleValidator,
+  automationController.updateRule
+);
+
+// Delete rule
+router.delete("/:id", idValidator, automationController.deleteRule);
+
+// Enable / disable rule
+router.patch("/:id/enable", idValidator, automationController.enableRule);
+router.patch("/:id/disable", idValidator, automationController.disableRule);
+
+// Rule execution history
+router.get(
+  "/:id/executions",
+  idValidator,
+  paginationValidator,
+  automationController.getRuleExecutions
+);
+
+// Evaluate rule against a task without running actions
+router.post(
+  "/:id/dry-run",
+  dryRunAutomationRuleValidator,
+  automationController.dryRunRule
+);
+
+export default router;
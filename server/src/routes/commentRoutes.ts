@@ -29,13 +29,8 @@ router.post(
 // Update comment
 router.put("/:id", idValidator, commentController.updateComment);
 
-// Delete comment
-router.delete(
-  "/:id",
-  requirePermission("delete_comments"),
-  idValidator,
-  commentController.deleteComment
-);
+// Delete comment (authors delete their own; others need delete_comments)
+router.delete("/:id", idValidator, commentController.deleteComment);
 
 // Toggle resolve status
 router.patch("/:id/resolve", idValidator, commentController.toggleResolve);
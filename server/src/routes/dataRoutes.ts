@@ -2,6 +2,7 @@ import { Router } from "express";
 import { dataController } from "../controllers";
 import { authenticate, requirePermission } from "../middleware";
 import { idValidator } from "../middleware/validators";
+import { checkLimit } from "../middleware/organization";
 
 const router = Router();
 
@@ -30,6 +31,10 @@ router.get(
 router.post(
   "/import",
   requirePermission("export_data"),
+  checkLimit("tasks", {
+    count: (req) => (Array.isArray(req.body.tasks) ? req.body.tasks.length : 0),
+    replacesExisting: (req) => Boolean(req.body.clearExisting),
+  }),
   dataController.importData
 );
 
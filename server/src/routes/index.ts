@@ -5,6 +5,17 @@ import commentRoutes from "./commentRoutes";
 import teamRoutes from "./teamRoutes";
 import dataRoutes from "./dataRoutes";
 import organizationRoutes from "./organization";
+import automationRoutes from "./automationRoutes";
+import webhookRoutes from "./webhookRoutes";
+import recurringTaskRoutes from "./recurringTaskRoutes";
+import templateRoutes from "./templateRoutes";
+import timeEntryRoutes from "./timeEntryRoutes";
+import timesheetRoutes from "./timesheetRoutes";
+import reportRoutes from "./reportRoutes";
+import attachmentRoutes from "./attachmentRoutes";
+import storageRoutes from "./storageRoutes";
+import auditRoutes from "./auditRoutes";
+import roleRoutes from "./roleRoutes";
 import {
   livenessProbe,
   readinessProbe,
@@ -22,6 +33,17 @@ router.use("/tasks", taskRoutes);
 router.use("/comments", commentRoutes);
 router.use("/team", teamRoutes);
 router.use("/data", dataRoutes);
+router.use("/automations", automationRoutes);
+router.use("/webhooks", webhookRoutes);
+router.use("/recurring-tasks", recurringTaskRoutes);
+router.use("/templates", templateRoutes);
+router.use("/time-entries", timeEntryRoutes);
+router.use("/timesheets", timesheetRoutes);
+router.use("/reports", reportRoutes);
+router.use("/attachments", attachmentRoutes);
+router.use("/storage", storageRoutes);
+router.use("/audit", auditRoutes);
+router.use("/roles", roleRoutes);
 
 // Health & Observability endpoints
 router.get("/health", healthCheck); // Detailed health status
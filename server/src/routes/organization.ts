@@ -5,7 +5,7 @@
 
 import { Router } from "express";
 import organizationController from "../controllers/organizationController";
-import { authenticate, requirePermission } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware";
 import {
   resolveOrganization,
   requireOrganization,
@@ -60,4 +60,11 @@ router.get(
   organizationController.getUsageStats
 );
 
+// Monthly API call history (?months=1-24, default 12)
+router.get(
+  "/current/usage/api",
+  requireOrganization,
+  organizationController.getApiUsageHistory
+);
+
 export default router;
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { recurringTaskController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  createRecurringTaskValidator,
+  updateRecurringTaskValidator,
+  previewRecurringTaskValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get all recurring tasks
+router.get("/", recurringTaskController.getRecurringTasks);
+
+// Get single recurring task
+router.get("/:id", idValidator, recurringTaskController.getRecurringTask);
+
+// Preview next occurrences
+router.get(
+  "/:id/preview",
+  previewRecurringTaskValidator,
+  recurringTaskController.previewOccurrences
+);
+
+// Create recurring task
+router.post(
+  "/",
+  requirePermission("create_tasks"),
+  createRecurringTaskValidator,
+  recurringTaskController.createRecurringTask
+);
+
+// Update recurring task
+router.put(
+  "/:id",
+  requirePermission("create_tasks"),
+  updateRecurringTaskValidator,
+  recurringTaskController.updateRecurringTask
+);
+
+// Delete recurring task
+router.delete(
+  "/:id",
+  requirePermission("create_tasks"),
+  idValidator,
+  recurringTaskController.deleteRecurringTask
+);
+
+export default router;
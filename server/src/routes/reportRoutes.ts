@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { reportController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  billableReportQueryValidator,
+  exportBillableReportValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get billable time report
+router.get(
+  "/billable",
+  requirePermission("view_analytics"),
+  billableReportQueryValidator,
+  reportController.getBillableReport
+);
+
+// Queue billable time invoice export
+router.post(
+  "/billable/export",
+  requirePermission("export_data"),
+  exportBillableReportValidator,
+  reportController.exportBillableReport
+);
+
+// Get report export status
+router.get(
+  "/:id",
+  requirePermission("export_data"),
+  idValidator,
+  reportController.getReport
+);
+
+// Download report file
+router.get(
+  "/:id/download",
+  requirePermission("export_data"),
+  idValidator,
+  reportController.downloadReport
+);
+
+export default router;
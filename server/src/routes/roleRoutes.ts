@@ -0,0 +1,31 @@
+import { Router } from "express";
+import { roleController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  createRoleValidator,
+  updateRoleValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication and role management rights
+router.use(authenticate);
+router.use(requirePermission("manage_roles"));
+
+// Get all roles, built-in first
+router.get("/", roleController.getRoles);
+
+// Get single role
+router.get("/:id", idValidator, roleController.getRole);
+
+// Create custom role
+router.post("/", createRoleValidator, roleController.createRole);
+
+// Update custom role
+router.put("/:id", updateRoleValidator, roleController.updateRole);
+
+// Delete custom role
+router.delete("/:id", idValidator, roleController.deleteRole);
+
+export default router;
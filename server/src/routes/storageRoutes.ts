@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { storageController } from "../controllers";
+
+const router = Router();
+
+// Signed URLs for the local storage driver; the signature is the credential
+router.put("/*", storageController.uploadObject);
+router.get("/*", storageController.downloadObject);
+
+export default router;
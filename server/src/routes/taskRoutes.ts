@@ -1,11 +1,15 @@
 import { Router } from "express";
-import { taskController } from "../controllers";
+import { taskController, timeEntryController } from "../controllers";
 import { authenticate, requirePermission } from "../middleware";
+import { checkLimit } from "../middleware/organization";
 import {
   createTaskValidator,
   updateTaskValidator,
   paginationValidator,
   idValidator,
+  startTaskTimerValidator,
+  stopTimerValidator,
+  timeEntryQueryValidator,
 } from "../middleware/validators";
 
 const router = Router();
@@ -27,6 +31,7 @@ router.post(
   "/",
   requirePermission("create_tasks"),
   createTaskValidator,
+  checkLimit("tasks"),
   taskController.createTask
 );
 
@@ -51,6 +56,29 @@ router.patch(
   taskController.updateTaskDependencies
 );
 
+// Get time entries logged on a task
+router.get(
+  "/:id/time-entries",
+  idValidator,
+  timeEntryQueryValidator,
+  timeEntryController.getTimeEntries
+);
+
+// Start a timer on a task
+router.post(
+  "/:id/timer/start",
+  startTaskTimerValidator,
+  timeEntryController.startTimer
+);
+
+// Stop current user's timer on a task
+router.post(
+  "/:id/timer/stop",
+  idValidator,
+  stopTimerValidator,
+  timeEntryController.stopRunningTimer
+);
+
 // Bulk update tasks
 router.post(
   "/bulk-update",
@@ -10,7 +10,9 @@ import {
   updateTeamMemberValidator,
   paginationValidator,
   idValidator,
+  assignRoleValidator,
 } from "../middleware/validators";
+import { checkLimit } from "../middleware/organization";
 
 const router = Router();
 
@@ -20,6 +22,9 @@ router.use(authenticate);
 // Get all team members
 router.get("/", paginationValidator, teamController.getTeamMembers);
 
+// Get the base permissions of each access level
+router.get("/access-levels", teamController.getAccessLevelPermissions);
+
 // Get single team member
 router.get("/:id", idValidator, teamController.getTeamMember);
 
@@ -28,6 +33,7 @@ router.post(
   "/",
   requirePermission("manage_team"),
   createTeamMemberValidator,
+  checkLimit("users"),
   teamController.createTeamMember
 );
 
@@ -66,7 +72,14 @@ router.patch(
   teamController.updateAccessLevel
 );
 
-// Update custom permissions
+// Get effective permissions (self, or members with manage_permissions)
+router.get(
+  "/:id/permissions",
+  idValidator,
+  teamController.getMemberPermissions
+);
+
+// Update custom permissions and denies
 router.patch(
   "/:id/permissions",
   requirePermission("manage_permissions"),
@@ -74,4 +87,12 @@ router.patch(
   teamController.updateCustomPermissions
 );
 
+// Assign or remove a custom role
+router.patch(
+  "/:id/custom-role",
+  requirePermission("manage_roles"),
+  assignRoleValidator,
+  teamController.assignCustomRole
+);
+
 export default router;
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { templateController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  createTaskTemplateValidator,
+  updateTaskTemplateValidator,
+  instantiateTaskTemplateValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get all templates
+router.get("/", templateController.getTemplates);
+
+// Get single template
+router.get("/:id", idValidator, templateController.getTemplate);
+
+// Create template
+router.post(
+  "/",
+  requirePermission("create_tasks"),
+  createTaskTemplateValidator,
+  templateController.createTemplate
+);
+
+// Update template
+router.put(
+  "/:id",
+  requirePermission("create_tasks"),
+  updateTaskTemplateValidator,
+  templateController.updateTemplate
+);
+
+// Delete template
+router.delete(
+  "/:id",
+  requirePermission("create_tasks"),
+  idValidator,
+  templateController.deleteTemplate
+);
+
+// Create a task and its subtasks from a template
+router.post(
+  "/:id/instantiate",
+  requirePermission("create_tasks"),
+  instantiateTaskTemplateValidator,
+  templateController.instantiateTemplate
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { timeEntryController } from "../controllers";
+import { authenticate } from "../middleware";
+import {
+  startTimerValidator,
+  stopTimerValidator,
+  timerHeartbeatValidator,
+  createTimeEntryValidator,
+  updateTimeEntryValidator,
+  timeEntryQueryValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get time entries with filtering
+router.get("/", timeEntryQueryValidator, timeEntryController.getTimeEntries);
+
+// Get time statistics
+router.get("/stats", timeEntryQueryValidator, timeEntryController.getTimeStats);
+
+// Get current user's running timer
+router.get("/running", timeEntryController.getRunningTimer);
+
+// Report activity for current user's running timer
+router.post(
+  "/running/heartbeat",
+  timerHeartbeatValidator,
+  timeEntryController.recordHeartbeat
+);
+
+// Start a timer
+router.post("/start", startTimerValidator, timeEntryController.startTimer);
+
+// Stop current user's running timer
+router.post("/stop", stopTimerValidator, timeEntryController.stopRunningTimer);
+
+// Get single time entry
+router.get("/:id", idValidator, timeEntryController.getTimeEntry);
+
+// Create manual time entry
+router.post("/", createTimeEntryValidator, timeEntryController.createTimeEntry);
+
+// Stop a running timer
+router.post(
+  "/:id/stop",
+  idValidator,
+  stopTimerValidator,
+  timeEntryController.stopTimer
+);
+
+// Update time entry
+router.put(
+  "/:id",
+  updateTimeEntryValidator,
+  timeEntryController.updateTimeEntry
+);
+
+// Delete time entry
+router.delete("/:id", idValidator, timeEntryController.deleteTimeEntry);
+
+export default router;
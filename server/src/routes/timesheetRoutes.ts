@@ -0,0 +1,61 @@
+import { Router } from "express";
+import { timesheetController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  timesheetQueryValidator,
+  timesheetWeekValidator,
+  submitTimesheetValidator,
+  approveTimesheetValidator,
+  rejectTimesheetValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get timesheets
+router.get("/", timesheetQueryValidator, timesheetController.getTimesheets);
+
+// Get timesheets awaiting approval
+router.get(
+  "/pending",
+  requirePermission("manage_team"),
+  timesheetController.getPendingTimesheets
+);
+
+// Get timesheet for an ISO week
+router.get(
+  "/week/:week",
+  timesheetWeekValidator,
+  timesheetController.getWeekTimesheet
+);
+
+// Submit timesheet for an ISO week
+router.post(
+  "/week/:week/submit",
+  submitTimesheetValidator,
+  timesheetController.submitTimesheet
+);
+
+// Get single timesheet
+router.get("/:id", idValidator, timesheetController.getTimesheet);
+
+// Approve timesheet
+router.post(
+  "/:id/approve",
+  requirePermission("manage_team"),
+  approveTimesheetValidator,
+  timesheetController.approveTimesheet
+);
+
+// Reject timesheet
+router.post(
+  "/:id/reject",
+  requirePermission("manage_team"),
+  rejectTimesheetValidator,
+  timesheetController.rejectTimesheet
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { webhookController } from "../controllers";
+import { authenticate, requirePermission } from "../middleware";
+import {
+  createWebhookValidator,
+  updateWebhookValidator,
+  paginationValidator,
+  idValidator,
+} from "../middleware/validators";
+
+const router = Router();
+
+// All routes require authentication and workflow management rights
+router.use(authenticate);
+router.use(requirePermission("manage_workflows"));
+
+// Get all webhooks
+router.get("/", webhookController.getWebhooks);
+
+// Get single webhook
+router.get("/:id", idValidator, webhookController.getWebhook);
+
+// Create webhook
+router.post("/", createWebhookValidator, webhookController.createWebhook);
+
+// Update webhook
+router.put("/:id", updateWebhookValidator, webhookController.updateWebhook);
+
+// Delete webhook
+router.delete("/:id", idValidator, webhookController.deleteWebhook);
+
+// Rotate signing secret
+router.post("/:id/rotate-secret", idValidator, webhookController.rotateSecret);
+
+// Delivery log
+router.get(
+  "/:id/deliveries",
+  idValidator,
+  paginationValidator,
+  webhookController.getDeliveries
+);
+router.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  idValidator,
+  webhookController.redeliver
+);
+
+export default router;
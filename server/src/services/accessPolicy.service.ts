@@ -0,0 +1,381 @@
+/**
+ * Access Policy Service
+ *
+ * Resource-level rules for tasks, comments and WebSocket rooms, shared by
+ * the REST controllers and socket subscriptions. Route middleware decides
+ * whether a member may use an endpoint at all; these rules decide which
+ * tasks and comments they may see or change:
+ *
+ * - Private tasks are visible only to their creator, assignee and watchers.
+ *   Hidden tasks are reported as not found, so their existence does not leak.
+ * - Members without `create_tasks` or `edit_all_tasks` (viewers, by default)
+ *   are read-only on tasks.
+ * - `edit_all_tasks` edits any visible task; otherwise members edit the tasks
+ *   they created or are assigned to.
+ * - Comments on a task inherit its visibility. Authors edit their own
+ *   comments; `delete_comments` moderates everyone's.
+ */
+
+import mongoose from "mongoose";
+import { Task, Comment } from "../models";
+import { AppError } from "../middleware";
+import { ITask, IComment, JwtPayload, Permission } from "../types";
+import { permissionService } from "./permission.service";
+
+// Comment contexts, which double as the rooms comment events are sent to
+const COMMENT_CONTEXT_TYPES = ["service", "workflow", "roadmap", "general"];
+
+/**
+ * Room for the comment events of a context. Context ids such as `general`
+ * are shared by every organization, so the room is scoped to one.
+ */
+export const commentRoom = (comment: {
+  organizationId: string;
+  contextType: string;
+  contextId: string;
+}): string =>
+  `${comment.contextType}:${comment.organizationId}:${comment.contextId}`;
+
+// Holding none of these leaves a member read-only on tasks
+const TASK_WRITE_PERMISSIONS: Permission[] = ["create_tasks", "edit_all_tasks"];
+
+export interface AccessSubject {
+  userId: string;
+  organizationId: string;
+  permissions: Permission[];
+}
+
+export type TaskAccessFields = Pick<
+  ITask,
+  "organizationId" | "creatorId" | "assigneeId" | "isPrivate" | "watchers"
+>;
+
+export type CommentAccessFields = Pick<IComment, "authorId">;
+
+export type TaskAction = "view" | "edit" | "delete" | "assign";
+
+export type CommentAction =
+  | "view"
+  | "create"
+  | "react"
+  | "edit"
+  | "resolve"
+  | "delete";
+
+const holds = (subject: AccessSubject, permission: Permission) =>
+  subject.permissions.includes(permission);
+
+export const isTaskParticipant = (
+  subject: AccessSubject,
+  task: TaskAccessFields
+): boolean =>
+  task.creatorId === subject.userId ||
+  task.assigneeId === subject.userId ||
+  (task.watchers || []).includes(subject.userId);
+
+export const isReadOnly = (subject: AccessSubject): boolean =>
+  !TASK_WRITE_PERMISSIONS.some((permission) => holds(subject, permission));
+
+export const canViewTask = (
+  subject: AccessSubject,
+  task: TaskAccessFields
+): boolean =>
+  task.organizationId === subject.organizationId &&
+  (!task.isPrivate || isTaskParticipant(subject, task));
+
+export const canEditTask = (
+  subject: AccessSubject,
+  task: TaskAccessFields
+): boolean => {
+  if (!canViewTask(subject, task) || isReadOnly(subject)) {
+    return false;
+  }
+  if (holds(subject, "edit_all_tasks")) {
+    return true;
+  }
+  return (
+    task.creatorId === subject.userId || task.assigneeId === subject.userId
+  );
+};
+
+export const canDeleteTask = (
+  subject: AccessSubject,
+  task: TaskAccessFields
+): boolean => canViewTask(subject, task) && holds(subject, "delete_tasks");
+
+// Changing who a task is assigned to, on top of being able to edit it
+export const canAssignTask = (
+  subject: AccessSubject,
+  task: TaskAccessFields
+): boolean =>
+  canEditTask(subject, task) &&
+  (holds(subject, "assign_tasks") || holds(subject, "edit_all_tasks"));
+
+// A comment without a task is visible to the whole organization
+export const canViewComment = (
+  subject: AccessSubject,
+  task: TaskAccessFields | null
+): boolean => !task || canViewTask(subject, task);
+
+export const canCreateComment = (
+  subject: AccessSubject,
+  task: TaskAccessFields | null
+): boolean =>
+  canViewComment(subject, task) && holds(subject, "create_comments");
+
+export const canEditComment = (
+  subject: AccessSubject,
+  comment: CommentAccessFields,
+  task: TaskAccessFields | null
+): boolean =>
+  canViewComment(subject, task) && comment.authorId === subject.userId;
+
+export const canDeleteComment = (
+  subject: AccessSubject,
+  comment: CommentAccessFields,
+  task: TaskAccessFields | null
+): boolean =>
+  canViewComment(subject, task) &&
+  (comment.authorId === subject.userId || holds(subject, "delete_comments"));
+
+// Whoever can edit the task can also close the discussion on it
+export const canResolveComment = (
+  subject: AccessSubject,
+  comment: CommentAccessFields,
+  task: TaskAccessFields | null
+): boolean =>
+  canDeleteComment(subject, comment, task) ||
+  (!!task && canEditTask(subject, task));
+
+const TASK_RULES: Record<
+  TaskAction,
+  (subject: AccessSubject, task: TaskAccessFields) => boolean
+> = {
+  view: canViewTask,
+  edit: canEditTask,
+  delete: canDeleteTask,
+  assign: canAssignTask,
+};
+
+const COMMENT_RULES: Record<
+  CommentAction,
+  (
+    subject: AccessSubject,
+    comment: CommentAccessFields,
+    task: TaskAccessFields | null
+  ) => boolean
+> = {
+  view: (subject, _comment, task) => canViewComment(subject, task),
+  create: (subject, _comment, task) => canCreateComment(subject, task),
+  react: (subject, _comment, task) => canViewComment(subject, task),
+  edit: canEditComment,
+  resolve: canResolveComment,
+  delete: canDeleteComment,
+};
+
+const TASK_ACCESS_FIELDS =
+  "organizationId creatorId assigneeId isPrivate watchers";
+
+class AccessPolicyService {
+  /**
+   * The member's identity and effective permissions
+   */
+  async getSubject(
+    user: Pick<JwtPayload, "userId" | "organizationId" | "accessLevel">
+  ): Promise<AccessSubject> {
+    const { permissions } = await permissionService.getEffective(user);
+    return {
+      userId: user.userId,
+      organizationId: user.organizationId,
+      permissions,
+    };
+  }
+
+  /**
+   * Throw unless the member may perform the action on the task. Tasks they
+   * cannot see are reported as not found.
+   */
+  assertTask(
+    subject: AccessSubject,
+    task: TaskAccessFields,
+    action: TaskAction
+  ): void {
+    if (!canViewTask(subject, task)) {
+      throw new AppError("Task not found", 404);
+    }
+    if (!TASK_RULES[action](subject, task)) {
+      throw new AppError(`Not authorized to ${action} this task`, 403);
+    }
+  }
+
+  /**
+   * Throw unless the member may perform the action on the comment
+   */
+  assertComment(
+    subject: AccessSubject,
+    comment: CommentAccessFields,
+    task: TaskAccessFields | null,
+    action: CommentAction
+  ): void {
+    if (!canViewComment(subject, task)) {
+      throw new AppError("Comment not found", 404);
+    }
+    if (!COMMENT_RULES[action](subject, comment, task)) {
+      throw new AppError(`Not authorized to ${action} this comment`, 403);
+    }
+  }
+
+  /**
+   * Query conditions matching the tasks the member can see
+   */
+  taskVisibilityFilter(subject: AccessSubject): Record<string, any> {
+    return {
+      $or: [
+        { isPrivate: { $ne: true } },
+        { creatorId: subject.userId },
+        { assigneeId: subject.userId },
+        { watchers: subject.userId },
+      ],
+    };
+  }
+
+  /**
+   * Query conditions excluding comments on private tasks the member cannot
+   * see
+   */
+  async commentVisibilityFilter(
+    subject: AccessSubject
+  ): Promise<Record<string, any>> {
+    const hidden = await this.findHiddenTasks(subject);
+    if (hidden.length === 0) {
+      return {};
+    }
+
+    return {
+      contextId: { $nin: hidden.map((task) => task._id.toString()) },
+      _id: {
+        $nin: hidden.flatMap((task) => task.comments || []),
+      },
+    };
+  }
+
+  /**
+   * Query conditions excluding attachments of private tasks the member
+   * cannot see, and of the comments on them
+   */
+  async attachmentVisibilityFilter(
+    subject: AccessSubject
+  ): Promise<Record<string, any>> {
+    const hidden = await this.findHiddenTasks(subject);
+    if (hidden.length === 0) {
+      return {};
+    }
+
+    const taskIds = hidden.map((task) => task._id.toString());
+    const contextComments = await Comment.find({
+      organizationId: subject.organizationId,
+      contextId: { $in: taskIds },
+    })
+      .select("_id")
+      .lean();
+
+    return {
+      taskId: { $nin: taskIds },
+      commentId: {
+        $nin: [
+          ...hidden.flatMap((task) => task.comments || []),
+          ...contextComments.map((comment) => comment._id),
+        ].map(String),
+      },
+    };
+  }
+
+  // Private tasks of the organization the member does not take part in
+  private async findHiddenTasks(subject: AccessSubject) {
+    return Task.find({
+      organizationId: subject.organizationId,
+      isPrivate: true,
+      creatorId: { $ne: subject.userId },
+      assigneeId: { $ne: subject.userId },
+      watchers: { $ne: subject.userId },
+    })
+      .select("_id comments")
+      .lean();
+  }
+
+  /**
+   * The task a comment belongs to, either by its context or by the task's
+   * comment list
+   */
+  async findCommentTask(
+    organizationId: string,
+    comment: { id?: string; contextId?: string }
+  ): Promise<TaskAccessFields | null> {
+    const conditions: Record<string, any>[] = [];
+    if (comment.id) {
+      conditions.push({ comments: comment.id });
+    }
+    if (comment.contextId && mongoose.isValidObjectId(comment.contextId)) {
+      conditions.push({ _id: comment.contextId });
+    }
+    if (conditions.length === 0) {
+      return null;
+    }
+
+    return Task.findOne({ organizationId, $or: conditions })
+      .select(TASK_ACCESS_FIELDS)
+      .lean<TaskAccessFields>();
+  }
+
+  /**
+   * Whether a socket may join a room. Rooms are named `<type>:<id>`, except
+   * comment context rooms (see commentRoom).
+   */
+  async canAccessRoom(
+    user: Pick<JwtPayload, "userId" | "organizationId" | "accessLevel">,
+    room: string
+  ): Promise<boolean> {
+    const [type, id, contextId] = room.split(":");
+    if (!id) {
+      return false;
+    }
+
+    switch (type) {
+      case "user":
+        return id === user.userId;
+      case "team":
+        // One team room per organization
+        return id === user.organizationId;
+      case "task": {
+        if (!mongoose.isValidObjectId(id)) {
+          return false;
+        }
+        const task = await Task.findOne({
+          _id: id,
+          organizationId: user.organizationId,
+        })
+          .select(TASK_ACCESS_FIELDS)
+          .lean<TaskAccessFields>();
+        return !!task && canViewTask(await this.getSubject(user), task);
+      }
+      default: {
+        // Comment context rooms belong to one organization and follow the
+        // visibility of their task, if any
+        if (
+          !COMMENT_CONTEXT_TYPES.includes(type) ||
+          id !== user.organizationId ||
+          !contextId
+        ) {
+          return false;
+        }
+        const task = await this.findCommentTask(user.organizationId, {
+          contextId,
+        });
+        return canViewComment(await this.getSubject(user), task);
+      }
+    }
+  }
+}
+
+export const accessPolicyService = new AccessPolicyService();
+export default accessPolicyService;
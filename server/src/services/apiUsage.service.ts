@@ -0,0 +1,238 @@
+/**
+ * API Usage Metering Service
+ *
+ * Counts API calls per organization and calendar month (UTC) in Redis,
+ * checked against the plan's maxApiCalls. When a month ends, its totals are
+ * copied onto the organization so usage history survives Redis key expiry.
+ */
+
+import { createClient, RedisClientType } from "redis";
+import mongoose from "mongoose";
+import { Organization } from "../models";
+import config from "../config";
+import logger from "../utils/logger";
+
+const KEY_PREFIX = "apiusage:";
+// Monthly counters outlive the month so late rollovers can still read them
+const KEY_TTL_SECONDS = 62 * 24 * 60 * 60;
+// Closed months kept on the organization
+const HISTORY_MONTHS = 24;
+
+export interface ApiUsagePeriod {
+  period: string; // YYYY-MM
+  calls: number;
+}
+
+// "2024-03" for any time in March 2024 (UTC)
+export const getPeriod = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 7);
+
+// Start of the month after the given one, when its quota resets
+export const getPeriodEnd = (date: Date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+const shiftPeriod = (period: string, months: number): string => {
+  const [year, month] = period.split("-").map(Number);
+  return getPeriod(new Date(Date.UTC(year, month - 1 + months, 1)));
+};
+
+class ApiUsageService {
+  private client: RedisClientType | null = null;
+  private isRedisConnected = false;
+  // Fallback counters when Redis is unavailable (single instance only)
+  private localCounts: Map<string, number> = new Map();
+
+  async initialize(): Promise<void> {
+    try {
+      this.client = createClient({
+        socket: {
+          host: config.redis?.host || "localhost",
+          port: config.redis?.port || 6379,
+          tls: config.redis?.tls ? true : undefined,
+        },
+        password: config.redis?.password || undefined,
+      });
+
+      this.client.on("error", (err) => {
+        logger.error("API usage Redis error", err);
+        this.isRedisConnected = false;
+      });
+
+      this.client.on("ready", () => {
+        this.isRedisConnected = true;
+      });
+
+      await this.client.connect();
+      logger.info("API usage metering initialized");
+    } catch (error) {
+      logger.warn("API usage Redis unavailable, counting locally", error);
+      this.isRedisConnected = false;
+    }
+  }
+
+  /**
+   * Count one API call for the current month and return the month's total
+   */
+  async record(organizationId: string): Promise<number> {
+    const key = this.getKey(organizationId, getPeriod());
+
+    if (this.client && this.isRedisConnected) {
+      try {
+        const multi = this.client.multi();
+        multi.incr(key);
+        multi.expire(key, KEY_TTL_SECONDS);
+        const results = await multi.exec();
+        return Number(results?.[0]) || 0;
+      } catch (error) {
+        logger.warn("API usage increment failed, counting locally", {
+          key,
+          error,
+        });
+      }
+    }
+
+    const calls = (this.localCounts.get(key) || 0) + 1;
+    this.localCounts.set(key, calls);
+    return calls;
+  }
+
+  /**
+   * Take back a call that was refused
+   */
+  async unrecord(organizationId: string): Promise<void> {
+    const key = this.getKey(organizationId, getPeriod());
+
+    if (this.client && this.isRedisConnected) {
+      try {
+        await this.client.decr(key);
+        return;
+      } catch (error) {
+        logger.warn("API usage decrement failed", { key, error });
+      }
+    }
+
+    const calls = this.localCounts.get(key);
+    if (calls) this.localCounts.set(key, calls - 1);
+  }
+
+  /**
+   * Calls made this month
+   */
+  async getCurrent(organizationId: string): Promise<number> {
+    const [calls] = await this.readCounts(organizationId, [getPeriod()]);
+    return calls;
+  }
+
+  /**
+   * Monthly call totals, newest first, including the current month
+   */
+  async getHistory(
+    organizationId: string,
+    months = 12
+  ): Promise<ApiUsagePeriod[]> {
+    const current = getPeriod();
+    const periods = Array.from({ length: months }, (_, i) =>
+      shiftPeriod(current, -i)
+    );
+
+    const [counts, organization] = await Promise.all([
+      this.readCounts(organizationId, periods),
+      Organization.findById(organizationId)
+        .select("usage.apiCallHistory")
+        .lean(),
+    ]);
+
+    const closed = new Map(
+      (organization?.usage?.apiCallHistory || []).map((entry) => [
+        entry.period,
+        entry.calls,
+      ])
+    );
+
+    // Closed months come from the organization once rolled over; the live
+    // counter covers the current month and months not yet rolled over
+    return periods.map((period, i) => ({
+      period,
+      calls:
+        period !== current && closed.has(period)
+          ? closed.get(period)!
+          : counts[i],
+    }));
+  }
+
+  /**
+   * Copy last month's totals onto every organization. Safe to run again:
+   * an existing entry for the month is replaced.
+   */
+  async rolloverAll(now: Date = new Date()): Promise<number> {
+    const period = shiftPeriod(getPeriod(now), -1);
+    let rolledOver = 0;
+    const cursor = Organization.find().select("_id").lean().cursor();
+
+    for await (const organization of cursor) {
+      const organizationId = (
+        organization._id as mongoose.Types.ObjectId
+      ).toString();
+      try {
+        const [calls] = await this.readCounts(organizationId, [period]);
+        await Organization.updateOne(
+          { _id: organizationId },
+          { $pull: { "usage.apiCallHistory": { period } } }
+        );
+        await Organization.updateOne(
+          { _id: organizationId },
+          {
+            $push: {
+              "usage.apiCallHistory": {
+                $each: [{ period, calls }],
+                $sort: { period: 1 },
+                $slice: -HISTORY_MONTHS,
+              },
+            },
+          }
+        );
+        rolledOver++;
+      } catch (error) {
+        logger.error(
+          `Failed to roll over API usage for org ${organizationId}:`,
+          error
+        );
+      }
+    }
+
+    logger.info(`Rolled over ${period} API usage for ${rolledOver} orgs`);
+    return rolledOver;
+  }
+
+  private async readCounts(
+    organizationId: string,
+    periods: string[]
+  ): Promise<number[]> {
+    const keys = periods.map((period) => this.getKey(organizationId, period));
+
+    if (this.client && this.isRedisConnected) {
+      try {
+        const values = await this.client.mGet(keys);
+        return values.map((value) => Number(value) || 0);
+      } catch (error) {
+        logger.warn("API usage read failed, using local counts", { error });
+      }
+    }
+
+    return keys.map((key) => this.localCounts.get(key) || 0);
+  }
+
+  private getKey(organizationId: string, period: string): string {
+    return `${KEY_PREFIX}${organizationId}:${period}`;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.client) {
+      await this.client.quit();
+    }
+    this.localCounts.clear();
+  }
+}
+
+export const apiUsageService = new ApiUsageService();
+export default apiUsageService;
@@ -0,0 +1,344 @@
+import Attachment, {
+  AttachmentCategory,
+  AttachmentDocument,
+} from "../models/Attachment";
+import { Task, Comment } from "../models";
+import { AppError } from "../middleware";
+import { fileUpload } from "./fileUpload.service";
+import { storageUsageService } from "./storageUsage.service";
+import { accessPolicyService, AccessSubject } from "./accessPolicy.service";
+import { attachmentProcessingService } from "./attachmentProcessing.service";
+import {
+  storage,
+  getStorageDriver,
+  StorageUploadTarget,
+} from "./storage.service";
+import logger from "../utils/logger";
+
+// Bytes read from an uploaded file to check its signature
+const SIGNATURE_BYTES = 16;
+
+// Pending uploads older than this are abandoned (upload URLs last an hour)
+const STALE_UPLOAD_MS = 24 * 60 * 60 * 1000;
+
+export interface AttachmentParent {
+  taskId?: string;
+  commentId?: string;
+}
+
+export interface InitUploadData extends AttachmentParent {
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+class AttachmentService {
+  /**
+   * Load the task or comment an attachment belongs to
+   */
+  async getParent(organizationId: string, parent: AttachmentParent) {
+    if (parent.taskId) {
+      const task = await Task.findOne({ _id: parent.taskId, organizationId });
+      if (!task) {
+        throw new AppError("Task not found", 404);
+      }
+      return { type: "task" as const, task };
+    }
+
+    const comment = await Comment.findOne({
+      _id: parent.commentId,
+      organizationId,
+    });
+    if (!comment) {
+      throw new AppError("Comment not found", 404);
+    }
+    return { type: "comment" as const, comment };
+  }
+
+  /**
+   * Validate a file and reserve a pending attachment with an upload URL
+   */
+  async initUpload(
+    organizationId: string,
+    userId: string,
+    data: InitUploadData
+  ): Promise<{ attachment: AttachmentDocument; upload: StorageUploadTarget }> {
+    let category: AttachmentCategory;
+    try {
+      category = fileUpload.validateUpload(data.mimeType, data.size);
+    } catch (error: any) {
+      throw new AppError(error.message, 400);
+    }
+
+    // Pending uploads count against the plan until completed or discarded
+    await storageUsageService.reserve(organizationId, "attachment", data.size);
+
+    try {
+      const upload = await storage.createUpload(
+        data.fileName,
+        data.mimeType,
+        data.size,
+        `attachments/${organizationId}`
+      );
+
+      const attachment = await Attachment.create({
+        organizationId,
+        taskId: data.taskId || null,
+        commentId: data.commentId || null,
+        fileName: data.fileName,
+        mimeType: data.mimeType,
+        size: data.size,
+        category,
+        storageDriver: storage.name,
+        storageKey: upload.key,
+        status: "pending",
+        uploadedBy: userId,
+      });
+
+      return { attachment, upload };
+    } catch (error) {
+      await storageUsageService.release(
+        organizationId,
+        "attachment",
+        data.size
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm an uploaded file matches what was declared and mark it ready
+   */
+  async completeUpload(
+    attachment: AttachmentDocument
+  ): Promise<AttachmentDocument> {
+    if (attachment.status === "ready") {
+      throw new AppError("Upload already completed", 409);
+    }
+
+    const driver = getStorageDriver(attachment.storageDriver);
+    const stored = await driver.stat(attachment.storageKey);
+    if (!stored) {
+      throw new AppError("File has not been uploaded yet", 409);
+    }
+
+    let problem: string | null = null;
+    if (stored.size !== attachment.size) {
+      problem = "Uploaded file size does not match the declared size";
+    } else {
+      const head = await driver.readHead(
+        attachment.storageKey,
+        SIGNATURE_BYTES
+      );
+      if (!fileUpload.validateFileSignature(head, attachment.mimeType)) {
+        problem = "Uploaded file content does not match its type";
+      }
+    }
+
+    // Rejected files are discarded so the client has to start over
+    if (problem) {
+      await this.deleteAttachment(attachment);
+      throw new AppError(problem, 400);
+    }
+
+    const completed = await Attachment.findOneAndUpdate(
+      { _id: attachment._id, status: "pending" },
+      {
+        $set: {
+          status: "ready",
+          uploadedAt: Date.now(),
+          processingStatus: "queued",
+          scanStatus: "pending",
+          updatedAt: Date.now(),
+        },
+      },
+      { new: true }
+    );
+    if (!completed) {
+      throw new AppError("Upload already completed", 409);
+    }
+
+    await attachmentProcessingService.enqueue(completed);
+    return completed;
+  }
+
+  async getAttachment(
+    id: string,
+    organizationId: string
+  ): Promise<AttachmentDocument | null> {
+    return Attachment.findOne({ _id: id, organizationId });
+  }
+
+  /**
+   * Get the uploaded attachments of a task or comment
+   */
+  async getAttachments(
+    organizationId: string,
+    parent: AttachmentParent
+  ): Promise<AttachmentDocument[]> {
+    return Attachment.find({
+      organizationId,
+      status: { $in: ["ready", "quarantined"] },
+      ...(parent.taskId
+        ? { taskId: parent.taskId }
+        : { commentId: parent.commentId }),
+    }).sort({ uploadedAt: 1 });
+  }
+
+  /**
+   * Search file names and extracted text of the uploaded attachments the
+   * member can see
+   */
+  async search(
+    subject: AccessSubject,
+    query: string,
+    options: AttachmentParent & { limit?: number } = {}
+  ): Promise<
+    Array<{ attachment: AttachmentDocument; excerpt: string | null }>
+  > {
+    const filter: Record<string, any> = {
+      organizationId: subject.organizationId,
+      status: "ready",
+      $text: { $search: query },
+      $and: [await accessPolicyService.attachmentVisibilityFilter(subject)],
+    };
+    if (options.taskId) filter.taskId = options.taskId;
+    if (options.commentId) filter.commentId = options.commentId;
+
+    const attachments = await Attachment.find(filter, {
+      score: { $meta: "textScore" },
+    })
+      .select("+extractedText")
+      .sort({ score: { $meta: "textScore" } })
+      .limit(options.limit || 20);
+
+    return attachments.map((attachment) => ({
+      attachment,
+      excerpt: this.buildExcerpt(attachment.extractedText, query),
+    }));
+  }
+
+  async getDownloadUrl(attachment: AttachmentDocument): Promise<string> {
+    this.assertDownloadable(attachment);
+    return getStorageDriver(attachment.storageDriver).getDownloadUrl(
+      attachment.storageKey,
+      fileUpload.sanitizeFileName(attachment.fileName)
+    );
+  }
+
+  async getThumbnailUrl(attachment: AttachmentDocument): Promise<string> {
+    this.assertDownloadable(attachment);
+    if (!attachment.thumbnailKey) {
+      throw new AppError("Attachment has no thumbnail", 404);
+    }
+    return getStorageDriver(attachment.storageDriver).getDownloadUrl(
+      attachment.thumbnailKey,
+      "thumbnail.webp"
+    );
+  }
+
+  async deleteAttachment(attachment: AttachmentDocument): Promise<void> {
+    const { deletedCount } = await attachment.deleteOne();
+    if (deletedCount) {
+      await storageUsageService.release(
+        attachment.organizationId,
+        "attachment",
+        attachment.size
+      );
+    }
+    await this.removeFile(attachment);
+  }
+
+  /**
+   * Delete uploads that were started but never completed
+   */
+  async purgeStaleUploads(): Promise<number> {
+    const stale = await Attachment.find({
+      status: "pending",
+      createdAt: { $lt: Date.now() - STALE_UPLOAD_MS },
+    });
+
+    for (const attachment of stale) {
+      await this.deleteAttachment(attachment);
+    }
+    if (stale.length > 0) {
+      logger.info(`Purged ${stale.length} abandoned attachment uploads`);
+    }
+    return stale.length;
+  }
+
+  /**
+   * Delete every attachment of a deleted task or comment
+   */
+  async deleteForParent(
+    organizationId: string,
+    parent: AttachmentParent
+  ): Promise<number> {
+    const attachments = await Attachment.find({
+      organizationId,
+      ...(parent.taskId
+        ? { taskId: parent.taskId }
+        : { commentId: parent.commentId }),
+    });
+
+    for (const attachment of attachments) {
+      await this.deleteAttachment(attachment);
+    }
+    return attachments.length;
+  }
+
+  // Files can be downloaded once uploaded and cleared by the malware scan
+  private assertDownloadable(attachment: AttachmentDocument): void {
+    if (attachment.status === "quarantined") {
+      throw new AppError("Attachment has been quarantined", 403);
+    }
+    if (attachment.status !== "ready") {
+      throw new AppError("Upload has not been completed", 409);
+    }
+    if (attachment.scanStatus === "pending") {
+      throw new AppError("Attachment is still being scanned", 409);
+    }
+  }
+
+  // Text around the first query term found in the extracted text
+  private buildExcerpt(
+    text: string | null | undefined,
+    query: string
+  ): string | null {
+    if (!text) return null;
+    const lower = text.toLowerCase();
+    const index = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((term) => lower.indexOf(term))
+      .filter((i) => i >= 0)
+      .sort((a, b) => a - b)[0];
+    if (index === undefined) return null;
+
+    const start = Math.max(0, index - 80);
+    const end = Math.min(text.length, index + 120);
+    return `${start > 0 ? "…" : ""}${text.slice(start, end)}${
+      end < text.length ? "…" : ""
+    }`;
+  }
+
+  // Storage failures leave an orphaned file rather than failing the request
+  private async removeFile(attachment: AttachmentDocument): Promise<void> {
+    try {
+      const driver = getStorageDriver(attachment.storageDriver);
+      await driver.delete(attachment.storageKey);
+      if (attachment.thumbnailKey) {
+        await driver.delete(attachment.thumbnailKey);
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to delete attachment file ${attachment.storageKey}:`,
+        error
+      );
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
+export default attachmentService;
@@ -11,9 +11,13 @@
  * - Suspicious pattern detection and alerts
  * - Failed login monitoring
  * - Privilege escalation detection
+ * - Tamper-evident hash chain per organization with signed checkpoints
  */
 
+import crypto from "crypto";
+import { Readable } from "stream";
 import { Schema, model, Document, Types } from "mongoose";
+import config from "../config";
 import logger from "../utils/logger";
 
 // Audit Action Types
@@ -44,6 +48,12 @@ export enum AuditAction {
   MEMBER_REMOVED = "team.member_removed",
   MEMBER_ROLE_CHANGED = "team.member_role_changed",
 
+  // Custom Roles
+  ROLE_CREATED = "role.created",
+  ROLE_UPDATED = "role.updated",
+  ROLE_DELETED = "role.deleted",
+  ROLE_ASSIGNED = "role.assigned",
+
   // Task Management
   TASK_CREATED = "task.created",
   TASK_UPDATED = "task.updated",
@@ -69,6 +79,9 @@ export enum AuditAction {
   PROJECT_DELETED = "project.deleted",
   PROJECT_ARCHIVED = "project.archived",
 
+  // Organization
+  ORGANIZATION_CREATED = "organization.created",
+
   // Settings & Configuration
   SETTINGS_UPDATED = "settings.updated",
   INTEGRATION_ENABLED = "integration.enabled",
@@ -80,6 +93,9 @@ export enum AuditAction {
   DATA_EXPORTED = "data.exported",
   DATA_IMPORTED = "data.imported",
   BULK_OPERATION = "data.bulk_operation",
+  BACKUP_CREATED = "data.backup_created",
+  BACKUP_RESTORED = "data.backup_restored",
+  BACKUP_DELETED = "data.backup_deleted",
 
   // Security Events
   PERMISSION_GRANTED = "security.permission_granted",
@@ -100,6 +116,7 @@ export enum SecurityAlertType {
   OFF_HOURS_ACCESS = "off_hours_access",
   MASS_DATA_ACCESS = "mass_data_access",
   RAPID_ACTIONS = "rapid_actions",
+  AUDIT_TAMPERING = "audit_tampering",
 }
 
 // Audit Log Entry Interface
@@ -146,6 +163,12 @@ export interface IAuditLog extends Document {
   // Compliance
   retentionDate?: Date;
   isArchived: boolean;
+
+  // Tamper evidence: position in the organization's hash chain. Entries
+  // written before chaining was introduced have none of these.
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
 }
 
 // Security Alert Interface
@@ -167,9 +190,21 @@ export interface ISecurityAlert extends Document {
   updatedAt: Date;
 }
 
+// Signed digest of a chain position, kept when entries are archived or
+// pruned so the remaining chain can still be verified
+export interface IAuditCheckpoint extends Document {
+  organizationId: Types.ObjectId;
+  kind: "archive" | "prune";
+  sequence: number;
+  hash: string;
+  signature: string;
+  createdAt: Date;
+}
+
 // Plain object type for lean queries (without Mongoose Document methods)
 export type AuditLogData = Omit<IAuditLog, keyof Document>;
 export type SecurityAlertData = Omit<ISecurityAlert, keyof Document>;
+export type AuditCheckpointData = Omit<IAuditCheckpoint, keyof Document>;
 
 // Mongoose Schema
 const auditLogSchema = new Schema<IAuditLog>(
@@ -261,6 +296,10 @@ const auditLogSchema = new Schema<IAuditLog>(
       type: Boolean,
       default: false,
     },
+
+    sequence: Number,
+    previousHash: String,
+    hash: String,
   },
   {
     timestamps: false, // We use our own timestamp field
@@ -329,6 +368,42 @@ const securityAlertSchema = new Schema<ISecurityAlert>(
   }
 );
 
+// Audit Checkpoint Schema
+const auditCheckpointSchema = new Schema<IAuditCheckpoint>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: ["archive", "prune"],
+    },
+    sequence: {
+      type: Number,
+      required: true,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+    collection: "audit_checkpoints",
+  }
+);
+
 // Compound indexes for common queries
 auditLogSchema.index({ organizationId: 1, timestamp: -1 }); // Add org index
 auditLogSchema.index({ organizationId: 1, teamId: 1, timestamp: -1 });
@@ -340,6 +415,13 @@ auditLogSchema.index({
 });
 auditLogSchema.index({ organizationId: 1, actorId: 1, timestamp: -1 });
 auditLogSchema.index({ organizationId: 1, action: 1, timestamp: -1 });
+// One entry per chain position; also serves chain head lookups and walks
+auditLogSchema.index(
+  { organizationId: 1, sequence: 1 },
+  { unique: true, partialFilterExpression: { sequence: { $exists: true } } }
+);
+
+auditCheckpointSchema.index({ organizationId: 1, kind: 1, sequence: -1 });
 
 // Indexes for security alerts
 securityAlertSchema.index({ organizationId: 1, status: 1, createdAt: -1 });
@@ -364,8 +446,31 @@ const SecurityAlert = model<ISecurityAlert>(
   "SecurityAlert",
   securityAlertSchema
 );
+const AuditCheckpoint = model<IAuditCheckpoint>(
+  "AuditCheckpoint",
+  auditCheckpointSchema
+);
 
 // Query filter interface
+export interface AuditLogParams {
+  action: AuditAction;
+  organizationId: string | Types.ObjectId; // Required for multi-tenancy
+  actorId?: string | Types.ObjectId | null;
+  actorEmail?: string;
+  actorName?: string;
+  actorType?: "user" | "system" | "api" | "webhook";
+  entityType: string;
+  entityId: string;
+  entityName?: string;
+  teamId?: string | Types.ObjectId;
+  projectId?: string | Types.ObjectId;
+  changes?: { field: string; oldValue: any; newValue: any }[];
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
 export interface AuditLogFilter {
   organizationId: string; // Required for multi-tenancy
   actions?: AuditAction[];
@@ -389,6 +494,22 @@ export interface PaginationOptions {
   sortOrder?: "asc" | "desc";
 }
 
+// Outcome of walking an organization's hash chain
+export interface ChainVerificationResult {
+  organizationId: string;
+  valid: boolean;
+  checked: number; // entries verified
+  // Chain position verification started from; 0 unless entries were pruned
+  anchorSequence: number;
+  lastSequence: number;
+  brokenAt?: {
+    sequence: number;
+    entryId: string | null;
+    reason: string;
+  };
+  verifiedAt: Date;
+}
+
 // Configuration for suspicious pattern detection
 interface SuspiciousPatternConfig {
   failedLoginThreshold: number;
@@ -412,10 +533,42 @@ const defaultPatternConfig: SuspiciousPatternConfig = {
   offHoursEnd: 6, // 6 AM
 };
 
+// previousHash of the first entry in a chain
+const GENESIS_HASH = "0".repeat(64);
+const MAX_CHAIN_WRITE_ATTEMPTS = 5;
+
+// Entry fields covered by the hash; the archive flag and retention date are
+// housekeeping and may change
+const HASHED_FIELDS = [
+  "action",
+  "category",
+  "description",
+  "organizationId",
+  "actorId",
+  "actorEmail",
+  "actorName",
+  "actorType",
+  "entityType",
+  "entityId",
+  "entityName",
+  "teamId",
+  "projectId",
+  "changes",
+  "metadata",
+  "ipAddress",
+  "userAgent",
+  "requestId",
+  "timestamp",
+  "sequence",
+  "previousHash",
+] as const;
+
 class AuditService {
   private defaultRetentionDays = 365; // 1 year retention
   private patternConfig: SuspiciousPatternConfig = defaultPatternConfig;
   private alertCallbacks: ((alert: ISecurityAlert) => void)[] = [];
+  // Pending chain writes per organization
+  private chainWrites = new Map<string, Promise<void>>();
 
   /**
    * Register a callback for security alerts
@@ -434,31 +587,14 @@ class AuditService {
   /**
    * Log an audit event
    */
-  async log(params: {
-    action: AuditAction;
-    organizationId: string | Types.ObjectId; // Required for multi-tenancy
-    actorId?: string | Types.ObjectId | null;
-    actorEmail?: string;
-    actorName?: string;
-    actorType?: "user" | "system" | "api" | "webhook";
-    entityType: string;
-    entityId: string;
-    entityName?: string;
-    teamId?: string | Types.ObjectId;
-    projectId?: string | Types.ObjectId;
-    changes?: { field: string; oldValue: any; newValue: any }[];
-    metadata?: Record<string, any>;
-    ipAddress?: string;
-    userAgent?: string;
-    requestId?: string;
-  }): Promise<IAuditLog> {
+  async log(params: AuditLogParams): Promise<IAuditLog> {
     const category = params.action.split(".")[0];
     const description = this.generateDescription(params.action, params);
 
     const retentionDate = new Date();
     retentionDate.setDate(retentionDate.getDate() + this.defaultRetentionDays);
 
-    const auditEntry = new AuditLog({
+    const auditEntry = await this.appendToChain({
       action: params.action,
       category,
       description,
@@ -482,8 +618,6 @@ class AuditService {
       isArchived: false,
     });
 
-    await auditEntry.save();
-
     logger.debug("Audit log created", {
       action: params.action,
       organizationId: params.organizationId,
@@ -499,6 +633,113 @@ class AuditService {
     return auditEntry;
   }
 
+  /**
+   * Save an entry at the head of its organization's hash chain. Writes are
+   * serialized per organization within this process; a duplicate sequence
+   * from another process is retried against the new head.
+   */
+  private appendToChain(data: Record<string, any>): Promise<IAuditLog> {
+    const organizationId = data.organizationId.toString();
+
+    return this.withChainLock(organizationId, async () => {
+      for (let attempt = 1; ; attempt++) {
+        const head = await this.getChainHead(organizationId);
+        const auditEntry = new AuditLog({
+          ...data,
+          sequence: head.sequence + 1,
+          previousHash: head.hash,
+        });
+        auditEntry.hash = computeEntryHash(auditEntry.toObject());
+
+        try {
+          await auditEntry.save();
+          return auditEntry;
+        } catch (error: any) {
+          if (error?.code !== 11000 || attempt >= MAX_CHAIN_WRITE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+    });
+  }
+
+  private withChainLock<T>(
+    organizationId: string,
+    write: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.chainWrites.get(organizationId) || Promise.resolve();
+    const result = previous.then(write);
+    const settled = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.chainWrites.set(organizationId, settled);
+    settled.then(() => {
+      if (this.chainWrites.get(organizationId) === settled) {
+        this.chainWrites.delete(organizationId);
+      }
+    });
+    return result;
+  }
+
+  // Latest chain position, falling back to the prune checkpoint when every
+  // chained entry has been deleted
+  private async getChainHead(
+    organizationId: string
+  ): Promise<{ sequence: number; hash: string }> {
+    const last = await AuditLog.findOne({
+      organizationId,
+      sequence: { $exists: true },
+    })
+      .sort({ sequence: -1 })
+      .select("sequence hash")
+      .lean();
+    if (last) {
+      return { sequence: last.sequence!, hash: last.hash! };
+    }
+
+    const checkpoint = await AuditCheckpoint.findOne({
+      organizationId,
+      kind: "prune",
+    })
+      .sort({ sequence: -1 })
+      .lean();
+    return checkpoint
+      ? { sequence: checkpoint.sequence, hash: checkpoint.hash }
+      : { sequence: 0, hash: GENESIS_HASH };
+  }
+
+  /**
+   * Log an event made through an API request. Actor, organization and request
+   * context default to the authenticated request; errors are logged rather
+   * than thrown so a failed audit write never fails the request.
+   */
+  async logRequest(
+    req: any,
+    params: Omit<
+      AuditLogParams,
+      "organizationId" | "ipAddress" | "userAgent" | "requestId"
+    > & { organizationId?: string | Types.ObjectId | null }
+  ): Promise<void> {
+    const organizationId = params.organizationId || req.user?.organizationId;
+    if (!organizationId) {
+      logger.warn(`Audit event ${params.action} has no organization, skipped`);
+      return;
+    }
+
+    try {
+      await this.log({
+        actorId: req.user?.userId,
+        actorEmail: req.user?.email,
+        ...params,
+        organizationId,
+        ...getRequestContext(req),
+      });
+    } catch (error) {
+      logger.error(`Failed to write audit log for ${params.action}:`, error);
+    }
+  }
+
   /**
    * Generate human-readable description
    */
@@ -511,11 +752,13 @@ class AuditService {
       [AuditAction.LOGOUT]: `${actor} logged out`,
       [AuditAction.LOGIN_FAILED]: `Failed login attempt for ${params.actorEmail}`,
       [AuditAction.PASSWORD_CHANGED]: `${actor} changed their password`,
+      [AuditAction.PASSWORD_RESET_REQUESTED]: `${actor} requested a password reset`,
 
       [AuditAction.USER_CREATED]: `${actor} created user ${entity}`,
       [AuditAction.USER_UPDATED]: `${actor} updated user ${entity}`,
       [AuditAction.USER_DELETED]: `${actor} deleted user ${entity}`,
       [AuditAction.USER_INVITED]: `${actor} invited ${entity} to the team`,
+      [AuditAction.ROLE_CHANGED]: `${actor} changed the access level of ${entity}`,
 
       [AuditAction.TEAM_CREATED]: `${actor} created team "${entity}"`,
       [AuditAction.TEAM_UPDATED]: `${actor} updated team "${entity}"`,
@@ -523,6 +766,11 @@ class AuditService {
       [AuditAction.MEMBER_ADDED]: `${actor} added a member to ${entity}`,
       [AuditAction.MEMBER_REMOVED]: `${actor} removed a member from ${entity}`,
 
+      [AuditAction.ROLE_CREATED]: `${actor} created role "${entity}"`,
+      [AuditAction.ROLE_UPDATED]: `${actor} updated role "${entity}"`,
+      [AuditAction.ROLE_DELETED]: `${actor} deleted role "${entity}"`,
+      [AuditAction.ROLE_ASSIGNED]: `${actor} changed the custom role of ${entity}`,
+
       [AuditAction.TASK_CREATED]: `${actor} created task "${entity}"`,
       [AuditAction.TASK_UPDATED]: `${actor} updated task "${entity}"`,
       [AuditAction.TASK_DELETED]: `${actor} deleted task "${entity}"`,
@@ -530,14 +778,21 @@ class AuditService {
       [AuditAction.TASK_STATUS_CHANGED]: `${actor} changed status of "${entity}"`,
 
       [AuditAction.COMMENT_ADDED]: `${actor} commented on ${entity}`,
+      [AuditAction.COMMENT_UPDATED]: `${actor} updated a comment on ${entity}`,
+      [AuditAction.COMMENT_DELETED]: `${actor} deleted a comment on ${entity}`,
       [AuditAction.ATTACHMENT_UPLOADED]: `${actor} uploaded an attachment to ${entity}`,
 
       [AuditAction.PROJECT_CREATED]: `${actor} created project "${entity}"`,
       [AuditAction.PROJECT_UPDATED]: `${actor} updated project "${entity}"`,
       [AuditAction.PROJECT_DELETED]: `${actor} deleted project "${entity}"`,
 
+      [AuditAction.ORGANIZATION_CREATED]: `${actor} created organization "${entity}"`,
       [AuditAction.SETTINGS_UPDATED]: `${actor} updated settings`,
       [AuditAction.DATA_EXPORTED]: `${actor} exported data`,
+      [AuditAction.DATA_IMPORTED]: `${actor} imported data`,
+      [AuditAction.BACKUP_CREATED]: `${actor} created a backup`,
+      [AuditAction.BACKUP_RESTORED]: `${actor} restored a backup`,
+      [AuditAction.BACKUP_DELETED]: `${actor} deleted a backup`,
     };
 
     return descriptions[action] || `${actor} performed ${action} on ${entity}`;
@@ -700,8 +955,10 @@ class AuditService {
   ): Promise<void> {
     const changes = params.changes || [];
 
-    // Check if role was changed to admin/owner
-    const roleChange = changes.find((c: any) => c.field === "role");
+    // Check if role or access level was changed to admin/owner
+    const roleChange = changes.find(
+      (c: any) => c.field === "role" || c.field === "accessLevel"
+    );
     if (roleChange) {
       const sensitiveRoles = ["admin", "owner", "super_admin"];
       const isEscalation = sensitiveRoles.includes(
@@ -970,6 +1227,29 @@ class AuditService {
       sortOrder = "desc",
     } = pagination;
 
+    const query = this.buildQuery(filter);
+
+    const [logs, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ [sortBy]: sortOrder === "desc" ? -1 : 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return {
+      logs,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Build the MongoDB filter for an audit log query
+   */
+  private buildQuery(filter: AuditLogFilter): Record<string, any> {
     const query: any = {
       isArchived: false,
       organizationId: new Types.ObjectId(filter.organizationId), // Required for multi-tenancy
@@ -1009,28 +1289,15 @@ class AuditService {
       }
     }
     if (filter.search) {
+      const search = escapeRegex(filter.search);
       query.$or = [
-        { description: { $regex: filter.search, $options: "i" } },
-        { entityName: { $regex: filter.search, $options: "i" } },
-        { actorEmail: { $regex: filter.search, $options: "i" } },
+        { description: { $regex: search, $options: "i" } },
+        { entityName: { $regex: search, $options: "i" } },
+        { actorEmail: { $regex: search, $options: "i" } },
       ];
     }
 
-    const [logs, total] = await Promise.all([
-      AuditLog.find(query)
-        .sort({ [sortBy]: sortOrder === "desc" ? -1 : 1 })
-        .skip((page - 1) * limit)
-        .limit(limit)
-        .lean(),
-      AuditLog.countDocuments(query),
-    ]);
-
-    return {
-      logs,
-      total,
-      page,
-      totalPages: Math.ceil(total / limit),
-    };
+    return query;
   }
 
   /**
@@ -1163,36 +1430,46 @@ class AuditService {
     const { logs } = await this.query(filter, { limit: 10000 });
 
     if (format === "csv") {
-      const headers = [
-        "Timestamp",
-        "Action",
-        "Category",
-        "Description",
-        "Actor",
-        "Actor Email",
-        "Entity Type",
-        "Entity ID",
-        "Entity Name",
-        "IP Address",
-      ];
+      return [
+        csvRow(AUDIT_CSV_HEADERS),
+        ...logs.map((log) => csvRow(toCsvValues(log))),
+      ].join("\n");
+    }
 
-      const rows = logs.map((log) => [
-        log.timestamp.toISOString(),
-        log.action,
-        log.category,
-        `"${log.description.replace(/"/g, '""')}"`,
-        log.actorName,
-        log.actorEmail,
-        log.entityType,
-        log.entityId,
-        log.entityName || "",
-        log.ipAddress || "",
-      ]);
+    return JSON.stringify(logs, null, 2);
+  }
 
-      return [headers.join(","), ...rows.map((r) => r.join(","))].join("\n");
+  /**
+   * Stream every matching audit log as CSV or a JSON array, newest first,
+   * without loading the whole result into memory
+   */
+  streamLogs(
+    filter: AuditLogFilter,
+    format: "json" | "csv" = "json"
+  ): Readable {
+    const cursor = AuditLog.find(this.buildQuery(filter))
+      .sort({ timestamp: -1 })
+      .lean()
+      .cursor();
+
+    async function* generate() {
+      let count = 0;
+      yield format === "csv" ? `${csvRow(AUDIT_CSV_HEADERS)}\n` : "[";
+      for await (const log of cursor) {
+        const entry = log as unknown as AuditLogData;
+        if (format === "csv") {
+          yield `${csvRow(toCsvValues(entry))}\n`;
+        } else {
+          yield `${count > 0 ? "," : ""}\n${JSON.stringify(entry)}`;
+        }
+        count++;
+      }
+      if (format === "json") {
+        yield count > 0 ? "\n]\n" : "]\n";
+      }
     }
 
-    return JSON.stringify(logs, null, 2);
+    return Readable.from(generate());
   }
 
   /**
@@ -1292,35 +1569,283 @@ class AuditService {
   }
 
   /**
-   * Archive old logs (for retention)
+   * Archive old logs (for retention). A checkpoint of the newest archived
+   * entry is kept per organization.
    */
   async archiveOldLogs(): Promise<number> {
-    const result = await AuditLog.updateMany(
+    const filter = {
+      retentionDate: { $lt: new Date() },
+      isArchived: false,
+    };
+
+    const heads = await AuditLog.aggregate([
+      { $match: { ...filter, sequence: { $exists: true } } },
+      { $sort: { sequence: -1 } },
       {
-        retentionDate: { $lt: new Date() },
-        isArchived: false,
+        $group: {
+          _id: "$organizationId",
+          sequence: { $first: "$sequence" },
+          hash: { $first: "$hash" },
+        },
       },
-      { $set: { isArchived: true } }
-    );
+    ]);
+
+    // The schema hooks reject updates; the archive flag is not hashed, so it
+    // is set on the collection directly
+    const result = await AuditLog.collection.updateMany(filter, {
+      $set: { isArchived: true },
+    });
+
+    for (const head of heads) {
+      await this.createCheckpoint(
+        head._id,
+        "archive",
+        head.sequence,
+        head.hash
+      );
+    }
 
     logger.info(`Archived ${result.modifiedCount} audit logs`);
     return result.modifiedCount;
   }
 
   /**
-   * Delete archived logs (permanent deletion after extended retention)
+   * Delete archived logs (permanent deletion after extended retention).
+   * Only the oldest run of each organization's chain is deleted, and a
+   * checkpoint of the last deleted entry becomes the chain's new anchor.
    */
   async deleteArchivedLogs(olderThanDays = 90): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
-    const result = await AuditLog.deleteMany({
+    const deletable = {
       isArchived: true,
       retentionDate: { $lt: cutoffDate },
+    };
+
+    let deletedCount = 0;
+    const organizationIds: Types.ObjectId[] = await AuditLog.distinct(
+      "organizationId",
+      deletable
+    );
+
+    for (const organizationId of organizationIds) {
+      // Deleting past the first entry that must be kept would leave a gap
+      const firstKept = await AuditLog.findOne({
+        organizationId,
+        sequence: { $exists: true },
+        $nor: [deletable],
+      })
+        .sort({ sequence: 1 })
+        .select("sequence")
+        .lean();
+
+      const chained = {
+        organizationId,
+        ...deletable,
+        sequence: firstKept
+          ? { $exists: true, $lt: firstKept.sequence }
+          : { $exists: true },
+      };
+
+      const lastDeleted = await AuditLog.findOne(chained)
+        .sort({ sequence: -1 })
+        .select("sequence hash")
+        .lean();
+      if (lastDeleted) {
+        await this.createCheckpoint(
+          organizationId,
+          "prune",
+          lastDeleted.sequence!,
+          lastDeleted.hash!
+        );
+      }
+
+      const result = await AuditLog.deleteMany({
+        organizationId,
+        ...deletable,
+        // Entries written before chaining can go regardless
+        $or: [{ sequence: { $exists: false } }, { sequence: chained.sequence }],
+      });
+      deletedCount += result.deletedCount;
+    }
+
+    logger.info(`Deleted ${deletedCount} archived audit logs`);
+    return deletedCount;
+  }
+
+  private async createCheckpoint(
+    organizationId: Types.ObjectId,
+    kind: "archive" | "prune",
+    sequence: number,
+    hash: string
+  ): Promise<void> {
+    const checkpoint = new AuditCheckpoint({
+      organizationId,
+      kind,
+      sequence,
+      hash,
+      createdAt: new Date(),
+    });
+    checkpoint.signature = signCheckpoint(checkpoint);
+    await checkpoint.save();
+  }
+
+  /**
+   * Walk an organization's hash chain from its anchor (genesis or the latest
+   * prune checkpoint) and report the first broken link. A broken chain raises
+   * a critical security alert.
+   */
+  async verifyChain(organizationId: string): Promise<ChainVerificationResult> {
+    const orgId = new Types.ObjectId(organizationId);
+    const checkpoints = await AuditCheckpoint.find({ organizationId: orgId })
+      .sort({ sequence: 1 })
+      .lean();
+
+    const result: ChainVerificationResult = {
+      organizationId,
+      valid: true,
+      checked: 0,
+      anchorSequence: 0,
+      lastSequence: 0,
+      verifiedAt: new Date(),
+    };
+    const fail = async (
+      sequence: number,
+      entryId: string | null,
+      reason: string
+    ) => {
+      result.valid = false;
+      result.brokenAt = { sequence, entryId, reason };
+      await this.reportBrokenChain(orgId, result);
+      return result;
+    };
+
+    const forged = checkpoints.find((c) => !isCheckpointSignatureValid(c));
+    if (forged) {
+      return fail(
+        forged.sequence,
+        null,
+        `The ${forged.kind} checkpoint signature is invalid`
+      );
+    }
+
+    const anchor = checkpoints.filter((c) => c.kind === "prune").pop();
+    let previousHash = anchor?.hash || GENESIS_HASH;
+    result.anchorSequence = anchor?.sequence || 0;
+    result.lastSequence = result.anchorSequence;
+
+    const archived = new Map<number, string>();
+    for (const checkpoint of checkpoints) {
+      if (checkpoint.kind === "archive") {
+        archived.set(checkpoint.sequence, checkpoint.hash);
+      }
+    }
+
+    const cursor = AuditLog.find({
+      organizationId: orgId,
+      sequence: { $gt: result.anchorSequence },
+    })
+      .sort({ sequence: 1 })
+      .lean()
+      .cursor();
+
+    for await (const entry of cursor) {
+      const expected = result.lastSequence + 1;
+      const entryId = entry._id.toString();
+      if (entry.sequence !== expected) {
+        return fail(
+          expected,
+          entryId,
+          `Entries ${expected} to ${entry.sequence! - 1} are missing`
+        );
+      }
+      if (entry.previousHash !== previousHash) {
+        return fail(
+          expected,
+          entryId,
+          "Previous hash does not match the preceding entry"
+        );
+      }
+      if (computeEntryHash(entry) !== entry.hash) {
+        return fail(expected, entryId, "Entry content does not match its hash");
+      }
+      const checkpointHash = archived.get(expected);
+      if (checkpointHash && checkpointHash !== entry.hash) {
+        return fail(expected, entryId, "Entry does not match its checkpoint");
+      }
+
+      previousHash = entry.hash;
+      result.lastSequence = expected;
+      result.checked++;
+    }
+
+    // Checkpoints past the end of the chain mean its newest entries are gone
+    const lastCheckpoint = checkpoints[checkpoints.length - 1];
+    if (lastCheckpoint && lastCheckpoint.sequence > result.lastSequence) {
+      return fail(
+        result.lastSequence + 1,
+        null,
+        `Entries ${result.lastSequence + 1} to ${
+          lastCheckpoint.sequence
+        } are missing`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify the hash chain of every organization with chained entries
+   */
+  async verifyAllChains(): Promise<{ verified: number; broken: number }> {
+    const organizationIds: Types.ObjectId[] = await AuditLog.distinct(
+      "organizationId",
+      { sequence: { $exists: true } }
+    );
+
+    let broken = 0;
+    for (const organizationId of organizationIds) {
+      try {
+        const result = await this.verifyChain(organizationId.toString());
+        if (!result.valid) broken++;
+      } catch (error) {
+        logger.error(
+          `Failed to verify audit chain for org ${organizationId}:`,
+          error
+        );
+      }
+    }
+
+    return { verified: organizationIds.length, broken };
+  }
+
+  // Raise one open alert per broken chain rather than one per verification
+  private async reportBrokenChain(
+    organizationId: Types.ObjectId,
+    result: ChainVerificationResult
+  ): Promise<void> {
+    logger.error(`Audit chain for org ${organizationId} is broken`, {
+      brokenAt: result.brokenAt,
+    });
+
+    const existing = await SecurityAlert.exists({
+      organizationId,
+      alertType: SecurityAlertType.AUDIT_TAMPERING,
+      status: { $in: ["new", "investigating"] },
+      "details.sequence": result.brokenAt!.sequence,
     });
+    if (existing) return;
 
-    logger.info(`Deleted ${result.deletedCount} archived audit logs`);
-    return result.deletedCount;
+    await this.createSecurityAlert({
+      alertType: SecurityAlertType.AUDIT_TAMPERING,
+      severity: "critical",
+      organizationId,
+      description: `Audit log chain is broken at entry ${
+        result.brokenAt!.sequence
+      }: ${result.brokenAt!.reason}`,
+      details: { ...result.brokenAt },
+    });
   }
 
   /**
@@ -1384,6 +1909,7 @@ class AuditService {
    * Update security alert status
    */
   async updateAlertStatus(
+    organizationId: string,
     alertId: string,
     status: "investigating" | "resolved" | "dismissed",
     resolvedBy?: string,
@@ -1397,9 +1923,11 @@ class AuditService {
       if (resolution) update.resolution = resolution;
     }
 
-    const alert = await SecurityAlert.findByIdAndUpdate(alertId, update, {
-      new: true,
-    });
+    const alert = await SecurityAlert.findOneAndUpdate(
+      { _id: alertId, organizationId: new Types.ObjectId(organizationId) },
+      update,
+      { new: true }
+    );
 
     if (alert) {
       logger.info("Security alert status updated", {
@@ -1481,6 +2009,108 @@ class AuditService {
   }
 }
 
+const AUDIT_CSV_HEADERS = [
+  "Timestamp",
+  "Action",
+  "Category",
+  "Description",
+  "Actor",
+  "Actor Email",
+  "Entity Type",
+  "Entity ID",
+  "Entity Name",
+  "Changes",
+  "IP Address",
+  "Request ID",
+];
+
+function toCsvValues(log: AuditLogData): string[] {
+  return [
+    new Date(log.timestamp).toISOString(),
+    log.action,
+    log.category,
+    log.description,
+    log.actorName,
+    log.actorEmail,
+    log.entityType,
+    log.entityId,
+    log.entityName || "",
+    log.changes?.length ? JSON.stringify(log.changes) : "",
+    log.ipAddress || "",
+    log.requestId || "",
+  ];
+}
+
+// Quote CSV fields containing a delimiter, quote or newline
+function csvRow(values: string[]): string {
+  return values
+    .map((value) =>
+      /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    )
+    .join(",");
+}
+
+// Stable JSON-ready form of a value: sorted keys, no empty fields, and
+// dates and ObjectIds as strings, so saved and re-read entries hash alike
+function canonicalize(value: any): any {
+  if (value === null || value === undefined) return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Types.ObjectId) return value.toHexString();
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalize(item) ?? null);
+  }
+  if (typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = canonicalize(value[key]);
+      if (item !== undefined) result[key] = item;
+    }
+    return result;
+  }
+  return value;
+}
+
+function computeEntryHash(entry: Record<string, any>): string {
+  const content: Record<string, any> = {};
+  for (const field of HASHED_FIELDS) {
+    content[field] = entry[field];
+  }
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(canonicalize(content)))
+    .digest("hex");
+}
+
+function signCheckpoint(checkpoint: AuditCheckpointData): string {
+  return crypto
+    .createHmac("sha256", config.audit.signingSecret)
+    .update(
+      [
+        checkpoint.organizationId.toString(),
+        checkpoint.kind,
+        checkpoint.sequence,
+        checkpoint.hash,
+        new Date(checkpoint.createdAt).toISOString(),
+      ].join(":")
+    )
+    .digest("hex");
+}
+
+function isCheckpointSignatureValid(checkpoint: AuditCheckpointData): boolean {
+  const expected = signCheckpoint(checkpoint);
+  return (
+    checkpoint.signature?.length === expected.length &&
+    crypto.timingSafeEqual(
+      Buffer.from(checkpoint.signature),
+      Buffer.from(expected)
+    )
+  );
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 // Middleware helper to extract request context
 export function getRequestContext(req: any): {
   ipAddress: string;
@@ -1493,7 +2123,7 @@ export function getRequestContext(req: any): {
       req.socket?.remoteAddress ||
       "unknown",
     userAgent: req.headers["user-agent"] || "unknown",
-    requestId: req.headers["x-request-id"] || req.id || "",
+    requestId: req.id || req.headers["x-request-id"] || "",
   };
 }
 
@@ -1522,5 +2152,5 @@ export function calculateChanges(
 
 // Export singleton
 export const auditService = new AuditService();
-export { AuditLog, SecurityAlert };
+export { AuditLog, SecurityAlert, AuditCheckpoint };
 export default auditService;
@@ -1,19 +1,103 @@
+import mongoose from "mongoose";
 import AutomationRule, {
+  AutomationCondition,
+  AutomationConditionGroup,
+  AutomationConditionNode,
   AutomationRuleDocument,
+  AutomationTrigger,
   IAutomationRule,
+  UPDATABLE_TASK_FIELDS,
 } from "../models/AutomationRule";
+import AutomationExecution, {
+  AutomationActionResult,
+  AutomationConditionResult,
+  AutomationExecutionDocument,
+  AutomationExecutionStatus,
+} from "../models/AutomationExecution";
 import Task from "../models/Task";
+import TaskTemplate from "../models/TaskTemplate";
+import Comment from "../models/Comment";
+import TeamMember from "../models/TeamMember";
 import Activity from "../models/Activity";
+import config from "../config";
 import logger from "../utils/logger";
 import { webhookService } from "./webhook.service.js";
+import { jobQueue } from "./jobQueue.service";
+import { rateLimitService } from "./rateLimit.service";
+import { wsService } from "./websocket.service";
+import { cacheService } from "./cache.service";
+import { taskTemplateService } from "./taskTemplate.service";
+import { planLimitsService } from "./planLimits.service";
 
 export interface AutomationContext {
   task?: any;
   previousTask?: any;
   user?: any;
   comment?: any;
+  timeEntry?: any;
   changes?: Record<string, { old: any; new: any }>;
   organizationId?: string; // Added for multi-tenancy
+  depth?: number; // Cascade depth, incremented for triggers fired by rule actions
+  sourceRuleId?: string; // Rule whose action fired this trigger
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Actor id recorded on comments and tasks created by automation actions
+export const AUTOMATION_ACTOR_ID = "system:automation";
+
+// Fields a create_task action may set from its inline taskTemplate
+const CREATE_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assigneeId",
+  "contextType",
+  "contextId",
+  "dueDate",
+  "tags",
+];
+
+const isConditionGroup = (
+  node: AutomationConditionNode
+): node is AutomationConditionGroup =>
+  Boolean((node as AutomationConditionGroup).group);
+
+// Task fields compared when building the `changes` diff for task triggers
+const TASK_TRACKED_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assigneeId",
+  "dueDate",
+  "tags",
+  "contextType",
+  "contextId",
+  "dependencies",
+];
+
+/**
+ * Build an AutomationContext `changes` diff between two plain objects
+ */
+export function getChanges(
+  previous: Record<string, any>,
+  current: Record<string, any>,
+  fields: string[]
+): Record<string, { old: any; new: any }> {
+  const changes: Record<string, { old: any; new: any }> = {};
+
+  for (const field of fields) {
+    const oldValue = previous?.[field] ?? null;
+    const newValue = current?.[field] ?? null;
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  }
+
+  return changes;
 }
 
 class AutomationService {
@@ -26,6 +110,7 @@ class AutomationService {
   ): Promise<AutomationRuleDocument> {
     const rule = new AutomationRule({ ...data, organizationId });
     await rule.save();
+    await this.syncSchedule(rule._id.toString(), rule);
     logger.info(`Automation rule created: ${rule.name}`);
     return rule;
   }
@@ -44,6 +129,7 @@ class AutomationService {
       { new: true }
     );
     if (rule) {
+      await this.syncSchedule(ruleId, rule);
       logger.info(`Automation rule updated: ${rule.name}`);
     }
     return rule;
@@ -57,6 +143,9 @@ class AutomationService {
       _id: ruleId,
       organizationId,
     });
+    if (result) {
+      await this.syncSchedule(ruleId, null);
+    }
     return !!result;
   }
 
@@ -84,6 +173,69 @@ class AutomationService {
     return AutomationRule.findOne({ _id: ruleId, organizationId });
   }
 
+  /**
+   * Queue a trigger for asynchronous processing by the automations worker.
+   * Falls back to in-process execution when the job queue is unavailable.
+   */
+  async queueTrigger(
+    triggerType: AutomationTrigger,
+    context: AutomationContext
+  ): Promise<void> {
+    if (!context.organizationId) {
+      return;
+    }
+
+    // Job data must survive JSON serialization (documents become plain objects)
+    const serializedContext = JSON.parse(JSON.stringify(context));
+
+    try {
+      await jobQueue.processAutomation({
+        trigger: triggerType,
+        context: serializedContext,
+      });
+    } catch (error) {
+      logger.warn(
+        `Failed to queue automation trigger ${triggerType}, running inline`,
+        error
+      );
+      void this.processTrigger(triggerType, serializedContext);
+    }
+  }
+
+  /**
+   * Queue the task_updated, task_status_changed and task_assigned triggers
+   * implied by a task moving from previous to current. Returns the changes.
+   */
+  async queueTaskChangeTriggers(
+    previous: Record<string, any>,
+    current: Record<string, any>,
+    context: Omit<AutomationContext, "task" | "previousTask" | "changes">
+  ): Promise<Record<string, { old: any; new: any }>> {
+    const changes = getChanges(previous, current, TASK_TRACKED_FIELDS);
+    if (Object.keys(changes).length === 0) {
+      return changes;
+    }
+
+    const triggerContext: AutomationContext = {
+      ...context,
+      task: current,
+      previousTask: previous,
+      changes,
+    };
+
+    await this.queueTrigger("task_updated", triggerContext);
+
+    if (changes.status) {
+      await this.queueTrigger("task_status_changed", triggerContext);
+    }
+
+    if (changes.assigneeId && current.assigneeId) {
+      await this.queueTrigger("task_assigned", triggerContext);
+    }
+
+    return changes;
+  }
+
   /**
    * Process automation triggers for a specific event
    */
@@ -104,22 +256,7 @@ class AutomationService {
       }).sort({ createdAt: -1 });
 
       for (const rule of rules) {
-        try {
-          const shouldExecute = await this.evaluateConditions(rule, context);
-
-          if (shouldExecute) {
-            await this.executeActions(rule, context);
-
-            // Update rule statistics
-            rule.lastExecutedAt = Date.now();
-            rule.executionCount += 1;
-            await rule.save();
-
-            logger.info(`Automation rule executed: ${rule.name}`);
-          }
-        } catch (error) {
-          logger.error(`Error executing automation rule ${rule.name}:`, error);
-        }
+        await this.runRule(rule, context);
       }
     } catch (error) {
       logger.error(
@@ -130,32 +267,426 @@ class AutomationService {
   }
 
   /**
-   * Evaluate if all conditions for a rule are met
+   * Evaluate a rule against a context and execute its actions if it matches
    */
-  private async evaluateConditions(
+  private async runRule(
     rule: AutomationRuleDocument,
     context: AutomationContext
   ): Promise<boolean> {
-    const { conditions } = rule;
+    const startedAt = Date.now();
+    let conditionResults: AutomationConditionResult[] = [];
 
-    if (!conditions || conditions.length === 0) {
+    try {
+      const evaluation = this.evaluateConditions(rule, context);
+      conditionResults = evaluation.results;
+
+      if (!evaluation.matched) {
+        return false;
+      }
+
+      const skipReason = await this.checkGuards(rule, context);
+      if (skipReason) {
+        logger.warn(`Automation rule skipped: ${rule.name} (${skipReason})`);
+        await this.recordExecution(rule, context, {
+          status: "skipped",
+          skipReason,
+          conditionResults,
+          startedAt,
+        });
+        return false;
+      }
+
+      const actionResults = await this.executeActions(rule, context);
+      const failedActions = actionResults.filter(
+        (result) => result.status === "failed"
+      );
+
+      // Update rule statistics
+      rule.lastExecutedAt = Date.now();
+      rule.executionCount += 1;
+      await rule.save();
+
+      await this.recordExecution(rule, context, {
+        status: failedActions.length > 0 ? "failed" : "success",
+        error:
+          failedActions
+            .map((result) => `${result.type}: ${result.error}`)
+            .join("; ") || undefined,
+        conditionResults,
+        actionResults,
+        startedAt,
+      });
+      logger.info(`Automation rule executed: ${rule.name}`);
+
+      await webhookService.dispatchEvent(
+        rule.organizationId,
+        "automation.triggered",
+        {
+          rule: {
+            id: rule._id.toString(),
+            name: rule.name,
+            trigger: rule.trigger,
+          },
+          taskId: context.task?._id || context.task?.id,
+          actionResults,
+        }
+      );
       return true;
+    } catch (error) {
+      logger.error(`Error executing automation rule ${rule.name}:`, error);
+      await this.recordExecution(rule, context, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        conditionResults,
+        startedAt,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Loop protection: return a reason to skip a matched rule, or null to run it
+   */
+  private async checkGuards(
+    rule: AutomationRuleDocument,
+    context: AutomationContext
+  ): Promise<string | null> {
+    const { maxCascadeDepth, ruleRunsPerMinute } = config.automation;
+    const depth = context.depth || 0;
+
+    if (depth > maxCascadeDepth) {
+      return `Cascade depth ${depth} exceeds limit of ${maxCascadeDepth}`;
+    }
+
+    // Scheduled sweeps are already bounded by their cron expression
+    if (rule.trigger === "schedule") {
+      return null;
+    }
+
+    const limit = await rateLimitService.checkLimit(
+      `automation-rule:${rule._id}`,
+      { windowMs: 60 * 1000, maxRequests: ruleRunsPerMinute }
+    );
+    if (!limit.allowed) {
+      return `Rate limit of ${ruleRunsPerMinute} runs per minute exceeded`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Evaluate a rule against a context without executing any actions
+   */
+  dryRun(
+    rule: AutomationRuleDocument,
+    context: AutomationContext
+  ): {
+    matched: boolean;
+    conditions: AutomationConditionResult[];
+    actions: IAutomationRule["actions"];
+  } {
+    const evaluation = this.evaluateConditions(rule, context);
+    return {
+      matched: evaluation.matched,
+      conditions: evaluation.results,
+      actions: evaluation.matched ? rule.actions : [],
+    };
+  }
+
+  /**
+   * Run a scheduled rule. Rules with conditions are evaluated against every
+   * task in the organization; rules without conditions run once.
+   */
+  async runScheduledRule(
+    ruleId: string,
+    organizationId: string
+  ): Promise<number> {
+    const rule = await AutomationRule.findOne({ _id: ruleId, organizationId });
+    if (!rule || !rule.isActive || rule.trigger !== "schedule") {
+      // Stale scheduler left behind by a deleted or changed rule
+      await this.syncSchedule(ruleId, rule);
+      return 0;
     }
 
-    for (const condition of conditions) {
-      const fieldValue = this.getFieldValue(context, condition.field);
-      const matches = this.evaluateCondition(
-        fieldValue,
-        condition.operator,
-        condition.value
+    if (!rule.conditions || rule.conditions.length === 0) {
+      return (await this.runRule(rule, { organizationId })) ? 1 : 0;
+    }
+
+    let matched = 0;
+    const cursor = Task.find({ organizationId }).cursor();
+    for await (const task of cursor) {
+      if (await this.runRule(rule, { task: task.toJSON(), organizationId })) {
+        matched += 1;
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * Register or remove the repeatable job backing a scheduled rule
+   */
+  private async syncSchedule(
+    ruleId: string,
+    rule: AutomationRuleDocument | null
+  ): Promise<void> {
+    try {
+      if (
+        rule &&
+        rule.isActive &&
+        rule.trigger === "schedule" &&
+        rule.schedule?.cron
+      ) {
+        await jobQueue.scheduleAutomationRule(
+          { ruleId, organizationId: rule.organizationId },
+          rule.schedule
+        );
+      } else {
+        await jobQueue.unscheduleAutomationRule(ruleId);
+      }
+    } catch (error) {
+      logger.warn(
+        `Failed to sync schedule for automation rule ${ruleId}`,
+        error
       );
+    }
+  }
 
-      if (!matches) {
-        return false;
+  /**
+   * Reconcile repeatable jobs with the active scheduled rules (run on startup)
+   */
+  async syncSchedules(): Promise<void> {
+    try {
+      const rules = await AutomationRule.find({
+        isActive: true,
+        trigger: "schedule",
+      });
+      const activeRuleIds = new Set<string>();
+
+      for (const rule of rules) {
+        activeRuleIds.add(rule._id.toString());
+        await this.syncSchedule(rule._id.toString(), rule);
+      }
+
+      const scheduledRuleIds = await jobQueue.getScheduledAutomationRuleIds();
+      for (const ruleId of scheduledRuleIds) {
+        if (!activeRuleIds.has(ruleId)) {
+          await this.syncSchedule(ruleId, null);
+        }
+      }
+
+      logger.info(`Synced ${rules.length} scheduled automation rules`);
+    } catch (error) {
+      logger.error("Failed to sync automation schedules", error);
+    }
+  }
+
+  /**
+   * Fire task_due_soon / task_overdue for tasks that crossed the threshold.
+   * Each task fires once per dueDate, tracked in task.dueDateTriggers.
+   */
+  async scanDueDateTransitions(
+    kind: "dueSoon" | "overdue"
+  ): Promise<{ checked: number; triggered: number }> {
+    const trigger: AutomationTrigger =
+      kind === "overdue" ? "task_overdue" : "task_due_soon";
+
+    // Only scan organizations that have a rule listening for this transition
+    const organizationIds = await AutomationRule.distinct("organizationId", {
+      isActive: true,
+      trigger,
+    });
+    if (organizationIds.length === 0) {
+      return { checked: 0, triggered: 0 };
+    }
+
+    const now = Date.now();
+    const stateField = `dueDateTriggers.${kind}`;
+    const dueDate =
+      kind === "overdue"
+        ? { $lt: now }
+        : {
+            $gte: now,
+            $lte: now + config.automation.dueSoonWindowHours * 60 * 60 * 1000,
+          };
+
+    const cursor = Task.find({
+      organizationId: { $in: organizationIds },
+      status: { $ne: "done" },
+      dueDate,
+      $expr: { $ne: [`$${stateField}`, "$dueDate"] },
+    }).cursor();
+
+    let checked = 0;
+    let triggered = 0;
+
+    for await (const task of cursor) {
+      checked += 1;
+
+      // Claim the transition atomically so overlapping scans fire it once.
+      // updateMany bypasses the hook that bumps task.updatedAt.
+      const claim = await Task.updateMany(
+        { _id: task._id, [stateField]: { $ne: task.dueDate } },
+        { $set: { [stateField]: task.dueDate } }
+      );
+      if (claim.modifiedCount === 0) {
+        continue;
       }
+
+      await this.queueTrigger(trigger, {
+        task: task.toJSON(),
+        organizationId: task.organizationId,
+      });
+      triggered += 1;
+    }
+
+    if (triggered > 0) {
+      logger.info(`Fired ${trigger} for ${triggered} tasks`);
+    }
+
+    return { checked, triggered };
+  }
+
+  /**
+   * Persist an entry in the rule's execution history
+   */
+  private async recordExecution(
+    rule: AutomationRuleDocument,
+    context: AutomationContext,
+    result: {
+      status: AutomationExecutionStatus;
+      error?: string;
+      skipReason?: string;
+      conditionResults?: AutomationConditionResult[];
+      actionResults?: AutomationActionResult[];
+      startedAt: number;
+    }
+  ): Promise<void> {
+    try {
+      await AutomationExecution.create({
+        organizationId: rule.organizationId,
+        ruleId: rule._id.toString(),
+        ruleName: rule.name,
+        trigger: rule.trigger,
+        taskId: context.task?._id?.toString() || context.task?.id,
+        status: result.status,
+        error: result.error,
+        skipReason: result.skipReason,
+        depth: context.depth || 0,
+        conditionResults: result.conditionResults || [],
+        actionResults: result.actionResults || [],
+        durationMs: Date.now() - result.startedAt,
+        executedAt: result.startedAt,
+      });
+    } catch (err) {
+      logger.warn(`Failed to record execution for rule ${rule.name}`, err);
+    }
+  }
+
+  /**
+   * Get execution history for a rule
+   */
+  async getExecutions(
+    ruleId: string,
+    organizationId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{
+    executions: AutomationExecutionDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const page = options.page || 1;
+    const limit = options.limit || 50;
+    const query = { organizationId, ruleId };
+
+    const [executions, total] = await Promise.all([
+      AutomationExecution.find(query)
+        .sort({ executedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AutomationExecution.countDocuments(query),
+    ]);
+
+    return {
+      executions,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Create a rule from one of the predefined templates
+   */
+  async createRuleFromTemplate(
+    templateId: string,
+    overrides: Partial<IAutomationRule>,
+    organizationId: string,
+    createdBy: string
+  ): Promise<AutomationRuleDocument | null> {
+    const template = this.getTemplates().find((t) => t.id === templateId);
+    if (!template) {
+      return null;
     }
 
-    return true;
+    const { id: _templateId, ...templateData } = template;
+    return this.createRule(
+      { ...templateData, ...overrides, createdBy },
+      organizationId
+    );
+  }
+
+  /**
+   * Evaluate a rule's conditions (top-level nodes are ANDed), keeping results
+   */
+  private evaluateConditions(
+    rule: AutomationRuleDocument,
+    context: AutomationContext
+  ): { matched: boolean; results: AutomationConditionResult[] } {
+    const results = (rule.conditions || []).map((node) =>
+      this.evaluateConditionNode(node, context)
+    );
+
+    return { matched: results.every((result) => result.matched), results };
+  }
+
+  /**
+   * Evaluate a condition leaf or an AND/OR/NOT group
+   */
+  private evaluateConditionNode(
+    node: AutomationConditionNode,
+    context: AutomationContext
+  ): AutomationConditionResult {
+    if (!isConditionGroup(node)) {
+      const { actual, matched } = this.evaluateCondition(node, context);
+      return {
+        field: node.field,
+        operator: node.operator,
+        value: node.value,
+        actual,
+        matched,
+      };
+    }
+
+    const results = (node.conditions || []).map((child) =>
+      this.evaluateConditionNode(child, context)
+    );
+    const allMatched = results.every((result) => result.matched);
+
+    let matched: boolean;
+    switch (node.group) {
+      case "or":
+        matched = results.some((result) => result.matched);
+        break;
+      case "not":
+        matched = !allMatched;
+        break;
+      default:
+        matched = allMatched;
+    }
+
+    return { group: node.group, matched, results };
   }
 
   /**
@@ -175,10 +706,70 @@ class AutomationService {
     return value;
   }
 
+  /**
+   * Get the old/new values of a task field for the current event, from
+   * context.changes or by comparing previousTask with task
+   */
+  private getFieldChange(
+    context: AutomationContext,
+    field: string
+  ): { old: any; new: any } | null {
+    // Change keys are task field names; accept both "status" and "task.status"
+    const key = field.startsWith("task.") ? field.slice("task.".length) : field;
+
+    if (context.changes && key in context.changes) {
+      return context.changes[key];
+    }
+
+    if (context.previousTask && context.task) {
+      const oldValue =
+        this.getFieldValue({ task: context.previousTask }, `task.${key}`) ??
+        null;
+      const newValue = this.getFieldValue(context, `task.${key}`) ?? null;
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        return { old: oldValue, new: newValue };
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Evaluate a single condition
    */
   private evaluateCondition(
+    condition: AutomationCondition,
+    context: AutomationContext
+  ): { actual: any; matched: boolean } {
+    const { field, operator, value: conditionValue } = condition;
+
+    if (["changed", "changed_to", "changed_from"].includes(operator)) {
+      const change = this.getFieldChange(context, field);
+      if (!change) {
+        return { actual: null, matched: false };
+      }
+
+      switch (operator) {
+        case "changed_to":
+          return { actual: change, matched: change.new === conditionValue };
+        case "changed_from":
+          return { actual: change, matched: change.old === conditionValue };
+        default:
+          return { actual: change, matched: true };
+      }
+    }
+
+    const fieldValue = this.getFieldValue(context, field);
+    return {
+      actual: fieldValue,
+      matched: this.compareValue(fieldValue, operator, conditionValue),
+    };
+  }
+
+  /**
+   * Compare a field value against a condition value
+   */
+  private compareValue(
     fieldValue: any,
     operator: string,
     conditionValue: any
@@ -209,17 +800,39 @@ class AutomationService {
           fieldValue !== null && fieldValue !== undefined && fieldValue !== ""
         );
       case "in":
-        return (
-          Array.isArray(conditionValue) && conditionValue.includes(fieldValue)
-        );
-      case "not_in":
-        return (
-          Array.isArray(conditionValue) && !conditionValue.includes(fieldValue)
-        );
-      case "changed_to":
-        return fieldValue === conditionValue;
-      case "changed_from":
-        return fieldValue === conditionValue;
+      case "not_in": {
+        if (!Array.isArray(conditionValue)) {
+          return false;
+        }
+        // Array fields (e.g. tags) match when any element is in the list
+        const found = Array.isArray(fieldValue)
+          ? fieldValue.some((item) => conditionValue.includes(item))
+          : conditionValue.includes(fieldValue);
+        return operator === "in" ? found : !found;
+      }
+      case "within_next_days":
+      case "within_last_days":
+      case "older_than_days": {
+        const timestamp =
+          typeof fieldValue === "number" ? fieldValue : Date.parse(fieldValue);
+        if (
+          fieldValue === null ||
+          fieldValue === undefined ||
+          isNaN(timestamp)
+        ) {
+          return false;
+        }
+
+        const now = Date.now();
+        const range = Number(conditionValue) * DAY_MS;
+        if (operator === "within_next_days") {
+          return timestamp >= now && timestamp <= now + range;
+        }
+        if (operator === "within_last_days") {
+          return timestamp <= now && timestamp >= now - range;
+        }
+        return timestamp < now - range;
+      }
       default:
         return false;
     }
@@ -231,14 +844,64 @@ class AutomationService {
   private async executeActions(
     rule: AutomationRuleDocument,
     context: AutomationContext
-  ): Promise<void> {
+  ): Promise<AutomationActionResult[]> {
+    const results: AutomationActionResult[] = [];
+
     for (const action of rule.actions) {
       try {
-        await this.executeAction(action, context);
+        await this.executeAction(action, context, rule);
+        results.push({ type: action.type, status: "success" });
       } catch (error) {
         logger.error(`Error executing action ${action.type}:`, error);
+        results.push({
+          type: action.type,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
+
+    return results;
+  }
+
+  /**
+   * Apply an action's update to the context task and fire the triggers it
+   * causes one level deeper in the cascade
+   */
+  private async updateContextTask(
+    context: AutomationContext,
+    rule: AutomationRuleDocument,
+    update: Record<string, any>
+  ): Promise<void> {
+    const { task, organizationId } = context;
+
+    const previous = await Task.findOneAndUpdate(
+      { _id: task._id || task.id, organizationId },
+      update
+    );
+    if (!previous) {
+      return;
+    }
+
+    const current = await Task.findById(previous._id);
+    if (!current) {
+      return;
+    }
+
+    await cacheService.invalidateTask(current._id.toString());
+
+    const taskObj = current.toJSON();
+    const changes = await this.queueTaskChangeTriggers(
+      previous.toJSON(),
+      taskObj,
+      {
+        user: context.user,
+        organizationId,
+        depth: (context.depth || 0) + 1,
+        sourceRuleId: rule._id.toString(),
+      }
+    );
+    await webhookService.dispatchTaskUpdate(organizationId, taskObj, changes);
   }
 
   /**
@@ -246,83 +909,88 @@ class AutomationService {
    */
   private async executeAction(
     action: IAutomationRule["actions"][0],
-    context: AutomationContext
+    context: AutomationContext,
+    rule: AutomationRuleDocument
   ): Promise<void> {
     const { task, organizationId } = context;
 
     switch (action.type) {
       case "update_field":
-        if (task && action.config.field && action.config.value !== undefined) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { [action.config.field]: action.config.value }
+        // Rules saved before the field list existed are checked here too
+        if (!UPDATABLE_TASK_FIELDS.includes(action.config.field)) {
+          throw new Error(
+            `Field ${action.config.field} cannot be set by automations`
           );
         }
+        if (task && action.config.value !== undefined) {
+          await this.updateContextTask(context, rule, {
+            [action.config.field]: action.config.value,
+          });
+        }
         break;
 
       case "assign_task":
         if (task && action.config.assigneeId) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { assigneeId: action.config.assigneeId }
+          await this.assertMember(
+            context.organizationId!,
+            action.config.assigneeId
           );
+          await this.updateContextTask(context, rule, {
+            assigneeId: action.config.assigneeId,
+          });
         }
         break;
 
       case "update_task_status":
         if (task && action.config.status) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { status: action.config.status }
-          );
+          await this.updateContextTask(context, rule, {
+            status: action.config.status,
+          });
         }
         break;
 
       case "update_task_priority":
         if (task && action.config.priority) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { priority: action.config.priority }
-          );
+          await this.updateContextTask(context, rule, {
+            priority: action.config.priority,
+          });
         }
         break;
 
       case "add_tag":
         if (task && action.config.tag) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { $addToSet: { tags: action.config.tag } }
-          );
+          await this.updateContextTask(context, rule, {
+            $addToSet: { tags: action.config.tag },
+          });
         }
         break;
 
       case "remove_tag":
         if (task && action.config.tag) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            { $pull: { tags: action.config.tag } }
-          );
+          await this.updateContextTask(context, rule, {
+            $pull: { tags: action.config.tag },
+          });
         }
         break;
 
       case "send_notification":
-        // Notification would be handled by notification service
-        logger.info(`Notification: ${action.config.message}`);
+        if (action.config.message) {
+          await this.sendNotification(action.config, context, rule);
+        }
         break;
 
       case "send_email":
-        // Email would be handled by email service
-        logger.info(`Email to ${action.config.to}: ${action.config.subject}`);
+        if (action.config.subject) {
+          await this.sendEmail(action.config, context, rule);
+        }
         break;
 
       case "create_task":
-        if (action.config.taskTemplate && organizationId) {
-          await Task.create({
-            ...action.config.taskTemplate,
-            organizationId,
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          });
+        if (
+          (action.config.templateId || action.config.taskTemplate) &&
+          organizationId
+        ) {
+          await this.createTask(action.config, context, rule);
         }
         break;
 
@@ -338,22 +1006,16 @@ class AutomationService {
 
       case "add_comment":
         if (task && action.config.comment) {
-          // Would create a comment using comment service
-          logger.info(
-            `Auto-comment on task ${task._id}: ${action.config.comment}`
-          );
+          await this.addComment(action.config, context, rule);
         }
         break;
 
       case "move_to_context":
         if (task && action.config.contextType && action.config.contextId) {
-          await Task.findOneAndUpdate(
-            { _id: task._id || task.id, organizationId },
-            {
-              contextType: action.config.contextType,
-              contextId: action.config.contextId,
-            }
-          );
+          await this.updateContextTask(context, rule, {
+            contextType: action.config.contextType,
+            contextId: action.config.contextId,
+          });
         }
         break;
 
@@ -362,18 +1024,285 @@ class AutomationService {
     }
   }
 
+  /**
+   * Replace {{path}} placeholders (e.g. {{task.title}}) with context values
+   */
+  private interpolate(template: string, context: AutomationContext): string {
+    return String(template).replace(
+      /\{\{\s*([\w.]+)\s*\}\}/g,
+      (_match, path: string) => {
+        const value = this.getFieldValue(context, path);
+        return value === null || value === undefined ? "" : String(value);
+      }
+    );
+  }
+
+  /**
+   * Resolve action recipients to user ids. Entries may be user ids or the
+   * keywords "assignee", "creator" and "actor"; defaults to the assignee.
+   */
+  private resolveRecipients(
+    config: Record<string, any>,
+    context: AutomationContext
+  ): string[] {
+    const recipients: string[] = Array.isArray(config.recipients)
+      ? config.recipients
+      : ["assignee"];
+
+    const userIds = recipients.map((recipient) => {
+      switch (recipient) {
+        case "assignee":
+          return context.task?.assigneeId;
+        case "creator":
+          return context.task?.creatorId;
+        case "actor":
+          return context.user?.userId;
+        default:
+          return recipient;
+      }
+    });
+
+    return [...new Set(userIds)].filter(
+      (userId): userId is string => !!userId && userId !== AUTOMATION_ACTOR_ID
+    );
+  }
+
+  /**
+   * Resolve action recipients to members of the rule's organization; ids of
+   * anyone else are dropped
+   */
+  private async resolveMembers(
+    config: Record<string, any>,
+    context: AutomationContext
+  ) {
+    return TeamMember.find({
+      _id: {
+        $in: this.resolveRecipients(config, context).filter((userId) =>
+          mongoose.isValidObjectId(userId)
+        ),
+      },
+      organizationId: context.organizationId,
+    }).select("email");
+  }
+
+  /**
+   * Throw unless the user is a member of the organization
+   */
+  private async assertMember(
+    organizationId: string,
+    userId: string
+  ): Promise<void> {
+    const isMember =
+      mongoose.isValidObjectId(userId) &&
+      (await TeamMember.exists({ _id: userId, organizationId }));
+    if (!isMember) {
+      throw new Error(
+        `Assignee ${userId} is not a member of this organization`
+      );
+    }
+  }
+
+  /**
+   * add_comment: comment on the context task as the automation actor
+   */
+  private async addComment(
+    config: Record<string, any>,
+    context: AutomationContext,
+    rule: AutomationRuleDocument
+  ): Promise<void> {
+    const { task, organizationId } = context;
+    const taskId = (task._id || task.id).toString();
+
+    const comment = await Comment.create({
+      organizationId,
+      authorId: AUTOMATION_ACTOR_ID,
+      content: this.interpolate(config.comment, context),
+      timestamp: Date.now(),
+      contextType: task.contextType || "general",
+      contextId: task.contextId || "general",
+    });
+    const commentObj = comment.toJSON();
+
+    await Task.updateOne(
+      { _id: taskId, organizationId },
+      { $push: { comments: comment._id.toString() } }
+    );
+
+    await cacheService.invalidateByTag("comments");
+    await wsService.notifyCommentAdded(commentObj, AUTOMATION_ACTOR_ID);
+
+    await this.queueTrigger("comment_added", {
+      task,
+      comment: commentObj,
+      user: context.user,
+      organizationId,
+      depth: (context.depth || 0) + 1,
+      sourceRuleId: rule._id.toString(),
+    });
+  }
+
+  /**
+   * send_notification: real-time push plus a persisted notification job
+   */
+  private async sendNotification(
+    config: Record<string, any>,
+    context: AutomationContext,
+    rule: AutomationRuleDocument
+  ): Promise<void> {
+    const taskId = context.task?._id || context.task?.id;
+    const notification = {
+      title: this.interpolate(config.title || rule.name, context),
+      message: this.interpolate(config.message, context),
+      type: config.type || "info",
+      action: taskId
+        ? { label: "View Task", url: `/tasks/${taskId}` }
+        : undefined,
+    };
+
+    for (const member of await this.resolveMembers(config, context)) {
+      const userId = member._id.toString();
+      await wsService.broadcastToUser(userId, "notification", notification);
+      await jobQueue.sendNotification({ userId, ...notification });
+    }
+  }
+
+  /**
+   * send_email: queue an email to explicit addresses or resolved recipients
+   */
+  private async sendEmail(
+    config: Record<string, any>,
+    context: AutomationContext,
+    rule: AutomationRuleDocument
+  ): Promise<void> {
+    let to: string[] = [];
+
+    if (config.to) {
+      to = (Array.isArray(config.to) ? config.to : [config.to]).map(
+        (address: string) => this.interpolate(address, context)
+      );
+    } else {
+      const members = await this.resolveMembers(config, context);
+      to = members.map((member) => member.email);
+    }
+
+    to = to.filter(Boolean);
+    if (to.length === 0) {
+      logger.warn(`Automation rule ${rule.name}: no email recipients`);
+      return;
+    }
+
+    await jobQueue.sendEmail({
+      to,
+      subject: this.interpolate(config.subject, context),
+      template: config.template || "automation",
+      data: {
+        ruleName: rule.name,
+        body: config.body ? this.interpolate(config.body, context) : "",
+        task: context.task,
+      },
+    });
+  }
+
+  /**
+   * create_task: create a task from a TaskTemplate id or an inline template
+   */
+  private async createTask(
+    config: Record<string, any>,
+    context: AutomationContext,
+    rule: AutomationRuleDocument
+  ): Promise<void> {
+    const { organizationId } = context;
+    let taskData: Record<string, any>;
+
+    if (config.templateId) {
+      const template = await TaskTemplate.findOne({
+        _id: config.templateId,
+        organizationId,
+      });
+      if (!template) {
+        throw new Error(`Task template ${config.templateId} not found`);
+      }
+
+      taskData = {
+        title: template.title,
+        description: template.taskDescription,
+        status: template.status,
+        priority: template.priority,
+        contextType: template.contextType,
+        tags: template.tags,
+        estimatedHours: template.estimatedHours,
+        assigneeId: await taskTemplateService.resolveAssignee(
+          template,
+          organizationId!
+        ),
+      };
+
+      await TaskTemplate.updateOne(
+        { _id: template._id },
+        { $inc: { usageCount: 1 } }
+      );
+    } else {
+      taskData = {};
+      for (const field of CREATE_TASK_FIELDS) {
+        if (config.taskTemplate[field] !== undefined) {
+          taskData[field] = config.taskTemplate[field];
+        }
+      }
+    }
+
+    if (config.assigneeId) {
+      await this.assertMember(organizationId!, config.assigneeId);
+      taskData.assigneeId = config.assigneeId;
+    }
+    taskData.title = this.interpolate(taskData.title || "", context);
+    if (taskData.description) {
+      taskData.description = this.interpolate(taskData.description, context);
+    }
+
+    await planLimitsService.assertWithinLimit(organizationId!, "tasks");
+
+    const createdTask = await Task.create({
+      ...taskData,
+      organizationId,
+      creatorId: AUTOMATION_ACTOR_ID,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    const taskObj = createdTask.toJSON();
+
+    await cacheService.invalidateByTag("task-lists");
+    await planLimitsService.invalidate(organizationId!);
+    await wsService.notifyTaskUpdate(
+      createdTask._id.toString(),
+      "created",
+      taskObj,
+      AUTOMATION_ACTOR_ID
+    );
+
+    await this.queueTrigger("task_created", {
+      task: taskObj,
+      user: context.user,
+      organizationId,
+      depth: (context.depth || 0) + 1,
+      sourceRuleId: rule._id.toString(),
+    });
+  }
+
   /**
    * Get predefined automation templates
    */
   getTemplates(): Array<{
+    id: string;
     name: string;
     description: string;
     trigger: IAutomationRule["trigger"];
+    schedule?: IAutomationRule["schedule"];
     conditions: IAutomationRule["conditions"];
     actions: IAutomationRule["actions"];
   }> {
     return [
       {
+        id: "auto-assign-high-priority",
         name: "Auto-assign on high priority",
         description:
           "Automatically assign high priority tasks to a specific team member",
@@ -384,6 +1313,7 @@ class AutomationService {
         actions: [{ type: "assign_task", config: { assigneeId: "" } }],
       },
       {
+        id: "complete-on-subtasks-done",
         name: "Move to done on all subtasks complete",
         description: "Mark task as done when all subtasks are completed",
         trigger: "task_updated",
@@ -397,25 +1327,39 @@ class AutomationService {
         actions: [{ type: "update_task_status", config: { status: "done" } }],
       },
       {
+        id: "notify-on-overdue",
         name: "Notify on overdue",
         description: "Send notification when task becomes overdue",
-        trigger: "task_due_soon",
+        trigger: "task_overdue",
         conditions: [],
         actions: [
           {
             type: "send_notification",
-            config: { message: "Task is overdue!" },
+            config: {
+              title: "Task overdue",
+              message: '"{{task.title}}" is overdue!',
+              type: "warning",
+              recipients: ["assignee", "creator"],
+            },
           },
           { type: "add_tag", config: { tag: "overdue" } },
         ],
       },
       {
+        id: "escalate-stale-tasks",
         name: "Escalate stale tasks",
         description:
           "Increase priority of tasks that haven't been updated in a week",
-        trigger: "task_updated",
+        trigger: "schedule",
+        schedule: { cron: "0 9 * * *", timezone: "UTC" },
         conditions: [
           { field: "task.status", operator: "not_equals", value: "done" },
+          { field: "task.updatedAt", operator: "older_than_days", value: 7 },
+          {
+            field: "task.priority",
+            operator: "not_in",
+            value: ["high", "critical"],
+          },
         ],
         actions: [
           { type: "update_task_priority", config: { priority: "high" } },
@@ -0,0 +1,552 @@
+import PDFDocument from "pdfkit";
+import TimeEntry from "../models/TimeEntry";
+import Report, { ReportDocument } from "../models/Report";
+import { Task, TeamMember } from "../models";
+import { wsService } from "./websocket.service";
+import logger from "../utils/logger";
+
+export type BillableGroupBy = "tag" | "context" | "member";
+
+export interface BillableReportParams {
+  startDate: number;
+  endDate: number;
+  groupBy: BillableGroupBy;
+  userId?: string;
+  tags?: string[];
+  contextType?: string;
+  contextId?: string;
+  currency?: string;
+  // Invoice header fields, only used by exports
+  invoiceNumber?: string;
+  clientName?: string;
+  notes?: string;
+}
+
+export interface BillableLineItem {
+  timeEntryId: string;
+  date: string;
+  userId: string;
+  memberName: string;
+  taskId: string;
+  taskTitle: string;
+  contextType?: string;
+  contextId?: string;
+  tags: string[];
+  description: string;
+  duration: number; // in seconds
+  hourlyRate: number | null;
+  rateSource: "entry" | "member" | null;
+  amount: number;
+}
+
+export interface BillableGroup {
+  key: string;
+  label: string;
+  billableTime: number;
+  amount: number;
+  entriesCount: number;
+}
+
+export interface BillableReport {
+  period: { startDate: number; endDate: number };
+  currency: string;
+  groupBy: BillableGroupBy;
+  totals: {
+    billableTime: number;
+    amount: number;
+    entriesCount: number;
+    // Billable time with neither an entry rate nor a member default rate
+    unratedTime: number;
+  };
+  groups: BillableGroup[];
+  lineItems: BillableLineItem[];
+}
+
+const DEFAULT_CURRENCY = "USD";
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+const formatHours = (seconds: number) => (seconds / 3600).toFixed(2);
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toISOString().split("T")[0];
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Group keys for a line item. An entry appears under each of its tags, so
+ * tag group totals can add up to more than the report total.
+ */
+function groupKeys(
+  item: BillableLineItem,
+  groupBy: BillableGroupBy
+): Array<{ key: string; label: string }> {
+  if (groupBy === "member") {
+    return [{ key: item.userId, label: item.memberName }];
+  }
+  if (groupBy === "context") {
+    if (!item.contextType) {
+      return [{ key: "none", label: "No context" }];
+    }
+    const key = `${item.contextType}:${item.contextId || ""}`;
+    return [
+      {
+        key,
+        label: item.contextId
+          ? `${item.contextType} ${item.contextId}`
+          : item.contextType,
+      },
+    ];
+  }
+  if (item.tags.length === 0) {
+    return [{ key: "untagged", label: "Untagged" }];
+  }
+  return item.tags.map((tag) => ({ key: `tag:${tag}`, label: tag }));
+}
+
+class BillableReportService {
+  /**
+   * Aggregate completed billable time entries for a date range. Entries
+   * without an hourlyRate are billed at the member's defaultHourlyRate.
+   */
+  async buildReport(
+    organizationId: string,
+    params: BillableReportParams
+  ): Promise<BillableReport> {
+    const query: Record<string, any> = {
+      organizationId,
+      isBillable: true,
+      isRunning: false,
+      startTime: { $gte: params.startDate, $lte: params.endDate },
+    };
+    if (params.userId) query.userId = params.userId;
+    if (params.tags && params.tags.length > 0) {
+      query.tags = { $in: params.tags };
+    }
+
+    const entries = await TimeEntry.find(query).sort({ startTime: 1 });
+
+    const taskIds = [...new Set(entries.map((entry) => entry.taskId))];
+    const userIds = [...new Set(entries.map((entry) => entry.userId))];
+    const [tasks, members] = await Promise.all([
+      Task.find({ _id: { $in: taskIds }, organizationId }).select(
+        "title contextType contextId"
+      ),
+      TeamMember.find({ _id: { $in: userIds }, organizationId }).select(
+        "name defaultHourlyRate"
+      ),
+    ]);
+    const taskMap = new Map(tasks.map((t) => [t._id.toString(), t]));
+    const memberMap = new Map(members.map((m) => [m._id.toString(), m]));
+
+    const lineItems: BillableLineItem[] = [];
+    for (const entry of entries) {
+      const task = taskMap.get(entry.taskId);
+      if (params.contextType && task?.contextType !== params.contextType) {
+        continue;
+      }
+      if (params.contextId && task?.contextId !== params.contextId) {
+        continue;
+      }
+
+      const member = memberMap.get(entry.userId);
+      const memberRate = member?.defaultHourlyRate ?? null;
+      const hourlyRate = entry.hourlyRate ?? memberRate;
+
+      lineItems.push({
+        timeEntryId: entry._id.toString(),
+        date: formatDate(entry.startTime),
+        userId: entry.userId,
+        memberName: member?.name || "Unknown Member",
+        taskId: entry.taskId,
+        taskTitle: task?.title || "Unknown Task",
+        contextType: task?.contextType,
+        contextId: task?.contextId,
+        tags: entry.tags || [],
+        description: entry.description || "",
+        duration: entry.duration,
+        hourlyRate,
+        rateSource:
+          entry.hourlyRate != null
+            ? "entry"
+            : memberRate != null
+            ? "member"
+            : null,
+        amount: roundMoney(((hourlyRate || 0) * entry.duration) / 3600),
+      });
+    }
+
+    const groups = new Map<string, BillableGroup>();
+    let billableTime = 0;
+    let amount = 0;
+    let unratedTime = 0;
+
+    for (const item of lineItems) {
+      billableTime += item.duration;
+      amount += item.amount;
+      if (item.hourlyRate == null) {
+        unratedTime += item.duration;
+      }
+
+      for (const { key, label } of groupKeys(item, params.groupBy)) {
+        const group = groups.get(key) || {
+          key,
+          label,
+          billableTime: 0,
+          amount: 0,
+          entriesCount: 0,
+        };
+        group.billableTime += item.duration;
+        group.amount = roundMoney(group.amount + item.amount);
+        group.entriesCount++;
+        groups.set(key, group);
+      }
+    }
+
+    return {
+      period: { startDate: params.startDate, endDate: params.endDate },
+      currency: params.currency || DEFAULT_CURRENCY,
+      groupBy: params.groupBy,
+      totals: {
+        billableTime,
+        amount: roundMoney(amount),
+        entriesCount: lineItems.length,
+        unratedTime,
+      },
+      groups: [...groups.values()].sort((a, b) => b.amount - a.amount),
+      lineItems,
+    };
+  }
+
+  /**
+   * Record a queued export; the REPORTS queue fills in the file
+   */
+  async createExport(
+    organizationId: string,
+    requestedBy: string,
+    format: "csv" | "pdf",
+    params: BillableReportParams
+  ): Promise<ReportDocument> {
+    return Report.create({
+      organizationId,
+      requestedBy,
+      type: "billable-time",
+      format,
+      params,
+      status: "queued",
+    });
+  }
+
+  /**
+   * Generate the file for a queued export. Called from the REPORTS queue.
+   */
+  async generateExport(
+    reportId: string
+  ): Promise<{ reportId: string; downloadUrl: string } | null> {
+    const report = await Report.findById(reportId);
+    if (!report) {
+      logger.warn(`Report ${reportId} no longer exists, skipping export`);
+      return null;
+    }
+
+    report.status = "processing";
+    await report.save();
+
+    try {
+      const params = report.params as BillableReportParams;
+      const data = await this.buildReport(report.organizationId, params);
+      const baseName = `invoice-${formatDate(params.startDate)}-${formatDate(
+        params.endDate
+      )}`;
+
+      if (report.format === "pdf") {
+        report.content = await this.renderPdf(data, params);
+        report.mimeType = "application/pdf";
+        report.fileName = `${baseName}.pdf`;
+      } else {
+        report.content = Buffer.from(this.renderCsv(data, params), "utf8");
+        report.mimeType = "text/csv";
+        report.fileName = `${baseName}.csv`;
+      }
+
+      report.size = report.content.length;
+      report.status = "completed";
+      report.completedAt = Date.now();
+      report.error = undefined;
+      await report.save();
+    } catch (error) {
+      report.status = "failed";
+      report.error = (error as Error).message;
+      await report.save();
+      throw error;
+    }
+
+    const downloadUrl = `/api/v1/reports/${reportId}/download`;
+    await wsService.broadcastToUser(report.requestedBy, "notification", {
+      title: "Report Ready",
+      message: `${report.fileName} is ready to download`,
+      type: "success",
+      action: { label: "Download", url: downloadUrl },
+    });
+
+    logger.info(
+      `Billable report generated: ${reportId} (${report.size} bytes)`
+    );
+    return { reportId, downloadUrl };
+  }
+
+  /**
+   * Get an export without its file content
+   */
+  async getReport(
+    reportId: string,
+    organizationId: string
+  ): Promise<ReportDocument | null> {
+    return Report.findOne({ _id: reportId, organizationId });
+  }
+
+  /**
+   * Get an export including its file content
+   */
+  async getReportWithContent(
+    reportId: string,
+    organizationId: string
+  ): Promise<ReportDocument | null> {
+    return Report.findOne({ _id: reportId, organizationId }).select("+content");
+  }
+
+  /**
+   * Invoice as CSV: a header block, one row per entry, then group subtotals
+   */
+  renderCsv(data: BillableReport, params: BillableReportParams): string {
+    const rows: Array<Array<string | number>> = [
+      ["Invoice", params.invoiceNumber || ""],
+      ["Client", params.clientName || ""],
+      [
+        "Period",
+        `${formatDate(data.period.startDate)} to ${formatDate(
+          data.period.endDate
+        )}`,
+      ],
+      ["Currency", data.currency],
+      [],
+      [
+        "Date",
+        "Member",
+        "Task",
+        "Context",
+        "Tags",
+        "Description",
+        "Hours",
+        "Rate",
+        "Amount",
+      ],
+      ...data.lineItems.map((item) => [
+        item.date,
+        item.memberName,
+        item.taskTitle,
+        item.contextType
+          ? `${item.contextType}${item.contextId ? `:${item.contextId}` : ""}`
+          : "",
+        item.tags.join("; "),
+        item.description,
+        formatHours(item.duration),
+        item.hourlyRate != null ? item.hourlyRate.toFixed(2) : "",
+        item.amount.toFixed(2),
+      ]),
+      [],
+      [
+        `Subtotals by ${data.groupBy}`,
+        "",
+        "",
+        "",
+        "",
+        "",
+        "Hours",
+        "",
+        "Amount",
+      ],
+      ...data.groups.map((group) => [
+        group.label,
+        "",
+        "",
+        "",
+        "",
+        "",
+        formatHours(group.billableTime),
+        "",
+        group.amount.toFixed(2),
+      ]),
+      [],
+      [
+        "Total",
+        "",
+        "",
+        "",
+        "",
+        "",
+        formatHours(data.totals.billableTime),
+        "",
+        data.totals.amount.toFixed(2),
+      ],
+    ];
+
+    if (params.notes) {
+      rows.push([], ["Notes", params.notes]);
+    }
+
+    return rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+  }
+
+  /**
+   * Invoice as PDF: header, subtotals by group, then the entry lines
+   */
+  renderPdf(
+    data: BillableReport,
+    params: BillableReportParams
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: 50 });
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      const left = doc.page.margins.left;
+      const width =
+        doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const money = (amount: number) => `${amount.toFixed(2)} ${data.currency}`;
+
+      // Draw one table row; columns are [text, width fraction, align]
+      const row = (
+        columns: Array<[string, number, "left" | "right"]>,
+        bold = false
+      ) => {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 20) {
+          doc.addPage();
+        }
+        const y = doc.y;
+        let x = left;
+        let height = 0;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+        for (const [text, fraction, align] of columns) {
+          const columnWidth = width * fraction;
+          doc.text(text, x, y, { width: columnWidth - 4, align });
+          height = Math.max(height, doc.y - y);
+          x += columnWidth;
+        }
+        doc.x = left;
+        doc.y = y + height + 4;
+      };
+
+      doc.font("Helvetica-Bold").fontSize(20).text("Invoice", left);
+      doc.moveDown(0.5);
+      doc.font("Helvetica").fontSize(10);
+      if (params.invoiceNumber) {
+        doc.text(`Invoice number: ${params.invoiceNumber}`);
+      }
+      if (params.clientName) {
+        doc.text(`Client: ${params.clientName}`);
+      }
+      doc.text(
+        `Period: ${formatDate(data.period.startDate)} to ${formatDate(
+          data.period.endDate
+        )}`
+      );
+      doc.text(`Issued: ${formatDate(Date.now())}`);
+      doc.moveDown();
+
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(12)
+        .text(`Summary by ${data.groupBy}`);
+      doc.moveDown(0.5);
+      row(
+        [
+          ["Item", 0.6, "left"],
+          ["Hours", 0.15, "right"],
+          ["Amount", 0.25, "right"],
+        ],
+        true
+      );
+      for (const group of data.groups) {
+        row([
+          [group.label, 0.6, "left"],
+          [formatHours(group.billableTime), 0.15, "right"],
+          [money(group.amount), 0.25, "right"],
+        ]);
+      }
+      row(
+        [
+          ["Total", 0.6, "left"],
+          [formatHours(data.totals.billableTime), 0.15, "right"],
+          [money(data.totals.amount), 0.25, "right"],
+        ],
+        true
+      );
+      doc.moveDown();
+
+      doc.font("Helvetica-Bold").fontSize(12).text("Time entries", left);
+      doc.moveDown(0.5);
+      row(
+        [
+          ["Date", 0.13, "left"],
+          ["Member", 0.17, "left"],
+          ["Task", 0.35, "left"],
+          ["Hours", 0.1, "right"],
+          ["Rate", 0.1, "right"],
+          ["Amount", 0.15, "right"],
+        ],
+        true
+      );
+      for (const item of data.lineItems) {
+        row([
+          [item.date, 0.13, "left"],
+          [item.memberName, 0.17, "left"],
+          [
+            item.description
+              ? `${item.taskTitle} - ${item.description}`
+              : item.taskTitle,
+            0.35,
+            "left",
+          ],
+          [formatHours(item.duration), 0.1, "right"],
+          [
+            item.hourlyRate != null ? item.hourlyRate.toFixed(2) : "-",
+            0.1,
+            "right",
+          ],
+          [item.amount.toFixed(2), 0.15, "right"],
+        ]);
+      }
+
+      if (data.totals.unratedTime > 0) {
+        doc.moveDown();
+        doc
+          .font("Helvetica-Oblique")
+          .fontSize(9)
+          .text(
+            `${formatHours(
+              data.totals.unratedTime
+            )} hours have no hourly rate and are not billed.`,
+            left
+          );
+      }
+
+      if (params.notes) {
+        doc.moveDown();
+        doc.font("Helvetica-Bold").fontSize(10).text("Notes", left);
+        doc.font("Helvetica").fontSize(10).text(params.notes, left);
+      }
+
+      doc.end();
+    });
+  }
+}
+
+export const billableReportService = new BillableReportService();
+export default billableReportService;
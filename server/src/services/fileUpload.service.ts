@@ -153,31 +153,13 @@ class FileUploadService {
     size: number,
     options: UploadOptions = {}
   ): Promise<PresignedUploadUrl> {
-    // Validate file type
-    const category = this.getFileCategory(mimeType);
-    const allowedTypes = options.allowedTypes || this.getAllowedTypes(category);
-
-    if (!allowedTypes.includes(mimeType)) {
-      throw new Error(`File type ${mimeType} is not allowed`);
-    }
-
-    // Validate file size
-    const maxSize =
-      options.maxSize ||
-      FILE_CONFIG.maxSizes[category] ||
-      FILE_CONFIG.maxSizes.default;
-    if (size > maxSize) {
-      throw new Error(
-        `File size exceeds maximum allowed size of ${this.formatBytes(maxSize)}`
-      );
-    }
+    // Validate file type and size
+    const category = this.validateUpload(mimeType, size, options);
 
     // Generate unique file ID and key
     const fileId = uuidv4();
-    const ext = path.extname(fileName).toLowerCase();
     const sanitizedName = this.sanitizeFileName(fileName);
-    const folder = options.folder || category;
-    const key = `${folder}/${fileId}${ext}`;
+    const key = this.buildKey(fileId, fileName, options.folder || category);
 
     // Create presigned URL
     const command = new PutObjectCommand({
@@ -216,6 +198,42 @@ class FileUploadService {
     };
   }
 
+  /**
+   * Check a file's type and size against the upload limits, returning its category
+   */
+  validateUpload(
+    mimeType: string,
+    size: number,
+    options: Pick<UploadOptions, "maxSize" | "allowedTypes"> = {}
+  ): "image" | "document" | "video" | "audio" | "other" {
+    const category = this.getFileCategory(mimeType);
+    const allowedTypes = options.allowedTypes || this.getAllowedTypes(category);
+
+    if (!allowedTypes.includes(mimeType)) {
+      throw new Error(`File type ${mimeType} is not allowed`);
+    }
+
+    const maxSize =
+      options.maxSize ||
+      FILE_CONFIG.maxSizes[category] ||
+      FILE_CONFIG.maxSizes.default;
+    if (size > maxSize) {
+      throw new Error(
+        `File size exceeds maximum allowed size of ${this.formatBytes(maxSize)}`
+      );
+    }
+
+    return category;
+  }
+
+  /**
+   * Build the storage key for a file
+   */
+  buildKey(fileId: string, fileName: string, folder: string): string {
+    const ext = path.extname(fileName).toLowerCase();
+    return `${folder}/${fileId}${ext}`;
+  }
+
   /**
    * Generate presigned URL for multipart upload (large files)
    */
@@ -232,9 +250,11 @@ class FileUploadService {
     totalParts: number;
   }> {
     const fileId = uuidv4();
-    const ext = path.extname(fileName).toLowerCase();
-    const folder = options.folder || this.getFileCategory(mimeType);
-    const key = `${folder}/${fileId}${ext}`;
+    const key = this.buildKey(
+      fileId,
+      fileName,
+      options.folder || this.getFileCategory(mimeType)
+    );
 
     const command = new CreateMultipartUploadCommand({
       Bucket: this.bucket,
@@ -413,6 +433,53 @@ class FileUploadService {
     }
   }
 
+  /**
+   * Download a whole file from S3
+   */
+  async getFileBuffer(key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+    const response = await this.s3Client.send(command);
+    const bytes = await response.Body?.transformToByteArray();
+    return Buffer.from(bytes || []);
+  }
+
+  /**
+   * Upload a generated file (e.g. a thumbnail) to S3
+   */
+  async uploadBuffer(
+    key: string,
+    buffer: Buffer,
+    mimeType: string
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: buffer,
+      ContentType: mimeType,
+      ACL: "private",
+    });
+
+    await this.s3Client.send(command);
+    logger.info("Uploaded file to S3", { key, size: buffer.length });
+  }
+
+  /**
+   * Read the first bytes of a file in S3
+   */
+  async getFileHead(key: string, length: number): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: `bytes=0-${length - 1}`,
+    });
+    const response = await this.s3Client.send(command);
+    const bytes = await response.Body?.transformToByteArray();
+    return Buffer.from(bytes || []);
+  }
+
   /**
    * Copy a file within S3
    */
@@ -488,7 +555,7 @@ class FileUploadService {
   /**
    * Sanitize file name
    */
-  private sanitizeFileName(fileName: string): string {
+  sanitizeFileName(fileName: string): string {
     return fileName
       .replace(/[^a-zA-Z0-9.-]/g, "_")
       .replace(/_{2,}/g, "_")
@@ -498,7 +565,7 @@ class FileUploadService {
   /**
    * Format bytes to human readable
    */
-  private formatBytes(bytes: number): string {
+  formatBytes(bytes: number): string {
     if (bytes === 0) return "0 B";
     const k = 1024;
     const sizes = ["B", "KB", "MB", "GB"];
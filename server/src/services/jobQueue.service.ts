@@ -14,6 +14,19 @@ import { Queue, Worker, Job, QueueEvents, JobsOptions } from "bullmq";
 import { createClient } from "redis";
 import config from "../config";
 import logger from "../utils/logger";
+import { automationService } from "./automation.service";
+import { recurringTaskService } from "./recurringTask.service";
+import { webhookService } from "./webhook.service";
+import { billableReportService } from "./billableReport.service";
+import { timeTrackingService } from "./timeTracking.service";
+import { attachmentService } from "./attachment.service";
+import { storageUsageService } from "./storageUsage.service";
+import { auditService } from "./audit.service";
+import { apiUsageService } from "./apiUsage.service";
+import {
+  attachmentProcessingService,
+  ProcessingStep,
+} from "./attachmentProcessing.service";
 
 // Redis connection for BullMQ
 const redisConnection = {
@@ -45,19 +58,29 @@ export enum JobType {
   // Task jobs
   TASK_REMINDER = "task-reminder",
   TASK_OVERDUE_CHECK = "task-overdue-check",
+  MATERIALIZE_RECURRING_TASKS = "materialize-recurring-tasks",
 
   // Cleanup jobs
   CLEANUP_OLD_DATA = "cleanup-old-data",
   CLEANUP_EXPIRED_TOKENS = "cleanup-expired-tokens",
   CLEANUP_OLD_FILES = "cleanup-old-files",
   ARCHIVE_COMPLETED_TASKS = "archive-completed-tasks",
+  STOP_EXPIRED_TIMERS = "stop-expired-timers",
+  RECONCILE_STORAGE_USAGE = "reconcile-storage-usage",
+  VERIFY_AUDIT_CHAIN = "verify-audit-chain",
+  ROLLOVER_API_USAGE = "rollover-api-usage",
 
   // Webhook jobs
   SEND_WEBHOOK = "send-webhook",
+  DELIVER_WEBHOOK = "deliver-webhook",
 
   // File processing
   PROCESS_FILE_UPLOAD = "process-file-upload",
   GENERATE_THUMBNAIL = "generate-thumbnail",
+
+  // Automation jobs
+  PROCESS_AUTOMATION_TRIGGER = "process-automation-trigger",
+  RUN_SCHEDULED_AUTOMATION = "run-scheduled-automation",
 }
 
 // Queue names
@@ -69,6 +92,7 @@ export enum QueueName {
   CLEANUP = "cleanup-queue",
   WEBHOOKS = "webhooks-queue",
   FILES = "files-queue",
+  AUTOMATIONS = "automations-queue",
 }
 
 // Job data interfaces
@@ -90,8 +114,15 @@ export interface NotificationJobData {
 }
 
 export interface ReportJobData {
-  type: "task-summary" | "team-activity" | "productivity" | "custom";
+  type:
+    | "task-summary"
+    | "team-activity"
+    | "productivity"
+    | "billable-time"
+    | "custom";
   userId: string;
+  // Report document the generated file is stored on
+  reportId?: string;
   filters: Record<string, any>;
   format: "pdf" | "csv" | "xlsx";
   dateRange: { start: Date; end: Date };
@@ -105,14 +136,32 @@ export interface WebhookJobData {
   retryCount?: number;
 }
 
+export interface WebhookDeliveryJobData {
+  deliveryId: string;
+}
+
 export interface FileProcessingJobData {
   fileId: string;
   filePath: string;
   userId: string;
-  operation: "thumbnail" | "compress" | "convert" | "scan";
+  // "process" runs the whole attachment pipeline (scan, thumbnail, text)
+  operation: "process" | "thumbnail" | "compress" | "convert" | "scan";
   options?: Record<string, any>;
 }
 
+export interface AutomationJobData {
+  trigger: string;
+  context: Record<string, any>;
+}
+
+export interface ScheduledAutomationJobData {
+  ruleId: string;
+  organizationId: string;
+}
+
+// Job scheduler ids for scheduled automation rules
+const AUTOMATION_SCHEDULER_PREFIX = "automation-rule:";
+
 // Default job options by priority
 const JOB_OPTIONS: Record<string, JobsOptions> = {
   high: {
@@ -138,6 +187,15 @@ const JOB_OPTIONS: Record<string, JobsOptions> = {
   },
 };
 
+// Attachment processing steps run for each file operation
+const PROCESSING_STEPS: Partial<
+  Record<FileProcessingJobData["operation"], ProcessingStep[]>
+> = {
+  process: ["scan", "thumbnail", "extract"],
+  scan: ["scan"],
+  thumbnail: ["thumbnail"],
+};
+
 class JobQueueService {
   private queues: Map<QueueName, Queue> = new Map();
   private workers: Map<QueueName, Worker> = new Map();
@@ -246,6 +304,15 @@ class JobQueueService {
       },
       { concurrency: 3 }
     );
+
+    // Automations worker
+    this.createWorker(
+      QueueName.AUTOMATIONS,
+      async (job: Job) => {
+        return this.processAutomationJob(job);
+      },
+      { concurrency: 5 }
+    );
   }
 
   /**
@@ -332,6 +399,16 @@ class JobQueueService {
           jobId: "recurring-task-reminders",
         }
       );
+
+      // Create tasks from due recurring tasks every 5 minutes
+      await tasksQueue.add(
+        JobType.MATERIALIZE_RECURRING_TASKS,
+        {},
+        {
+          repeat: { pattern: "*/5 * * * *" }, // Every 5 minutes
+          jobId: "recurring-task-materializer",
+        }
+      );
     }
 
     if (cleanupQueue) {
@@ -345,6 +422,46 @@ class JobQueueService {
         }
       );
 
+      // Stop timers past the maximum timer length every 15 minutes
+      await cleanupQueue.add(
+        JobType.STOP_EXPIRED_TIMERS,
+        {},
+        {
+          repeat: { pattern: "*/15 * * * *" }, // Every 15 minutes
+          jobId: "recurring-timer-autostop",
+        }
+      );
+
+      // Recompute per-organization storage usage nightly
+      await cleanupQueue.add(
+        JobType.RECONCILE_STORAGE_USAGE,
+        {},
+        {
+          repeat: { pattern: "30 2 * * *" }, // 2:30 AM daily
+          jobId: "recurring-storage-reconcile",
+        }
+      );
+
+      // Verify every organization's audit log hash chain nightly
+      await cleanupQueue.add(
+        JobType.VERIFY_AUDIT_CHAIN,
+        {},
+        {
+          repeat: { pattern: "0 4 * * *" }, // 4 AM daily
+          jobId: "recurring-audit-chain-verify",
+        }
+      );
+
+      // Record last month's API call totals on each organization
+      await cleanupQueue.add(
+        JobType.ROLLOVER_API_USAGE,
+        {},
+        {
+          repeat: { pattern: "5 0 1 * *", tz: "UTC" }, // 00:05 UTC on the 1st
+          jobId: "recurring-api-usage-rollover",
+        }
+      );
+
       // Cleanup old data weekly
       await cleanupQueue.add(
         JobType.CLEANUP_OLD_DATA,
@@ -356,6 +473,9 @@ class JobQueueService {
       );
     }
 
+    // Register repeatable jobs for scheduled automation rules
+    await automationService.syncSchedules();
+
     logger.info("Recurring jobs scheduled");
   }
 
@@ -461,6 +581,24 @@ class JobQueueService {
     });
   }
 
+  /**
+   * Add webhook subscription delivery job (retried with exponential backoff)
+   */
+  async deliverWebhook(deliveryId: string, retryCount: number): Promise<Job> {
+    const queue = this.queues.get(QueueName.WEBHOOKS);
+    if (!queue) throw new Error("Webhooks queue not initialized");
+
+    return queue.add(
+      JobType.DELIVER_WEBHOOK,
+      { deliveryId } as WebhookDeliveryJobData,
+      {
+        ...JOB_OPTIONS.normal,
+        attempts: retryCount + 1,
+        backoff: { type: "exponential", delay: 10000 },
+      }
+    );
+  }
+
   /**
    * Add file processing job
    */
@@ -474,6 +612,65 @@ class JobQueueService {
     });
   }
 
+  /**
+   * Add automation trigger job
+   */
+  async processAutomation(data: AutomationJobData): Promise<Job> {
+    const queue = this.queues.get(QueueName.AUTOMATIONS);
+    if (!queue) throw new Error("Automations queue not initialized");
+
+    return queue.add(JobType.PROCESS_AUTOMATION_TRIGGER, data, {
+      ...JOB_OPTIONS.normal,
+      // Rule actions are not idempotent, so never replay a trigger
+      attempts: 1,
+    });
+  }
+
+  /**
+   * Create or replace the repeatable job for a scheduled automation rule
+   */
+  async scheduleAutomationRule(
+    data: ScheduledAutomationJobData,
+    schedule: { cron: string; timezone?: string }
+  ): Promise<void> {
+    const queue = this.queues.get(QueueName.AUTOMATIONS);
+    if (!queue) throw new Error("Automations queue not initialized");
+
+    await queue.upsertJobScheduler(
+      `${AUTOMATION_SCHEDULER_PREFIX}${data.ruleId}`,
+      { pattern: schedule.cron, tz: schedule.timezone || "UTC" },
+      {
+        name: JobType.RUN_SCHEDULED_AUTOMATION,
+        data,
+        opts: { ...JOB_OPTIONS.normal, attempts: 1 },
+      }
+    );
+  }
+
+  /**
+   * Remove the repeatable job for a scheduled automation rule
+   */
+  async unscheduleAutomationRule(ruleId: string): Promise<void> {
+    const queue = this.queues.get(QueueName.AUTOMATIONS);
+    if (!queue) throw new Error("Automations queue not initialized");
+
+    await queue.removeJobScheduler(`${AUTOMATION_SCHEDULER_PREFIX}${ruleId}`);
+  }
+
+  /**
+   * Get ids of all rules that currently have a repeatable job
+   */
+  async getScheduledAutomationRuleIds(): Promise<string[]> {
+    const queue = this.queues.get(QueueName.AUTOMATIONS);
+    if (!queue) throw new Error("Automations queue not initialized");
+
+    const schedulers = await queue.getJobSchedulers(0, -1);
+    return schedulers
+      .map((scheduler) => scheduler.key)
+      .filter((key) => key.startsWith(AUTOMATION_SCHEDULER_PREFIX))
+      .map((key) => key.slice(AUTOMATION_SCHEDULER_PREFIX.length));
+  }
+
   /**
    * Get job status
    */
@@ -587,6 +784,12 @@ class JobQueueService {
 
     await job.updateProgress(10);
 
+    if (data.type === "billable-time" && data.reportId) {
+      const result = await billableReportService.generateExport(data.reportId);
+      await job.updateProgress(100);
+      return result;
+    }
+
     // TODO: Generate actual report
     // Simulate report generation
     await new Promise((resolve) => setTimeout(resolve, 5000));
@@ -604,13 +807,17 @@ class JobQueueService {
     logger.info(`Processing task job: ${job.id}`, { type: name });
 
     if (name === JobType.TASK_OVERDUE_CHECK) {
-      // TODO: Query database for overdue tasks and send notifications
-      return { checkedTasks: 0, overdueFound: 0 };
+      const result = await automationService.scanDueDateTransitions("overdue");
+      return { checkedTasks: result.checked, overdueFound: result.triggered };
     }
 
     if (name === JobType.TASK_REMINDER) {
-      // TODO: Query database for tasks due soon and send reminders
-      return { remindersSent: 0 };
+      const result = await automationService.scanDueDateTransitions("dueSoon");
+      return { remindersSent: result.triggered };
+    }
+
+    if (name === JobType.MATERIALIZE_RECURRING_TASKS) {
+      return recurringTaskService.materializeDueOccurrences();
     }
 
     return { processed: true };
@@ -630,10 +837,37 @@ class JobQueueService {
       return { recordsArchived: 0 };
     }
 
+    if (name === JobType.STOP_EXPIRED_TIMERS) {
+      const stopped = await timeTrackingService.stopExpiredTimers();
+      return { timersStopped: stopped };
+    }
+
+    if (name === JobType.RECONCILE_STORAGE_USAGE) {
+      const uploadsPurged = await attachmentService.purgeStaleUploads();
+      const organizations = await storageUsageService.reconcileAll();
+      return { uploadsPurged, organizationsReconciled: organizations };
+    }
+
+    if (name === JobType.ROLLOVER_API_USAGE) {
+      const organizations = await apiUsageService.rolloverAll();
+      return { organizationsRolledOver: organizations };
+    }
+
+    if (name === JobType.VERIFY_AUDIT_CHAIN) {
+      const result = await auditService.verifyAllChains();
+      return { chainsVerified: result.verified, chainsBroken: result.broken };
+    }
+
     return { processed: true };
   }
 
   private async processWebhookJob(job: Job): Promise<any> {
+    if (job.name === JobType.DELIVER_WEBHOOK) {
+      const { deliveryId } = job.data as WebhookDeliveryJobData;
+      const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+      return webhookService.deliverWebhook(deliveryId, isFinalAttempt);
+    }
+
     const data = job.data as WebhookJobData;
     logger.info(`Processing webhook job: ${job.id}`, { url: data.url });
 
@@ -667,13 +901,40 @@ class JobQueueService {
 
     await job.updateProgress(10);
 
-    // TODO: Implement actual file processing
-    // Simulate file processing
-    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const steps = PROCESSING_STEPS[data.operation];
+    if (!steps) {
+      logger.warn(`Unsupported file operation: ${data.operation}`);
+      return { processed: false, fileId: data.fileId };
+    }
+
+    const result = await attachmentProcessingService.process(
+      data.fileId,
+      steps
+    );
 
     await job.updateProgress(100);
 
-    return { processed: true, fileId: data.fileId };
+    return { processed: true, fileId: data.fileId, ...result };
+  }
+
+  private async processAutomationJob(job: Job): Promise<any> {
+    if (job.name === JobType.RUN_SCHEDULED_AUTOMATION) {
+      const { ruleId, organizationId } = job.data as ScheduledAutomationJobData;
+      const tasksMatched = await automationService.runScheduledRule(
+        ruleId,
+        organizationId
+      );
+      return { processed: true, ruleId, tasksMatched };
+    }
+
+    const data = job.data as AutomationJobData;
+    logger.debug(`Processing automation job: ${job.id}`, {
+      trigger: data.trigger,
+    });
+
+    await automationService.processTrigger(data.trigger, data.context);
+
+    return { processed: true, trigger: data.trigger };
   }
 
   /**
@@ -0,0 +1,137 @@
+/**
+ * Permission Service
+ *
+ * Resolves what a signed-in member may do. Access level, custom role, custom
+ * grants and denies are read from the member record rather than the token,
+ * so changes apply without a new login; the resolved set is cached until the
+ * member's access level, role or permissions change.
+ */
+
+import { TeamMember } from "../models";
+import Role from "../models/Role";
+import { AccessLevel, JwtPayload, Permission } from "../types";
+import {
+  ACCESS_LEVEL_PERMISSIONS,
+  resolvePermissions,
+} from "../config/permissions";
+import { cacheService } from "./cache.service";
+
+// Seconds a resolved permission set is reused between invalidations
+const PERMISSIONS_TTL = 300;
+
+export interface EffectivePermissions {
+  accessLevel: AccessLevel;
+  // Custom role replacing the access level's permissions, if any
+  role: { id: string; name: string } | null;
+  permissions: Permission[];
+  // Custom grants beyond the role or access level, and explicit denies
+  granted: Permission[];
+  denied: Permission[];
+}
+
+type PermissionSubject = Pick<
+  JwtPayload,
+  "userId" | "organizationId" | "accessLevel"
+>;
+
+class PermissionService {
+  /**
+   * Effective permissions of a member
+   */
+  async getEffective(user: PermissionSubject): Promise<EffectivePermissions> {
+    return cacheService.getOrSet(
+      this.getKey(user.userId),
+      async () => {
+        const member = await TeamMember.findById(user.userId)
+          .select(
+            "organizationId accessLevel customRoleId customPermissions deniedPermissions"
+          )
+          .lean();
+
+        // Removed members keep nothing, even with a token that is still valid
+        if (
+          !member ||
+          (user.organizationId && member.organizationId !== user.organizationId)
+        ) {
+          return {
+            accessLevel: user.accessLevel,
+            role: null,
+            permissions: [],
+            granted: [],
+            denied: [],
+          };
+        }
+
+        // Falls back to the access level if the role no longer exists
+        const role = member.customRoleId
+          ? await Role.findOne({
+              _id: member.customRoleId,
+              organizationId: member.organizationId,
+            })
+              .select("name permissions")
+              .lean()
+          : null;
+
+        const base = role
+          ? role.permissions
+          : ACCESS_LEVEL_PERMISSIONS[member.accessLevel] || [];
+        const denied = member.deniedPermissions || [];
+        return {
+          accessLevel: member.accessLevel,
+          role: role ? { id: role._id.toString(), name: role.name } : null,
+          permissions: resolvePermissions(
+            base,
+            member.customPermissions,
+            denied
+          ),
+          granted: (member.customPermissions || []).filter(
+            (permission) => !base.includes(permission)
+          ),
+          denied,
+        };
+      },
+      { ttl: PERMISSIONS_TTL }
+    );
+  }
+
+  /**
+   * Whether the member holds at least one of the given permissions
+   */
+  async has(
+    user: PermissionSubject,
+    ...permissions: Permission[]
+  ): Promise<boolean> {
+    const effective = await this.getEffective(user);
+    return permissions.some((permission) =>
+      effective.permissions.includes(permission)
+    );
+  }
+
+  /**
+   * The given permissions the member does not hold
+   */
+  async getMissing(
+    user: PermissionSubject,
+    permissions: Permission[]
+  ): Promise<Permission[]> {
+    const effective = await this.getEffective(user);
+    return permissions.filter(
+      (permission) => !effective.permissions.includes(permission)
+    );
+  }
+
+  /**
+   * Drop a member's cached permissions after their access level, role or
+   * permissions changed
+   */
+  async invalidate(memberId: string): Promise<void> {
+    await cacheService.delete(this.getKey(memberId));
+  }
+
+  private getKey(memberId: string): string {
+    return `permissions:${memberId}`;
+  }
+}
+
+export const permissionService = new PermissionService();
+export default permissionService;
@@ -0,0 +1,278 @@
+/**
+ * Plan Limits Service
+ *
+ * Per-organization usage counters checked against the plan's limits. Member
+ * and task counts are cached briefly and dropped whenever a request adds or
+ * removes members or tasks; stored bytes come from the storage counters and
+ * API calls from the monthly API usage meter.
+ */
+
+import { Organization, Task, TeamMember, PLAN_LIMITS } from "../models";
+import { AppError } from "../middleware";
+import { cacheService } from "./cache.service";
+import { storageUsageService } from "./storageUsage.service";
+import { fileUpload } from "./fileUpload.service";
+import { apiUsageService, getPeriod } from "./apiUsage.service";
+
+export type LimitType = "users" | "tasks" | "storage" | "apiCalls";
+export type CountedLimitType = "users" | "tasks";
+export type PlanName = keyof typeof PLAN_LIMITS;
+
+const LIMIT_FIELDS = {
+  users: "maxUsers",
+  tasks: "maxTasks",
+  storage: "maxStorage",
+  apiCalls: "maxApiCalls",
+} as const;
+
+const LIMIT_LABELS = {
+  users: "team members",
+  tasks: "tasks",
+  storage: "bytes of storage",
+  apiCalls: "API calls per month",
+};
+
+const PLAN_ORDER = Object.keys(PLAN_LIMITS) as PlanName[];
+
+// Seconds a count or an organization's plan is reused between invalidations
+const COUNT_TTL = 300;
+
+export interface LimitUsage {
+  current: number;
+  limit: number; // -1 means unlimited
+  percentage: number;
+}
+
+export interface PlanContext {
+  plan: PlanName;
+  limits: {
+    maxUsers: number;
+    maxTasks: number;
+    maxStorage: number;
+    maxApiCalls: number;
+    features: string[];
+  };
+}
+
+export interface PlanUsage {
+  users: LimitUsage;
+  tasks: LimitUsage;
+  apiCalls: LimitUsage & { period: string };
+  storage: LimitUsage & {
+    attachments: number;
+    backups: number;
+    reconciledAt: Date | null;
+  };
+  plan: PlanName;
+  features: string[];
+}
+
+// Returned when an action would take an organization past its plan
+export interface LimitExceeded {
+  type: LimitType;
+  current: number;
+  limit: number;
+  requested: number;
+  plan: PlanName;
+  upgradePlan: PlanName | null; // cheapest plan the action fits in
+}
+
+const toLimitUsage = (current: number, limit: number): LimitUsage => ({
+  current,
+  limit,
+  percentage: limit > 0 ? Math.round((current / limit) * 100) : 0,
+});
+
+class PlanLimitsService {
+  /**
+   * Number of members or tasks an organization has
+   */
+  async getCount(
+    organizationId: string,
+    type: CountedLimitType
+  ): Promise<number> {
+    return cacheService.getOrSet(
+      `usage:${organizationId}:${type}`,
+      () =>
+        type === "users"
+          ? TeamMember.countDocuments({ organizationId })
+          : Task.countDocuments({ organizationId }),
+      { ttl: COUNT_TTL, tags: [`usage:${organizationId}`] }
+    );
+  }
+
+  /**
+   * Drop cached counts after members or tasks were added or removed
+   */
+  async invalidate(organizationId: string): Promise<void> {
+    await cacheService.invalidateByTag(`usage:${organizationId}`);
+  }
+
+  /**
+   * Plan and limits of an organization, cached for per-request checks
+   */
+  async getPlanContext(organizationId: string): Promise<PlanContext> {
+    return cacheService.getOrSet(
+      `plan:${organizationId}`,
+      async () => {
+        const organization = await Organization.findById(organizationId)
+          .select("limits subscription.plan")
+          .lean();
+        if (!organization) {
+          throw new AppError("Organization not found", 404);
+        }
+        return {
+          plan: organization.subscription.plan,
+          limits: organization.limits,
+        };
+      },
+      { ttl: COUNT_TTL, tags: [`usage:${organizationId}`] }
+    );
+  }
+
+  async getUsage(organizationId: string): Promise<PlanUsage> {
+    const { plan, limits } = await this.getPlanContext(organizationId);
+    const [users, tasks, apiCalls, storage] = await Promise.all([
+      this.getCount(organizationId, "users"),
+      this.getCount(organizationId, "tasks"),
+      apiUsageService.getCurrent(organizationId),
+      storageUsageService.getUsage(organizationId),
+    ]);
+
+    return {
+      users: toLimitUsage(users, limits.maxUsers),
+      tasks: toLimitUsage(tasks, limits.maxTasks),
+      apiCalls: {
+        ...toLimitUsage(apiCalls, limits.maxApiCalls),
+        period: getPeriod(),
+      },
+      storage: {
+        ...toLimitUsage(storage.total, limits.maxStorage),
+        attachments: storage.attachments,
+        backups: storage.backups,
+        reconciledAt: storage.reconciledAt,
+      },
+      plan,
+      features: limits.features,
+    };
+  }
+
+  /**
+   * Check whether adding `requested` units stays within the plan. Returns
+   * null when it does. With `replacesExisting` the current usage is ignored,
+   * e.g. for an import that clears existing data first.
+   */
+  async check(
+    organizationId: string,
+    type: LimitType,
+    requested = 1,
+    replacesExisting = false
+  ): Promise<LimitExceeded | null> {
+    const { plan, limits } = await this.getPlanContext(organizationId);
+    const limit: number = limits[LIMIT_FIELDS[type]];
+
+    // -1 means unlimited
+    if (limit === -1) {
+      return null;
+    }
+
+    const current = replacesExisting
+      ? 0
+      : await this.getCurrent(organizationId, type);
+
+    if (current + requested <= limit) {
+      return null;
+    }
+
+    return {
+      type,
+      current,
+      limit,
+      requested,
+      plan,
+      upgradePlan: this.getUpgradePlan(plan, type, current + requested),
+    };
+  }
+
+  /**
+   * Like check, for callers without a response to shape: throws a 403 when
+   * the plan would be exceeded
+   */
+  async assertWithinLimit(
+    organizationId: string,
+    type: LimitType,
+    requested = 1
+  ): Promise<void> {
+    const exceeded = await this.check(organizationId, type, requested);
+    if (exceeded) {
+      throw new AppError(this.describe(exceeded), 403);
+    }
+  }
+
+  /**
+   * Body of the 403 response for a request that would exceed the plan
+   */
+  toErrorResponse(exceeded: LimitExceeded) {
+    return {
+      success: false,
+      error: this.describe(exceeded),
+      code: "PLAN_LIMIT_REACHED",
+      limit: {
+        type: exceeded.type,
+        current: exceeded.current,
+        max: exceeded.limit,
+        requested: exceeded.requested,
+      },
+      plan: exceeded.plan,
+      upgradePlan: exceeded.upgradePlan,
+    };
+  }
+
+  /**
+   * Human-readable "limit reached" message
+   */
+  describe(exceeded: LimitExceeded): string {
+    const allowance =
+      exceeded.type === "storage"
+        ? `${fileUpload.formatBytes(exceeded.limit)} of storage`
+        : `${exceeded.limit} ${LIMIT_LABELS[exceeded.type]}`;
+    const upgrade = exceeded.upgradePlan
+      ? `; upgrade to ${exceeded.upgradePlan} for more`
+      : "";
+    return `Your ${exceeded.plan} plan includes ${allowance}${upgrade}`;
+  }
+
+  private async getCurrent(
+    organizationId: string,
+    type: LimitType
+  ): Promise<number> {
+    switch (type) {
+      case "storage":
+        return (await storageUsageService.getUsage(organizationId)).total;
+      case "apiCalls":
+        return apiUsageService.getCurrent(organizationId);
+      default:
+        return this.getCount(organizationId, type);
+    }
+  }
+
+  /**
+   * Cheapest plan above the current one that allows the needed amount
+   */
+  getUpgradePlan(
+    plan: PlanName,
+    type: LimitType,
+    needed: number
+  ): PlanName | null {
+    for (const candidate of PLAN_ORDER.slice(PLAN_ORDER.indexOf(plan) + 1)) {
+      const limit = PLAN_LIMITS[candidate][LIMIT_FIELDS[type]];
+      if (limit === -1 || limit >= needed) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+}
+
+export const planLimitsService = new PlanLimitsService();
+export default planLimitsService;
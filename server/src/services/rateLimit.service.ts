@@ -3,7 +3,7 @@
  *
  * Features:
  * - Sliding window rate limiting
- * - Multiple limit tiers (free, pro, enterprise)
+ * - Limit tiers per subscription plan (free, starter, professional, enterprise)
  * - Per-user, per-IP, per-API key limits
  * - Endpoint-specific limits
  * - Redis-based distributed rate limiting
@@ -13,6 +13,8 @@
 
 import Redis from "ioredis";
 import { Request, Response, NextFunction } from "express";
+import { AuthenticatedRequest, SubscriptionPlan } from "../types";
+import { planLimitsService } from "./planLimits.service";
 import logger from "../utils/logger";
 
 // Rate limit configuration
@@ -47,8 +49,8 @@ export interface RateLimitResult {
   retryAfter?: number; // Seconds until retry
 }
 
-// Default tiers
-const defaultTiers: Record<string, RateLimitTier> = {
+// Default tiers, one per subscription plan
+const defaultTiers: Record<SubscriptionPlan, RateLimitTier> = {
   free: {
     name: "free",
     limits: {
@@ -58,8 +60,17 @@ const defaultTiers: Record<string, RateLimitTier> = {
     },
     burstAllowance: 10,
   },
-  pro: {
-    name: "pro",
+  starter: {
+    name: "starter",
+    limits: {
+      global: { windowMs: 60 * 60 * 1000, maxRequests: 5000 }, // 5000/hour
+      perEndpoint: { windowMs: 60 * 1000, maxRequests: 60 }, // 60/minute per endpoint
+      perSecond: { maxRequests: 10 }, // 10/second
+    },
+    burstAllowance: 25,
+  },
+  professional: {
+    name: "professional",
     limits: {
       global: { windowMs: 60 * 60 * 1000, maxRequests: 10000 }, // 10000/hour
       perEndpoint: { windowMs: 60 * 1000, maxRequests: 100 }, // 100/minute per endpoint
@@ -108,7 +119,7 @@ class RateLimitService {
   private redis: Redis | null = null;
   private localStore: Map<string, { count: number; resetTime: number }> =
     new Map();
-  private tiers: Record<string, RateLimitTier> = defaultTiers;
+  private tiers: Record<string, RateLimitTier> = { ...defaultTiers };
   private isRedisAvailable = false;
 
   /**
@@ -305,14 +316,14 @@ class RateLimitService {
   ): string {
     switch (type) {
       case "user":
-        return `user:${(req as any).user?.id || "anonymous"}`;
+        return `user:${(req as any).user?.userId || "anonymous"}`;
       case "ip":
         return `ip:${this.getClientIp(req)}`;
       case "api":
         return `api:${(req as any).apiKey || "none"}`;
       case "endpoint":
         return `endpoint:${req.method}:${req.path}:${
-          (req as any).user?.id || this.getClientIp(req)
+          (req as any).user?.userId || this.getClientIp(req)
         }`;
       default:
         return `default:${this.getClientIp(req)}`;
@@ -331,18 +342,30 @@ class RateLimitService {
   }
 
   /**
-   * Get tier for user
+   * Get tier for the plan of the user's organization
    */
-  getTier(req: Request): RateLimitTier {
-    const user = (req as any).user;
+  async getTier(req: AuthenticatedRequest): Promise<RateLimitTier> {
+    return this.getOrganizationTier(req.user?.organizationId);
+  }
 
-    if (!user) {
+  /**
+   * Get tier for the plan of an organization
+   */
+  async getOrganizationTier(organizationId?: string): Promise<RateLimitTier> {
+    if (!organizationId) {
       return this.tiers.free;
     }
 
-    // Check user's subscription/plan
-    const plan = user.plan || user.subscription?.plan || "free";
-    return this.tiers[plan] || this.tiers.free;
+    try {
+      const { plan } = await planLimitsService.getPlanContext(organizationId);
+      return this.tiers[plan] || this.tiers.free;
+    } catch (error) {
+      logger.warn("Could not resolve rate limit tier, using free", {
+        organizationId,
+        error,
+      });
+      return this.tiers.free;
+    }
   }
 
   /**
@@ -377,7 +400,7 @@ class RateLimitService {
   async checkMultipleLimits(
     req: Request
   ): Promise<{ allowed: boolean; results: Record<string, RateLimitResult> }> {
-    const tier = this.getTier(req);
+    const tier = await this.getTier(req);
     const results: Record<string, RateLimitResult> = {};
 
     // Check global limit
@@ -440,7 +463,7 @@ class RateLimitService {
 
         // Set headers for all checked limits
         if (results.global) {
-          this.setHeaders(res, results.global, "");
+          this.setHeaders(res, results.global);
         }
         if (results.endpoint) {
           this.setHeaders(res, results.endpoint, "endpoint");
@@ -0,0 +1,523 @@
+import RecurringTask, {
+  RecurringTaskDocument,
+  IRecurringTask,
+} from "../models/RecurringTask";
+import Task from "../models/Task";
+import { AppError } from "../middleware";
+import logger from "../utils/logger";
+import { automationService } from "./automation.service";
+import { webhookService } from "./webhook.service";
+import { cacheService } from "./cache.service";
+import { wsService } from "./websocket.service";
+import { planLimitsService } from "./planLimits.service";
+
+type Recurrence = IRecurringTask["recurrence"];
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on candidates examined per lookup, guards against rules that never match
+const MAX_CANDIDATES = 5000;
+
+const MONTH_STEPS: Partial<Record<Recurrence["frequency"], number>> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// Fields copied from a recurring rule onto each materialised task
+const OCCURRENCE_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assigneeId",
+  "contextType",
+  "contextId",
+  "tags",
+] as const;
+
+/**
+ * Wall-clock date and time of an instant in an IANA timezone
+ */
+function toLocal(timestamp: number, timezone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getOffset(timestamp: number, timezone: string): number {
+  const local = toLocal(timestamp, timezone);
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a timezone. Times skipped by a DST change
+ * move forward by the size of the gap; repeated times resolve to the first.
+ */
+function fromLocal(local: LocalDateTime, timezone: string): number {
+  const guess = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+
+  const first = guess - getOffset(guess, timezone);
+  const firstOffset = getOffset(first, timezone);
+  if (guess - firstOffset === first) {
+    return first;
+  }
+
+  const second = guess - firstOffset;
+  return getOffset(second, timezone) === firstOffset ? second : first;
+}
+
+const toDayNumber = (year: number, month: number, day: number) =>
+  Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+
+const fromDayNumber = (dayNumber: number) => {
+  const date = new Date(dayNumber * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+};
+
+// 1970-01-01 was a Thursday
+const weekday = (dayNumber: number) => (((dayNumber + 4) % 7) + 7) % 7;
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Candidate occurrence dates (as day numbers) in ascending order, starting
+ * from the period containing fromDay
+ */
+function* candidateDays(
+  recurrence: Recurrence,
+  start: LocalDateTime,
+  fromDay: number
+): Generator<number> {
+  const interval = Math.max(1, recurrence.interval || 1);
+  const startDay = toDayNumber(start.year, start.month, start.day);
+  const daysOfWeek = [...new Set(recurrence.daysOfWeek || [])].sort(
+    (a, b) => a - b
+  );
+
+  const monthStep = MONTH_STEPS[recurrence.frequency];
+  if (monthStep) {
+    const step = monthStep * interval;
+    const dayOfMonth = recurrence.dayOfMonth || start.day;
+    const anchorMonth =
+      recurrence.frequency === "yearly"
+        ? start.year * 12 + (recurrence.monthOfYear || start.month) - 1
+        : start.year * 12 + start.month - 1;
+    const from = fromDayNumber(fromDay);
+    const fromMonth = from.year * 12 + from.month - 1;
+
+    let k = Math.max(0, Math.floor((fromMonth - anchorMonth) / step));
+    for (;;) {
+      const monthIndex = anchorMonth + k * step;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      // Month-end: the 31st falls on the last day of shorter months
+      yield toDayNumber(
+        year,
+        month,
+        Math.min(dayOfMonth, daysInMonth(year, month))
+      );
+      k += 1;
+    }
+  }
+
+  if (
+    recurrence.frequency === "weekly" ||
+    recurrence.frequency === "biweekly"
+  ) {
+    const step = (recurrence.frequency === "biweekly" ? 2 : 1) * interval;
+    const days = daysOfWeek.length > 0 ? daysOfWeek : [weekday(startDay)];
+    const startWeek = startDay - weekday(startDay);
+
+    let k = Math.max(0, Math.floor((fromDay - startWeek) / 7 / step));
+    for (;;) {
+      for (const dayOfWeek of days) {
+        yield startWeek + k * step * 7 + dayOfWeek;
+      }
+      k += 1;
+    }
+  }
+
+  // daily and custom: every `interval` days, optionally limited to daysOfWeek
+  // Bounded, since an interval and weekday filter may never coincide
+  const first = Math.max(0, Math.floor((fromDay - startDay) / interval));
+  for (let k = first; k < first + MAX_CANDIDATES; k++) {
+    const day = startDay + k * interval;
+    if (daysOfWeek.length === 0 || daysOfWeek.includes(weekday(day))) {
+      yield day;
+    }
+  }
+}
+
+/**
+ * First occurrence strictly after `after`, or null when the rule has ended.
+ * Occurrences keep the wall-clock time of startDate in the rule's timezone.
+ */
+export function getNextOccurrence(
+  recurrence: Recurrence,
+  after: number
+): number | null {
+  const timezone = recurrence.timezone || "UTC";
+  const start = toLocal(recurrence.startDate, timezone);
+  // Occurrences are computed to the second
+  const startAt = Math.floor(recurrence.startDate / 1000) * 1000;
+  const from = toLocal(Math.max(after, recurrence.startDate), timezone);
+  // Start a day early so a DST shift cannot skip the first candidate
+  const fromDay = toDayNumber(from.year, from.month, from.day) - 1;
+
+  let examined = 0;
+  for (const dayNumber of candidateDays(recurrence, start, fromDay)) {
+    if (++examined > MAX_CANDIDATES) {
+      return null;
+    }
+
+    const occurrence = fromLocal(
+      {
+        ...fromDayNumber(dayNumber),
+        hour: start.hour,
+        minute: start.minute,
+        second: start.second,
+      },
+      timezone
+    );
+
+    if (recurrence.endDate && occurrence > recurrence.endDate) {
+      return null;
+    }
+    if (occurrence >= startAt && occurrence > after) {
+      return occurrence;
+    }
+  }
+
+  return null;
+}
+
+class RecurringTaskService {
+  /**
+   * Get all recurring tasks for an organization
+   */
+  async getRecurringTasks(
+    organizationId: string,
+    filters?: { isActive?: boolean }
+  ): Promise<RecurringTaskDocument[]> {
+    const query: Record<string, any> = { organizationId };
+    if (filters?.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+    return RecurringTask.find(query).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Get a single recurring task by ID
+   */
+  async getRecurringTask(
+    recurringTaskId: string,
+    organizationId: string
+  ): Promise<RecurringTaskDocument | null> {
+    return RecurringTask.findOne({ _id: recurringTaskId, organizationId });
+  }
+
+  /**
+   * Create a recurring task. The first occurrence is its startDate; if that
+   * is already past, the most recent due occurrence is created on the next run.
+   */
+  async createRecurringTask(
+    data: Partial<IRecurringTask>,
+    organizationId: string
+  ): Promise<RecurringTaskDocument> {
+    const recurrence = data.recurrence as Recurrence;
+    const nextCreationAt = getNextOccurrence(
+      recurrence,
+      recurrence.startDate - 1
+    );
+    if (nextCreationAt === null) {
+      throw new AppError("Recurrence has no occurrences", 400);
+    }
+
+    const recurringTask = new RecurringTask({
+      ...data,
+      organizationId,
+      nextCreationAt,
+      lastCreatedAt: null,
+      totalCreated: 0,
+    });
+    await recurringTask.save();
+    logger.info(`Recurring task created: ${recurringTask.templateName}`);
+    return recurringTask;
+  }
+
+  /**
+   * Update a recurring task. Changing the recurrence or re-activating the
+   * rule reschedules it from now, without back-filling past occurrences.
+   */
+  async updateRecurringTask(
+    recurringTaskId: string,
+    updates: Partial<IRecurringTask>,
+    organizationId: string
+  ): Promise<RecurringTaskDocument | null> {
+    const recurringTask = await this.getRecurringTask(
+      recurringTaskId,
+      organizationId
+    );
+    if (!recurringTask) {
+      return null;
+    }
+
+    const reactivated = updates.isActive === true && !recurringTask.isActive;
+    recurringTask.set(updates);
+
+    if (updates.recurrence || reactivated) {
+      const { recurrence } = recurringTask;
+      const nextCreationAt = getNextOccurrence(
+        recurrence,
+        Math.max(recurrence.startDate - 1, Date.now())
+      );
+      if (nextCreationAt === null) {
+        throw new AppError("Recurrence has no future occurrences", 400);
+      }
+      recurringTask.nextCreationAt = nextCreationAt;
+    }
+
+    await recurringTask.save();
+    logger.info(`Recurring task updated: ${recurringTask.templateName}`);
+    return recurringTask;
+  }
+
+  /**
+   * Delete a recurring task. Tasks already created from it are kept.
+   */
+  async deleteRecurringTask(
+    recurringTaskId: string,
+    organizationId: string
+  ): Promise<boolean> {
+    const result = await RecurringTask.findOneAndDelete({
+      _id: recurringTaskId,
+      organizationId,
+    });
+    return !!result;
+  }
+
+  /**
+   * Next `count` occurrences of a recurring task from now
+   */
+  previewOccurrences(recurrence: Recurrence, count: number): number[] {
+    const occurrences: number[] = [];
+    let after = Math.max(recurrence.startDate - 1, Date.now());
+
+    while (occurrences.length < count) {
+      const next = getNextOccurrence(recurrence, after);
+      if (next === null) break;
+      occurrences.push(next);
+      after = next;
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Create tasks for every active recurring task that is due. Occurrences
+   * missed while the scheduler was down are skipped; only the most recent
+   * due occurrence is created.
+   */
+  async materializeDueOccurrences(): Promise<{
+    processed: number;
+    created: number;
+    skipped: number;
+  }> {
+    const now = Date.now();
+    let processed = 0;
+    let created = 0;
+    let skipped = 0;
+
+    const cursor = RecurringTask.find({
+      isActive: true,
+      nextCreationAt: { $lte: now },
+    }).cursor();
+
+    for await (const recurringTask of cursor) {
+      processed += 1;
+      try {
+        const result = await this.materialize(recurringTask, now);
+        if (result.created) created += 1;
+        skipped += result.skipped;
+      } catch (error) {
+        logger.error(
+          `Failed to materialize recurring task ${recurringTask._id}:`,
+          error
+        );
+      }
+    }
+
+    if (processed > 0) {
+      logger.info(
+        `Recurring tasks processed: ${processed}, created: ${created}, skipped: ${skipped}`
+      );
+    }
+
+    return { processed, created, skipped };
+  }
+
+  /**
+   * Create the latest due occurrence of a recurring task and advance it
+   */
+  private async materialize(
+    recurringTask: RecurringTaskDocument,
+    now: number
+  ): Promise<{ created: boolean; skipped: number }> {
+    const { recurrence } = recurringTask;
+
+    // Catch up to the latest occurrence that is due
+    let occurrenceAt = recurringTask.nextCreationAt;
+    let skipped = 0;
+    for (;;) {
+      const next = getNextOccurrence(recurrence, occurrenceAt);
+      if (next === null || next > now) break;
+      occurrenceAt = next;
+      skipped += 1;
+    }
+
+    const created = await this.createOccurrence(recurringTask, occurrenceAt);
+    const nextCreationAt = getNextOccurrence(recurrence, now);
+
+    // Only advance if no other worker has moved the rule on meanwhile
+    await RecurringTask.updateOne(
+      {
+        _id: recurringTask._id,
+        nextCreationAt: recurringTask.nextCreationAt,
+      },
+      {
+        $set: {
+          nextCreationAt: nextCreationAt ?? recurringTask.nextCreationAt,
+          isActive: nextCreationAt !== null,
+          updatedAt: Date.now(),
+          ...(created ? { lastCreatedAt: Date.now() } : {}),
+        },
+        ...(created ? { $inc: { totalCreated: 1 } } : {}),
+      }
+    );
+
+    return { created, skipped };
+  }
+
+  /**
+   * Create the task for one occurrence. Returns false if it already exists
+   * or the organization has reached its plan's task limit.
+   */
+  private async createOccurrence(
+    recurringTask: RecurringTaskDocument,
+    occurrenceAt: number
+  ): Promise<boolean> {
+    const { organizationId } = recurringTask;
+    const taskData: Record<string, any> = {};
+    for (const field of OCCURRENCE_FIELDS) {
+      if (recurringTask[field] !== undefined) {
+        taskData[field] = recurringTask[field];
+      }
+    }
+
+    const exceeded = await planLimitsService.check(organizationId, "tasks");
+    if (exceeded) {
+      logger.warn(
+        `Skipped occurrence of recurring task ${
+          recurringTask._id
+        }: ${planLimitsService.describe(exceeded)}`
+      );
+      return false;
+    }
+
+    let task;
+    try {
+      task = await Task.create({
+        ...taskData,
+        organizationId,
+        creatorId: recurringTask.createdBy,
+        recurringTaskId: recurringTask._id.toString(),
+        occurrenceAt,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+    } catch (error: any) {
+      // Duplicate key: this occurrence was created by an earlier run
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+
+    const taskObj = task.toJSON();
+
+    await cacheService.invalidateByTag("task-lists");
+    await planLimitsService.invalidate(organizationId);
+    await wsService.notifyTaskUpdate(
+      task._id.toString(),
+      "created",
+      taskObj,
+      recurringTask.createdBy
+    );
+
+    await automationService.queueTrigger("task_created", {
+      task: taskObj,
+      user: { userId: recurringTask.createdBy },
+      organizationId,
+    });
+    await webhookService.dispatchEvent(organizationId, "task.created", {
+      task: taskObj,
+    });
+
+    return true;
+  }
+}
+
+export const recurringTaskService = new RecurringTaskService();
+export default recurringTaskService;
@@ -0,0 +1,206 @@
+/**
+ * Role Service
+ *
+ * Organization roles. The built-in owner, admin, member and viewer roles are
+ * seeded from the access level permissions and kept in sync with them;
+ * custom roles carry their own permission set, which replaces the access
+ * level's for the members they are assigned to.
+ */
+
+import { TeamMember } from "../models";
+import Role, { IRole, RoleDocument } from "../models/Role";
+import { AppError } from "../middleware";
+import { AccessLevel, JwtPayload, Permission } from "../types";
+import { ACCESS_LEVEL_PERMISSIONS } from "../config/permissions";
+import { permissionService } from "./permission.service";
+
+const BUILT_IN_ROLES: Record<
+  AccessLevel,
+  { name: string; description: string }
+> = {
+  owner: {
+    name: "Owner",
+    description: "Full access, including managing roles and permissions",
+  },
+  admin: {
+    name: "Admin",
+    description: "Manages the team, tasks, workflows and the audit log",
+  },
+  member: {
+    name: "Member",
+    description: "Creates, assigns and comments on tasks",
+  },
+  viewer: {
+    name: "Viewer",
+    description: "Read-only access with comments",
+  },
+};
+
+export interface RoleInput {
+  name?: string;
+  description?: string;
+  permissions?: Permission[];
+}
+
+export interface RoleWithUsage extends IRole {
+  isBuiltIn: boolean;
+  memberCount: number;
+}
+
+class RoleService {
+  /**
+   * Create the built-in roles of an organization, or bring their
+   * permissions up to date
+   */
+  async ensureBuiltInRoles(organizationId: string): Promise<void> {
+    await Role.bulkWrite(
+      (Object.keys(BUILT_IN_ROLES) as AccessLevel[]).map((accessLevel) => ({
+        updateOne: {
+          filter: { organizationId, accessLevel },
+          update: {
+            $set: { permissions: ACCESS_LEVEL_PERMISSIONS[accessLevel] },
+            $setOnInsert: {
+              ...BUILT_IN_ROLES[accessLevel],
+              createdAt: Date.now(),
+              updatedAt: Date.now(),
+            },
+          },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  /**
+   * All roles of an organization, built-in first, with the number of
+   * members holding each
+   */
+  async listRoles(organizationId: string): Promise<RoleWithUsage[]> {
+    await this.ensureBuiltInRoles(organizationId);
+
+    const [roles, counts] = await Promise.all([
+      Role.find({ organizationId }).sort({ createdAt: 1 }),
+      TeamMember.aggregate<{
+        _id: { customRoleId: string | null; accessLevel: AccessLevel };
+        count: number;
+      }>([
+        { $match: { organizationId } },
+        {
+          $group: {
+            _id: {
+              customRoleId: { $ifNull: ["$customRoleId", null] },
+              accessLevel: "$accessLevel",
+            },
+            count: { $sum: 1 },
+          },
+        },
+      ]),
+    ]);
+
+    // Members with a custom role do not count towards their access level
+    const memberCount = (role: RoleDocument) =>
+      counts
+        .filter(({ _id }) =>
+          role.accessLevel
+            ? !_id.customRoleId && _id.accessLevel === role.accessLevel
+            : _id.customRoleId === role._id.toString()
+        )
+        .reduce((sum, { count }) => sum + count, 0);
+
+    return roles
+      .sort((a, b) => Number(b.isBuiltIn) - Number(a.isBuiltIn))
+      .map((role) => ({
+        ...(role.toJSON() as IRole & { isBuiltIn: boolean }),
+        memberCount: memberCount(role),
+      }));
+  }
+
+  async getRole(
+    organizationId: string,
+    roleId: string
+  ): Promise<RoleDocument | null> {
+    return Role.findOne({ _id: roleId, organizationId });
+  }
+
+  /**
+   * Whether a name is taken by a built-in role
+   */
+  isReservedName(name: string): boolean {
+    return Object.values(BUILT_IN_ROLES).some(
+      (role) => role.name.toLowerCase() === name.trim().toLowerCase()
+    );
+  }
+
+  /**
+   * Throw unless the member holds every permission they are granting.
+   * SECURITY: Nobody can hand out permissions they do not hold themselves.
+   */
+  async assertGrantable(
+    user: Pick<JwtPayload, "userId" | "organizationId" | "accessLevel">,
+    permissions: Permission[]
+  ): Promise<void> {
+    const missing = await permissionService.getMissing(user, permissions);
+    if (missing.length > 0) {
+      throw new AppError(
+        `You cannot grant permissions you do not have: ${missing.join(", ")}`,
+        403
+      );
+    }
+  }
+
+  async createRole(
+    organizationId: string,
+    input: RoleInput,
+    createdBy?: string
+  ): Promise<RoleDocument> {
+    await this.ensureBuiltInRoles(organizationId);
+    return Role.create({
+      ...input,
+      organizationId,
+      accessLevel: null,
+      createdBy: createdBy || null,
+    });
+  }
+
+  async updateRole(
+    role: RoleDocument,
+    input: RoleInput
+  ): Promise<RoleDocument> {
+    role.set(input);
+    await role.save();
+    await this.invalidateMembers(role);
+    return role;
+  }
+
+  async deleteRole(role: RoleDocument): Promise<void> {
+    await role.deleteOne();
+  }
+
+  /**
+   * Number of members a custom role is assigned to
+   */
+  async countMembers(role: RoleDocument): Promise<number> {
+    return TeamMember.countDocuments({
+      organizationId: role.organizationId,
+      customRoleId: role._id.toString(),
+    });
+  }
+
+  // Members holding the role pick up its changes on their next request
+  private async invalidateMembers(role: RoleDocument): Promise<void> {
+    const members = await TeamMember.find({
+      organizationId: role.organizationId,
+      customRoleId: role._id.toString(),
+    })
+      .select("_id")
+      .lean();
+    await Promise.all(
+      members.map((member) =>
+        permissionService.invalidate(member._id.toString())
+      )
+    );
+  }
+}
+
+export const roleService = new RoleService();
+export default roleService;
@@ -0,0 +1,308 @@
+/**
+ * Attachment Storage Drivers
+ *
+ * Attachments are uploaded and downloaded directly against the storage
+ * backend through short-lived URLs. The S3 driver uses presigned S3 URLs via
+ * FileUploadService; the local driver keeps files on disk and serves them
+ * through signed /storage URLs on this server.
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { v4 as uuidv4 } from "uuid";
+import config from "../config";
+import { fileUpload } from "./fileUpload.service";
+import logger from "../utils/logger";
+
+// Signed URL lifetimes (in seconds)
+const UPLOAD_URL_TTL = 3600;
+const DOWNLOAD_URL_TTL = 300;
+
+export type StorageDriverName = "local" | "s3";
+
+export interface StorageUploadTarget {
+  key: string;
+  url: string;
+  method: "PUT";
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /**
+   * Reserve a key under folder and return where the client should upload it
+   */
+  createUpload(
+    fileName: string,
+    mimeType: string,
+    size: number,
+    folder: string
+  ): Promise<StorageUploadTarget>;
+
+  /**
+   * Get a short-lived URL the client can download the file from
+   */
+  getDownloadUrl(key: string, fileName: string): Promise<string>;
+
+  /**
+   * Get size and type of a stored file, or null when it does not exist
+   */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Read the first bytes of a stored file
+   */
+  readHead(key: string, length: number): Promise<Buffer>;
+
+  /**
+   * Read a whole stored file
+   */
+  read(key: string): Promise<Buffer>;
+
+  /**
+   * Store a file generated on the server
+   */
+  write(key: string, body: Buffer, mimeType: string): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+class S3StorageDriver implements StorageDriver {
+  readonly name = "s3" as const;
+
+  async createUpload(
+    fileName: string,
+    mimeType: string,
+    size: number,
+    folder: string
+  ): Promise<StorageUploadTarget> {
+    const presigned = await fileUpload.getPresignedUploadUrl(
+      fileName,
+      mimeType,
+      size,
+      { folder }
+    );
+    return {
+      key: presigned.key,
+      url: presigned.uploadUrl,
+      method: "PUT",
+      headers: { "Content-Type": mimeType },
+      expiresAt: presigned.expiresAt,
+    };
+  }
+
+  async getDownloadUrl(key: string, fileName: string): Promise<string> {
+    return fileUpload.getDownloadUrl(key, fileName);
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    const metadata = await fileUpload.getFileMetadata(key);
+    if (!metadata) return null;
+    return {
+      size: metadata.contentLength,
+      contentType: metadata.contentType,
+    };
+  }
+
+  async readHead(key: string, length: number): Promise<Buffer> {
+    return fileUpload.getFileHead(key, length);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fileUpload.getFileBuffer(key);
+  }
+
+  async write(key: string, body: Buffer, mimeType: string): Promise<void> {
+    await fileUpload.uploadBuffer(key, body, mimeType);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fileUpload.deleteFile(key);
+  }
+}
+
+class LocalStorageDriver implements StorageDriver {
+  readonly name = "local" as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  async createUpload(
+    fileName: string,
+    _mimeType: string,
+    size: number,
+    folder: string
+  ): Promise<StorageUploadTarget> {
+    const key = fileUpload.buildKey(uuidv4(), fileName, folder);
+    const expires = Math.floor(Date.now() / 1000) + UPLOAD_URL_TTL;
+    return {
+      key,
+      url: this.buildSignedUrl("upload", key, expires, size),
+      method: "PUT",
+      headers: {},
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  async getDownloadUrl(key: string, fileName: string): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_URL_TTL;
+    const url = this.buildSignedUrl("download", key, expires);
+    return `${url}&name=${encodeURIComponent(fileName)}`;
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolvePath(key));
+      return { size: stats.size };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async readHead(key: string, length: number): Promise<Buffer> {
+    const handle = await fs.promises.open(this.resolvePath(key), "r");
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolvePath(key));
+  }
+
+  async write(key: string, body: Buffer, _mimeType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+    logger.info("Deleted file from local storage", { key });
+  }
+
+  /**
+   * Check the signature and expiry of a /storage URL
+   */
+  verifySignature(
+    operation: "upload" | "download",
+    key: string,
+    expires: number,
+    signature: string,
+    size?: number
+  ): boolean {
+    if (!expires || expires < Date.now() / 1000) return false;
+    const expected = this.sign(operation, key, expires, size);
+    return (
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    );
+  }
+
+  /**
+   * Write an uploaded stream to disk, failing once it exceeds maxBytes
+   */
+  async writeStream(
+    key: string,
+    body: Readable,
+    maxBytes: number
+  ): Promise<number> {
+    const filePath = this.resolvePath(key);
+    const tempPath = `${filePath}.${uuidv4()}.part`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    let written = 0;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        written += chunk.length;
+        if (written > maxBytes) {
+          callback(new Error("Upload exceeds the declared file size"));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, limit, fs.createWriteStream(tempPath));
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return written;
+  }
+
+  createReadStream(key: string): fs.ReadStream {
+    return fs.createReadStream(this.resolvePath(key));
+  }
+
+  private buildSignedUrl(
+    operation: "upload" | "download",
+    key: string,
+    expires: number,
+    size?: number
+  ): string {
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(operation, key, expires, size),
+    });
+    if (size !== undefined) params.set("size", String(size));
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    return `${config.storage.publicUrl}/api/${config.apiVersion}/storage/${encodedKey}?${params}`;
+  }
+
+  private sign(
+    operation: string,
+    key: string,
+    expires: number,
+    size?: number
+  ): string {
+    return crypto
+      .createHmac("sha256", config.storage.signingSecret)
+      .update(`${operation}:${key}:${expires}:${size ?? ""}`)
+      .digest("hex");
+  }
+
+  // Map a key to a path inside the storage root, rejecting traversal
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export const localDiskStorage = new LocalStorageDriver(
+  config.storage.localPath
+);
+export const s3Storage = new S3StorageDriver();
+
+/** Driver used for new attachments */
+export const storage: StorageDriver =
+  config.storage.driver === "s3" ? s3Storage : localDiskStorage;
+
+/** Driver an existing file was stored with */
+export const getStorageDriver = (name: StorageDriverName): StorageDriver =>
+  name === "s3" ? s3Storage : localDiskStorage;
+
+export default storage;
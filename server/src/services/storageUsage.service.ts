@@ -0,0 +1,191 @@
+import mongoose from "mongoose";
+import { Organization, Backup } from "../models";
+import Attachment from "../models/Attachment";
+import { AppError } from "../middleware";
+import { fileUpload } from "./fileUpload.service";
+import logger from "../utils/logger";
+
+export type StorageKind = "attachment" | "backup";
+
+const USAGE_FIELDS: Record<StorageKind, string> = {
+  attachment: "usage.attachmentBytes",
+  backup: "usage.backupBytes",
+};
+
+export interface StorageUsage {
+  attachments: number;
+  backups: number;
+  total: number;
+  limit: number; // -1 means unlimited
+  reconciledAt: Date | null;
+}
+
+// Current total of stored bytes in an update/$expr pipeline
+const STORED_BYTES = {
+  $add: [
+    { $ifNull: ["$usage.attachmentBytes", 0] },
+    { $ifNull: ["$usage.backupBytes", 0] },
+  ],
+};
+
+class StorageUsageService {
+  /**
+   * Count bytes against the organization's plan, failing with 413 when they
+   * would exceed maxStorage
+   */
+  async reserve(
+    organizationId: string,
+    kind: StorageKind,
+    bytes: number
+  ): Promise<void> {
+    const result = await Organization.updateOne(
+      {
+        _id: organizationId,
+        $expr: {
+          $or: [
+            { $eq: ["$limits.maxStorage", -1] },
+            {
+              $lte: [{ $add: [STORED_BYTES, bytes] }, "$limits.maxStorage"],
+            },
+          ],
+        },
+      },
+      { $inc: { [USAGE_FIELDS[kind]]: bytes } }
+    );
+    if (result.matchedCount > 0) return;
+
+    const usage = await this.getUsage(organizationId);
+    throw new AppError(
+      `Storage limit exceeded: ${fileUpload.formatBytes(bytes)} would bring ` +
+        `usage to ${fileUpload.formatBytes(usage.total + bytes)} of the ` +
+        `${fileUpload.formatBytes(usage.limit)} included in your plan`,
+      413
+    );
+  }
+
+  /**
+   * Give back bytes of deleted files
+   */
+  async release(
+    organizationId: string,
+    kind: StorageKind,
+    bytes: number
+  ): Promise<void> {
+    if (bytes <= 0) return;
+    const field = USAGE_FIELDS[kind];
+    await Organization.updateOne({ _id: organizationId }, [
+      {
+        $set: {
+          [field]: {
+            $max: [0, { $subtract: [{ $ifNull: [`$${field}`, 0] }, bytes] }],
+          },
+        },
+      },
+    ]);
+  }
+
+  async getUsage(organizationId: string): Promise<StorageUsage> {
+    const organization = await Organization.findById(organizationId)
+      .select("usage limits.maxStorage")
+      .lean();
+    if (!organization) {
+      throw new AppError("Organization not found", 404);
+    }
+
+    const attachments = organization.usage?.attachmentBytes || 0;
+    const backups = organization.usage?.backupBytes || 0;
+    return {
+      attachments,
+      backups,
+      total: attachments + backups,
+      limit: organization.limits.maxStorage,
+      reconciledAt: organization.usage?.reconciledAt || null,
+    };
+  }
+
+  /**
+   * Sum the bytes an organization actually stores
+   */
+  async computeUsage(
+    organizationId: string
+  ): Promise<{ attachmentBytes: number; backupBytes: number }> {
+    const [attachments, backups] = await Promise.all([
+      Attachment.aggregate([
+        { $match: { organizationId } },
+        { $group: { _id: null, bytes: { $sum: "$size" } } },
+      ]),
+      // Backups saved before sizes were tracked are measured from their data
+      Backup.aggregate([
+        { $match: { organizationId } },
+        {
+          $group: {
+            _id: null,
+            bytes: {
+              $sum: {
+                $cond: [
+                  { $gt: ["$size", 0] },
+                  "$size",
+                  { $strLenBytes: "$data" },
+                ],
+              },
+            },
+          },
+        },
+      ]),
+    ]);
+
+    return {
+      attachmentBytes: attachments[0]?.bytes || 0,
+      backupBytes: backups[0]?.bytes || 0,
+    };
+  }
+
+  /**
+   * Recompute stored bytes for every organization, correcting counter drift
+   */
+  async reconcileAll(): Promise<number> {
+    let reconciled = 0;
+    const cursor = Organization.find().select("_id usage").lean().cursor();
+
+    for await (const organization of cursor) {
+      const organizationId = (
+        organization._id as mongoose.Types.ObjectId
+      ).toString();
+      try {
+        const usage = await this.computeUsage(organizationId);
+        const drift =
+          usage.attachmentBytes +
+          usage.backupBytes -
+          ((organization.usage?.attachmentBytes || 0) +
+            (organization.usage?.backupBytes || 0));
+        if (drift !== 0) {
+          logger.warn(
+            `Storage usage for org ${organizationId} was off by ${drift} bytes`
+          );
+        }
+
+        await Organization.updateOne(
+          { _id: organizationId },
+          {
+            $set: {
+              "usage.attachmentBytes": usage.attachmentBytes,
+              "usage.backupBytes": usage.backupBytes,
+              "usage.reconciledAt": new Date(),
+            },
+          }
+        );
+        reconciled++;
+      } catch (error) {
+        logger.error(
+          `Failed to reconcile storage usage for org ${organizationId}:`,
+          error
+        );
+      }
+    }
+
+    return reconciled;
+  }
+}
+
+export const storageUsageService = new StorageUsageService();
+export default storageUsageService;
@@ -0,0 +1,269 @@
+import TaskTemplate, {
+  TaskTemplateDocument,
+  ITaskTemplate,
+} from "../models/TaskTemplate";
+import { Task, TaskDocument, TeamMember } from "../models";
+import { AppError } from "../middleware";
+import logger from "../utils/logger";
+
+export interface TemplateFilters {
+  category?: string;
+  search?: string;
+}
+
+// Task fields a caller may override when instantiating a template
+export interface InstantiateOverrides {
+  title?: string;
+  description?: string;
+  priority?: ITaskTemplate["priority"];
+  assigneeId?: string;
+  contextType?: ITaskTemplate["contextType"];
+  contextId?: string;
+  dueDate?: number;
+  tags?: string[];
+}
+
+/**
+ * Append a template checklist to a task description as markdown checkboxes
+ */
+function withChecklist(
+  description: string,
+  checklist: ITaskTemplate["checklist"]
+): string {
+  if (!checklist || checklist.length === 0) {
+    return description;
+  }
+
+  const items = checklist
+    .map((item) => `- [ ] ${item.text}${item.required ? " (required)" : ""}`)
+    .join("\n");
+  return [description, `**Checklist:**\n${items}`].filter(Boolean).join("\n\n");
+}
+
+class TaskTemplateService {
+  /**
+   * Get templates visible to a user: public ones and their own private ones
+   */
+  async getTemplates(
+    organizationId: string,
+    userId: string,
+    filters: TemplateFilters = {}
+  ): Promise<TaskTemplateDocument[]> {
+    const query: Record<string, any> = {
+      organizationId,
+      $or: [{ isPublic: true }, { createdBy: userId }],
+    };
+    if (filters.category) {
+      query.category = filters.category;
+    }
+    if (filters.search) {
+      query.$text = { $search: filters.search };
+    }
+
+    return TaskTemplate.find(query).sort({ usageCount: -1, name: 1 });
+  }
+
+  /**
+   * Get a single template visible to a user
+   */
+  async getTemplate(
+    templateId: string,
+    organizationId: string,
+    userId: string
+  ): Promise<TaskTemplateDocument | null> {
+    return TaskTemplate.findOne({
+      _id: templateId,
+      organizationId,
+      $or: [{ isPublic: true }, { createdBy: userId }],
+    });
+  }
+
+  /**
+   * Create a template
+   */
+  async createTemplate(
+    data: Partial<ITaskTemplate>,
+    organizationId: string
+  ): Promise<TaskTemplateDocument> {
+    const template = new TaskTemplate({
+      ...data,
+      organizationId,
+      usageCount: 0,
+    });
+    await template.save();
+    logger.info(`Task template created: ${template.name}`);
+    return template;
+  }
+
+  /**
+   * Update a template
+   */
+  async updateTemplate(
+    template: TaskTemplateDocument,
+    updates: Partial<ITaskTemplate>
+  ): Promise<TaskTemplateDocument> {
+    template.set(updates);
+    await template.save();
+    logger.info(`Task template updated: ${template.name}`);
+    return template;
+  }
+
+  /**
+   * Delete a template. Tasks created from it are kept.
+   */
+  async deleteTemplate(template: TaskTemplateDocument): Promise<void> {
+    await TaskTemplate.deleteOne({ _id: template._id });
+    logger.info(`Task template deleted: ${template.name}`);
+  }
+
+  /**
+   * Resolve the assignee for a template's auto-assign strategy. skillTags,
+   * when set, limit candidates to team members with those roles.
+   */
+  async resolveAssignee(
+    template: TaskTemplateDocument,
+    organizationId: string
+  ): Promise<string | undefined> {
+    const autoAssign = template.autoAssign;
+    if (!autoAssign?.type) {
+      return undefined;
+    }
+
+    if (autoAssign.type === "specific") {
+      if (!autoAssign.assigneeId) return undefined;
+      const member = await TeamMember.exists({
+        _id: autoAssign.assigneeId,
+        organizationId,
+      });
+      return member ? autoAssign.assigneeId : undefined;
+    }
+
+    const query: Record<string, any> = {
+      organizationId,
+      accessLevel: { $ne: "viewer" },
+    };
+    if (autoAssign.skillTags && autoAssign.skillTags.length > 0) {
+      query.role = { $in: autoAssign.skillTags };
+    } else if (autoAssign.type === "skill_based") {
+      return undefined;
+    }
+
+    const candidates = (await TeamMember.find(query).sort({ _id: 1 })).map(
+      (member) => member._id.toString()
+    );
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    if (autoAssign.type === "round_robin") {
+      const lastIndex = autoAssign.lastAssigneeId
+        ? candidates.indexOf(autoAssign.lastAssigneeId)
+        : -1;
+      const assigneeId = candidates[(lastIndex + 1) % candidates.length];
+      await TaskTemplate.updateOne(
+        { _id: template._id },
+        { $set: { "autoAssign.lastAssigneeId": assigneeId } }
+      );
+      return assigneeId;
+    }
+
+    // least_loaded and skill_based: fewest open tasks among candidates
+    const openCounts = await Task.aggregate<{ _id: string; count: number }>([
+      {
+        $match: {
+          organizationId,
+          assigneeId: { $in: candidates },
+          status: { $ne: "done" },
+        },
+      },
+      { $group: { _id: "$assigneeId", count: { $sum: 1 } } },
+    ]);
+    const countById = new Map(openCounts.map((c) => [c._id, c.count]));
+
+    return candidates.reduce((best, candidate) =>
+      (countById.get(candidate) || 0) < (countById.get(best) || 0)
+        ? candidate
+        : best
+    );
+  }
+
+  /**
+   * Create the parent task and its subtasks from a template and count the use
+   */
+  async instantiate(
+    template: TaskTemplateDocument,
+    overrides: InstantiateOverrides,
+    organizationId: string,
+    creatorId: string
+  ): Promise<{ task: TaskDocument; subtasks: TaskDocument[] }> {
+    if (overrides.assigneeId) {
+      const member = await TeamMember.exists({
+        _id: overrides.assigneeId,
+        organizationId,
+      });
+      if (!member) {
+        throw new AppError("Assignee not found", 404);
+      }
+    }
+
+    const assigneeId =
+      overrides.assigneeId ||
+      (await this.resolveAssignee(template, organizationId));
+    const now = Date.now();
+
+    const task = await Task.create({
+      organizationId,
+      creatorId,
+      title: overrides.title || template.title,
+      description: withChecklist(
+        overrides.description ?? template.taskDescription ?? "",
+        template.checklist
+      ),
+      status: template.status,
+      priority: overrides.priority || template.priority,
+      assigneeId,
+      contextType: overrides.contextType || template.contextType,
+      contextId: overrides.contextId,
+      dueDate: overrides.dueDate,
+      tags: overrides.tags || template.tags,
+      estimatedHours: template.estimatedHours,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const subtasks: TaskDocument[] = [];
+    for (const subtask of template.subtasks || []) {
+      subtasks.push(
+        await Task.create({
+          organizationId,
+          creatorId,
+          title: subtask.title,
+          description: subtask.description,
+          priority: subtask.priority,
+          assigneeId,
+          contextType: task.contextType,
+          contextId: task.contextId,
+          dueDate: task.dueDate,
+          tags: task.tags,
+          parentTaskId: task._id.toString(),
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+    }
+
+    await TaskTemplate.updateOne(
+      { _id: template._id },
+      { $inc: { usageCount: 1 } }
+    );
+
+    logger.info(
+      `Task template instantiated: ${template.name} (${subtasks.length} subtasks)`
+    );
+
+    return { task, subtasks };
+  }
+}
+
+export const taskTemplateService = new TaskTemplateService();
+export default taskTemplateService;
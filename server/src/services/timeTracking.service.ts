@@ -1,6 +1,12 @@
 import TimeEntry, { TimeEntryDocument, ITimeEntry } from "../models/TimeEntry";
 import Task from "../models/Task";
+import config from "../config";
 import logger from "../utils/logger";
+import { AppError } from "../middleware";
+import { wsService } from "./websocket.service";
+import { timesheetService } from "./timesheet.service";
+import { automationService } from "./automation.service";
+import { webhookService } from "./webhook.service";
 
 export interface TimeEntryFilters {
   organizationId: string; // Required for multi-tenancy
@@ -47,6 +53,10 @@ class TimeTrackingService {
     hourlyRate?: number;
     tags?: string[];
   }): Promise<TimeEntryDocument> {
+    await timesheetService.assertUnlocked(data.organizationId, data.userId, [
+      Date.now(),
+    ]);
+
     // Stop any running timer for this user first
     await this.stopRunningTimers(data.organizationId, data.userId);
 
@@ -65,16 +75,28 @@ class TimeTrackingService {
 
     await timeEntry.save();
     logger.info(`Timer started for task ${data.taskId} by user ${data.userId}`);
+    await wsService.notifyTimerUpdate(
+      data.userId,
+      "started",
+      timeEntry.toJSON()
+    );
+    await webhookService.dispatchEvent(
+      data.organizationId,
+      "time_entry.created",
+      { timeEntry: timeEntry.toJSON() }
+    );
     return timeEntry;
   }
 
   /**
-   * Stop a running timer
+   * Stop a running timer. With discardIdle, the entry ends when the client
+   * last reported the user as idle instead of now.
    */
   async stopTimer(
     timeEntryId: string,
     organizationId: string,
-    userId: string
+    userId: string,
+    options: { discardIdle?: boolean } = {}
   ): Promise<TimeEntryDocument | null> {
     const timeEntry = await TimeEntry.findOne({
       _id: timeEntryId,
@@ -87,7 +109,10 @@ class TimeTrackingService {
       return null;
     }
 
-    timeEntry.endTime = Date.now();
+    timeEntry.endTime =
+      options.discardIdle && timeEntry.idleSince
+        ? Math.max(timeEntry.idleSince, timeEntry.startTime)
+        : Date.now();
     timeEntry.isRunning = false;
     timeEntry.duration = Math.floor(
       (timeEntry.endTime - timeEntry.startTime) / 1000
@@ -97,6 +122,8 @@ class TimeTrackingService {
     logger.info(
       `Timer stopped for entry ${timeEntryId}, duration: ${timeEntry.duration}s`
     );
+    await wsService.notifyTimerUpdate(userId, "stopped", timeEntry.toJSON());
+    await this.queueTimeLogged(timeEntry, "time_entry.stopped");
     return timeEntry;
   }
 
@@ -118,11 +145,104 @@ class TimeTrackingService {
       entry.isRunning = false;
       entry.duration = Math.floor((entry.endTime - entry.startTime) / 1000);
       await entry.save();
+      await wsService.notifyTimerUpdate(userId, "stopped", entry.toJSON());
+      await this.queueTimeLogged(entry, "time_entry.stopped");
     }
 
     return runningEntries.length;
   }
 
+  /**
+   * Stop timers that have been running longer than the maximum timer length.
+   * They end at the maximum length, or earlier if the user went idle first.
+   */
+  async stopExpiredTimers(): Promise<number> {
+    const maxDurationMs = config.timeTracking.maxTimerHours * 60 * 60 * 1000;
+    const expiredEntries = await TimeEntry.find({
+      isRunning: true,
+      startTime: { $lt: Date.now() - maxDurationMs },
+    });
+
+    let stopped = 0;
+    for (const entry of expiredEntries) {
+      const endTime = Math.min(
+        entry.startTime + maxDurationMs,
+        entry.idleSince || Infinity
+      );
+      const duration = Math.floor((endTime - entry.startTime) / 1000);
+
+      // Skip entries the user stopped since the query ran
+      const result = await TimeEntry.updateOne(
+        { _id: entry._id, isRunning: true },
+        {
+          $set: {
+            endTime,
+            duration,
+            isRunning: false,
+            autoStopped: true,
+            updatedAt: Date.now(),
+          },
+        }
+      );
+      if (result.modifiedCount === 0) continue;
+
+      stopped++;
+      Object.assign(entry, {
+        endTime,
+        duration,
+        isRunning: false,
+        autoStopped: true,
+      });
+      await wsService.notifyTimerUpdate(
+        entry.userId,
+        "stopped",
+        entry.toJSON()
+      );
+      await wsService.broadcastToUser(entry.userId, "notification", {
+        title: "Timer Stopped",
+        message: `Your timer was stopped after running for ${config.timeTracking.maxTimerHours} hours`,
+        type: "warning",
+      });
+      await this.queueTimeLogged(entry, "time_entry.stopped");
+    }
+
+    if (stopped > 0) {
+      logger.info(`Auto-stopped ${stopped} timers past the maximum length`);
+    }
+    return stopped;
+  }
+
+  /**
+   * Record a client heartbeat for the user's running timer. idleSince is
+   * when the user was last active, or null while they are active.
+   */
+  async recordHeartbeat(
+    organizationId: string,
+    userId: string,
+    idleSince: number | null
+  ): Promise<TimeEntryDocument | null> {
+    const timeEntry = await this.getRunningTimer(organizationId, userId);
+    if (!timeEntry) {
+      return null;
+    }
+
+    const now = Date.now();
+    const nextIdleSince =
+      idleSince === null
+        ? null
+        : Math.min(Math.max(idleSince, timeEntry.startTime), now);
+    const idleChanged = (timeEntry.idleSince ?? null) !== nextIdleSince;
+
+    timeEntry.lastHeartbeatAt = now;
+    timeEntry.idleSince = nextIdleSince;
+    await timeEntry.save();
+
+    if (idleChanged) {
+      await wsService.notifyTimerUpdate(userId, "updated", timeEntry.toJSON());
+    }
+    return timeEntry;
+  }
+
   /**
    * Get the currently running timer for a user
    */
@@ -133,6 +253,16 @@ class TimeTrackingService {
     return TimeEntry.findOne({ organizationId, userId, isRunning: true });
   }
 
+  /**
+   * Get a single time entry
+   */
+  async getEntry(
+    timeEntryId: string,
+    organizationId: string
+  ): Promise<TimeEntryDocument | null> {
+    return TimeEntry.findOne({ _id: timeEntryId, organizationId });
+  }
+
   /**
    * Create a manual time entry
    */
@@ -147,6 +277,16 @@ class TimeTrackingService {
     hourlyRate?: number;
     tags?: string[];
   }): Promise<TimeEntryDocument> {
+    await timesheetService.assertUnlocked(data.organizationId, data.userId, [
+      data.startTime,
+    ]);
+    await this.assertNoOverlap(
+      data.organizationId,
+      data.userId,
+      data.startTime,
+      data.endTime
+    );
+
     const duration = Math.floor((data.endTime - data.startTime) / 1000);
 
     const timeEntry = new TimeEntry({
@@ -156,6 +296,7 @@ class TimeTrackingService {
     });
 
     await timeEntry.save();
+    await this.queueTimeLogged(timeEntry, "time_entry.created");
     return timeEntry;
   }
 
@@ -188,8 +329,32 @@ class TimeTrackingService {
       return null;
     }
 
+    // Neither the current nor the new week may be locked by a timesheet
+    await timesheetService.assertUnlocked(organizationId, userId, [
+      timeEntry.startTime,
+      updates.startTime ?? timeEntry.startTime,
+    ]);
+
+    if (timeEntry.isRunning && updates.endTime !== undefined) {
+      throw new AppError("Stop the timer before setting its end time", 400);
+    }
+
     Object.assign(timeEntry, updates);
 
+    if (timeEntry.endTime && timeEntry.endTime <= timeEntry.startTime) {
+      throw new AppError("End time must be after start time", 400);
+    }
+
+    if (updates.startTime !== undefined || updates.endTime !== undefined) {
+      await this.assertNoOverlap(
+        organizationId,
+        userId,
+        timeEntry.startTime,
+        timeEntry.endTime || Date.now(),
+        timeEntry._id.toString()
+      );
+    }
+
     if (updates.startTime || updates.endTime) {
       if (timeEntry.endTime && timeEntry.startTime) {
         timeEntry.duration = Math.floor(
@@ -199,6 +364,9 @@ class TimeTrackingService {
     }
 
     await timeEntry.save();
+    if (timeEntry.isRunning) {
+      await wsService.notifyTimerUpdate(userId, "updated", timeEntry.toJSON());
+    }
     return timeEntry;
   }
 
@@ -210,12 +378,24 @@ class TimeTrackingService {
     organizationId: string,
     userId: string
   ): Promise<boolean> {
-    const result = await TimeEntry.deleteOne({
+    const timeEntry = await TimeEntry.findOne({
       _id: timeEntryId,
       organizationId,
       userId,
     });
-    return result.deletedCount > 0;
+    if (!timeEntry) {
+      return false;
+    }
+
+    await timesheetService.assertUnlocked(organizationId, userId, [
+      timeEntry.startTime,
+    ]);
+    await TimeEntry.deleteOne({ _id: timeEntry._id });
+
+    if (timeEntry.isRunning) {
+      await wsService.notifyTimerUpdate(userId, "deleted", timeEntry.toJSON());
+    }
+    return true;
   }
 
   /**
@@ -268,6 +448,8 @@ class TimeTrackingService {
     taskId?: string;
     startDate: number;
     endDate: number;
+    // Conditions on the tasks whose titles may be shown
+    taskFilter?: Record<string, any>;
   }): Promise<TimeStats> {
     const matchQuery: Record<string, any> = {
       organizationId: filters.organizationId,
@@ -321,6 +503,7 @@ class TimeTrackingService {
     const tasks = await Task.find({
       _id: { $in: taskIds },
       organizationId: filters.organizationId,
+      ...(filters.taskFilter && { $and: [filters.taskFilter] }),
     }).select("title");
     const taskTitleMap = new Map(tasks.map((t) => [t._id.toString(), t.title]));
 
@@ -368,6 +551,83 @@ class TimeTrackingService {
 
     return result.length > 0 ? result[0].totalDuration : 0;
   }
+
+  /**
+   * Get total time logged per task for a set of tasks, in seconds
+   */
+  async getTaskTotalTimes(
+    organizationId: string,
+    taskIds: string[]
+  ): Promise<Map<string, number>> {
+    if (taskIds.length === 0) {
+      return new Map();
+    }
+
+    const result = await TimeEntry.aggregate<{
+      _id: string;
+      totalDuration: number;
+    }>([
+      {
+        $match: { organizationId, taskId: { $in: taskIds }, isRunning: false },
+      },
+      { $group: { _id: "$taskId", totalDuration: { $sum: "$duration" } } },
+    ]);
+
+    return new Map(result.map((r) => [r._id, r.totalDuration]));
+  }
+
+  /**
+   * Throw if the interval overlaps another of the user's entries. Running
+   * timers count as open-ended.
+   */
+  private async assertNoOverlap(
+    organizationId: string,
+    userId: string,
+    startTime: number,
+    endTime: number,
+    excludeId?: string
+  ): Promise<void> {
+    const query: Record<string, any> = {
+      organizationId,
+      userId,
+      startTime: { $lt: endTime },
+      $or: [{ isRunning: true }, { endTime: { $gt: startTime } }],
+    };
+    if (excludeId) {
+      query._id = { $ne: excludeId };
+    }
+
+    const overlapping = await TimeEntry.findOne(query).select("_id");
+    if (overlapping) {
+      throw new AppError(
+        `Time entry overlaps existing entry ${overlapping._id}`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Queue the time_logged automation trigger and webhook event for a completed entry
+   */
+  private async queueTimeLogged(
+    timeEntry: TimeEntryDocument,
+    event: "time_entry.created" | "time_entry.stopped"
+  ): Promise<void> {
+    const task = await Task.findOne({
+      _id: timeEntry.taskId,
+      organizationId: timeEntry.organizationId,
+    });
+
+    await automationService.queueTrigger("time_logged", {
+      task: task ? task.toJSON() : undefined,
+      timeEntry: timeEntry.toJSON(),
+      user: { userId: timeEntry.userId },
+      organizationId: timeEntry.organizationId,
+    });
+    await webhookService.dispatchEvent(timeEntry.organizationId, event, {
+      timeEntry: timeEntry.toJSON(),
+    });
+  }
 }
 
 export const timeTrackingService = new TimeTrackingService();
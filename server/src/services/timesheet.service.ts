@@ -0,0 +1,387 @@
+import Timesheet, {
+  TimesheetDocument,
+  TimesheetStatus,
+} from "../models/Timesheet";
+import TimeEntry, { TimeEntryDocument } from "../models/TimeEntry";
+import { AppError } from "../middleware";
+import { wsService } from "./websocket.service";
+import logger from "../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Entries in weeks with these statuses can no longer be changed
+const LOCKED_STATUSES: TimesheetStatus[] = ["submitted", "approved"];
+
+const ALLOWED_TRANSITIONS: Record<TimesheetStatus, TimesheetStatus[]> = {
+  draft: ["submitted"],
+  submitted: ["approved", "rejected"],
+  approved: [],
+  rejected: ["submitted"],
+};
+
+export interface IsoWeek {
+  week: string;
+  weekStart: number;
+  weekEnd: number;
+}
+
+export interface TimesheetFilters {
+  userId?: string;
+  status?: TimesheetStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface TimesheetTotals {
+  totalTime: number;
+  billableTime: number;
+  totalEarnings: number;
+  entriesCount: number;
+}
+
+/**
+ * Get the ISO week (UTC) containing a timestamp
+ */
+export function getIsoWeek(timestamp: number): IsoWeek {
+  const date = new Date(timestamp);
+  const dayOfWeek = (date.getUTCDay() + 6) % 7; // Monday = 0
+  const weekStart = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() - dayOfWeek
+  );
+
+  // The ISO year is the year of the week's Thursday
+  const isoYear = new Date(weekStart + 3 * DAY_MS).getUTCFullYear();
+  const jan4 = Date.UTC(isoYear, 0, 4);
+  const firstWeekStart = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * DAY_MS;
+  const weekNumber = Math.round((weekStart - firstWeekStart) / WEEK_MS) + 1;
+
+  return {
+    week: `${isoYear}-W${String(weekNumber).padStart(2, "0")}`,
+    weekStart,
+    weekEnd: weekStart + WEEK_MS,
+  };
+}
+
+/**
+ * Parse an ISO week like "2026-W07". Returns null for malformed weeks and
+ * for W53 in years that only have 52 weeks.
+ */
+export function parseIsoWeek(week: string): IsoWeek | null {
+  const match = /^(\d{4})-W(\d{2})$/.exec(week);
+  if (!match) {
+    return null;
+  }
+
+  const jan4 = Date.UTC(Number(match[1]), 0, 4);
+  const firstWeekStart = jan4 - ((new Date(jan4).getUTCDay() + 6) % 7) * DAY_MS;
+  const weekStart = firstWeekStart + (Number(match[2]) - 1) * WEEK_MS;
+  const parsed = getIsoWeek(weekStart);
+
+  return parsed.week === week ? parsed : null;
+}
+
+/**
+ * Sum completed entries the way getTimeStats does
+ */
+function computeTotals(entries: TimeEntryDocument[]): TimesheetTotals {
+  let totalTime = 0;
+  let billableTime = 0;
+  let totalEarnings = 0;
+  let entriesCount = 0;
+
+  for (const entry of entries) {
+    if (entry.isRunning) continue;
+    totalTime += entry.duration;
+    entriesCount++;
+    if (entry.isBillable) {
+      billableTime += entry.duration;
+      if (entry.hourlyRate) {
+        totalEarnings += (entry.duration / 3600) * entry.hourlyRate;
+      }
+    }
+  }
+
+  return {
+    totalTime,
+    billableTime,
+    totalEarnings: Math.round(totalEarnings * 100) / 100,
+    entriesCount,
+  };
+}
+
+class TimesheetService {
+  /**
+   * Get a user's timesheet for an ISO week, creating it as a draft
+   */
+  async getWeekTimesheet(
+    organizationId: string,
+    userId: string,
+    isoWeek: IsoWeek
+  ): Promise<TimesheetDocument> {
+    const now = Date.now();
+    return Timesheet.findOneAndUpdate(
+      { organizationId, userId, week: isoWeek.week },
+      {
+        $setOnInsert: {
+          weekStart: isoWeek.weekStart,
+          weekEnd: isoWeek.weekEnd,
+          status: "draft",
+          history: [],
+          createdAt: now,
+          updatedAt: now,
+        },
+      },
+      { upsert: true, new: true }
+    ) as Promise<TimesheetDocument>;
+  }
+
+  /**
+   * Get a timesheet by ID
+   */
+  async getTimesheet(
+    timesheetId: string,
+    organizationId: string
+  ): Promise<TimesheetDocument | null> {
+    return Timesheet.findOne({ _id: timesheetId, organizationId });
+  }
+
+  /**
+   * Get timesheets with filters, newest week first
+   */
+  async getTimesheets(
+    organizationId: string,
+    filters: TimesheetFilters = {}
+  ): Promise<{
+    timesheets: TimesheetDocument[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const query: Record<string, any> = { organizationId };
+    if (filters.userId) query.userId = filters.userId;
+    if (filters.status) query.status = filters.status;
+
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+
+    const [timesheets, total] = await Promise.all([
+      Timesheet.find(query)
+        .sort({ weekStart: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Timesheet.countDocuments(query),
+    ]);
+
+    return { timesheets, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Get submitted timesheets awaiting review, oldest submission first
+   */
+  async getPendingTimesheets(
+    organizationId: string
+  ): Promise<TimesheetDocument[]> {
+    return Timesheet.find({ organizationId, status: "submitted" }).sort({
+      submittedAt: 1,
+    });
+  }
+
+  /**
+   * Get the time entries a timesheet covers
+   */
+  async getEntries(timesheet: TimesheetDocument): Promise<TimeEntryDocument[]> {
+    return TimeEntry.find({
+      organizationId: timesheet.organizationId,
+      userId: timesheet.userId,
+      startTime: { $gte: timesheet.weekStart, $lt: timesheet.weekEnd },
+    }).sort({ startTime: 1 });
+  }
+
+  /**
+   * Totals for a timesheet: the submitted snapshot once submitted, live
+   * totals while it can still change
+   */
+  async getTotals(timesheet: TimesheetDocument): Promise<TimesheetTotals> {
+    if (timesheet.status === "submitted" || timesheet.status === "approved") {
+      return {
+        totalTime: timesheet.totalTime,
+        billableTime: timesheet.billableTime,
+        totalEarnings: timesheet.totalEarnings,
+        entriesCount: timesheet.entriesCount,
+      };
+    }
+    return computeTotals(await this.getEntries(timesheet));
+  }
+
+  /**
+   * Submit a draft or rejected timesheet for approval
+   */
+  async submit(
+    timesheet: TimesheetDocument,
+    userId: string,
+    comment?: string
+  ): Promise<TimesheetDocument> {
+    if (timesheet.weekStart > Date.now()) {
+      throw new AppError("Cannot submit a timesheet for a future week", 400);
+    }
+
+    const entries = await this.getEntries(timesheet);
+    if (entries.some((entry) => entry.isRunning)) {
+      throw new AppError(
+        "Stop the running timer before submitting this timesheet",
+        409
+      );
+    }
+
+    const now = Date.now();
+    const updated = await this.transition(timesheet, "submitted", userId, {
+      comment,
+      set: {
+        ...computeTotals(entries),
+        submittedAt: now,
+        reviewedBy: null,
+        reviewedAt: null,
+        rejectionReason: null,
+      },
+    });
+
+    logger.info(`Timesheet submitted: ${updated.week} by user ${userId}`);
+    return updated;
+  }
+
+  /**
+   * Approve a submitted timesheet, locking its entries
+   */
+  async approve(
+    timesheet: TimesheetDocument,
+    reviewerId: string,
+    comment?: string
+  ): Promise<TimesheetDocument> {
+    this.assertNotOwnTimesheet(timesheet, reviewerId);
+
+    const updated = await this.transition(timesheet, "approved", reviewerId, {
+      comment,
+      set: { reviewedBy: reviewerId, reviewedAt: Date.now() },
+    });
+
+    await wsService.broadcastToUser(updated.userId, "notification", {
+      title: "Timesheet Approved",
+      message: `Your timesheet for ${updated.week} was approved`,
+      type: "success",
+    });
+
+    logger.info(`Timesheet approved: ${updated.id} by ${reviewerId}`);
+    return updated;
+  }
+
+  /**
+   * Reject a submitted timesheet, unlocking its entries for correction
+   */
+  async reject(
+    timesheet: TimesheetDocument,
+    reviewerId: string,
+    reason: string
+  ): Promise<TimesheetDocument> {
+    this.assertNotOwnTimesheet(timesheet, reviewerId);
+
+    const updated = await this.transition(timesheet, "rejected", reviewerId, {
+      comment: reason,
+      set: {
+        reviewedBy: reviewerId,
+        reviewedAt: Date.now(),
+        rejectionReason: reason,
+      },
+    });
+
+    await wsService.broadcastToUser(updated.userId, "notification", {
+      title: "Timesheet Rejected",
+      message: `Your timesheet for ${updated.week} was rejected: ${reason}`,
+      type: "warning",
+    });
+
+    logger.info(`Timesheet rejected: ${updated.id} by ${reviewerId}`);
+    return updated;
+  }
+
+  /**
+   * Throw if any of the timestamps falls in a submitted or approved week of
+   * the user's timesheets
+   */
+  async assertUnlocked(
+    organizationId: string,
+    userId: string,
+    timestamps: number[]
+  ): Promise<void> {
+    const locked = await Timesheet.findOne({
+      organizationId,
+      userId,
+      status: { $in: LOCKED_STATUSES },
+      $or: timestamps.map((timestamp) => ({
+        weekStart: { $lte: timestamp },
+        weekEnd: { $gt: timestamp },
+      })),
+    }).select("week status");
+
+    if (locked) {
+      throw new AppError(
+        `Time entries for ${locked.week} are locked by a ${locked.status} timesheet`,
+        409
+      );
+    }
+  }
+
+  private assertNotOwnTimesheet(
+    timesheet: TimesheetDocument,
+    reviewerId: string
+  ): void {
+    if (timesheet.userId === reviewerId) {
+      throw new AppError("You cannot review your own timesheet", 403);
+    }
+  }
+
+  /**
+   * Move a timesheet to a new status and record the transition. The update
+   * is conditional on the current status so concurrent reviews cannot both
+   * succeed.
+   */
+  private async transition(
+    timesheet: TimesheetDocument,
+    to: TimesheetStatus,
+    userId: string,
+    options: { comment?: string; set?: Record<string, any> } = {}
+  ): Promise<TimesheetDocument> {
+    const from = timesheet.status;
+    if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+      throw new AppError(`Cannot move a ${from} timesheet to ${to}`, 409);
+    }
+
+    const now = Date.now();
+    const updated = await Timesheet.findOneAndUpdate(
+      { _id: timesheet._id, status: from },
+      {
+        $set: { ...options.set, status: to, updatedAt: now },
+        $push: {
+          history: {
+            from,
+            to,
+            userId,
+            comment: options.comment,
+            timestamp: now,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!updated) {
+      throw new AppError("Timesheet was changed by someone else", 409);
+    }
+    return updated;
+  }
+}
+
+export const timesheetService = new TimesheetService();
+export default timesheetService;
@@ -1,14 +1,23 @@
 /**
  * Webhook Service
- * Handles outgoing webhook requests for automation actions
+ * Handles outgoing webhook requests for automation actions and
+ * organization webhook subscriptions (signed, queued, with a delivery log)
  *
  * SECURITY: Includes SSRF protection to prevent attacks via webhook URLs
  */
 
 import axios from "axios";
+import crypto from "crypto";
 import { URL } from "url";
 import dns from "dns";
 import { promisify } from "util";
+import Webhook, { WebhookEvent } from "../models/Webhook";
+import WebhookDelivery, {
+  WebhookDeliveryDocument,
+} from "../models/WebhookDelivery";
+import config from "../config";
+import logger from "../utils/logger";
+import { jobQueue } from "./jobQueue.service";
 
 const dnsLookup = promisify(dns.lookup);
 
@@ -50,10 +59,13 @@ const BLOCKED_HOSTNAMES = [
   "metadata", // Generic metadata
 ];
 
+// Response bodies are truncated to this length in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
 /**
  * SECURITY: Validate URL to prevent SSRF attacks
  */
-async function validateWebhookUrl(urlString: string): Promise<void> {
+export async function validateWebhookUrl(urlString: string): Promise<void> {
   let parsedUrl: URL;
 
   try {
@@ -148,6 +160,255 @@ export async function sendWebhook(
   }
 }
 
+/**
+ * Generate a random signing secret for a webhook subscription
+ */
+export function generateSecret(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * HMAC-SHA256 signature over `${timestamp}.${body}`, hex encoded
+ */
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Queue a recorded delivery, attempting it inline if the queue is unavailable
+ */
+async function queueDelivery(
+  delivery: WebhookDeliveryDocument,
+  retryCount: number
+): Promise<void> {
+  const deliveryId = delivery._id.toString();
+
+  try {
+    await jobQueue.deliverWebhook(deliveryId, retryCount);
+  } catch (error) {
+    logger.warn(
+      `Failed to queue webhook delivery ${deliveryId}, sending inline`,
+      error
+    );
+    void deliverWebhook(deliveryId, true).catch(() => undefined);
+  }
+}
+
+/**
+ * Record and queue a delivery for every active subscription to an event.
+ * Never throws, so callers can fire events without guarding.
+ */
+export async function dispatchEvent(
+  organizationId: string | undefined,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<number> {
+  if (!organizationId) return 0;
+
+  try {
+    const webhooks = await Webhook.find({
+      organizationId,
+      isActive: true,
+      events: event,
+    });
+
+    for (const webhook of webhooks) {
+      const delivery = await WebhookDelivery.create({
+        organizationId,
+        webhookId: webhook._id.toString(),
+        event,
+        payload: {
+          event,
+          organizationId,
+          occurredAt: new Date().toISOString(),
+          data: JSON.parse(JSON.stringify(data)),
+        },
+      });
+      await queueDelivery(delivery, webhook.retryCount);
+    }
+
+    return webhooks.length;
+  } catch (error) {
+    logger.warn(`Failed to dispatch webhook event ${event}`, error);
+    return 0;
+  }
+}
+
+/**
+ * Dispatch task.updated, plus task.status_changed when the status moved
+ */
+export async function dispatchTaskUpdate(
+  organizationId: string | undefined,
+  task: Record<string, any>,
+  changes: Record<string, { old: any; new: any }>
+): Promise<void> {
+  if (Object.keys(changes).length === 0) return;
+
+  await dispatchEvent(organizationId, "task.updated", { task, changes });
+  if (changes.status) {
+    await dispatchEvent(organizationId, "task.status_changed", {
+      task,
+      from: changes.status.old,
+      to: changes.status.new,
+    });
+  }
+}
+
+/**
+ * Attempt a recorded delivery. Throws on a retryable failure so the queue
+ * backs off and retries; on the final attempt the failure is recorded and
+ * the webhook is disabled after too many consecutive failures.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  isFinalAttempt: boolean
+): Promise<WebhookResponse> {
+  const delivery = await WebhookDelivery.findById(deliveryId);
+  if (!delivery) {
+    return { success: false, error: "Delivery not found" };
+  }
+
+  const webhook = await Webhook.findOne({
+    _id: delivery.webhookId,
+    organizationId: delivery.organizationId,
+  });
+  if (!webhook || !webhook.isActive) {
+    delivery.status = "failed";
+    delivery.error = "Webhook is disabled or was deleted";
+    await delivery.save();
+    return { success: false, error: delivery.error };
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const body = JSON.stringify({ id: deliveryId, ...delivery.payload });
+  const customHeaders =
+    webhook.headers instanceof Map
+      ? Object.fromEntries(webhook.headers)
+      : webhook.headers || {};
+  const headers: Record<string, string> = {
+    ...customHeaders,
+    "Content-Type": "application/json",
+    "User-Agent": "TeamHub-Webhook/1.0",
+    "X-Webhook-Id": deliveryId,
+    "X-Webhook-Event": delivery.event,
+    "X-Webhook-Timestamp": String(timestamp),
+  };
+  if (webhook.secret) {
+    headers["X-Webhook-Signature"] = `sha256=${signPayload(
+      webhook.secret,
+      timestamp,
+      body
+    )}`;
+  }
+
+  const startedAt = Date.now();
+  let result: WebhookResponse;
+  let responseBody: string | undefined;
+
+  try {
+    // SECURITY: Validate URL before every attempt (DNS may have changed)
+    await validateWebhookUrl(webhook.url);
+
+    const response = await axios.post(webhook.url, body, {
+      headers,
+      timeout: 30000,
+      maxRedirects: 0, // SECURITY: Disable redirects to prevent SSRF bypass
+      responseType: "text",
+      validateStatus: () => true,
+    });
+
+    responseBody = String(response.data ?? "").slice(
+      0,
+      MAX_RESPONSE_BODY_LENGTH
+    );
+    result = {
+      success: response.status >= 200 && response.status < 300,
+      statusCode: response.status,
+      error:
+        response.status >= 200 && response.status < 300
+          ? undefined
+          : `Endpoint responded with status ${response.status}`,
+    };
+  } catch (error) {
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  delivery.attempts += 1;
+  delivery.lastAttemptAt = Date.now();
+  delivery.durationMs = Date.now() - startedAt;
+  delivery.responseStatus = result.statusCode;
+  delivery.responseBody = responseBody;
+  delivery.error = result.error;
+
+  webhook.lastTriggeredAt = Date.now();
+  webhook.lastStatus = result.statusCode;
+
+  if (result.success) {
+    delivery.status = "success";
+    delivery.deliveredAt = Date.now();
+    webhook.failureCount = 0;
+  } else if (isFinalAttempt) {
+    delivery.status = "failed";
+    webhook.failureCount += 1;
+
+    const { maxConsecutiveFailures } = config.webhooks;
+    if (webhook.failureCount >= maxConsecutiveFailures) {
+      webhook.isActive = false;
+      webhook.disabledReason = `Disabled after ${webhook.failureCount} consecutive failed deliveries`;
+      logger.warn(`Webhook disabled: ${webhook.name} (${webhook._id})`);
+    }
+  }
+
+  await Promise.all([delivery.save(), webhook.save()]);
+
+  if (!result.success && !isFinalAttempt) {
+    throw new Error(result.error || "Webhook delivery failed");
+  }
+
+  return result;
+}
+
+/**
+ * Queue a new delivery of a previously recorded payload
+ */
+export async function redeliver(
+  deliveryId: string,
+  organizationId: string
+): Promise<WebhookDeliveryDocument | null> {
+  const original = await WebhookDelivery.findOne({
+    _id: deliveryId,
+    organizationId,
+  });
+  if (!original) return null;
+
+  const webhook = await Webhook.findOne({
+    _id: original.webhookId,
+    organizationId,
+  });
+  if (!webhook) return null;
+
+  const delivery = await WebhookDelivery.create({
+    organizationId,
+    webhookId: original.webhookId,
+    event: original.event,
+    payload: original.payload,
+    redeliveryOf: original._id.toString(),
+  });
+  await queueDelivery(delivery, webhook.retryCount);
+
+  return delivery;
+}
+
 /**
  * Send multiple webhooks in parallel
  */
@@ -162,6 +423,13 @@ export async function sendWebhooks(
 export const webhookService = {
   sendWebhook,
   sendWebhooks,
+  validateWebhookUrl,
+  generateSecret,
+  signPayload,
+  dispatchEvent,
+  dispatchTaskUpdate,
+  deliverWebhook,
+  redeliver,
 };
 
 export default webhookService;
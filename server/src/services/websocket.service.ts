@@ -28,6 +28,7 @@ import { Server as HTTPServer } from "http";
 import jwt from "jsonwebtoken";
 import config from "../config";
 import logger from "../utils/logger";
+import { accessPolicyService, commentRoom } from "./accessPolicy.service";
 
 // Types
 interface UserPresence {
@@ -43,8 +44,23 @@ interface UserPresence {
 }
 
 interface BroadcastEvent {
-  type: "task" | "comment" | "member" | "notification" | "presence" | "system";
-  action: "created" | "updated" | "deleted" | "typing" | "viewing" | "assigned";
+  type:
+    | "task"
+    | "comment"
+    | "member"
+    | "notification"
+    | "presence"
+    | "system"
+    | "timer";
+  action:
+    | "created"
+    | "updated"
+    | "deleted"
+    | "typing"
+    | "viewing"
+    | "assigned"
+    | "started"
+    | "stopped";
   payload: Record<string, any>;
   userId: string;
   timestamp: number;
@@ -193,6 +209,7 @@ class ScalableWebSocketService {
         // Attach user data to socket
         socket.data.user = {
           id: decoded.userId,
+          organizationId: decoded.organizationId,
           email: decoded.email,
           name: decoded.name || decoded.email.split("@")[0],
           role: decoded.role,
@@ -237,8 +254,10 @@ class ScalableWebSocketService {
         connectedAt: Date.now(),
       });
 
-      // Join user's personal room (for direct messages)
+      // Join user's personal room (for direct messages) and their
+      // organization's room
       socket.join(`user:${user.id}`);
+      socket.join(`team:${user.organizationId}`);
 
       // Broadcast presence update to all instances
       await this.broadcastPresenceUpdate();
@@ -271,10 +290,12 @@ class ScalableWebSocketService {
       const roomList = Array.isArray(rooms) ? rooms : [rooms];
 
       for (const room of roomList) {
-        // Validate room access (implement your authorization logic)
+        // Same task and comment visibility as the REST API
         if (await this.canAccessRoom(user, room)) {
           socket.join(room);
           logger.debug(`${user.email} subscribed to ${room}`);
+        } else {
+          logger.debug(`${user.email} denied subscription to ${room}`);
         }
       }
     });
@@ -284,8 +305,9 @@ class ScalableWebSocketService {
       roomList.forEach((room) => socket.leave(room));
     });
 
-    // Typing indicators
+    // Typing indicators, only in rooms the socket has joined
     socket.on("typing:start", async (data: { room: string }) => {
+      if (!socket.rooms.has(data.room)) return;
       socket.to(data.room).emit("user:typing", {
         userId: user.id,
         userName: user.name,
@@ -295,6 +317,7 @@ class ScalableWebSocketService {
     });
 
     socket.on("typing:stop", (data: { room: string }) => {
+      if (!socket.rooms.has(data.room)) return;
       socket.to(data.room).emit("user:stopped-typing", {
         userId: user.id,
         room: data.room,
@@ -313,8 +336,9 @@ class ScalableWebSocketService {
         });
 
         // Notify others viewing the same resource
-        if (data.resourceId) {
-          socket.to(`${data.view}:${data.resourceId}`).emit("user:viewing", {
+        const room = `${data.view}:${data.resourceId}`;
+        if (data.resourceId && socket.rooms.has(room)) {
+          socket.to(room).emit("user:viewing", {
             userId: user.id,
             userName: user.name,
             view: data.view,
@@ -511,7 +535,7 @@ class ScalableWebSocketService {
   }
 
   async notifyCommentAdded(comment: any, actorId: string): Promise<void> {
-    const room = `${comment.contextType}:${comment.contextId}`;
+    const room = commentRoom(comment);
 
     await this.broadcastToRoom(room, "comment:added", {
       type: "comment",
@@ -555,31 +579,43 @@ class ScalableWebSocketService {
     });
   }
 
+  /**
+   * Keep a user's running timer in sync across their open tabs
+   */
+  async notifyTimerUpdate(
+    userId: string,
+    action: "started" | "stopped" | "updated" | "deleted",
+    timeEntry: any
+  ): Promise<void> {
+    const event: BroadcastEvent = {
+      type: "timer",
+      action,
+      payload: { timeEntry },
+      userId,
+      timestamp: Date.now(),
+    };
+
+    await this.broadcastToUser(userId, "timer:update", event);
+  }
+
   /**
    * Room access control
    */
   private async canAccessRoom(user: any, room: string): Promise<boolean> {
-    // Implement your authorization logic here
-    // For now, allow all authenticated users
-    // In production, check if user has access to the resource
-
-    const [type, id] = room.split(":");
-
-    switch (type) {
-      case "task":
-        // Check if user can access this task
-        return true; // Implement actual check
-      case "project":
-        // Check project membership
-        return true;
-      case "team":
-        // Check team membership
-        return true;
-      case "user":
-        // Only allow access to own user room
-        return id === user.id;
-      default:
-        return true;
+    try {
+      return await accessPolicyService.canAccessRoom(
+        {
+          userId: user.id,
+          organizationId: user.organizationId,
+          accessLevel: user.accessLevel,
+        },
+        room
+      );
+    } catch (error) {
+      logger.warn(`Room access check failed for ${room}`, {
+        error: (error as Error).message,
+      });
+      return false;
     }
   }
 
@@ -18,7 +18,8 @@ export type Permission =
   | "manage_workflows"
   | "manage_roadmap"
   | "view_analytics"
-  | "export_data";
+  | "export_data"
+  | "view_audit_logs";
 
 // Team member roles
 export type TeamRole = "architect" | "developer" | "devops" | "product";
@@ -108,6 +109,12 @@ export interface IOrganization {
     maxApiCalls: number;
     features: string[];
   };
+  usage: {
+    attachmentBytes: number;
+    backupBytes: number;
+    reconciledAt?: Date;
+    apiCallHistory: { period: string; calls: number }[];
+  };
   settings: {
     defaultTimezone: string;
     defaultLanguage: string;
@@ -135,7 +142,12 @@ export interface ITeamMember {
   role: TeamRole;
   accessLevel: AccessLevel;
   customPermissions?: Permission[];
+  deniedPermissions?: Permission[];
+  // Custom role whose permissions replace those of the access level
+  customRoleId?: string | null;
   avatarUrl?: string;
+  // Billed when a time entry has no hourlyRate of its own
+  defaultHourlyRate?: number | null;
   isOnline: boolean;
   lastSeen?: Date;
   createdAt: Date;
@@ -177,6 +189,19 @@ export interface ITask {
   tags: string[];
   comments: string[];
   dependencies?: string[];
+  // dueDate values for which due-soon / overdue automations already fired
+  dueDateTriggers?: {
+    dueSoon?: number | null;
+    overdue?: number | null;
+  };
+  parentTaskId?: string | null;
+  estimatedHours?: number | null;
+  // Set on tasks materialised from a recurring task
+  recurringTaskId?: string | null;
+  occurrenceAt?: number | null;
+  // Private tasks are visible only to their creator, assignee and watchers
+  isPrivate?: boolean;
+  watchers?: string[];
 }
 
 // Activity interface
@@ -198,6 +223,7 @@ export interface IBackup {
   organizationId: string; // Added for multi-tenancy
   timestamp: number;
   data: string;
+  size: number; // bytes of data
   userId: string;
   type: "manual" | "automatic";
 }
@@ -0,0 +1,410 @@
+import { Comment, Task } from "../../src/models";
+import { permissionService } from "../../src/services/permission.service";
+import {
+  AccessSubject,
+  TaskAccessFields,
+  accessPolicyService,
+  canAssignTask,
+  canCreateComment,
+  canDeleteComment,
+  canDeleteTask,
+  canEditComment,
+  canEditTask,
+  canResolveComment,
+  canViewComment,
+  canViewTask,
+  commentRoom,
+} from "../../src/services/accessPolicy.service";
+import { Permission } from "../../src/types";
+
+jest.mock("../../src/models", () => ({
+  Task: { find: jest.fn(), findOne: jest.fn() },
+  Comment: { find: jest.fn() },
+}));
+jest.mock("../../src/services/permission.service", () => ({
+  permissionService: { getEffective: jest.fn() },
+}));
+jest.mock("../../src/middleware", () => ({
+  AppError: class AppError extends Error {
+    constructor(message: string, public statusCode: number) {
+      super(message);
+    }
+  },
+}));
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  "create_tasks",
+  "assign_tasks",
+  "create_comments",
+];
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  "edit_all_tasks",
+  "delete_tasks",
+  "delete_comments",
+];
+
+const subject = (
+  permissions: Permission[],
+  userId = "user-1"
+): AccessSubject => ({ userId, organizationId: "org-1", permissions });
+
+const member = subject(MEMBER_PERMISSIONS);
+const admin = subject(ADMIN_PERMISSIONS);
+const viewer = subject(["create_comments"]);
+
+const task = (fields: Partial<TaskAccessFields> = {}): TaskAccessFields => ({
+  organizationId: "org-1",
+  creatorId: "user-2",
+  assigneeId: undefined,
+  isPrivate: false,
+  watchers: [],
+  ...fields,
+});
+
+// Task.find/findOne(...).select(...).lean() resolving to the given result
+const mockQuery = (result: unknown) => ({
+  select: () => ({ lean: () => Promise.resolve(result) }),
+});
+
+describe("task rules", () => {
+  describe("canViewTask", () => {
+    it("allows public tasks of the organization", () => {
+      expect(canViewTask(viewer, task())).toBe(true);
+    });
+
+    it("denies tasks of another organization", () => {
+      expect(canViewTask(admin, task({ organizationId: "org-2" }))).toBe(false);
+    });
+
+    it("allows private tasks to their creator, assignee and watchers", () => {
+      expect(
+        canViewTask(member, task({ isPrivate: true, creatorId: "user-1" }))
+      ).toBe(true);
+      expect(
+        canViewTask(member, task({ isPrivate: true, assigneeId: "user-1" }))
+      ).toBe(true);
+      expect(
+        canViewTask(member, task({ isPrivate: true, watchers: ["user-1"] }))
+      ).toBe(true);
+    });
+
+    it("denies private tasks to everyone else, admins included", () => {
+      expect(canViewTask(admin, task({ isPrivate: true }))).toBe(false);
+    });
+  });
+
+  describe("canEditTask", () => {
+    it("allows members to edit tasks they created or are assigned to", () => {
+      expect(canEditTask(member, task({ creatorId: "user-1" }))).toBe(true);
+      expect(canEditTask(member, task({ assigneeId: "user-1" }))).toBe(true);
+    });
+
+    it("denies members other people's tasks", () => {
+      expect(canEditTask(member, task())).toBe(false);
+      expect(canEditTask(member, task({ watchers: ["user-1"] }))).toBe(false);
+    });
+
+    it("allows edit_all_tasks on any visible task", () => {
+      expect(canEditTask(admin, task())).toBe(true);
+      expect(canEditTask(admin, task({ isPrivate: true }))).toBe(false);
+    });
+
+    it("denies read-only members, even on their own tasks", () => {
+      expect(canEditTask(viewer, task({ creatorId: "user-1" }))).toBe(false);
+    });
+  });
+
+  describe("canDeleteTask", () => {
+    it("allows delete_tasks on visible tasks", () => {
+      expect(canDeleteTask(admin, task())).toBe(true);
+    });
+
+    it("denies without delete_tasks or when the task is hidden", () => {
+      expect(canDeleteTask(member, task({ creatorId: "user-1" }))).toBe(false);
+      expect(canDeleteTask(admin, task({ organizationId: "org-2" }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe("canAssignTask", () => {
+    it("allows assign_tasks on tasks the member can edit", () => {
+      expect(canAssignTask(member, task({ creatorId: "user-1" }))).toBe(true);
+    });
+
+    it("allows edit_all_tasks without assign_tasks", () => {
+      const editor = subject(["create_tasks", "edit_all_tasks"]);
+      expect(canAssignTask(editor, task())).toBe(true);
+    });
+
+    it("denies tasks the member cannot edit", () => {
+      expect(canAssignTask(member, task())).toBe(false);
+    });
+
+    it("denies without assign_tasks or edit_all_tasks", () => {
+      const creator = subject(["create_tasks"]);
+      expect(canAssignTask(creator, task({ creatorId: "user-1" }))).toBe(false);
+    });
+  });
+});
+
+describe("comment rules", () => {
+  const own = { authorId: "user-1" };
+  const other = { authorId: "user-2" };
+
+  it("shows comments without a task or on a visible task", () => {
+    expect(canViewComment(viewer, null)).toBe(true);
+    expect(canViewComment(viewer, task())).toBe(true);
+  });
+
+  it("hides comments on tasks the member cannot see", () => {
+    expect(canViewComment(admin, task({ isPrivate: true }))).toBe(false);
+  });
+
+  it("allows create_comments on visible contexts", () => {
+    expect(canCreateComment(viewer, task())).toBe(true);
+    expect(canCreateComment(subject([]), task())).toBe(false);
+    expect(canCreateComment(viewer, task({ isPrivate: true }))).toBe(false);
+  });
+
+  it("allows authors to edit only their own comments", () => {
+    expect(canEditComment(member, own, null)).toBe(true);
+    expect(canEditComment(admin, other, null)).toBe(false);
+    expect(canEditComment(member, own, task({ isPrivate: true }))).toBe(false);
+  });
+
+  it("allows authors and delete_comments to delete", () => {
+    expect(canDeleteComment(member, own, null)).toBe(true);
+    expect(canDeleteComment(admin, other, null)).toBe(true);
+    expect(canDeleteComment(member, other, null)).toBe(false);
+  });
+
+  it("allows whoever can edit the task to resolve", () => {
+    expect(
+      canResolveComment(member, other, task({ creatorId: "user-1" }))
+    ).toBe(true);
+    expect(canResolveComment(member, own, null)).toBe(true);
+    expect(canResolveComment(member, other, task())).toBe(false);
+    expect(canResolveComment(member, other, null)).toBe(false);
+  });
+});
+
+describe("AccessPolicyService", () => {
+  const findOne = Task.findOne as jest.Mock;
+  const find = Task.find as jest.Mock;
+  const user = {
+    userId: "user-1",
+    organizationId: "org-1",
+    accessLevel: "member" as const,
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (permissionService.getEffective as jest.Mock).mockResolvedValue({
+      permissions: MEMBER_PERMISSIONS,
+    });
+  });
+
+  describe("assertTask", () => {
+    it("reports hidden tasks as not found", () => {
+      expect(() =>
+        accessPolicyService.assertTask(
+          member,
+          task({ isPrivate: true }),
+          "view"
+        )
+      ).toThrow(expect.objectContaining({ statusCode: 404 }));
+    });
+
+    it("rejects visible tasks the member may not change", () => {
+      expect(() =>
+        accessPolicyService.assertTask(member, task(), "edit")
+      ).toThrow(expect.objectContaining({ statusCode: 403 }));
+    });
+
+    it("passes when the action is allowed", () => {
+      expect(() =>
+        accessPolicyService.assertTask(member, task(), "view")
+      ).not.toThrow();
+    });
+  });
+
+  describe("taskVisibilityFilter", () => {
+    it("matches public tasks and the member's private tasks", () => {
+      expect(accessPolicyService.taskVisibilityFilter(member)).toEqual({
+        $or: [
+          { isPrivate: { $ne: true } },
+          { creatorId: "user-1" },
+          { assigneeId: "user-1" },
+          { watchers: "user-1" },
+        ],
+      });
+    });
+  });
+
+  describe("commentVisibilityFilter", () => {
+    it("excludes comments on hidden private tasks", async () => {
+      find.mockReturnValue(
+        mockQuery([
+          { _id: "task-1", comments: ["comment-1"] },
+          { _id: "task-2", comments: [] },
+        ])
+      );
+
+      await expect(
+        accessPolicyService.commentVisibilityFilter(member)
+      ).resolves.toEqual({
+        contextId: { $nin: ["task-1", "task-2"] },
+        _id: { $nin: ["comment-1"] },
+      });
+      expect(find).toHaveBeenCalledWith({
+        organizationId: "org-1",
+        isPrivate: true,
+        creatorId: { $ne: "user-1" },
+        assigneeId: { $ne: "user-1" },
+        watchers: { $ne: "user-1" },
+      });
+    });
+
+    it("adds no conditions when nothing is hidden", async () => {
+      find.mockReturnValue(mockQuery([]));
+
+      await expect(
+        accessPolicyService.commentVisibilityFilter(member)
+      ).resolves.toEqual({});
+    });
+  });
+
+  describe("attachmentVisibilityFilter", () => {
+    it("excludes attachments of hidden tasks and their comments", async () => {
+      find.mockReturnValue(
+        mockQuery([{ _id: "task-1", comments: ["comment-1"] }])
+      );
+      (Comment.find as jest.Mock).mockReturnValue(
+        mockQuery([{ _id: "comment-2" }])
+      );
+
+      await expect(
+        accessPolicyService.attachmentVisibilityFilter(member)
+      ).resolves.toEqual({
+        taskId: { $nin: ["task-1"] },
+        commentId: { $nin: ["comment-1", "comment-2"] },
+      });
+      expect(Comment.find).toHaveBeenCalledWith({
+        organizationId: "org-1",
+        contextId: { $in: ["task-1"] },
+      });
+    });
+
+    it("adds no conditions when nothing is hidden", async () => {
+      find.mockReturnValue(mockQuery([]));
+
+      await expect(
+        accessPolicyService.attachmentVisibilityFilter(member)
+      ).resolves.toEqual({});
+      expect(Comment.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("canAccessRoom", () => {
+    const taskId = "64b7f0c2a1b2c3d4e5f60718";
+
+    it("allows only the user's own user room", async () => {
+      await expect(
+        accessPolicyService.canAccessRoom(user, "user:user-1")
+      ).resolves.toBe(true);
+      await expect(
+        accessPolicyService.canAccessRoom(user, "user:user-2")
+      ).resolves.toBe(false);
+    });
+
+    it("allows only the user's own organization room", async () => {
+      await expect(
+        accessPolicyService.canAccessRoom(user, "team:org-1")
+      ).resolves.toBe(true);
+      await expect(
+        accessPolicyService.canAccessRoom(user, "team:org-2")
+      ).resolves.toBe(false);
+    });
+
+    it("allows task rooms of visible tasks", async () => {
+      findOne.mockReturnValue(mockQuery(task()));
+
+      await expect(
+        accessPolicyService.canAccessRoom(user, `task:${taskId}`)
+      ).resolves.toBe(true);
+      expect(findOne).toHaveBeenCalledWith({
+        _id: taskId,
+        organizationId: "org-1",
+      });
+    });
+
+    it("denies task rooms of hidden, missing or invalid tasks", async () => {
+      findOne.mockReturnValueOnce(mockQuery(task({ isPrivate: true })));
+      await expect(
+        accessPolicyService.canAccessRoom(user, `task:${taskId}`)
+      ).resolves.toBe(false);
+
+      findOne.mockReturnValueOnce(mockQuery(null));
+      await expect(
+        accessPolicyService.canAccessRoom(user, `task:${taskId}`)
+      ).resolves.toBe(false);
+
+      await expect(
+        accessPolicyService.canAccessRoom(user, "task:not-an-id")
+      ).resolves.toBe(false);
+    });
+
+    it("allows comment rooms of the user's organization", async () => {
+      findOne.mockReturnValue(mockQuery(null));
+      const room = commentRoom({
+        organizationId: "org-1",
+        contextType: "general",
+        contextId: "general",
+      });
+
+      await expect(accessPolicyService.canAccessRoom(user, room)).resolves.toBe(
+        true
+      );
+    });
+
+    it("denies comment rooms of another organization", async () => {
+      const room = commentRoom({
+        organizationId: "org-2",
+        contextType: "general",
+        contextId: "general",
+      });
+
+      await expect(accessPolicyService.canAccessRoom(user, room)).resolves.toBe(
+        false
+      );
+      expect(findOne).not.toHaveBeenCalled();
+    });
+
+    it("denies comment rooms of hidden tasks", async () => {
+      findOne.mockReturnValue(mockQuery(task({ isPrivate: true })));
+      const room = commentRoom({
+        organizationId: "org-1",
+        contextType: "service",
+        contextId: taskId,
+      });
+
+      await expect(accessPolicyService.canAccessRoom(user, room)).resolves.toBe(
+        false
+      );
+    });
+
+    it("denies unknown and malformed rooms", async () => {
+      await expect(
+        accessPolicyService.canAccessRoom(user, "project:org-1")
+      ).resolves.toBe(false);
+      await expect(
+        accessPolicyService.canAccessRoom(user, "general:org-1")
+      ).resolves.toBe(false);
+      await expect(
+        accessPolicyService.canAccessRoom(user, "user")
+      ).resolves.toBe(false);
+    });
+  });
+});
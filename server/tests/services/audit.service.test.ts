@@ -0,0 +1,244 @@
+import mongoose, { Types } from "mongoose";
+import {
+  AuditAction,
+  AuditCheckpoint,
+  AuditLog,
+  SecurityAlert,
+  auditService,
+} from "../../src/services/audit.service";
+
+jest.mock("../../src/utils/logger", () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), error: jest.fn() },
+}));
+
+const organizationId = new Types.ObjectId();
+const actorId = new Types.ObjectId();
+
+// Chained entries as stored in the database
+let stored: Record<string, any>[];
+let checkpoints: Record<string, any>[];
+
+// What a read returns: a BSON round trip, as the driver does
+const reread = (doc: Record<string, any>): Record<string, any> =>
+  mongoose.mongo.BSON.deserialize(mongoose.mongo.BSON.serialize(doc));
+
+// Chainable query stub resolving to the given result
+const query = (result: unknown) => {
+  const chain: any = {
+    sort: () => chain,
+    select: () => chain,
+    lean: () => chain,
+    cursor: () => result,
+    then: (resolve: any, reject: any) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  return chain;
+};
+
+const logUpdate = (description: string) =>
+  auditService.log({
+    action: AuditAction.TASK_UPDATED,
+    organizationId: organizationId.toString(),
+    actorId: actorId.toString(),
+    actorEmail: "sarah@example.com",
+    actorName: "Sarah",
+    entityType: "task",
+    entityId: new Types.ObjectId().toString(),
+    entityName: description,
+    // Mixed: key order, dates and ids must not change the hash
+    changes: [
+      { field: "dueDate", oldValue: null, newValue: new Date(2026, 0, 31) },
+      { field: "assigneeId", oldValue: actorId, newValue: { id: actorId } },
+    ],
+    metadata: { source: "api", nested: { b: 2, a: 1 } },
+  });
+
+beforeEach(() => {
+  stored = [];
+  checkpoints = [];
+
+  jest
+    .spyOn(AuditLog.prototype, "save")
+    .mockImplementation(function (this: any) {
+      stored.push(reread(this.toObject()));
+      return Promise.resolve(this);
+    });
+  jest
+    .spyOn(AuditLog, "findOne")
+    .mockImplementation(() => query(stored[stored.length - 1] || null));
+  jest
+    .spyOn(AuditLog, "find")
+    .mockImplementation(((filter: any) =>
+      query(stored.filter((e) => e.sequence > filter.sequence.$gt))) as never);
+  jest.spyOn(AuditLog, "countDocuments").mockResolvedValue(0 as never);
+  jest.spyOn(AuditCheckpoint, "findOne").mockImplementation(() => query(null));
+  jest
+    .spyOn(AuditCheckpoint, "find")
+    .mockImplementation(() => query(checkpoints));
+  jest
+    .spyOn(AuditCheckpoint.prototype, "save")
+    .mockImplementation(function (this: any) {
+      checkpoints.push(reread(this.toObject()));
+      return Promise.resolve(this);
+    });
+  jest.spyOn(SecurityAlert, "exists").mockResolvedValue({ _id: 1 } as never);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const logEntries = async (count: number) => {
+  for (let i = 1; i <= count; i++) {
+    await logUpdate(`Task ${i}`);
+  }
+};
+
+describe("auditService hash chain", () => {
+  it("links entries to the hash of the one before", async () => {
+    await logEntries(3);
+
+    expect(stored.map((e) => e.sequence)).toEqual([1, 2, 3]);
+    expect(stored[0].previousHash).toBe("0".repeat(64));
+    expect(stored[1].previousHash).toBe(stored[0].hash);
+    expect(stored[2].previousHash).toBe(stored[1].hash);
+  });
+
+  it("verifies re-read entries with dates, ObjectIds and mixed changes", async () => {
+    await logEntries(3);
+
+    expect(stored[0].timestamp).toBeInstanceOf(Date);
+    expect(stored[0].actorId).toBeInstanceOf(Types.ObjectId);
+    expect(stored[0].changes[0].newValue).toBeInstanceOf(Date);
+
+    const result = await auditService.verifyChain(organizationId.toString());
+
+    expect(result).toMatchObject({
+      valid: true,
+      checked: 3,
+      anchorSequence: 0,
+      lastSequence: 3,
+    });
+  });
+
+  it("reports the first entry whose content was edited", async () => {
+    await logEntries(4);
+    stored[1].changes[0].newValue = new Date(2026, 1, 28);
+
+    const result = await auditService.verifyChain(organizationId.toString());
+
+    expect(result.valid).toBe(false);
+    expect(result.checked).toBe(1);
+    expect(result.brokenAt).toEqual({
+      sequence: 2,
+      entryId: stored[1]._id.toString(),
+      reason: "Entry content does not match its hash",
+    });
+  });
+
+  it("reports an edited entry whose hash was replaced", async () => {
+    await logEntries(3);
+    stored[0].description = "Nothing happened";
+    stored[0].hash = "f".repeat(64);
+
+    const result = await auditService.verifyChain(organizationId.toString());
+
+    expect(result.brokenAt).toMatchObject({
+      sequence: 1,
+      reason: "Entry content does not match its hash",
+    });
+  });
+
+  it("reports deleted entries as a gap", async () => {
+    await logEntries(4);
+    stored.splice(1, 2);
+
+    const result = await auditService.verifyChain(organizationId.toString());
+
+    expect(result.brokenAt).toMatchObject({
+      sequence: 2,
+      reason: "Entries 2 to 3 are missing",
+    });
+  });
+
+  describe("after pruning", () => {
+    // Delete the first two entries the way retention does
+    const prune = async () => {
+      jest
+        .spyOn(AuditLog, "distinct")
+        .mockResolvedValue([organizationId] as never);
+      jest
+        .spyOn(AuditLog, "findOne")
+        .mockReturnValueOnce(query(stored[2]))
+        .mockReturnValueOnce(query(stored[1]));
+      jest.spyOn(AuditLog, "deleteMany").mockImplementation((() => {
+        stored.splice(0, 2);
+        return Promise.resolve({ deletedCount: 2 });
+      }) as never);
+
+      await auditService.deleteArchivedLogs();
+    };
+
+    it("verifies from the prune checkpoint", async () => {
+      await logEntries(4);
+      await prune();
+
+      expect(checkpoints).toHaveLength(1);
+      expect(checkpoints[0]).toMatchObject({ kind: "prune", sequence: 2 });
+
+      const result = await auditService.verifyChain(organizationId.toString());
+
+      expect(result).toMatchObject({
+        valid: true,
+        checked: 2,
+        anchorSequence: 2,
+        lastSequence: 4,
+      });
+    });
+
+    it("rejects a checkpoint with a forged hash", async () => {
+      await logEntries(4);
+      await prune();
+      checkpoints[0].hash = "a".repeat(64);
+
+      const result = await auditService.verifyChain(organizationId.toString());
+
+      expect(result.brokenAt).toMatchObject({
+        sequence: 2,
+        reason: "The prune checkpoint signature is invalid",
+      });
+    });
+
+    it("continues the chain from the checkpoint once every entry is gone", async () => {
+      await logEntries(2);
+      jest
+        .spyOn(AuditLog, "distinct")
+        .mockResolvedValue([organizationId] as never);
+      jest
+        .spyOn(AuditLog, "findOne")
+        .mockReturnValueOnce(query(null))
+        .mockReturnValueOnce(query(stored[1]));
+      jest.spyOn(AuditLog, "deleteMany").mockImplementation((() => {
+        stored.splice(0, 2);
+        return Promise.resolve({ deletedCount: 2 });
+      }) as never);
+      await auditService.deleteArchivedLogs();
+
+      jest
+        .spyOn(AuditLog, "findOne")
+        .mockImplementation(() => query(stored[stored.length - 1] || null));
+      jest
+        .spyOn(AuditCheckpoint, "findOne")
+        .mockImplementation(() => query(checkpoints[0]));
+      await logUpdate("Task 3");
+
+      expect(stored[0]).toMatchObject({
+        sequence: 3,
+        previousHash: checkpoints[0].hash,
+      });
+      const result = await auditService.verifyChain(organizationId.toString());
+      expect(result).toMatchObject({ valid: true, checked: 1 });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  AutomationContext,
+  automationService,
+  getChanges,
+} from "../../src/services/automation.service";
+import {
+  AutomationConditionNode,
+  AutomationRuleDocument,
+} from "../../src/models/AutomationRule";
+
+jest.mock("../../src/services/webhook.service.js", () => ({}), {
+  virtual: true,
+});
+jest.mock("../../src/services/jobQueue.service", () => ({}));
+jest.mock("../../src/services/rateLimit.service", () => ({}));
+jest.mock("../../src/services/websocket.service", () => ({}));
+jest.mock("../../src/services/cache.service", () => ({}));
+jest.mock("../../src/services/taskTemplate.service", () => ({}));
+jest.mock("../../src/services/planLimits.service", () => ({}));
+jest.mock("../../src/utils/logger", () => ({}));
+
+const evaluate = (
+  conditions: AutomationConditionNode[],
+  context: AutomationContext
+) =>
+  automationService.dryRun(
+    { conditions, actions: [] } as unknown as AutomationRuleDocument,
+    context
+  );
+
+const task = {
+  title: "Fix login redirect",
+  status: "review",
+  priority: "high",
+  assigneeId: "user-2",
+  tags: ["bug", "auth"],
+};
+const context: AutomationContext = {
+  task,
+  previousTask: { ...task, status: "in-progress", assigneeId: null },
+};
+
+describe("automation conditions", () => {
+  describe("groups", () => {
+    const isHigh: AutomationConditionNode = {
+      field: "task.priority",
+      operator: "equals",
+      value: "high",
+    };
+    const isCritical: AutomationConditionNode = {
+      field: "task.priority",
+      operator: "equals",
+      value: "critical",
+    };
+    const isBug: AutomationConditionNode = {
+      field: "task.tags",
+      operator: "in",
+      value: ["bug"],
+    };
+
+    it("ANDs top-level conditions", () => {
+      expect(evaluate([isHigh, isBug], context).matched).toBe(true);
+      expect(evaluate([isCritical, isBug], context).matched).toBe(false);
+    });
+
+    it("matches an empty rule", () => {
+      expect(evaluate([], context).matched).toBe(true);
+    });
+
+    it("matches an OR group when any child matches", () => {
+      const result = evaluate(
+        [{ group: "or", conditions: [isCritical, isHigh] }],
+        context
+      );
+
+      expect(result.matched).toBe(true);
+      expect(result.conditions[0]).toEqual({
+        group: "or",
+        matched: true,
+        results: [
+          expect.objectContaining({ operator: "equals", matched: false }),
+          expect.objectContaining({ actual: "high", matched: true }),
+        ],
+      });
+    });
+
+    it("fails an OR group when no child matches", () => {
+      expect(
+        evaluate([{ group: "or", conditions: [isCritical] }], context).matched
+      ).toBe(false);
+    });
+
+    it("negates a NOT group when all of its children match", () => {
+      expect(
+        evaluate([{ group: "not", conditions: [isHigh, isBug] }], context)
+          .matched
+      ).toBe(false);
+      expect(
+        evaluate([{ group: "not", conditions: [isHigh, isCritical] }], context)
+          .matched
+      ).toBe(true);
+    });
+
+    it("evaluates nested groups", () => {
+      // high priority bug, or critical without the auth tag
+      const conditions: AutomationConditionNode[] = [
+        {
+          group: "or",
+          conditions: [
+            { group: "and", conditions: [isHigh, isBug] },
+            {
+              group: "and",
+              conditions: [
+                isCritical,
+                {
+                  group: "not",
+                  conditions: [
+                    { field: "task.tags", operator: "in", value: ["auth"] },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ];
+
+      expect(evaluate(conditions, context).matched).toBe(true);
+      expect(
+        evaluate(conditions, {
+          task: { ...task, priority: "critical" },
+        }).matched
+      ).toBe(false);
+      expect(
+        evaluate(conditions, {
+          task: { ...task, priority: "critical", tags: [] },
+        }).matched
+      ).toBe(true);
+    });
+
+    it("returns no actions when the conditions fail", () => {
+      const result = automationService.dryRun(
+        {
+          conditions: [isCritical],
+          actions: [{ type: "add_comment", config: {} }],
+        } as unknown as AutomationRuleDocument,
+        context
+      );
+
+      expect(result.actions).toEqual([]);
+    });
+  });
+
+  describe("change operators", () => {
+    it("detects changes by comparing previousTask with task", () => {
+      const result = evaluate(
+        [{ field: "task.status", operator: "changed", value: null }],
+        context
+      );
+
+      expect(result.matched).toBe(true);
+      expect(result.conditions[0].actual).toEqual({
+        old: "in-progress",
+        new: "review",
+      });
+    });
+
+    it("does not match fields that did not change", () => {
+      expect(
+        evaluate(
+          [{ field: "task.priority", operator: "changed", value: null }],
+          context
+        ).matched
+      ).toBe(false);
+    });
+
+    it("matches changed_to and changed_from on the new and old values", () => {
+      const changedTo = (value: string) =>
+        evaluate([{ field: "status", operator: "changed_to", value }], context)
+          .matched;
+      const changedFrom = (value: string) =>
+        evaluate(
+          [{ field: "status", operator: "changed_from", value }],
+          context
+        ).matched;
+
+      expect(changedTo("review")).toBe(true);
+      expect(changedTo("in-progress")).toBe(false);
+      expect(changedFrom("in-progress")).toBe(true);
+      expect(changedFrom("review")).toBe(false);
+    });
+
+    it("treats a field set from nothing as changed from null", () => {
+      expect(
+        evaluate(
+          [{ field: "task.assigneeId", operator: "changed_from", value: null }],
+          context
+        ).matched
+      ).toBe(true);
+    });
+
+    it("prefers the changes in the context", () => {
+      const result = evaluate(
+        [{ field: "task.status", operator: "changed_to", value: "done" }],
+        { ...context, changes: { status: { old: "review", new: "done" } } }
+      );
+
+      expect(result.matched).toBe(true);
+    });
+
+    it("does not match without a previous state", () => {
+      expect(
+        evaluate([{ field: "task.status", operator: "changed", value: null }], {
+          task,
+        }).matched
+      ).toBe(false);
+    });
+
+    it("compares array fields by value", () => {
+      const unchanged = evaluate(
+        [{ field: "task.tags", operator: "changed", value: null }],
+        { task, previousTask: { ...task, tags: ["bug", "auth"] } }
+      );
+      const reordered = evaluate(
+        [{ field: "task.tags", operator: "changed", value: null }],
+        { task, previousTask: { ...task, tags: ["auth", "bug"] } }
+      );
+
+      expect(unchanged.matched).toBe(false);
+      expect(reordered.matched).toBe(true);
+    });
+  });
+});
+
+describe("getChanges", () => {
+  it("lists only the tracked fields that changed", () => {
+    expect(
+      getChanges(
+        { status: "todo", priority: "low", tags: ["a"], title: "Old" },
+        { status: "done", priority: "low", tags: ["a"], title: "New" },
+        ["status", "priority", "tags"]
+      )
+    ).toEqual({ status: { old: "todo", new: "done" } });
+  });
+
+  it("treats missing values as null", () => {
+    expect(
+      getChanges({}, { assigneeId: "user-1", dueDate: undefined }, [
+        "assigneeId",
+        "dueDate",
+      ])
+    ).toEqual({ assigneeId: { old: null, new: "user-1" } });
+  });
+});
@@ -0,0 +1,228 @@
+import { getNextOccurrence } from "../../src/services/recurringTask.service";
+import { IRecurringTask } from "../../src/models/RecurringTask";
+
+jest.mock("../../src/models/RecurringTask", () => ({}));
+jest.mock("../../src/models/Task", () => ({}));
+jest.mock("../../src/middleware", () => ({}));
+jest.mock("../../src/utils/logger", () => ({}));
+jest.mock("../../src/services/automation.service", () => ({}));
+jest.mock("../../src/services/webhook.service", () => ({}));
+jest.mock("../../src/services/cache.service", () => ({}));
+jest.mock("../../src/services/websocket.service", () => ({}));
+jest.mock("../../src/services/planLimits.service", () => ({}));
+
+type Recurrence = IRecurringTask["recurrence"];
+
+const at = (iso: string) => new Date(iso).getTime();
+
+const rule = (
+  startDate: string,
+  fields: Partial<Recurrence> = {}
+): Recurrence => ({
+  frequency: "daily",
+  interval: 1,
+  startDate: at(startDate),
+  timezone: "UTC",
+  ...fields,
+});
+
+// The first `count` occurrences, as ISO strings
+const occurrences = (recurrence: Recurrence, count: number) => {
+  const result: string[] = [];
+  let after = recurrence.startDate - 1;
+  while (result.length < count) {
+    const next = getNextOccurrence(recurrence, after);
+    if (next === null) break;
+    result.push(new Date(next).toISOString());
+    after = next;
+  }
+  return result;
+};
+
+describe("getNextOccurrence", () => {
+  describe("month-end", () => {
+    it("falls on the last day of months shorter than the start day", () => {
+      const recurrence = rule("2026-01-31T09:00:00Z", {
+        frequency: "monthly",
+      });
+
+      expect(occurrences(recurrence, 4)).toEqual([
+        "2026-01-31T09:00:00.000Z",
+        "2026-02-28T09:00:00.000Z",
+        "2026-03-31T09:00:00.000Z",
+        "2026-04-30T09:00:00.000Z",
+      ]);
+    });
+
+    it("uses February 29 in leap years", () => {
+      const recurrence = rule("2028-01-31T09:00:00Z", {
+        frequency: "monthly",
+      });
+
+      expect(occurrences(recurrence, 2)[1]).toBe("2028-02-29T09:00:00.000Z");
+    });
+
+    it("keeps dayOfMonth 31 across quarters", () => {
+      const recurrence = rule("2026-01-15T09:00:00Z", {
+        frequency: "quarterly",
+        dayOfMonth: 31,
+      });
+
+      expect(occurrences(recurrence, 4)).toEqual([
+        "2026-01-31T09:00:00.000Z",
+        "2026-04-30T09:00:00.000Z",
+        "2026-07-31T09:00:00.000Z",
+        "2026-10-31T09:00:00.000Z",
+      ]);
+    });
+
+    it("moves a yearly February 29 to February 28 outside leap years", () => {
+      const recurrence = rule("2028-02-29T09:00:00Z", { frequency: "yearly" });
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2028-02-29T09:00:00.000Z",
+        "2029-02-28T09:00:00.000Z",
+        "2030-02-28T09:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("daylight saving time", () => {
+    const newYork = { timezone: "America/New_York" };
+
+    it("keeps the wall-clock time when clocks spring forward", () => {
+      const recurrence = rule("2026-03-07T09:00:00-05:00", newYork);
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2026-03-07T14:00:00.000Z",
+        "2026-03-08T13:00:00.000Z",
+        "2026-03-09T13:00:00.000Z",
+      ]);
+    });
+
+    it("keeps the wall-clock time when clocks fall back", () => {
+      const recurrence = rule("2026-10-31T09:00:00-04:00", newYork);
+
+      expect(occurrences(recurrence, 2)).toEqual([
+        "2026-10-31T13:00:00.000Z",
+        "2026-11-01T14:00:00.000Z",
+      ]);
+    });
+
+    it("moves a skipped time forward by the gap", () => {
+      const recurrence = rule("2026-03-07T02:30:00-05:00", newYork);
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2026-03-07T07:30:00.000Z",
+        // 02:30 does not exist on March 8; 03:30 EDT
+        "2026-03-08T07:30:00.000Z",
+        "2026-03-09T06:30:00.000Z",
+      ]);
+    });
+
+    it("uses the first of a repeated time", () => {
+      const recurrence = rule("2026-10-31T01:30:00-04:00", newYork);
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2026-10-31T05:30:00.000Z",
+        // 01:30 EDT, not 01:30 EST an hour later
+        "2026-11-01T05:30:00.000Z",
+        "2026-11-02T06:30:00.000Z",
+      ]);
+    });
+
+    it("keeps a monthly time across the change", () => {
+      const recurrence = rule("2026-02-15T09:00:00-05:00", {
+        ...newYork,
+        frequency: "monthly",
+      });
+
+      expect(occurrences(recurrence, 2)).toEqual([
+        "2026-02-15T14:00:00.000Z",
+        "2026-03-15T13:00:00.000Z",
+      ]);
+    });
+  });
+
+  describe("weekly", () => {
+    it("repeats on the start date's weekday by default", () => {
+      // Tuesday
+      const recurrence = rule("2026-01-06T09:00:00Z", { frequency: "weekly" });
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2026-01-06T09:00:00.000Z",
+        "2026-01-13T09:00:00.000Z",
+        "2026-01-20T09:00:00.000Z",
+      ]);
+    });
+
+    it("visits each of daysOfWeek in order", () => {
+      // Wednesday; Monday, Wednesday and Friday
+      const recurrence = rule("2026-01-07T09:00:00Z", {
+        frequency: "weekly",
+        daysOfWeek: [5, 1, 3],
+      });
+
+      expect(occurrences(recurrence, 4)).toEqual([
+        "2026-01-07T09:00:00.000Z",
+        "2026-01-09T09:00:00.000Z",
+        "2026-01-12T09:00:00.000Z",
+        "2026-01-14T09:00:00.000Z",
+      ]);
+    });
+
+    it("skips weeks for biweekly rules and weekly intervals", () => {
+      const biweekly = rule("2026-01-06T09:00:00Z", { frequency: "biweekly" });
+      const everyOtherWeek = rule("2026-01-06T09:00:00Z", {
+        frequency: "weekly",
+        interval: 2,
+      });
+
+      const expected = [
+        "2026-01-06T09:00:00.000Z",
+        "2026-01-20T09:00:00.000Z",
+        "2026-02-03T09:00:00.000Z",
+      ];
+      expect(occurrences(biweekly, 3)).toEqual(expected);
+      expect(occurrences(everyOtherWeek, 3)).toEqual(expected);
+    });
+
+    it("skips days of the first week before the start date", () => {
+      // Thursday; weekends every other week
+      const recurrence = rule("2026-01-08T09:00:00Z", {
+        frequency: "weekly",
+        interval: 2,
+        daysOfWeek: [0, 6],
+      });
+
+      expect(occurrences(recurrence, 3)).toEqual([
+        "2026-01-10T09:00:00.000Z",
+        "2026-01-18T09:00:00.000Z",
+        "2026-01-24T09:00:00.000Z",
+      ]);
+    });
+
+    it("continues from a time between occurrences", () => {
+      const recurrence = rule("2026-01-07T09:00:00Z", {
+        frequency: "weekly",
+        daysOfWeek: [1, 3, 5],
+      });
+
+      expect(getNextOccurrence(recurrence, at("2026-01-09T10:00:00Z"))).toBe(
+        at("2026-01-12T09:00:00Z")
+      );
+    });
+
+    it("stops at the end date", () => {
+      const recurrence = rule("2026-01-06T09:00:00Z", {
+        frequency: "weekly",
+        endDate: at("2026-01-19T23:59:59Z"),
+      });
+
+      expect(occurrences(recurrence, 5)).toEqual([
+        "2026-01-06T09:00:00.000Z",
+        "2026-01-13T09:00:00.000Z",
+      ]);
+    });
+  });
+});
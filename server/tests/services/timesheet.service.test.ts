@@ -0,0 +1,104 @@
+import { getIsoWeek, parseIsoWeek } from "../../src/services/timesheet.service";
+
+jest.mock("../../src/models/Timesheet", () => ({}));
+jest.mock("../../src/models/TimeEntry", () => ({}));
+jest.mock("../../src/middleware", () => ({}));
+jest.mock("../../src/services/websocket.service", () => ({}));
+jest.mock("../../src/utils/logger", () => ({}));
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe("getIsoWeek", () => {
+  it("spans Monday to the following Monday", () => {
+    expect(getIsoWeek(at("2026-10-14T15:30:00Z"))).toEqual({
+      week: "2026-W42",
+      weekStart: at("2026-10-12T00:00:00Z"),
+      weekEnd: at("2026-10-19T00:00:00Z"),
+    });
+  });
+
+  it("keeps Sunday night in the week that started on Monday", () => {
+    expect(getIsoWeek(at("2026-10-18T23:59:59.999Z")).week).toBe("2026-W42");
+    expect(getIsoWeek(at("2026-10-19T00:00:00Z")).week).toBe("2026-W43");
+  });
+
+  it("puts the first days of January in the previous year's last week", () => {
+    expect(getIsoWeek(at("2027-01-03T12:00:00Z"))).toMatchObject({
+      week: "2026-W53",
+      weekStart: at("2026-12-28T00:00:00Z"),
+    });
+    expect(getIsoWeek(at("2021-01-03T12:00:00Z")).week).toBe("2020-W53");
+    expect(getIsoWeek(at("2023-01-01T12:00:00Z")).week).toBe("2022-W52");
+  });
+
+  it("puts the last days of December in the next year's first week", () => {
+    expect(getIsoWeek(at("2024-12-30T00:00:00Z"))).toMatchObject({
+      week: "2025-W01",
+      weekStart: at("2024-12-30T00:00:00Z"),
+    });
+    expect(getIsoWeek(at("2025-12-31T12:00:00Z")).week).toBe("2026-W01");
+  });
+
+  it("starts week 1 on January 4th's Monday", () => {
+    expect(getIsoWeek(at("2027-01-04T00:00:00Z")).week).toBe("2027-W01");
+    expect(getIsoWeek(at("2026-01-01T00:00:00Z"))).toMatchObject({
+      week: "2026-W01",
+      weekStart: at("2025-12-29T00:00:00Z"),
+    });
+  });
+});
+
+describe("parseIsoWeek", () => {
+  it("returns the week's bounds", () => {
+    expect(parseIsoWeek("2026-W42")).toEqual({
+      week: "2026-W42",
+      weekStart: at("2026-10-12T00:00:00Z"),
+      weekEnd: at("2026-10-19T00:00:00Z"),
+    });
+  });
+
+  it("accepts W53 in years that have one", () => {
+    expect(parseIsoWeek("2026-W53")).toEqual({
+      week: "2026-W53",
+      weekStart: at("2026-12-28T00:00:00Z"),
+      weekEnd: at("2027-01-04T00:00:00Z"),
+    });
+    expect(parseIsoWeek("2020-W53")?.weekStart).toBe(
+      at("2020-12-28T00:00:00Z")
+    );
+  });
+
+  it("rejects W53 in years with 52 weeks", () => {
+    expect(parseIsoWeek("2025-W53")).toBeNull();
+    expect(parseIsoWeek("2027-W53")).toBeNull();
+  });
+
+  it("parses week 1 starting in the previous December", () => {
+    expect(parseIsoWeek("2025-W01")?.weekStart).toBe(
+      at("2024-12-30T00:00:00Z")
+    );
+  });
+
+  it("rejects weeks out of range and malformed input", () => {
+    for (const week of [
+      "2026-W00",
+      "2026-W54",
+      "2026-W1",
+      "2026W42",
+      "2026-w42",
+      "2026-W42 ",
+      "",
+    ]) {
+      expect(parseIsoWeek(week)).toBeNull();
+    }
+  });
+
+  it("round-trips every week of a year", () => {
+    for (let week = 1; week <= 53; week++) {
+      const name = `2026-W${String(week).padStart(2, "0")}`;
+      const parsed = parseIsoWeek(name)!;
+      expect(getIsoWeek(parsed.weekStart).week).toBe(name);
+      expect(getIsoWeek(parsed.weekEnd - 1).week).toBe(name);
+    }
+  });
+});
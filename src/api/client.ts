@@ -410,11 +410,7 @@ class ApiClient {
     }
   }
 
-  // Public methods
-  async get<T>(
-    endpoint: string,
-    params?: Record<string, any>
-  ): Promise<ApiResponse<T>> {
+  private withQuery(endpoint: string, params?: Record<string, any>): string {
     let url = endpoint;
     if (params) {
       const searchParams = new URLSearchParams();
@@ -430,7 +426,52 @@ class ApiClient {
       const queryString = searchParams.toString();
       if (queryString) url += `?${queryString}`;
     }
-    return this.request<T>(url, { method: "GET" });
+    return url;
+  }
+
+  // Public methods
+  async get<T>(
+    endpoint: string,
+    params?: Record<string, any>
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>(this.withQuery(endpoint, params), {
+      method: "GET",
+    });
+  }
+
+  // Fetch a file response (e.g. a CSV export) instead of JSON
+  async download(
+    endpoint: string,
+    params?: Record<string, any>,
+    retried = false
+  ): Promise<Blob> {
+    const token = this.getToken();
+    const response = await fetch(
+      `${this.baseUrl}${this.withQuery(endpoint, params)}`,
+      {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        credentials: "include",
+      }
+    );
+
+    if (response.status === 401 && !retried) {
+      if (await this.refreshAccessToken()) {
+        return this.download(endpoint, params, true);
+      }
+      window.dispatchEvent(new CustomEvent("auth:unauthorized"));
+      throw new ApiError(401, "Session expired. Please login again.");
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiError(
+        response.status,
+        data.message || data.error || "Download failed",
+        data.errors
+      );
+    }
+
+    return response.blob();
   }
 
   async post<T>(endpoint: string, data?: any): Promise<ApiResponse<T>> {
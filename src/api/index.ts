@@ -11,6 +11,11 @@ export { taskService } from "./services/task.service";
 export { commentService } from "./services/comment.service";
 export { teamService } from "./services/team.service";
 export { dataService } from "./services/data.service";
+export { templateService } from "./services/template.service";
+export { timeEntryService } from "./services/timeEntry.service";
+export { attachmentService } from "./services/attachment.service";
+export { auditService } from "./services/audit.service";
+export { roleService } from "./services/role.service";
 
 // Service Types
 export type {
@@ -18,6 +23,7 @@ export type {
   RegisterData,
   AuthResponse,
   ChangePasswordData,
+  EffectivePermissions,
 } from "./services/auth.service";
 
 export type {
@@ -45,3 +51,48 @@ export type {
   Backup,
   ExportData,
 } from "./services/data.service";
+
+export type {
+  TaskTemplate as ServerTaskTemplate,
+  AutoAssignStrategy,
+  TemplateFilters,
+  CreateTemplateData,
+  UpdateTemplateData,
+  InstantiateTemplateData,
+  InstantiatedTemplate,
+} from "./services/template.service";
+
+export type {
+  TimeEntry,
+  TimeEntryFilters,
+  StartTimerData,
+  CreateTimeEntryData,
+  UpdateTimeEntryData,
+  StopTimerOptions,
+} from "./services/timeEntry.service";
+
+export type {
+  Attachment,
+  AttachmentParent,
+  AttachmentSearchResult,
+  UploadTarget,
+  InitUploadResponse,
+} from "./services/attachment.service";
+
+export type {
+  AuditChainVerification,
+  AuditChange,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditStatistics,
+  SecurityAlert,
+  SecurityAlertFilters,
+  SecurityAlertSeverity,
+  SecurityAlertStatus,
+} from "./services/audit.service";
+
+export type {
+  Role,
+  CreateRoleData,
+  UpdateRoleData,
+} from "./services/role.service";
@@ -0,0 +1,120 @@
+import apiClient, { ApiError, ApiResponse } from "../client";
+
+export interface Attachment {
+  id: string;
+  taskId?: string | null;
+  commentId?: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  category: "image" | "document" | "video" | "audio" | "other";
+  storageDriver: "local" | "s3";
+  status: "pending" | "ready" | "quarantined";
+  uploadedBy: string;
+  uploadedAt?: number | null;
+  processingStatus?: "queued" | "processing" | "completed" | "failed" | null;
+  processingError?: string | null;
+  processedAt?: number | null;
+  scanStatus: "pending" | "clean" | "infected" | "skipped";
+  scanResult?: string | null;
+  hasThumbnail: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AttachmentParent {
+  taskId?: string;
+  commentId?: string;
+}
+
+export interface AttachmentSearchResult extends Attachment {
+  excerpt: string | null;
+}
+
+export interface UploadTarget {
+  url: string;
+  method: "PUT";
+  headers: Record<string, string>;
+  expiresAt: number;
+}
+
+export interface InitUploadResponse {
+  attachment: Attachment;
+  upload: UploadTarget;
+}
+
+export const attachmentService = {
+  async getAttachments(
+    parent: AttachmentParent
+  ): Promise<ApiResponse<Attachment[]>> {
+    return apiClient.get<Attachment[]>(
+      "/attachments",
+      parent as Record<string, any>
+    );
+  },
+
+  async getAttachment(id: string): Promise<ApiResponse<Attachment>> {
+    return apiClient.get<Attachment>(`/attachments/${id}`);
+  },
+
+  async initUpload(
+    file: File,
+    parent: AttachmentParent
+  ): Promise<ApiResponse<InitUploadResponse>> {
+    return apiClient.post<InitUploadResponse>("/attachments/uploads", {
+      ...parent,
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+    });
+  },
+
+  async completeUpload(id: string): Promise<ApiResponse<Attachment>> {
+    return apiClient.post<Attachment>(`/attachments/${id}/complete`);
+  },
+
+  /**
+   * Upload a file straight to storage and register it as an attachment
+   */
+  async upload(file: File, parent: AttachmentParent): Promise<Attachment> {
+    const init = await this.initUpload(file, parent);
+    const { attachment, upload } = init.data!;
+
+    const response = await fetch(upload.url, {
+      method: upload.method,
+      headers: upload.headers,
+      body: file,
+    });
+    if (!response.ok) {
+      await this.deleteAttachment(attachment.id).catch(() => undefined);
+      throw new ApiError(response.status, "File upload failed");
+    }
+
+    const completed = await this.completeUpload(attachment.id);
+    return completed.data!;
+  },
+
+  async searchAttachments(
+    q: string,
+    options: AttachmentParent & { limit?: number } = {}
+  ): Promise<ApiResponse<AttachmentSearchResult[]>> {
+    return apiClient.get<AttachmentSearchResult[]>("/attachments/search", {
+      q,
+      ...options,
+    });
+  },
+
+  async getDownloadUrl(id: string): Promise<ApiResponse<{ url: string }>> {
+    return apiClient.get<{ url: string }>(`/attachments/${id}/download`);
+  },
+
+  async getThumbnailUrl(id: string): Promise<ApiResponse<{ url: string }>> {
+    return apiClient.get<{ url: string }>(`/attachments/${id}/thumbnail`);
+  },
+
+  async deleteAttachment(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/attachments/${id}`);
+  },
+};
+
+export default attachmentService;
@@ -0,0 +1,206 @@
+import apiClient, { ApiResponse } from "../client";
+
+export interface AuditChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  action: string;
+  category: string;
+  description: string;
+  organizationId: string;
+  actorId: string | null;
+  actorEmail: string;
+  actorName: string;
+  actorType: "user" | "system" | "api" | "webhook";
+  entityType: string;
+  entityId: string;
+  entityName?: string;
+  changes?: AuditChange[];
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+  timestamp: string;
+  sequence?: number;
+  previousHash?: string;
+  hash?: string;
+}
+
+export type SecurityAlertStatus =
+  | "new"
+  | "investigating"
+  | "resolved"
+  | "dismissed";
+
+export type SecurityAlertSeverity = "low" | "medium" | "high" | "critical";
+
+export interface SecurityAlert {
+  _id: string;
+  alertType: string;
+  severity: SecurityAlertSeverity;
+  userId?: string;
+  userEmail?: string;
+  ipAddress?: string;
+  description: string;
+  details: Record<string, any>;
+  relatedAuditLogs: string[];
+  status: SecurityAlertStatus;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolution?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  sortOrder?: "asc" | "desc";
+  actions?: string[];
+  categories?: string[];
+  actorId?: string;
+  entityType?: string;
+  entityId?: string;
+  ipAddress?: string;
+  startDate?: number;
+  endDate?: number;
+  search?: string;
+}
+
+export interface SecurityAlertFilters {
+  page?: number;
+  limit?: number;
+  status?: SecurityAlertStatus[];
+  severity?: SecurityAlertSeverity[];
+  alertTypes?: string[];
+  startDate?: number;
+  endDate?: number;
+}
+
+export interface AuditStatistics {
+  events: {
+    totalEvents: number;
+    eventsByCategory: Record<string, number>;
+    eventsByDay: { date: string; count: number }[];
+    topActors: { actorId: string; actorName: string; count: number }[];
+    securityAlerts: number;
+  };
+  alerts: {
+    totalAlerts: number;
+    alertsBySeverity: Record<string, number>;
+    alertsByType: Record<string, number>;
+    alertsByStatus: Record<string, number>;
+    alertsOverTime: { date: string; count: number }[];
+  };
+}
+
+export interface AuditChainVerification {
+  organizationId: string;
+  valid: boolean;
+  checked: number;
+  anchorSequence: number;
+  lastSequence: number;
+  brokenAt?: {
+    sequence: number;
+    entryId: string | null;
+    reason: string;
+  };
+  verifiedAt: string;
+}
+
+// List filters are sent comma-separated
+const toQuery = (filters: Record<string, any> = {}) =>
+  Object.fromEntries(
+    Object.entries(filters).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.join(",") : value,
+    ])
+  );
+
+export const auditService = {
+  async getLogs(
+    filters?: AuditLogFilters
+  ): Promise<ApiResponse<AuditLogEntry[]>> {
+    return apiClient.get<AuditLogEntry[]>("/audit/logs", toQuery(filters));
+  },
+
+  async getEntityHistory(
+    entityType: string,
+    entityId: string,
+    limit?: number
+  ): Promise<ApiResponse<AuditLogEntry[]>> {
+    return apiClient.get<AuditLogEntry[]>(
+      `/audit/entities/${entityType}/${entityId}`,
+      { limit }
+    );
+  },
+
+  async getUserActivity(
+    userId: string,
+    params?: { startDate?: number; endDate?: number; limit?: number }
+  ): Promise<ApiResponse<AuditLogEntry[]>> {
+    return apiClient.get<AuditLogEntry[]>(
+      `/audit/users/${userId}/activity`,
+      params
+    );
+  },
+
+  async getStatistics(days?: number): Promise<ApiResponse<AuditStatistics>> {
+    return apiClient.get<AuditStatistics>("/audit/statistics", { days });
+  },
+
+  async getSecurityEvents(params?: {
+    startDate?: number;
+    endDate?: number;
+  }): Promise<ApiResponse<AuditLogEntry[]>> {
+    return apiClient.get<AuditLogEntry[]>("/audit/security-events", params);
+  },
+
+  async getAlerts(
+    filters?: SecurityAlertFilters
+  ): Promise<ApiResponse<SecurityAlert[]>> {
+    return apiClient.get<SecurityAlert[]>("/audit/alerts", toQuery(filters));
+  },
+
+  async investigateAlert(id: string): Promise<ApiResponse<SecurityAlert>> {
+    return apiClient.post<SecurityAlert>(`/audit/alerts/${id}/investigate`);
+  },
+
+  async resolveAlert(
+    id: string,
+    resolution?: string
+  ): Promise<ApiResponse<SecurityAlert>> {
+    return apiClient.post<SecurityAlert>(`/audit/alerts/${id}/resolve`, {
+      resolution,
+    });
+  },
+
+  async dismissAlert(
+    id: string,
+    resolution?: string
+  ): Promise<ApiResponse<SecurityAlert>> {
+    return apiClient.post<SecurityAlert>(`/audit/alerts/${id}/dismiss`, {
+      resolution,
+    });
+  },
+
+  async verifyChain(): Promise<ApiResponse<AuditChainVerification>> {
+    return apiClient.get<AuditChainVerification>("/audit/verify");
+  },
+
+  async exportLogs(
+    format: "csv" | "json",
+    filters?: Omit<AuditLogFilters, "page" | "limit" | "sortOrder">
+  ): Promise<Blob> {
+    return apiClient.download("/audit/logs/export", {
+      ...toQuery(filters),
+      format,
+    });
+  },
+};
+
+export default auditService;
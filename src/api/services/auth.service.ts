@@ -1,6 +1,10 @@
 import apiClient, { ApiResponse } from "../client";
 import config from "../config";
-import type { TeamMember } from "../../lib/collaboration-data";
+import type {
+  TeamMember,
+  AccessLevel,
+  Permission,
+} from "../../lib/collaboration-data";
 
 export interface LoginCredentials {
   email: string;
@@ -40,6 +44,13 @@ export interface ForgotPasswordResponse {
   resetUrl?: string; // Only in development
 }
 
+export interface EffectivePermissions {
+  accessLevel: AccessLevel;
+  permissions: Permission[];
+  granted: Permission[];
+  denied: Permission[];
+}
+
 export const authService = {
   async login(
     credentials: LoginCredentials
@@ -82,6 +93,10 @@ export const authService = {
     return apiClient.get<TeamMember>("/auth/me");
   },
 
+  async getPermissions(): Promise<ApiResponse<EffectivePermissions>> {
+    return apiClient.get<EffectivePermissions>("/auth/permissions");
+  },
+
   async updateProfile(data: {
     name?: string;
     avatarUrl?: string;
@@ -0,0 +1,52 @@
+import apiClient, { ApiResponse } from "../client";
+import type { AccessLevel, Permission } from "../../lib/collaboration-data";
+
+export interface Role {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string;
+  permissions: Permission[];
+  // Set on the built-in owner/admin/member/viewer roles
+  accessLevel: AccessLevel | null;
+  isBuiltIn: boolean;
+  memberCount?: number;
+  createdBy: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateRoleData {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export type UpdateRoleData = Partial<CreateRoleData>;
+
+export const roleService = {
+  async getRoles(): Promise<ApiResponse<Role[]>> {
+    return apiClient.get<Role[]>("/roles");
+  },
+
+  async getRole(id: string): Promise<ApiResponse<Role>> {
+    return apiClient.get<Role>(`/roles/${id}`);
+  },
+
+  async createRole(data: CreateRoleData): Promise<ApiResponse<Role>> {
+    return apiClient.post<Role>("/roles", data);
+  },
+
+  async updateRole(
+    id: string,
+    data: UpdateRoleData
+  ): Promise<ApiResponse<Role>> {
+    return apiClient.put<Role>(`/roles/${id}`, data);
+  },
+
+  async deleteRole(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete(`/roles/${id}`);
+  },
+};
+
+export default roleService;
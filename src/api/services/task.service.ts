@@ -28,6 +28,8 @@ export interface CreateTaskData {
   dueDate?: number;
   tags?: string[];
   dependencies?: string[];
+  isPrivate?: boolean;
+  watchers?: string[];
 }
 
 export interface UpdateTaskData extends Partial<CreateTaskData> {}
@@ -4,6 +4,7 @@ import type {
   AccessLevel,
   Permission,
 } from "../../lib/collaboration-data";
+import type { EffectivePermissions } from "./auth.service";
 
 export interface TeamMemberFilters {
   page?: number;
@@ -83,12 +84,35 @@ export const teamService = {
     });
   },
 
+  async getAccessLevelPermissions(): Promise<
+    ApiResponse<Record<AccessLevel, Permission[]>>
+  > {
+    return apiClient.get<Record<AccessLevel, Permission[]>>(
+      "/team/access-levels"
+    );
+  },
+
+  async getMemberPermissions(
+    id: string
+  ): Promise<ApiResponse<EffectivePermissions>> {
+    return apiClient.get<EffectivePermissions>(`/team/${id}/permissions`);
+  },
+
+  async assignCustomRole(
+    id: string,
+    roleId: string | null
+  ): Promise<ApiResponse<TeamMember>> {
+    return apiClient.patch<TeamMember>(`/team/${id}/custom-role`, { roleId });
+  },
+
   async updateCustomPermissions(
     id: string,
-    customPermissions: Permission[]
+    customPermissions: Permission[],
+    deniedPermissions?: Permission[]
   ): Promise<ApiResponse<TeamMember>> {
     return apiClient.patch<TeamMember>(`/team/${id}/permissions`, {
       customPermissions,
+      deniedPermissions,
     });
   },
 };
@@ -0,0 +1,107 @@
+import apiClient, { ApiResponse } from "../client";
+import type { Task, TeamMember } from "../../lib/collaboration-data";
+
+export type AutoAssignStrategy =
+  | "specific"
+  | "round_robin"
+  | "least_loaded"
+  | "skill_based";
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  category: string;
+  title: string;
+  taskDescription?: string;
+  status: Task["status"];
+  priority: Task["priority"];
+  contextType?: Task["contextType"];
+  tags?: string[];
+  estimatedHours?: number | null;
+  checklist?: Array<{ text: string; required: boolean }>;
+  subtasks?: Array<{
+    title: string;
+    description?: string;
+    priority: Task["priority"];
+  }>;
+  autoAssign?: {
+    type: AutoAssignStrategy;
+    assigneeId?: string;
+    skillTags?: Array<TeamMember["role"]>;
+  } | null;
+  isPublic: boolean;
+  usageCount: number;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TemplateFilters {
+  category?: string;
+  search?: string;
+}
+
+export type CreateTemplateData = Omit<
+  TaskTemplate,
+  "id" | "usageCount" | "createdBy" | "createdAt" | "updatedAt" | "status"
+> & { status?: Task["status"] };
+
+export interface UpdateTemplateData extends Partial<CreateTemplateData> {}
+
+export interface InstantiateTemplateData {
+  title?: string;
+  description?: string;
+  priority?: Task["priority"];
+  assigneeId?: string;
+  contextType?: Task["contextType"];
+  contextId?: string;
+  dueDate?: number;
+  tags?: string[];
+}
+
+export interface InstantiatedTemplate {
+  task: Task;
+  subtasks: Task[];
+}
+
+export const templateService = {
+  async getTemplates(
+    filters?: TemplateFilters
+  ): Promise<ApiResponse<TaskTemplate[]>> {
+    return apiClient.get<TaskTemplate[]>("/templates", filters);
+  },
+
+  async getTemplate(id: string): Promise<ApiResponse<TaskTemplate>> {
+    return apiClient.get<TaskTemplate>(`/templates/${id}`);
+  },
+
+  async createTemplate(
+    data: CreateTemplateData
+  ): Promise<ApiResponse<TaskTemplate>> {
+    return apiClient.post<TaskTemplate>("/templates", data);
+  },
+
+  async updateTemplate(
+    id: string,
+    data: UpdateTemplateData
+  ): Promise<ApiResponse<TaskTemplate>> {
+    return apiClient.put<TaskTemplate>(`/templates/${id}`, data);
+  },
+
+  async deleteTemplate(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete(`/templates/${id}`);
+  },
+
+  async instantiateTemplate(
+    id: string,
+    data: InstantiateTemplateData
+  ): Promise<ApiResponse<InstantiatedTemplate>> {
+    return apiClient.post<InstantiatedTemplate>(
+      `/templates/${id}/instantiate`,
+      data
+    );
+  },
+};
+
+export default templateService;
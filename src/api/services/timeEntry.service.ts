@@ -0,0 +1,112 @@
+import apiClient, { ApiResponse } from "../client";
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  description?: string;
+  startTime: number;
+  endTime?: number | null;
+  duration: number; // in seconds
+  isBillable: boolean;
+  hourlyRate?: number | null;
+  tags?: string[];
+  isRunning: boolean;
+  lastHeartbeatAt?: number | null;
+  idleSince?: number | null;
+  autoStopped: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TimeEntryFilters {
+  taskId?: string;
+  userId?: string;
+  startDate?: number;
+  endDate?: number;
+  isBillable?: boolean;
+  isRunning?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface StartTimerData {
+  taskId: string;
+  description?: string;
+  isBillable?: boolean;
+  hourlyRate?: number;
+  tags?: string[];
+}
+
+export interface CreateTimeEntryData extends StartTimerData {
+  startTime: number;
+  endTime: number;
+}
+
+export interface UpdateTimeEntryData
+  extends Partial<Omit<CreateTimeEntryData, "taskId">> {}
+
+export interface StopTimerOptions {
+  // End the entry when the user went idle instead of now
+  discardIdle?: boolean;
+}
+
+export const timeEntryService = {
+  async getTimeEntries(
+    filters?: TimeEntryFilters
+  ): Promise<ApiResponse<TimeEntry[]>> {
+    return apiClient.get<TimeEntry[]>("/time-entries", filters);
+  },
+
+  async getRunningTimer(): Promise<ApiResponse<TimeEntry | null>> {
+    return apiClient.get<TimeEntry | null>("/time-entries/running");
+  },
+
+  async startTimer(data: StartTimerData): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.post<TimeEntry>("/time-entries/start", data);
+  },
+
+  async stopTimer(
+    options: StopTimerOptions = {}
+  ): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.post<TimeEntry>("/time-entries/stop", options);
+  },
+
+  async stopTimerById(
+    id: string,
+    options: StopTimerOptions = {}
+  ): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.post<TimeEntry>(`/time-entries/${id}/stop`, options);
+  },
+
+  async sendHeartbeat(
+    idleSince: number | null
+  ): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.post<TimeEntry>("/time-entries/running/heartbeat", {
+      idleSince,
+    });
+  },
+
+  async getTimeEntry(id: string): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.get<TimeEntry>(`/time-entries/${id}`);
+  },
+
+  async createTimeEntry(
+    data: CreateTimeEntryData
+  ): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.post<TimeEntry>("/time-entries", data);
+  },
+
+  async updateTimeEntry(
+    id: string,
+    data: UpdateTimeEntryData
+  ): Promise<ApiResponse<TimeEntry>> {
+    return apiClient.put<TimeEntry>(`/time-entries/${id}`, data);
+  },
+
+  async deleteTimeEntry(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/time-entries/${id}`);
+  },
+};
+
+export default timeEntryService;
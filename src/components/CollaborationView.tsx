@@ -32,7 +32,7 @@ import {
 } from '@/components/collaboration'
 
 const CollaborationView = () => {
-  const { user } = useAuth()
+  const { user, permissions } = useAuth()
   const { activeTab, setActiveTab, isCreateTaskOpen, setIsCreateTaskOpen } = useNavigation()
   const { 
     tasks, 
@@ -87,7 +87,11 @@ const CollaborationView = () => {
   }
 
   const allMembers = teamMembers && teamMembers.length > 0 ? fixTeamMembersData(teamMembers) : mockTeamMembers
-  const currentUser = allMembers[0]
+  // Permission checks use the set resolved by the server for the signed-in user
+  const currentUser: TeamMember = {
+    ...(allMembers.find(m => m.id === user?.id) || allMembers[0]),
+    permissions
+  }
 
   const handleDataRestore = (data: DataExport) => {
     setTasks(() => data.tasks)
@@ -158,6 +162,15 @@ const CollaborationView = () => {
                   toast.error('Failed to create task')
                 }
               }}
+              onCreateFromTemplate={(created) => {
+                setTasks(current => [...(current || []), ...created])
+                setIsCreateTaskOpen(false)
+                toast.success(
+                  created.length > 1
+                    ? `Task created with ${created.length - 1} subtasks`
+                    : 'Task created successfully'
+                )
+              }}
               currentUser={currentUser}
               teamMembers={allMembers}
             />
@@ -32,6 +32,7 @@ import {
   Users,
   ListTodo,
   HardDrive,
+  Activity,
   Zap,
   Crown,
   Loader2,
@@ -40,6 +41,14 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 
+function formatBytes(bytes: number): string {
+  if (bytes <= 0) return '0 B';
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const value = bytes / Math.pow(1024, i);
+  return `${value >= 10 || i === 0 ? Math.round(value) : value.toFixed(1)} ${units[i]}`;
+}
+
 export function OrganizationSettingsPage() {
   const {
     organization,
@@ -199,7 +208,7 @@ export function OrganizationSettingsPage() {
 
       {/* Usage Stats Cards */}
       {usageStats && (
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
           <Card>
             <CardContent className="pt-4">
               <div className="flex items-center gap-2 mb-2">
@@ -232,6 +241,39 @@ export function OrganizationSettingsPage() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-2 mb-2">
+                <HardDrive className="h-4 w-4 text-cyan-500" />
+                <span className="text-sm font-medium">Storage</span>
+              </div>
+              <div className="text-2xl font-bold">
+                {formatBytes(usageStats.storage.current)}
+                <span className="text-sm font-normal text-muted-foreground">
+                  /{usageStats.storage.limit === -1 ? '∞' : formatBytes(usageStats.storage.limit)}
+                </span>
+              </div>
+              <Progress value={usageStats.storage.percentage} className="h-1 mt-2" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-4">
+              <div className="flex items-center gap-2 mb-2">
+                <Activity className="h-4 w-4 text-rose-500" />
+                <span className="text-sm font-medium">API Calls</span>
+              </div>
+              <div className="text-2xl font-bold">
+                {usageStats.apiCalls.current.toLocaleString()}
+                <span className="text-sm font-normal text-muted-foreground">
+                  /{usageStats.apiCalls.limit === -1 ? '∞' : usageStats.apiCalls.limit.toLocaleString()}
+                </span>
+              </div>
+              <Progress value={usageStats.apiCalls.percentage} className="h-1 mt-2" />
+              <p className="text-xs text-muted-foreground mt-1">this month</p>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="pt-4">
               <div className="flex items-center gap-2 mb-2">
@@ -20,7 +20,8 @@ import {
   ShieldCheck,
   Lock
 } from '@phosphor-icons/react'
-import { TeamMember, AccessLevel, Permission, ACCESS_LEVEL_PERMISSIONS } from '@/lib/collaboration-data'
+import { TeamMember, AccessLevel, Permission } from '@/lib/collaboration-data'
+import { useAccessLevelPermissions } from '@/hooks'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { 
@@ -46,6 +47,7 @@ const AddEditMemberDialog = ({ member, onClose, onSave, onDelete }: AddEditMembe
   const [isOnline, setIsOnline] = useState(member?.isOnline ?? true)
   const [customPermissions, setCustomPermissions] = useState<Permission[]>(member?.customPermissions || [])
   const [showCustomPermissions, setShowCustomPermissions] = useState(false)
+  const { levelPermissions } = useAccessLevelPermissions()
 
   const handleRoleChange = (newRole: TeamMember['role']) => {
     setRole(newRole)
@@ -66,7 +68,7 @@ const AddEditMemberDialog = ({ member, onClose, onSave, onDelete }: AddEditMembe
     })
   }
 
-  const basePermissions = ACCESS_LEVEL_PERMISSIONS[accessLevel] || []
+  const basePermissions = levelPermissions[accessLevel] || []
 
   const handleSave = () => {
     if (!name.trim()) {
@@ -107,7 +109,6 @@ const AddEditMemberDialog = ({ member, onClose, onSave, onDelete }: AddEditMembe
     }
   }
 
-  const currentPermissions = ACCESS_LEVEL_PERMISSIONS[accessLevel]
   const totalPermissions = new Set([...basePermissions, ...customPermissions]).size
 
   return (
@@ -255,7 +256,7 @@ const AddEditMemberDialog = ({ member, onClose, onSave, onDelete }: AddEditMembe
                       </div>
                       <div className="flex items-center gap-2">
                         <Badge variant="outline" className="text-xs">
-                          {(ACCESS_LEVEL_PERMISSIONS[level] || []).length} permissions
+                          {(levelPermissions[level] || []).length} permissions
                         </Badge>
                         {accessLevel === level && (
                           <CheckCircle size={18} weight="fill" className="text-primary" />
@@ -296,7 +297,7 @@ const AddEditMemberDialog = ({ member, onClose, onSave, onDelete }: AddEditMembe
                 Base permissions for {accessLevel} access:
               </p>
               <div className="flex flex-wrap gap-1.5">
-                {(currentPermissions || []).filter(p => p).map((permission, idx) => (
+                {basePermissions.map((permission, idx) => (
                   <Badge key={`${permission}-${idx}`} variant="secondary" className="text-xs gap-1">
                     <CheckCircle size={10} weight="fill" className="text-green-600" />
                     {permission.replace(/_/g, ' ')}
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -10,6 +10,7 @@ import { DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/di
 import { Label } from '@/components/ui/label'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
 import { 
   Users, 
   Plus, 
@@ -19,21 +20,71 @@ import {
   CalendarBlank,
   FlagBanner,
   Sparkle,
-  ArrowCounterClockwise
+  ArrowCounterClockwise,
+  FileText,
+  ListChecks,
+  FloppyDisk
 } from '@phosphor-icons/react'
 import { Task, TeamMember } from '@/lib/collaboration-data'
 import { services } from '@/lib/architecture-data'
-import { taskTemplates, getAutoAssignedMember } from '@/lib/task-templates'
+import { taskTemplates, getAutoAssignedMember, TaskTemplate } from '@/lib/task-templates'
+import { templateService, ServerTaskTemplate, AutoAssignStrategy } from '@/api'
 import { toast } from 'sonner'
 
 export interface CreateTaskDialogProps {
   onClose: () => void
   onCreate: (task: Task) => void
+  onCreateFromTemplate: (tasks: Task[]) => void
   currentUser: TeamMember
   teamMembers: TeamMember[]
 }
 
-const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: CreateTaskDialogProps) => {
+// Template as shown in the picker, from the server or the built-in defaults
+interface TemplateOption {
+  id: string
+  name: string
+  description: string
+  icon: React.ComponentType<any>
+  category: string
+  tags: string[]
+  server?: ServerTaskTemplate
+  builtin?: TaskTemplate
+}
+
+const strategyLabels: Record<AutoAssignStrategy, string> = {
+  specific: 'a specific member',
+  round_robin: 'round robin',
+  least_loaded: 'least loaded member',
+  skill_based: 'role match'
+}
+
+const categoryIcons: Record<string, React.ComponentType<any>> = Object.fromEntries(
+  taskTemplates.map(t => [t.category, t.icon])
+)
+
+const toServerOption = (template: ServerTaskTemplate): TemplateOption => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || '',
+  icon: categoryIcons[template.category] || FileText,
+  category: template.category,
+  tags: template.tags || [],
+  server: template
+})
+
+const toBuiltinOption = (template: TaskTemplate): TemplateOption => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  icon: template.icon,
+  category: template.category,
+  tags: template.defaultTags,
+  builtin: template
+})
+
+const CreateTaskDialog = ({ onClose, onCreate, onCreateFromTemplate, currentUser, teamMembers }: CreateTaskDialogProps) => {
+  const [templates, setTemplates] = useState<TemplateOption[]>(taskTemplates.map(toBuiltinOption))
+  const [isSubmitting, setIsSubmitting] = useState(false)
   const [showTemplates, setShowTemplates] = useState(true)
   const [selectedTemplate, setSelectedTemplate] = useState<string | null>(null)
   const [title, setTitle] = useState('')
@@ -45,13 +96,59 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
   const [dueDate, setDueDate] = useState<string>('')
   const [tags, setTags] = useState<string>('')
   const [templateCategory, setTemplateCategory] = useState('all')
+  const [shareTemplate, setShareTemplate] = useState(false)
 
-  const handleCreate = () => {
+  // Load the organization's templates, keeping the built-ins if it has none
+  useEffect(() => {
+    let cancelled = false
+    templateService.getTemplates()
+      .then(response => {
+        if (!cancelled && response.success && response.data && response.data.length > 0) {
+          setTemplates(response.data.map(toServerOption))
+        }
+      })
+      .catch(() => {
+        // Offline or unauthenticated: keep the built-in templates
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const selected = templates.find(t => t.id === selectedTemplate)
+
+  const handleCreate = async () => {
     if (!title.trim()) {
       toast.error('Please enter a task title')
       return
     }
 
+    if (selected?.server) {
+      setIsSubmitting(true)
+      try {
+        const response = await templateService.instantiateTemplate(selected.server.id, {
+          title,
+          description,
+          priority,
+          assigneeId: assignee === 'unassigned' ? undefined : assignee,
+          contextType,
+          contextId: contextId === 'general' ? undefined : contextId,
+          dueDate: dueDate ? new Date(dueDate).getTime() : undefined,
+          tags: tags.split(',').map(t => t.trim()).filter(Boolean)
+        })
+        if (response.success && response.data) {
+          onCreateFromTemplate([response.data.task, ...response.data.subtasks])
+        } else {
+          toast.error(response.message || 'Failed to create task from template')
+        }
+      } catch (error) {
+        toast.error('Failed to create task from template')
+      } finally {
+        setIsSubmitting(false)
+      }
+      return
+    }
+
     const newTask: Task = {
       id: `task-${Date.now()}`,
       title,
@@ -72,8 +169,67 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
     onCreate(newTask)
   }
 
+  const handleSaveAsTemplate = async () => {
+    if (!title.trim()) {
+      toast.error('Please enter a task title')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await templateService.createTemplate({
+        name: title.trim().slice(0, 100),
+        category: selected?.category || 'general',
+        title,
+        taskDescription: description,
+        priority,
+        contextType,
+        tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+        isPublic: shareTemplate
+      })
+      if (response.success && response.data) {
+        const option = toServerOption(response.data)
+        setTemplates(current => [...current, option])
+        toast.success(`Saved "${option.name}" as a template`)
+      } else {
+        toast.error(response.message || 'Failed to save template')
+      }
+    } catch (error) {
+      toast.error('Failed to save template')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleServerTemplateSelect = (template: ServerTaskTemplate) => {
+    setSelectedTemplate(template.id)
+    setTitle(template.title)
+    setDescription(template.taskDescription || '')
+    setPriority(template.priority)
+    setTags((template.tags || []).join(', '))
+    if (template.contextType === 'service' || template.contextType === 'workflow' || template.contextType === 'general') {
+      setContextType(template.contextType)
+    }
+
+    const autoAssign = template.autoAssign
+    if (autoAssign?.type === 'specific' && autoAssign.assigneeId) {
+      setAssignee(autoAssign.assigneeId)
+    } else {
+      setAssignee('unassigned')
+    }
+
+    toast.success(`Applied "${template.name}" template`)
+    setShowTemplates(false)
+  }
+
   const handleTemplateSelect = (templateId: string) => {
-    const template = taskTemplates.find(t => t.id === templateId)
+    const option = templates.find(t => t.id === templateId)
+    if (!option) return
+    if (option.server) {
+      handleServerTemplateSelect(option.server)
+      return
+    }
+    const template = option.builtin
     if (!template) return
 
     setSelectedTemplate(templateId)
@@ -112,10 +268,26 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
     setDueDate('')
   }
 
-  const filteredTemplates = taskTemplates.filter(t => 
+  const templateCategories = ['all', ...Array.from(new Set(templates.map(t => t.category)))]
+
+  const filteredTemplates = templates.filter(t => 
     templateCategory === 'all' || t.category === templateCategory
   )
 
+  const getAutoAssignHint = (option: TemplateOption): string | undefined => {
+    if (option.builtin) {
+      const member = option.builtin.autoAssignRoles ? getAutoAssignedMember(option.builtin, teamMembers) : undefined
+      return member ? `Auto-assigns to ${member.name}` : undefined
+    }
+    const autoAssign = option.server?.autoAssign
+    if (!autoAssign?.type) return undefined
+    if (autoAssign.type === 'specific') {
+      const member = teamMembers.find(m => m.id === autoAssign.assigneeId)
+      return member ? `Auto-assigns to ${member.name}` : undefined
+    }
+    return `Auto-assigns by ${strategyLabels[autoAssign.type]}`
+  }
+
   const selectedAssignee = teamMembers.find(m => m.id === assignee)
 
   const priorityIcons = {
@@ -153,7 +325,7 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
         <ScrollArea className="max-h-[65vh] pr-4">
           <div className="space-y-4 mt-2">
             <div className="flex gap-2 flex-wrap">
-              {['all', 'development', 'operations', 'design', 'documentation'].map(cat => (
+              {templateCategories.map(cat => (
                 <Button
                   key={cat}
                   variant={templateCategory === cat ? 'default' : 'outline'}
@@ -169,7 +341,7 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
             <div className="grid sm:grid-cols-2 gap-3">
               {filteredTemplates.map(template => {
                 const Icon = template.icon
-                const autoAssignedMember = template.autoAssignRoles ? getAutoAssignedMember(template, teamMembers) : undefined
+                const autoAssignHint = getAutoAssignHint(template)
                 return (
                   <Card
                     key={template.id}
@@ -186,14 +358,14 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
                           <p className="text-xs text-muted-foreground line-clamp-2 mb-2">
                             {template.description}
                           </p>
-                          {autoAssignedMember && (
+                          {autoAssignHint && (
                             <div className="flex items-center gap-1.5 mb-2 text-xs text-primary">
                               <Users size={12} weight="bold" />
-                              <span>Auto-assigns to {autoAssignedMember.name}</span>
+                              <span>{autoAssignHint}</span>
                             </div>
                           )}
                           <div className="flex flex-wrap gap-1">
-                            {template.defaultTags.slice(0, 2).map(tag => (
+                            {template.tags.slice(0, 2).map(tag => (
                               <Badge key={tag} variant="secondary" className="text-xs">
                                 {tag}
                               </Badge>
@@ -228,15 +400,29 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
                   <div className="flex items-center gap-2 mb-1">
                     <Sparkle size={14} weight="fill" className="text-foreground" />
                     <span className="text-sm font-medium">
-                      Using "{taskTemplates.find(t => t.id === selectedTemplate)?.name}" template
+                      Using "{selected?.name}" template
                     </span>
                   </div>
-                  {assignee !== 'unassigned' && (
+                  {selected?.builtin && assignee !== 'unassigned' && (
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <Users size={10} weight="bold" />
                       <span>Auto-assigned based on role matching</span>
                     </div>
                   )}
+                  {selected?.server?.autoAssign?.type && selected.server.autoAssign.type !== 'specific' && assignee === 'unassigned' && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Users size={10} weight="bold" />
+                      <span>Assignee chosen by {strategyLabels[selected.server.autoAssign.type]} on create</span>
+                    </div>
+                  )}
+                  {selected?.server && ((selected.server.checklist?.length || 0) > 0 || (selected.server.subtasks?.length || 0) > 0) && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <ListChecks size={10} weight="bold" />
+                      <span>
+                        Adds {selected.server.checklist?.length || 0} checklist items and {selected.server.subtasks?.length || 0} subtasks
+                      </span>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -418,10 +604,33 @@ const CreateTaskDialog = ({ onClose, onCreate, currentUser, teamMembers }: Creat
           </ScrollArea>
 
           <div className="flex gap-3 justify-end pt-6 border-t mt-6">
+            {!selected?.server && (
+              <div className="flex items-center gap-3 mr-auto">
+                <Button
+                  variant="ghost"
+                  onClick={handleSaveAsTemplate}
+                  disabled={isSubmitting}
+                  className="h-10 px-5 gap-2"
+                >
+                  <FloppyDisk size={16} />
+                  Save as Template
+                </Button>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="share-template"
+                    checked={shareTemplate}
+                    onCheckedChange={setShareTemplate}
+                  />
+                  <Label htmlFor="share-template" className="text-sm text-muted-foreground">
+                    Share with team
+                  </Label>
+                </div>
+              </div>
+            )}
             <Button variant="outline" onClick={onClose} className="h-10 px-5">
               Cancel
             </Button>
-            <Button onClick={handleCreate} className="h-10 px-5 gap-2">
+            <Button onClick={handleCreate} disabled={isSubmitting} className="h-10 px-5 gap-2">
               <CheckCircle size={16} weight="bold" />
               Create Task
             </Button>
@@ -0,0 +1,73 @@
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Badge } from '@/components/ui/badge'
+import { ClockCounterClockwise, ArrowRight } from '@phosphor-icons/react'
+import { useEntityHistory } from '@/hooks'
+import { AuditChange } from '@/api'
+
+export interface EntityHistoryProps {
+  entityType: string
+  entityId: string
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const ChangeRow = ({ change }: { change: AuditChange }) => (
+  <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground min-w-0">
+    <span className="font-medium text-foreground flex-shrink-0">{change.field}</span>
+    <span className="truncate line-through">{formatValue(change.oldValue)}</span>
+    <ArrowRight size={10} className="flex-shrink-0" />
+    <span className="truncate">{formatValue(change.newValue)}</span>
+  </div>
+)
+
+// Audit trail of one entity, newest first
+const EntityHistory = ({ entityType, entityId }: EntityHistoryProps) => {
+  const { history, isLoading, error } = useEntityHistory(entityType, entityId)
+
+  if (isLoading) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">Loading history...</p>
+  }
+
+  if (error) {
+    return <p className="py-8 text-center text-sm text-destructive">Failed to load history</p>
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <ClockCounterClockwise size={28} className="mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No history yet</p>
+      </div>
+    )
+  }
+
+  return (
+    <ScrollArea className="h-[360px] pr-3">
+      <div className="space-y-3">
+        {history.map(entry => (
+          <div key={entry._id} className="rounded-lg border border-border/50 p-3 space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">{entry.description}</p>
+              <Badge variant="secondary" className="text-[10px] h-5 flex-shrink-0">
+                {entry.action.replace(/_/g, ' ')}
+              </Badge>
+            </div>
+            <p className="text-[11px] text-muted-foreground">
+              {entry.actorName || entry.actorEmail} · {new Date(entry.timestamp).toLocaleString()}
+            </p>
+            {(entry.changes || []).map(change => (
+              <ChangeRow key={change.field} change={change} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  )
+}
+
+export default EntityHistory
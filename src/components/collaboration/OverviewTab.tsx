@@ -25,12 +25,12 @@ import {
   Trophy,
   Rocket
 } from '@phosphor-icons/react'
-import { Comment, Task, TeamMember, ACCESS_LEVEL_PERMISSIONS } from '@/lib/collaboration-data'
+import { Comment, Task, TeamMember } from '@/lib/collaboration-data'
 import { cn } from '@/lib/utils'
 import ActivityTimeline from '@/components/ActivityTimeline'
 import TaskCard from './TaskCard'
 import { accessLevelColors, accessLevelIcons, roleColors } from './constants'
-import { useNavigation } from '@/contexts'
+import { useAuth, useNavigation } from '@/contexts'
 
 export interface OverviewTabProps {
   currentUser: TeamMember
@@ -208,6 +208,8 @@ const TaskDistribution = ({ tasks }: { tasks: Task[] }) => {
 
 const OverviewTab = ({ currentUser, allMembers, tasks, comments }: OverviewTabProps) => {
   const { setActiveTab, setIsCreateTaskOpen } = useNavigation()
+  // Effective permissions as resolved by the server
+  const { permissions } = useAuth()
   const onlineMembers = allMembers.filter(m => m.isOnline)
   
   // Calculate statistics
@@ -424,10 +426,10 @@ const OverviewTab = ({ currentUser, allMembers, tasks, comments }: OverviewTabPr
                 </div>
               </div>
               <div className="space-y-2 text-sm">
-                {ACCESS_LEVEL_PERMISSIONS[currentUser.accessLevel]?.slice(0, 3).map((perm, i) => (
+                {permissions.slice(0, 3).map((perm, i) => (
                   <div key={i} className="flex items-center gap-2 text-muted-foreground">
                     <CheckCircle size={14} className="text-emerald-500" />
-                    <span>{perm}</span>
+                    <span>{perm.replace(/_/g, ' ')}</span>
                   </div>
                 ))}
               </div>
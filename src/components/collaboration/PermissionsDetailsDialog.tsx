@@ -26,7 +26,8 @@ import {
   FloppyDisk,
   Info
 } from '@phosphor-icons/react'
-import { TeamMember, AccessLevel, ACCESS_LEVEL_PERMISSIONS, Permission } from '@/lib/collaboration-data'
+import { TeamMember, AccessLevel, Permission } from '@/lib/collaboration-data'
+import { useAccessLevelPermissions, useMemberPermissions } from '@/hooks'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { 
@@ -101,7 +102,19 @@ const PermissionsDetailsDialog = ({ member, onClose, onSave, canEdit = false }:
   const [hasChanges, setHasChanges] = useState(false)
   const [expandedCategories, setExpandedCategories] = useState<string[]>(Object.keys(permissionCategories))
 
-  const basePermissions = ACCESS_LEVEL_PERMISSIONS[accessLevel] || []
+  const { effectivePermissions } = useMemberPermissions(member.id)
+  const { levelPermissions } = useAccessLevelPermissions()
+
+  // Base permissions come from the server: what the member holds beyond their
+  // grants, or the defaults of a level they are being moved to
+  const basePermissionsFor = (level: AccessLevel): Permission[] => {
+    if (level !== member.accessLevel) return levelPermissions[level] || []
+    const granted = effectivePermissions?.granted || member.customPermissions || []
+    const held = effectivePermissions?.permissions || member.permissions || []
+    return held.filter(p => !granted.includes(p))
+  }
+
+  const basePermissions = basePermissionsFor(accessLevel)
   const config = accessLevelConfig[accessLevel]
   const AccessIcon = config.icon
 
@@ -117,7 +130,7 @@ const PermissionsDetailsDialog = ({ member, onClose, onSave, canEdit = false }:
 
   const handleAccessLevelChange = (newLevel: AccessLevel) => {
     setAccessLevel(newLevel)
-    const newBasePermissions = ACCESS_LEVEL_PERMISSIONS[newLevel] || []
+    const newBasePermissions = basePermissionsFor(newLevel)
     setCustomPermissions(current => current.filter(p => !newBasePermissions.includes(p)))
     setHasChanges(true)
   }
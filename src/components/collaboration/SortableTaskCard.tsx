@@ -10,6 +10,10 @@ export interface SortableTaskCardProps {
   isDraggable?: boolean
   teamMembers?: TeamMember[]
   allTasks?: Task[]
+  isTimerRunning?: boolean
+  idleSince?: number | null
+  onStartTimer?: () => void
+  onStopTimer?: (discardIdle: boolean) => void
 }
 
 const SortableTaskCard = ({ 
@@ -18,7 +22,11 @@ const SortableTaskCard = ({
   onStatusChange, 
   isDraggable = true, 
   teamMembers, 
-  allTasks = [] 
+  allTasks = [],
+  isTimerRunning,
+  idleSince,
+  onStartTimer,
+  onStopTimer
 }: SortableTaskCardProps) => {
   const {
     attributes,
@@ -44,6 +52,10 @@ const SortableTaskCard = ({
         isDragging={isDragging}
         teamMembers={teamMembers}
         allTasks={allTasks}
+        isTimerRunning={isTimerRunning}
+        idleSince={idleSince}
+        onStartTimer={onStartTimer}
+        onStopTimer={onStopTimer}
       />
     </div>
   )
@@ -31,11 +31,16 @@ import {
   Star,
   ArrowsClockwise,
   CaretRight,
-  Check
+  Check,
+  Play,
+  Stop,
+  ClockCounterClockwise
 } from '@phosphor-icons/react'
 import { Task, TeamMember, mockTeamMembers } from '@/lib/collaboration-data'
 import { cn } from '@/lib/utils'
+import { useAuth } from '@/contexts'
 import { priorityColors } from './constants'
+import EntityHistory from './EntityHistory'
 import {
   Tooltip,
   TooltipContent,
@@ -50,6 +55,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from '@/components/ui/dropdown-menu'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 
 export interface TaskCardProps {
   task: Task
@@ -60,6 +67,12 @@ export interface TaskCardProps {
   isDragging?: boolean
   teamMembers?: TeamMember[]
   allTasks?: Task[]
+  // The current user's timer runs on this task
+  isTimerRunning?: boolean
+  // When the user went idle while the timer runs, from its heartbeat
+  idleSince?: number | null
+  onStartTimer?: () => void
+  onStopTimer?: (discardIdle: boolean) => void
 }
 
 const priorityConfig = {
@@ -148,9 +161,17 @@ const TaskCard = ({
   isDraggable = false, 
   isDragging = false, 
   teamMembers = mockTeamMembers, 
-  allTasks = [] 
+  allTasks = [],
+  isTimerRunning = false,
+  idleSince = null,
+  onStartTimer,
+  onStopTimer
 }: TaskCardProps) => {
   const [isHovered, setIsHovered] = useState(false)
+  const [detailsTab, setDetailsTab] = useState<'details' | 'history' | null>(null)
+  // The history tab reads the audit log
+  const { hasPermission } = useAuth()
+  const canViewHistory = hasPermission('view_audit_logs')
   const assignee = teamMembers.find(m => m.id === task.assigneeId)
   const priority = priorityConfig[task.priority]
   const status = statusConfig[task.status]
@@ -298,6 +319,22 @@ const TaskCard = ({
                     </Tooltip>
                   )}
                   
+                  {isTimerRunning && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="h-5 px-1.5 gap-1 text-[10px] font-medium border-green-500/30 bg-green-500/10 text-green-600 dark:text-green-400">
+                          <Play size={10} weight="fill" />
+                          {idleSince ? 'Idle' : 'Tracking'}
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {idleSince
+                          ? `Timer running, idle since ${new Date(idleSince).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+                          : 'Your timer is running on this task'}
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+
                   {task.status === 'in-progress' && (
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -338,10 +375,28 @@ const TaskCard = ({
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-48">
                   <DropdownMenuLabel className="text-xs text-muted-foreground">Actions</DropdownMenuLabel>
-                  <DropdownMenuItem className="gap-2 text-sm">
+                  <DropdownMenuItem
+                    className="gap-2 text-sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setDetailsTab('details')
+                    }}
+                  >
                     <Eye size={14} />
                     View Details
                   </DropdownMenuItem>
+                  {canViewHistory && (
+                    <DropdownMenuItem
+                      className="gap-2 text-sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setDetailsTab('history')
+                      }}
+                    >
+                      <ClockCounterClockwise size={14} />
+                      View History
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem className="gap-2 text-sm">
                     <Pencil size={14} />
                     Edit Task
@@ -354,6 +409,53 @@ const TaskCard = ({
                     <Link size={14} />
                     Copy Link
                   </DropdownMenuItem>
+                  {!isTimerRunning && onStartTimer && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="gap-2 text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onStartTimer()
+                        }}
+                      >
+                        <Play size={14} />
+                        Start Timer
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  {isTimerRunning && onStopTimer && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="gap-2 text-sm"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onStopTimer(false)
+                        }}
+                      >
+                        <Stop size={14} />
+                        Stop Timer
+                      </DropdownMenuItem>
+                      {idleSince && (
+                        <DropdownMenuItem
+                          className="gap-2 text-sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onStopTimer(true)
+                          }}
+                        >
+                          <Stop size={14} />
+                          <div className="flex flex-col">
+                            <span>Stop, Discard Idle Time</span>
+                            <span className="text-[10px] text-muted-foreground">
+                              Ends at {new Date(idleSince).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                            </span>
+                          </div>
+                        </DropdownMenuItem>
+                      )}
+                    </>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem className="gap-2 text-sm">
                     <GitBranch size={14} />
@@ -634,6 +736,42 @@ const TaskCard = ({
           </div>
         </CardContent>
       </Card>
+
+      {/* Task Details, with the history tab for audit log readers */}
+      <Dialog open={detailsTab !== null} onOpenChange={(open) => !open && setDetailsTab(null)}>
+        <DialogContent className="max-w-lg" onClick={(e) => e.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{task.title}</DialogTitle>
+            <DialogDescription>
+              {status.label} · {priority.label} Priority
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs value={detailsTab || 'details'} onValueChange={(value) => setDetailsTab(value as 'details' | 'history')}>
+            <TabsList className={cn("grid w-full", canViewHistory ? "grid-cols-2" : "grid-cols-1")}>
+              <TabsTrigger value="details">Details</TabsTrigger>
+              {canViewHistory && <TabsTrigger value="history">History</TabsTrigger>}
+            </TabsList>
+            <TabsContent value="details" className="space-y-3 pt-2">
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                {task.description || 'No description'}
+              </p>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <span className="text-muted-foreground">Assignee</span>
+                <span className="font-medium">{assignee?.name || 'Unassigned'}</span>
+                <span className="text-muted-foreground">Due</span>
+                <span className="font-medium">{dueDateInfo ? formatDueDate(dueDateInfo.dueDate) : 'No due date'}</span>
+                <span className="text-muted-foreground">Tags</span>
+                <span className="font-medium">{(task.tags || []).join(', ') || 'None'}</span>
+              </div>
+            </TabsContent>
+            {canViewHistory && (
+              <TabsContent value="history" className="pt-2">
+                <EntityHistory entityType="task" entityId={task.id} />
+              </TabsContent>
+            )}
+          </Tabs>
+        </DialogContent>
+      </Dialog>
     </TooltipProvider>
   )
 }
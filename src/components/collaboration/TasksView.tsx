@@ -34,6 +34,7 @@ import {
 import { Task, TeamMember, canEditTask } from '@/lib/collaboration-data'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
+import { useRunningTimer } from '@/hooks'
 import {
   DndContext,
   closestCenter,
@@ -128,6 +129,7 @@ const TasksView = ({ tasks, setTasks, teamMembers, currentUser, updateTaskStatus
   const [searchQuery, setSearchQuery] = useState('')
   const [sortByPriority, setSortByPriority] = useState<boolean>(false)
   const [taskOrder, setTaskOrder] = useState<Record<string, string[]>>({})
+  const { runningTimer, idleSince, startTimer, stopTimer } = useRunningTimer()
   const [activeId, setActiveId] = useState<string | null>(null)
   const [dependenciesDialogTask, setDependenciesDialogTask] = useState<Task | null>(null)
   const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban')
@@ -240,6 +242,24 @@ const TasksView = ({ tasks, setTasks, teamMembers, currentUser, updateTaskStatus
     }
   }
 
+  const handleStartTimer = async (task: Task) => {
+    try {
+      await startTimer(task.id)
+      toast.success(`Timer started for "${task.title}"`)
+    } catch (error) {
+      toast.error('Failed to start timer')
+    }
+  }
+
+  const handleStopTimer = async (discardIdle: boolean) => {
+    try {
+      await stopTimer(discardIdle)
+      toast.success(discardIdle ? 'Timer stopped, idle time discarded' : 'Timer stopped')
+    } catch (error) {
+      toast.error('Failed to stop timer')
+    }
+  }
+
   const updateTaskDependencies = async (taskId: string, dependencies: string[]) => {
     // Use API if provided, otherwise update locally
     if (updateTaskDependenciesApi) {
@@ -723,6 +743,10 @@ const TasksView = ({ tasks, setTasks, teamMembers, currentUser, updateTaskStatus
                                 isDraggable={!sortByPriority}
                                 teamMembers={teamMembers}
                                 allTasks={tasks}
+                                isTimerRunning={runningTimer?.taskId === task.id}
+                                idleSince={idleSince}
+                                onStartTimer={() => handleStartTimer(task)}
+                                onStopTimer={handleStopTimer}
                               />
                             ))}
                             {statusTasks.length === 0 && (
@@ -769,6 +793,10 @@ const TasksView = ({ tasks, setTasks, teamMembers, currentUser, updateTaskStatus
                         teamMembers={teamMembers}
                         allTasks={tasks}
                         compact={false}
+                        isTimerRunning={runningTimer?.taskId === task.id}
+                        idleSince={idleSince}
+                        onStartTimer={() => handleStartTimer(task)}
+                        onStopTimer={handleStopTimer}
                       />
                     ))
                   )}
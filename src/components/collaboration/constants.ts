@@ -57,6 +57,7 @@ export const allPermissions: Permission[] = [
   "manage_roadmap",
   "view_analytics",
   "export_data",
+  "view_audit_logs",
 ];
 
 export const permissionDescriptions: Record<Permission, string> = {
@@ -74,6 +75,7 @@ export const permissionDescriptions: Record<Permission, string> = {
   manage_roadmap: "Manage roadmap phases and milestones",
   view_analytics: "Access analytics and reports",
   export_data: "Export system data and reports",
+  view_audit_logs: "Search and export the audit log and security alerts",
 };
 
 export const permissionCategories = {
@@ -94,7 +96,11 @@ export const permissionCategories = {
     "manage_workflows",
     "manage_roadmap",
   ] as Permission[],
-  "Data & Analytics": ["view_analytics", "export_data"] as Permission[],
+  "Data & Analytics": [
+    "view_analytics",
+    "export_data",
+    "view_audit_logs",
+  ] as Permission[],
 };
 
 export const accessLevelDescriptions: Record<
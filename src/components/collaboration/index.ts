@@ -9,6 +9,7 @@ export { default as AddEditMemberDialog } from "./AddEditMemberDialog";
 export { default as CreateTaskDialog } from "./CreateTaskDialog";
 export { default as PermissionsDetailsDialog } from "./PermissionsDetailsDialog";
 export { default as OverviewTab } from "./OverviewTab";
+export { default as EntityHistory } from "./EntityHistory";
 
 // Re-export types
 export type { TasksViewProps } from "./TasksView";
@@ -18,6 +19,7 @@ export type { CommentCardProps } from "./CommentCard";
 export type { CreateTaskDialogProps } from "./CreateTaskDialog";
 export type { PermissionsDetailsDialogProps } from "./PermissionsDetailsDialog";
 export type { OverviewTabProps } from "./OverviewTab";
+export type { EntityHistoryProps } from "./EntityHistory";
 
 // Re-export constants
 export * from "./constants";
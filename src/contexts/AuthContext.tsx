@@ -1,12 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { authService, AuthResponse, LoginCredentials, RegisterData } from '../api';
-import type { TeamMember } from '../lib/collaboration-data';
+import type { TeamMember, Permission } from '../lib/collaboration-data';
 
 interface AuthContextType {
   user: TeamMember | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  // Effective permissions as resolved by the server
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
+  refreshPermissions: () => Promise<void>;
   login: (credentials: LoginCredentials) => Promise<boolean>;
   register: (data: RegisterData) => Promise<boolean>;
   logout: () => Promise<void>;
@@ -20,6 +24,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<TeamMember | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+
+  const refreshPermissions = useCallback(async () => {
+    try {
+      const response = await authService.getPermissions();
+      if (response.success && response.data) {
+        setPermissions(response.data.permissions);
+      }
+    } catch {
+      // Keep the last known permissions; the server enforces them anyway
+    }
+  }, []);
 
   // Initialize auth state from stored data
   useEffect(() => {
@@ -34,6 +50,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               const response = await authService.getCurrentUser();
               if (response.success && response.data) {
                 setUser(response.data);
+                await refreshPermissions();
               }
             } catch {
               // Token might be expired, will be handled by refresh or logout
@@ -46,12 +63,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
 
     initAuth();
-  }, []);
+  }, [refreshPermissions]);
 
   // Listen for unauthorized events (token expired)
   useEffect(() => {
     const handleUnauthorized = () => {
       setUser(null);
+      setPermissions([]);
       setError('Session expired. Please login again.');
     };
 
@@ -66,6 +84,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authService.login(credentials);
       if (response.success && response.data) {
         setUser(response.data.user);
+        await refreshPermissions();
         return true;
       }
       setError(response.message || 'Login failed');
@@ -76,7 +95,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [refreshPermissions]);
 
   const register = useCallback(async (data: RegisterData): Promise<boolean> => {
     setIsLoading(true);
@@ -85,6 +104,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await authService.register(data);
       if (response.success && response.data) {
         setUser(response.data.user);
+        await refreshPermissions();
         return true;
       }
       setError(response.message || 'Registration failed');
@@ -95,7 +115,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [refreshPermissions]);
 
   const logout = useCallback(async () => {
     setIsLoading(true);
@@ -103,6 +123,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       await authService.logout();
     } finally {
       setUser(null);
+      setPermissions([]);
       setIsLoading(false);
     }
   }, []);
@@ -111,6 +132,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(updatedUser);
   }, []);
 
+  const hasPermission = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -120,6 +146,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: !!user,
     isLoading,
     error,
+    permissions,
+    hasPermission,
+    refreshPermissions,
     login,
     register,
     logout,
@@ -73,6 +73,15 @@ export interface Organization {
 export interface UsageStats {
   users: { current: number; limit: number; percentage: number };
   tasks: { current: number; limit: number; percentage: number };
+  apiCalls: { current: number; limit: number; percentage: number; period: string };
+  storage: {
+    current: number;
+    limit: number;
+    percentage: number;
+    attachments: number;
+    backups: number;
+    reconciledAt: string | null;
+  };
   plan: string;
   features: string[];
 }
@@ -5,3 +5,8 @@ export { useApi, usePaginatedApi, useMutation } from "./useApi";
 export { useTasks } from "./useTasks";
 export { useComments } from "./useComments";
 export { useTeamMembers } from "./useTeamMembers";
+export { useTimerHeartbeat } from "./useTimerHeartbeat";
+export { useRunningTimer } from "./useRunningTimer";
+export { useEntityHistory } from "./useEntityHistory";
+export { useAccessLevelPermissions } from "./useAccessLevelPermissions";
+export { useMemberPermissions } from "./useMemberPermissions";
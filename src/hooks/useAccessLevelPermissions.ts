@@ -0,0 +1,28 @@
+import { useCallback, useEffect } from "react";
+import { teamService } from "../api";
+import type { AccessLevel, Permission } from "../lib/collaboration-data";
+import { useApi } from "./useApi";
+
+/**
+ * Base permissions of each access level as defined by the server, for
+ * previewing a level before it is assigned.
+ */
+export function useAccessLevelPermissions() {
+  const fetchLevels = useCallback(
+    () => teamService.getAccessLevelPermissions(),
+    []
+  );
+  const { data, isLoading, error, execute } =
+    useApi<Record<AccessLevel, Permission[]>>(fetchLevels);
+
+  useEffect(() => {
+    execute();
+  }, [execute]);
+
+  return {
+    levelPermissions:
+      data || ({} as Partial<Record<AccessLevel, Permission[]>>),
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect } from "react";
+import { auditService, AuditLogEntry } from "../api";
+import { useApi } from "./useApi";
+
+/**
+ * Audit history of one entity, e.g. a task's history tab. Only owners and
+ * admins can read the audit log, so pass enabled=false for other users.
+ */
+export function useEntityHistory(
+  entityType: string,
+  entityId: string | undefined,
+  enabled = true
+) {
+  const fetchHistory = useCallback(
+    () => auditService.getEntityHistory(entityType, entityId!),
+    [entityType, entityId]
+  );
+  const { data, isLoading, error, execute } =
+    useApi<AuditLogEntry[]>(fetchHistory);
+
+  useEffect(() => {
+    if (enabled && entityId) {
+      execute();
+    }
+  }, [enabled, entityId, execute]);
+
+  return {
+    history: data || [],
+    isLoading,
+    error,
+    refresh: execute,
+  };
+}
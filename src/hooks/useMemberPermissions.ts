@@ -0,0 +1,29 @@
+import { useCallback, useEffect } from "react";
+import { teamService, EffectivePermissions } from "../api";
+import { useApi } from "./useApi";
+
+/**
+ * A member's effective permissions as resolved by the server, split into
+ * what they hold, what was granted on top and what was denied.
+ */
+export function useMemberPermissions(memberId: string | undefined) {
+  const fetchPermissions = useCallback(
+    () => teamService.getMemberPermissions(memberId!),
+    [memberId]
+  );
+  const { data, isLoading, error, execute } =
+    useApi<EffectivePermissions>(fetchPermissions);
+
+  useEffect(() => {
+    if (memberId) {
+      execute();
+    }
+  }, [memberId, execute]);
+
+  return {
+    effectivePermissions: data,
+    isLoading,
+    error,
+    refresh: execute,
+  };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+import { timeEntryService, TimeEntry } from "../api";
+import { useTimerHeartbeat } from "./useTimerHeartbeat";
+
+/**
+ * The current user's running timer. Sends idle heartbeats while it runs so
+ * idle time can be discarded when stopping.
+ */
+export function useRunningTimer() {
+  const [runningTimer, setRunningTimer] = useState<TimeEntry | null>(null);
+  const { idleSince } = useTimerHeartbeat(!!runningTimer);
+
+  useEffect(() => {
+    timeEntryService
+      .getRunningTimer()
+      .then((result) => {
+        if (result.success) {
+          setRunningTimer(result.data || null);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load running timer:", error);
+      });
+  }, []);
+
+  // Starting a timer stops the previous one on the server
+  const startTimer = useCallback(async (taskId: string) => {
+    const result = await timeEntryService.startTimer({ taskId });
+    if (result.success && result.data) {
+      setRunningTimer(result.data);
+    }
+    return result;
+  }, []);
+
+  const stopTimer = useCallback(async (discardIdle = false) => {
+    const result = await timeEntryService.stopTimer({ discardIdle });
+    if (result.success) {
+      setRunningTimer(null);
+    }
+    return result;
+  }, []);
+
+  return {
+    runningTimer,
+    idleSince,
+    startTimer,
+    stopTimer,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * React Hook for Running Timer Heartbeats
+ * Reports when the user went idle so idle time can be discarded on stop
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { timeEntryService } from "@/api";
+
+// Without input for this long the user counts as idle
+const IDLE_THRESHOLD = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL = 60 * 1000;
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+];
+
+interface UseTimerHeartbeatReturn {
+  // Timestamp the user went idle, or null while active
+  idleSince: number | null;
+}
+
+export function useTimerHeartbeat(isRunning: boolean): UseTimerHeartbeatReturn {
+  const [idleSince, setIdleSince] = useState<number | null>(null);
+  const lastActivity = useRef<number>(Date.now());
+  const idleSinceRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!isRunning) {
+      idleSinceRef.current = null;
+      setIdleSince(null);
+      return;
+    }
+
+    lastActivity.current = Date.now();
+
+    const sendHeartbeat = async (value: number | null) => {
+      try {
+        await timeEntryService.sendHeartbeat(value);
+      } catch (error) {
+        console.error("Failed to send timer heartbeat:", error);
+      }
+    };
+
+    const updateIdleState = (value: number | null) => {
+      if (idleSinceRef.current === value) return;
+      idleSinceRef.current = value;
+      setIdleSince(value);
+      sendHeartbeat(value);
+    };
+
+    const handleActivity = () => {
+      lastActivity.current = Date.now();
+      // Clear idle state straight away when the user comes back
+      if (idleSinceRef.current !== null) {
+        updateIdleState(null);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        handleActivity();
+      }
+    };
+
+    const tick = () => {
+      const now = Date.now();
+      if (now - lastActivity.current >= IDLE_THRESHOLD) {
+        updateIdleState(lastActivity.current);
+      }
+      sendHeartbeat(idleSinceRef.current);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    sendHeartbeat(null);
+    const interval = setInterval(tick, HEARTBEAT_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [isRunning]);
+
+  return { idleSince };
+}
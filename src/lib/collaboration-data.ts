@@ -15,49 +15,7 @@ export type Permission =
   | 'manage_roadmap'
   | 'view_analytics'
   | 'export_data'
-
-export const ACCESS_LEVEL_PERMISSIONS: Record<AccessLevel, Permission[]> = {
-  owner: [
-    'manage_team',
-    'manage_roles',
-    'manage_permissions',
-    'create_tasks',
-    'assign_tasks',
-    'delete_tasks',
-    'edit_all_tasks',
-    'create_comments',
-    'delete_comments',
-    'manage_services',
-    'manage_workflows',
-    'manage_roadmap',
-    'view_analytics',
-    'export_data'
-  ],
-  admin: [
-    'manage_team',
-    'create_tasks',
-    'assign_tasks',
-    'delete_tasks',
-    'edit_all_tasks',
-    'create_comments',
-    'delete_comments',
-    'manage_services',
-    'manage_workflows',
-    'manage_roadmap',
-    'view_analytics',
-    'export_data'
-  ],
-  member: [
-    'create_tasks',
-    'assign_tasks',
-    'create_comments',
-    'view_analytics',
-    'export_data'
-  ],
-  viewer: [
-    'create_comments'
-  ]
-}
+  | 'view_audit_logs'
 
 export interface TeamMember {
   id: string
@@ -66,6 +24,12 @@ export interface TeamMember {
   role: 'architect' | 'developer' | 'devops' | 'product'
   accessLevel: AccessLevel
   customPermissions?: Permission[]
+  deniedPermissions?: Permission[]
+  // Custom role whose permissions replace those of the access level
+  customRoleId?: string | null
+  customRole?: { id: string; name: string; permissions: Permission[] } | null
+  // Effective permissions as resolved by the server
+  permissions?: Permission[]
   avatarUrl?: string
   isOnline: boolean
 }
@@ -104,6 +68,9 @@ export interface Task {
   tags: string[]
   comments: string[]
   dependencies?: string[]
+  isPrivate?: boolean // visible only to creator, assignee and watchers
+  watchers?: string[]
+  totalTimeLogged?: number // seconds, from completed time entries
 }
 
 export interface Activity {
@@ -116,10 +83,9 @@ export interface Activity {
   content: string
 }
 
+// Checks the server-resolved set; members without one hold no permissions
 export function hasPermission(member: TeamMember, permission: Permission): boolean {
-  const basePermissions = ACCESS_LEVEL_PERMISSIONS[member.accessLevel] || []
-  const customPermissions = member.customPermissions || []
-  return basePermissions.includes(permission) || customPermissions.includes(permission)
+  return member.permissions?.includes(permission) ?? false
 }
 
 export function canManageTeam(member: TeamMember): boolean {